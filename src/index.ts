@@ -13,9 +13,13 @@ import notificacionesRoutes from "./routes/notificaciones"
 import authRoutes from './routes/auth';
 import usuarioRoutes from './routes/usuario'
 import aTecnicoRoutes from './routes/atecnico';
+import simbolosRoutes from './routes/simbolos';
 
 // Servicios
 import { monitorService } from './services/servicioMonitoreo';
+import { servicioSimbolos } from './services/servicioSimbolos';
+import { servicioSnapshots } from './services/servicioSnapshots';
+import { obtenerBinanceService } from './services/servicioBinance';
 import { createServer } from 'http';
 import { webSocketService } from './services/servicioWebSocket';
 import { authenticateToken } from './services/middleware/auth';
@@ -56,6 +60,7 @@ app.use('/api/usuario', usuarioRoutes);
 app.use('/api/binance', binanceRoutes);
 app.use('/api/atecnico', aTecnicoRoutes);
 app.use('/api/alertas', alertasRoutes);
+app.use('/api/simbolos', simbolosRoutes);
 app.use('/api/notificaciones', authenticateToken, notificacionesRoutes);
 
 // =============================================================================
@@ -156,10 +161,22 @@ server.listen(port, () => {
   console.log(`📊 WebSocket Service: ${webSocketService ? 'ACTIVO' : 'INACTIVO'}`);
 });
 
-// Iniciar el monitoreo de precios cuando el servidor arranque
-monitorService.iniciarMonitoreoPrecios((prices) => {
-  console.log('Precios actualizados:', prices);
-}, 30000); // Cada 30 segundos
+// Cargar el registro de símbolos y, con él, iniciar el monitoreo de precios
+// (si la carga falla se monitorizan los símbolos iniciales). El estado de los
+// pares es el de mainnet: la testnet solo lista unos pocos
+servicioSimbolos
+  .cargar(obtenerBinanceService('mainnet'))
+  .catch((error) => {
+    console.error('❌ Error cargando el registro de símbolos:', error);
+  })
+  .finally(() => {
+    monitorService.iniciarMonitoreoPrecios((prices) => {
+      console.log('Precios actualizados:', prices);
+    }, 30000); // Cada 30 segundos
+  });
+
+// Histórico del valor de las carteras (cada hora)
+servicioSnapshots.iniciar();
 
 process.on('SIGINT', () => {
   console.log('Recibida señal SIGINT, cerrando servidor...');
@@ -167,6 +184,7 @@ process.on('SIGINT', () => {
   // Detener el monitoreo antes de cerrar
   monitorService.detenerMonitoreoPrecios();
   monitorService.detenerTodosMonitoreosCompras();
+  servicioSnapshots.detener();
   console.log('⏹️ Monitoreo de precios detenido');
   
   server.close(() => {
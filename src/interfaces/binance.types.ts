@@ -2,6 +2,9 @@ export interface BinanceCredentials {
     apiKey: string;
     apiSecret: string;
   }
+
+  // Entorno de la API de Binance al que apunta una conexión
+  export type EntornoBinance = "mainnet" | "testnet" | "custom";
   
   export interface BinanceBalance {
     asset: string;
@@ -13,6 +16,8 @@ export interface BinanceCredentials {
     asset: string;
     totalAmount: string;
     annualPercentageRate: string;
+    productId?: string;
+    canRedeem?: boolean;
   }
   
   export interface LockedPosition {
@@ -43,6 +48,23 @@ export interface BinanceCredentials {
     rows: LockedPosition[];
     total: number;
   }
+
+  // Producto flexible de Simple Earn (/sapi/v1/simple-earn/flexible/list)
+  export interface ProductoEarnFlexible {
+    asset: string;
+    productId: string;
+    latestAnnualPercentageRate: string;
+    canPurchase: boolean;
+    canRedeem: boolean;
+    isSoldOut: boolean;
+    minPurchaseAmount: string;
+    status: string;
+  }
+
+  export interface ProductosEarnFlexibleResponse {
+    rows: ProductoEarnFlexible[];
+    total: number;
+  }
   
   export interface TradeFeeResponse {
     symbol: string;
@@ -88,6 +110,7 @@ export interface BinanceCredentials {
     startTime?: number;
     endTime?: number;
     fromId?: number;
+    orderId?: number; // todos los fills de una orden
     limit?: number;
   }
 
@@ -106,6 +129,7 @@ export interface BinanceOrder {
   timeInForce: string;
   type: string;
   side: string;
+  stopPrice?: string; // solo en órdenes STOP_LOSS* / TAKE_PROFIT*
   strategyId?: number;
   strategyType?: number;
   workingTime: number;
@@ -136,6 +160,7 @@ export interface OrderResponse {
   order?: BinanceOrder;
   error?: string;
   code?: number;
+  rechazo?: RechazoFiltro; // si la orden no pasa los filtros del símbolo
 }
 export interface ExchangeInfoResponse {
   timezone: string;
@@ -169,4 +194,218 @@ export interface ExchangeInfoResponse {
     }>;
     permissions: string[];
   }>;
-}
\ No newline at end of file
+}
+
+// Filtro de exchangeInfo que ha rechazado una orden
+export type FiltroOrden =
+  | "PRICE_FILTER"
+  | "LOT_SIZE"
+  | "MARKET_LOT_SIZE"
+  | "NOTIONAL"
+  | "MIN_NOTIONAL"
+  | "PERCENT_PRICE_BY_SIDE"
+  | "PRECIO_STOP"
+  | "PARAMETROS";
+
+export interface RechazoFiltro {
+  filtro: FiltroOrden;
+  mensaje: string;
+  valor?: number; // valor de la orden que incumple el filtro
+  limite?: number; // límite del filtro
+}
+
+// Tipos de orden que se pueden enviar desde la aplicación
+export type TipoOrden =
+  | "MARKET"
+  | "LIMIT"
+  | "STOP_LOSS"
+  | "STOP_LOSS_LIMIT"
+  | "TAKE_PROFIT"
+  | "TAKE_PROFIT_LIMIT"
+  | "LIMIT_MAKER";
+
+// Orden que se quiere validar contra los filtros del símbolo
+export interface OrdenAValidar {
+  side: "BUY" | "SELL";
+  type?: TipoOrden;
+  quantity?: number | string;
+  quoteOrderQty?: number | string;
+  price?: number | string;
+  stopPrice?: number | string; // órdenes STOP_LOSS* / TAKE_PROFIT*
+  precioReferencia: number; // precio medio/actual, para MARKET y PERCENT_PRICE_BY_SIDE
+}
+
+// Orden ya redondeada (strings listos para enviar) o motivo del rechazo
+export interface ResultadoValidacionOrden {
+  valida: boolean;
+  quantity?: string;
+  quoteOrderQty?: string;
+  price?: string;
+  stopPrice?: string;
+  cantidadEstimada: number;
+  notionalEstimado: number;
+  rechazo?: RechazoFiltro; // primer filtro incumplido
+  rechazos: RechazoFiltro[];
+}
+
+// Eventos del user data stream
+export interface ExecutionReportEvent {
+  e: "executionReport";
+  E: number; // hora del evento
+  s: string; // símbolo
+  c: string; // clientOrderId
+  S: "BUY" | "SELL";
+  o: string; // tipo de orden
+  q: string; // cantidad de la orden
+  p: string; // precio de la orden
+  x: string; // tipo de ejecución (NEW, TRADE, CANCELED...)
+  X: string; // estado de la orden
+  i: number; // orderId
+  l: string; // cantidad de este fill
+  z: string; // cantidad acumulada
+  L: string; // precio de este fill
+  n: string; // comisión de este fill
+  N: string | null; // activo de la comisión
+  T: number; // hora del trade
+  t: number; // tradeId (-1 si no hay trade)
+  g: number; // orderListId (-1 si no es parte de una OCO)
+  P: string; // precio stop
+  m: boolean; // maker
+  Z: string; // quote acumulado
+  Y: string; // quote de este fill
+}
+
+export interface OutboundAccountPositionEvent {
+  e: "outboundAccountPosition";
+  E: number;
+  u: number; // última actualización de la cuenta
+  B: Array<{ a: string; f: string; l: string }>; // activo, libre, bloqueado
+}
+
+// Cambio de estado de una lista de órdenes (OCO)
+export interface ListStatusEvent {
+  e: "listStatus";
+  E: number;
+  s: string; // símbolo
+  g: number; // orderListId
+  c: string; // tipo de contingencia (OCO)
+  l: string; // estado de la lista (RESPONSE, EXEC_STARTED, ALL_DONE)
+  L: string; // estado de las órdenes (EXECUTING, ALL_DONE, REJECT)
+  r: string; // motivo de rechazo
+  C: string; // listClientOrderId
+  T: number;
+  O: Array<{ s: string; i: number; c: string }>;
+}
+
+// OCO: una orden límite (objetivo) y una stop; al ejecutarse una se cancela la otra
+export interface OcoOrderParams {
+  symbol: string;
+  side: "BUY" | "SELL";
+  quantity: number | string;
+  price: number | string; // precio de la orden límite (take profit en una venta)
+  stopPrice: number | string; // precio que dispara la orden stop
+  stopLimitPrice?: number | string; // si se indica, la stop es STOP_LOSS_LIMIT
+  listClientOrderId?: string;
+}
+
+export interface BinanceOrderList {
+  orderListId: number;
+  contingencyType: string;
+  listStatusType: string;
+  listOrderStatus: string;
+  listClientOrderId: string;
+  transactionTime: number;
+  symbol: string;
+  orders: Array<{ symbol: string; orderId: number; clientOrderId: string }>;
+  orderReports?: Array<
+    Omit<BinanceOrder, "fills"> & { orderListId: number; stopPrice?: string }
+  >;
+}
+
+// Una orden se identifica por su orderId o por el clientOrderId con que se creó
+export interface ReferenciaOrden {
+  orderId?: number;
+  origClientOrderId?: string;
+}
+
+// Cancela una orden y crea otra en la misma petición (cancelReplace)
+export interface CancelReplaceParams {
+  symbol: string;
+  side: "BUY" | "SELL";
+  type: TipoOrden;
+  cancelar: ReferenciaOrden;
+  quantity?: number | string;
+  price?: number | string;
+  stopPrice?: number | string;
+  newClientOrderId?: string;
+}
+
+export interface CancelReplaceResponse {
+  success: boolean;
+  cancelResult?: "SUCCESS" | "FAILURE" | "NOT_ATTEMPTED";
+  newOrderResult?: "SUCCESS" | "FAILURE" | "NOT_ATTEMPTED";
+  cancelResponse?: Omit<BinanceOrder, "fills" | "workingTime">;
+  newOrder?: BinanceOrder;
+  error?: string;
+  code?: number;
+  rechazo?: RechazoFiltro;
+}
+
+// Parámetros de /sapi/v1/capital/deposit/hisrec y /withdraw/history
+// (el rango no puede superar 90 días)
+export interface HistorialCapitalParams {
+  coin?: string;
+  startTime?: number;
+  endTime?: number;
+  offset?: number;
+  limit?: number; // máximo 1000
+}
+
+export interface DepositoBinance {
+  id: string;
+  amount: string;
+  coin: string;
+  network: string;
+  status: number; // 0 pendiente, 6 abonado sin poder retirar, 1 completado, 7 erróneo, 2 rechazado
+  address: string;
+  txId: string;
+  insertTime: number;
+  completeTime?: number;
+}
+
+export interface RetiroBinance {
+  id: string;
+  amount: string;
+  transactionFee: string;
+  coin: string;
+  network: string;
+  status: number; // 0 email enviado, 2 pendiente de aprobar, 4 procesando, 6 completado, 1 cancelado, 3 rechazado, 5 fallido
+  address: string;
+  txId?: string;
+  applyTime: string; // "2024-01-31 10:00:00" en UTC
+  completeTime?: string;
+}
+
+// Respuesta de /sapi/v1/account/apiRestrictions: lo que puede hacer la API key
+export interface RestriccionesApiBinance {
+  ipRestrict: boolean;
+  createTime: number;
+  enableReading: boolean;
+  enableSpotAndMarginTrading: boolean;
+  enableWithdrawals: boolean;
+  enableInternalTransfer: boolean;
+  enableMargin: boolean;
+  enableFutures: boolean;
+  permitsUniversalTransfer: boolean;
+  enableVanillaOptions: boolean;
+  enablePortfolioMarginTrading?: boolean;
+  tradingAuthorityExpirationTime?: number;
+}
+
+export interface OcoOrderResponse {
+  success: boolean;
+  orderList?: BinanceOrderList;
+  error?: string;
+  code?: number;
+  rechazo?: RechazoFiltro;
+}
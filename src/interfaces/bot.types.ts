@@ -12,4 +12,6 @@ export interface BotConfig {
   cooldownMinutes: number;
   fechaActivacion?: string;
   maxInversion: number;
+  idCuenta?: number | null; // cuenta con la que opera (por defecto la primera)
+  earnAutomatico?: boolean; // aparca el saldo libre en Earn flexible y lo reembolsa al comprar
 }
@@ -1,3 +1,5 @@
+import { RechazoFiltro } from "./binance.types";
+
 export interface Alerta {
     id: number;
     user_id?: string;
@@ -28,8 +30,340 @@ export interface Alerta {
 
   export interface DatosActualizacionAlerta {
     criptomoneda?: string;
+    moneda?: string;
     condicion?: string;
     precio_objetivo?: number;
     precio_actual?: number;
     leida?: boolean;
-  }
\ No newline at end of file
+  }
+
+  // Fila de la tabla "protecciones": OCO u orden condicional de venta
+  // asociada a una compra
+  export interface Proteccion {
+    id: number;
+    idCompra: number;
+    idUsuario: string;
+    exchange: string;
+    idCuenta: number;
+    simbolo: string;
+    tipo: string; // OCO, STOP_LOSS, STOP_LOSS_LIMIT, TAKE_PROFIT...
+    idListaOrdenes: number | null; // orderListId de la OCO
+    idOrdenObjetivo: number | null; // orden límite / take profit
+    idOrdenStop: number | null; // orden stop loss
+    precioObjetivo: number | null;
+    precioStop: number | null;
+    precioStopLimite: number | null;
+    cantidad: number;
+    cantidadEjecutada: number;
+    estado: "activa" | "ejecutada" | "cancelada";
+    ladoEjecutado: "objetivo" | "stop" | null;
+    fechaCreacion: string;
+    fechaCierre: string | null;
+  }
+
+  export interface ResultadoProteccion {
+    success: boolean;
+    proteccion?: Proteccion;
+    error?: string;
+    code?: number;
+    rechazo?: RechazoFiltro; // filtro del símbolo que ha rechazado la orden
+  }
+
+  // Fila de la tabla "ordenesPendientes": orden lanzada desde la aplicación
+  // que sigue abierta en el exchange
+  export interface OrdenPendiente {
+    id: number;
+    idUsuario: string;
+    exchange: string;
+    idCuenta: number;
+    simbolo: string;
+    idOrden: number;
+    idOrdenCliente: string;
+    idCompra: number | null; // compra a la que pertenece una venta
+    lado: "BUY" | "SELL";
+    tipo: string;
+    precio: number | null;
+    precioStop: number | null;
+    cantidad: number;
+    cantidadEjecutada: number;
+    estado: string; // NEW o PARTIALLY_FILLED
+    fechaCreacion: string;
+    fechaActualizacion: string;
+  }
+
+  // Fila de la tabla "movimientos": depósito o retiro de la cuenta
+  export interface Movimiento {
+    id: number;
+    idUsuario: string;
+    exchange: string;
+    idCuenta: number;
+    tipo: "DEPOSITO" | "RETIRO";
+    idExterno: string; // id del movimiento en el exchange
+    activo: string;
+    cantidad: number;
+    comision: number; // comisión de red de los retiros
+    red: string | null;
+    txId: string | null;
+    estado: "COMPLETADO" | "PENDIENTE" | "FALLIDO";
+    valorUSD: number | null; // (cantidad + comisión) al precio de la fecha
+    fecha: string;
+    fechaActualizacion: string;
+  }
+
+  export interface ResultadoSincronizacionMovimientos {
+    nuevos: number;
+    actualizados: number;
+    completo: boolean; // false si se cortó; la siguiente pasada continúa
+    error?: string;
+  }
+
+  export interface InformeRendimiento {
+    desde: string;
+    hasta: string;
+    valorInicial: number;
+    valorFinal: number;
+    aportaciones: number;
+    retiradas: number;
+    aportacionNeta: number;
+    ganancia: number; // valor final - inicial - aportación neta
+    twr: number | null;
+    twrAproximado: boolean; // algún flujo sin valoración justo después (Modified Dietz)
+    valoraciones: number; // puntos en los que se encadena el TWR
+    mwr: number | null;
+    mwrAnualizado: number | null;
+    movimientos: number;
+    sinValorar: number; // movimientos sin precio USD, no incluidos
+  }
+
+  // Estado de la importación del historial de trades de un usuario
+  export interface ProgresoBackfill {
+    idCuenta: number;
+    estado: "en_curso" | "pausado" | "completado" | "error";
+    simbolos: number;
+    simbolosCompletados: number;
+    simboloActual: string | null;
+    trades: number; // trades recorridos (compras y ventas)
+    comprasNuevas: number;
+    comprasActualizadas: number;
+    ventasRegistradas: number;
+    ventasSinLote: number; // ventas sin compras anteriores a las que asignarlas
+    inicio: string;
+    fin: string | null;
+    reanudarEn: string | null; // si está pausado por límite de peticiones
+    error: string | null;
+  }
+
+  // Funciones de la aplicación que se pueden activar por símbolo
+  export type FuncionSimbolo = "precios" | "alertas" | "bot";
+
+  // Fila de la tabla "simbolos": registro de pares con los que trabaja la
+  // aplicación
+  export interface SimboloRegistrado {
+    id: number;
+    simbolo: string;
+    activoBase: string;
+    activoCotizacion: string;
+    estado: string; // estado en exchangeInfo (TRADING, BREAK...) o NO_LISTADO
+    precios: boolean; // lo sigue el monitor de precios
+    alertas: boolean; // admite alertas de precio
+    bot: boolean; // el bot puede operarlo
+    fechaActualizacion: string;
+  }
+
+  // Resultado de suscribir o reembolsar un activo en Simple Earn flexible
+  export interface ResultadoOperacionEarn {
+    success: boolean;
+    asset: string;
+    cantidad: number | null; // null: reembolso de toda la posición
+    productId?: string;
+    id?: number; // purchaseId o redeemId
+    error?: string;
+    code?: number;
+  }
+
+  // Comisión de una orden o fill: la original y su valor en la moneda de
+  // cotización del par en el momento del fill
+  export interface ComisionNormalizada {
+    comision: number; // en comisionMoneda
+    comisionMoneda: string; // si los fills la cobran en activos distintos, la de cotización
+    comisionCotizacion: number | null; // null si no se pudo valorar
+    monedaCotizacion: string;
+  }
+
+  // Criterio para elegir qué compras (lotes) cubre una venta:
+  // FIFO las más antiguas, LIFO las más recientes, HIFO las de mayor coste
+  // unitario y ESPECIFICO solo las indicadas, en ese orden
+  export type MetodoCoste = "FIFO" | "LIFO" | "HIFO" | "ESPECIFICO";
+
+  // Fila de la tabla "emparejamientosVenta": parte de una venta cubierta
+  // por una compra
+  export interface EmparejamientoVenta {
+    id: number;
+    idVenta: number;
+    idCompra: number;
+    idUsuario: string;
+    simbolo: string;
+    cantidad: number;
+    precioCompra: number;
+    precioVenta: number;
+    coste: number; // compra más su parte de la comisión de compra
+    comisionVenta: number | null; // parte de la comisión de venta, en cotización
+    beneficio: number;
+    fechaCompra: string;
+    fechaVenta: string;
+  }
+
+  // Venta repartida entre lotes por servicioLotes
+  export interface ResultadoAsignacion {
+    venta: any; // fila insertada en "ventas", con toda la cantidad vendida
+    emparejamientos: EmparejamientoVenta[];
+    cantidadAsignada: number;
+    sinAsignar: number; // vendida sin lote abierto que la cubra (cantidadSinLote de la venta)
+    lotesCerrados: number[]; // compras que quedan vendidas del todo
+    duplicada: boolean; // la orden ya estaba registrada: no se ha guardado nada
+  }
+
+  // Pérdidas y ganancias de un par (importes en su moneda de cotización)
+  export interface ResultadoSimbolo {
+    simbolo: string;
+    monedaCotizacion: string | null; // moneda de los importes del par
+    beneficioRealizado: number; // ventas del periodo, ya con comisiones
+    beneficioNoRealizado: number | null; // posición abierta; null sin precio
+    cantidadAbierta: number;
+    precioMedioEntrada: number | null; // de la posición abierta
+    costeAbierto: number; // compra más comisión de lo que sigue abierto
+    precioActual: number | null;
+    valorActual: number | null;
+    comisiones: number; // de las compras y ventas del periodo
+    compras: number;
+    ventas: number;
+  }
+
+  export interface InformeResultados {
+    desde: string | null;
+    hasta: string | null;
+    simbolos: ResultadoSimbolo[];
+    moneda: string; // de los totales
+    total: {
+      beneficioRealizado: number;
+      beneficioNoRealizado: number; // sin los pares que no tienen precio
+      beneficioTotal: number;
+      costeAbierto: number;
+      valorActual: number;
+      comisiones: number;
+    };
+    simbolosSinPrecio: string[];
+    simbolosSinConversion: string[]; // cotización sin precio en la moneda, fuera del total
+  }
+
+  // Fila de "snapshotsCartera": valor de una cuenta en un momento, con los
+  // mismos precios que getTotalUSDBalance
+  export interface SnapshotCartera {
+    id: number;
+    idUsuario: string;
+    idCuenta: number;
+    exchange: string;
+    fecha: string;
+    valorUSD: number;
+    spotUSD: number;
+    earnUSD: number;
+    activos: { asset: string; cantidad: number; valorUSD: number }[];
+    sinPrecio: string[];
+  }
+
+  export type ResolucionCurva = "hora" | "dia" | "semana";
+
+  export interface PuntoCurvaValor {
+    periodo: string; // inicio del periodo (UTC)
+    fecha: string; // último snapshot usado
+    valorUSD: number;
+    flujoNeto: number; // depósitos - retiros del periodo, en USD
+    rentabilidad: number | null; // del periodo, sin depósitos ni retiros
+    rentabilidadAcumulada: number;
+    drawdown: number; // caída respecto al máximo previo
+  }
+
+  export interface CurvaValor {
+    resolucion: ResolucionCurva;
+    desde: string | null;
+    hasta: string | null;
+    puntos: PuntoCurvaValor[];
+    rentabilidadTotal: number | null;
+    drawdownMaximo: {
+      porcentaje: number;
+      pico: string | null;
+      valle: string | null;
+      recuperacion: string | null; // null si aún no ha recuperado el pico
+    };
+    drawdownActual: number;
+  }
+
+  // Parte de una transmisión cubierta por un lote de adquisición (FIFO),
+  // importes en EUR
+  export interface TransmisionFiscal {
+    activo: string;
+    tipo: "VENTA" | "PERMUTA"; // permuta: se entrega una cripto por otra
+    simbolo: string;
+    idOperacion: number; // venta, o compra si es una permuta
+    cantidad: number;
+    fechaAdquisicion: string | null; // null si no hay adquisición registrada
+    fechaTransmision: string;
+    valorAdquisicion: number;
+    gastosAdquisicion: number;
+    valorTransmision: number;
+    gastosTransmision: number;
+    resultado: number; // ganancia (+) o pérdida (-)
+    sinPrecio: boolean; // falta el precio en EUR de la transmisión o de su adquisición: fuera de los totales
+  }
+
+  export interface TotalesFiscales {
+    valorTransmision: number;
+    valorAdquisicion: number;
+    gastos: number;
+    ganancias: number;
+    perdidas: number; // en positivo
+    resultado: number;
+  }
+
+  export interface InformeFiscal {
+    ejercicio: number;
+    moneda: "EUR";
+    permutasEstables: boolean; // las stablecoins cuentan como cripto
+    transmisiones: TransmisionFiscal[];
+    porActivo: ({ activo: string } & TotalesFiscales)[];
+    totales: TotalesFiscales;
+    // Precios en EUR que no se encontraron (moneda de cotización y fecha)
+    preciosNoEncontrados: { activo: string; fecha: string; simbolo: string }[];
+    avisos: string[];
+  }
+
+  // Orden leída de un CSV exportado de Binance, agrupando sus fills
+  export interface OperacionImportada {
+    linea: number; // primera línea del CSV de la operación
+    idOrden: string; // "csv-..." si el fichero no trae el número de orden
+    simbolo: string;
+    lado: "COMPRA" | "VENTA";
+    fecha: string;
+    cantidad: number;
+    precio: number;
+    total: number;
+    comision: number;
+    comisionMoneda: string;
+    estado: "NUEVA" | "DUPLICADA" | "ERROR" | "IMPORTADA" | "SIN_LOTE";
+    motivo?: string;
+  }
+
+  export interface ResultadoImportacionCSV {
+    formato: "HISTORIAL_TRADES" | "HISTORIAL_ORDENES";
+    confirmado: boolean; // false: solo vista previa
+    operaciones: OperacionImportada[];
+    resumen: {
+      compras: number;
+      ventas: number;
+      nuevas: number;
+      duplicadas: number;
+      errores: number;
+      importadas: number;
+      sinLote: number; // ventas sin compras anteriores que cubrirlas (se guardan sin lote)
+    };
+  }
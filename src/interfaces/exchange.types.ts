@@ -0,0 +1,355 @@
+import {
+  BinanceOrder,
+  BinanceOrderList,
+  BinanceTrade,
+  CancelReplaceParams,
+  CancelReplaceResponse,
+  DepositoBinance,
+  FlexiblePosition,
+  HistorialCapitalParams,
+  OcoOrderParams,
+  OcoOrderResponse,
+  OrdenAValidar,
+  OrderResponse,
+  ProductoEarnFlexible,
+  ReferenciaOrden,
+  ResultadoValidacionOrden,
+  RetiroBinance,
+  TipoOrden,
+  TradeHistoryParams,
+} from "./binance.types";
+import { GrafoPrecios } from "../lib/grafoPrecios";
+
+// Credenciales genéricas de un exchange (api key + secret)
+export interface ExchangeCredentials {
+  apiKey: string;
+  apiSecret: string;
+}
+
+// Fila de la tabla "exchanges"
+export interface RegistroExchange {
+  id: number;
+  exchange: string;
+  api_key: string;
+  api_secret: string;
+  entorno?: string | null; // mainnet, testnet o custom
+  base_url?: string | null; // solo para el entorno custom
+  nombre?: string | null; // nombre de la cuenta que elige el usuario
+  permisos?: PermisosApiKey | null; // última comprobación de la API key
+}
+
+// Lo que puede hacer la API key de una cuenta
+export interface PermisosApiKey {
+  lectura: boolean;
+  spot: boolean; // puede lanzar órdenes spot
+  earn: boolean; // puede suscribir y reembolsar Simple Earn
+  retiros: boolean | null; // null si el exchange no lo informa (p. ej. testnet)
+  restriccionIp: boolean | null;
+  permisosCuenta: string[]; // permisos de la cuenta ("SPOT", "MARGIN"...)
+  comprobadoEn: string;
+}
+
+// Entorno al que apunta una conexión
+export interface ConfigEntorno {
+  entorno?: string | null;
+  base_url?: string | null;
+}
+
+export interface Kline {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+export interface SymbolInfo {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  status: string;
+  filters: { [key: string]: any };
+  minQty?: number;
+  stepSize?: number;
+  minNotional?: number;
+}
+
+export interface SimpleOrderParams {
+  symbol: string;
+  quantity?: number | string;
+  type?: TipoOrden;
+  price?: number | string;
+  stopPrice?: number | string; // órdenes STOP_LOSS* / TAKE_PROFIT*
+  newClientOrderId?: string;
+  quoteOrderQty?: number | string;
+}
+
+// Cantidad de un activo repartida entre spot y Simple Earn
+export interface AssetHolding {
+  asset: string;
+  free: number;
+  locked: number;
+  earnFlexible: number;
+  earnLocked: number;
+  total: number;
+  priceUSD: number | null; // null si no hay pares con los que valorarlo
+  valueUSD: number;
+  portfolioPct: number; // % del valor total de la cartera
+}
+
+export interface HoldingsBreakdown {
+  totalUSD: number;
+  spotUSD: number;
+  earnUSD: number;
+  assets: AssetHolding[]; // ordenados por valor descendente
+  unpriced: string[]; // activos con saldo pero sin precio
+}
+
+export interface BuyAvailability {
+  canBuy: boolean;
+  availableBalance: number;
+  estimatedCost: number;
+  quoteAsset: string;
+  reasons?: string[];
+}
+
+export interface SellAvailability {
+  canSell: boolean;
+  availableBalance: number;
+  estimatedRevenue: number;
+  baseAsset: string;
+  reasons?: string[];
+  stepSize?: number;
+}
+
+// Resultado de una suscripción o reembolso de Simple Earn
+export interface OperacionEarnResponse {
+  success: boolean;
+  id?: number; // purchaseId o redeemId
+  error?: string;
+  code?: number;
+}
+
+export interface CommissionRates {
+  success: boolean;
+  makerRate: number;
+  takerRate: number;
+  commissionAsset?: string;
+  error?: string;
+}
+
+export interface CommissionRate {
+  success: boolean;
+  commissionRate: number;
+  commissionAsset: string;
+  makerRate?: number;
+  takerRate?: number;
+  error?: string;
+}
+
+/**
+ * Contrato que debe cumplir cualquier exchange para poder usarse desde
+ * las rutas, el bot y el monitor. Los trades y órdenes se devuelven en el
+ * formato de Binance, que es el que ya se persiste en compras/ventas.
+ */
+export interface ExchangeAdapter {
+  // Nombre con el que se guardan las operaciones (columna "exchange")
+  readonly nombre: string;
+  // Host de la API al que apunta esta instancia
+  readonly baseUrl: string;
+
+  testConnection(credentials: ExchangeCredentials): Promise<boolean>;
+  getPermisosApiKey(credentials: ExchangeCredentials): Promise<PermisosApiKey>;
+
+  // Balances
+  getTotalUSDBalance(credentials: ExchangeCredentials): Promise<number>;
+  getHoldings(credentials: ExchangeCredentials): Promise<HoldingsBreakdown>;
+
+  // Trades
+  // Solo las compras de un símbolo
+  getUserTrades(
+    credentials: ExchangeCredentials,
+    params: TradeHistoryParams
+  ): Promise<BinanceTrade[]>;
+  // Compras y ventas de todos los símbolos del registro, más recientes primero
+  getAllUserTrades(
+    credentials: ExchangeCredentials,
+    params?: Omit<TradeHistoryParams, "symbol">
+  ): Promise<BinanceTrade[]>;
+  getUserTradeSymbols(credentials: ExchangeCredentials): Promise<string[]>;
+  // Trades de un símbolo sin filtrar (compras y ventas), paginables con fromId
+  getMyTrades(
+    credentials: ExchangeCredentials,
+    params: TradeHistoryParams
+  ): Promise<BinanceTrade[]>;
+
+  // Depósitos y retiros
+  getDepositHistory(
+    credentials: ExchangeCredentials,
+    params?: HistorialCapitalParams
+  ): Promise<DepositoBinance[]>;
+  getWithdrawHistory(
+    credentials: ExchangeCredentials,
+    params?: HistorialCapitalParams
+  ): Promise<RetiroBinance[]>;
+
+  // Órdenes
+  placeBuyOrder(
+    credentials: ExchangeCredentials,
+    params: SimpleOrderParams
+  ): Promise<OrderResponse>;
+  placeSellOrder(
+    credentials: ExchangeCredentials,
+    params: SimpleOrderParams
+  ): Promise<OrderResponse>;
+  checkBuyAvailability(
+    credentials: ExchangeCredentials,
+    symbol: string,
+    quantity: number | string,
+    currentPrice?: number
+  ): Promise<BuyAvailability>;
+  checkSellAvailability(
+    credentials: ExchangeCredentials,
+    symbol: string,
+    quantity: number | string,
+    currentPrice?: number
+  ): Promise<SellAvailability>;
+  validarOrden(
+    credentials: ExchangeCredentials,
+    symbol: string,
+    orden: Omit<OrdenAValidar, "precioReferencia"> & {
+      precioReferencia?: number;
+    }
+  ): Promise<ResultadoValidacionOrden>;
+  placeOcoOrder(
+    credentials: ExchangeCredentials,
+    params: OcoOrderParams
+  ): Promise<OcoOrderResponse>;
+  getOrderList(
+    credentials: ExchangeCredentials,
+    orderListId: number
+  ): Promise<BinanceOrderList>;
+  cancelOrderList(
+    credentials: ExchangeCredentials,
+    symbol: string,
+    orderListId: number
+  ): Promise<OcoOrderResponse>;
+  cancelOrder(
+    credentials: ExchangeCredentials,
+    symbol: string,
+    orden: number | ReferenciaOrden
+  ): Promise<OrderResponse>;
+  getOrder(
+    credentials: ExchangeCredentials,
+    symbol: string,
+    orden: number | ReferenciaOrden
+  ): Promise<BinanceOrder>;
+  getOpenOrders(
+    credentials: ExchangeCredentials,
+    symbol?: string
+  ): Promise<BinanceOrder[]>;
+  cancelAllOrders(
+    credentials: ExchangeCredentials,
+    symbol: string
+  ): Promise<BinanceOrder[]>;
+  cancelReplaceOrder(
+    credentials: ExchangeCredentials,
+    params: CancelReplaceParams
+  ): Promise<CancelReplaceResponse>;
+
+  // Simple Earn flexible
+  getSaldoLibre(credentials: ExchangeCredentials, asset: string): Promise<number>;
+  getProductosEarnFlexible(
+    credentials: ExchangeCredentials,
+    asset?: string
+  ): Promise<ProductoEarnFlexible[]>;
+  getPosicionesEarnFlexible(
+    credentials: ExchangeCredentials,
+    asset?: string
+  ): Promise<FlexiblePosition[]>;
+  suscribirEarnFlexible(
+    credentials: ExchangeCredentials,
+    productId: string,
+    amount: number
+  ): Promise<OperacionEarnResponse>;
+  // Sin amount se reembolsa la posición entera
+  reembolsarEarnFlexible(
+    credentials: ExchangeCredentials,
+    productId: string,
+    amount?: number
+  ): Promise<OperacionEarnResponse>;
+
+  // Mercado
+  getPrice(symbol: string): Promise<number>;
+  getMultiplePrices(symbols: string[]): Promise<{ [key: string]: number }>;
+  getKlines(symbol: string, interval?: string, limit?: number): Promise<Kline[]>;
+  // Cierre de la vela de 1 minuto que contiene el instante indicado
+  getPriceAt(symbol: string, time: number): Promise<number>;
+  // Valoración de cualquier activo en cualquier moneda ("USD" = estables)
+  // encadenando pares; null si no hay camino
+  getGrafoPrecios(): Promise<GrafoPrecios>;
+  getPrecioEn(activo: string, moneda: string): Promise<number | null>;
+  // Adapter cuyos precios valoran las carteras de este host: balances,
+  // snapshots, resultados e informes usan siempre los mismos
+  mercadoValoracion(): ExchangeAdapter;
+  getPrecioEnFecha(
+    activo: string,
+    moneda: string,
+    time: number
+  ): Promise<number | null>;
+  // Lo mismo para muchos instantes, con una petición de velas por tramo
+  getPreciosEnFechas(
+    activo: string,
+    moneda: string,
+    times: number[]
+  ): Promise<Map<number, number | null>>;
+  // Streams de mercado (opcional): precios y velas en memoria en vez de REST
+  suscribirMercado?(
+    consumidor: string,
+    simbolos: string[],
+    intervalos?: string[]
+  ): void;
+  desuscribirMercado?(consumidor: string): void;
+  getSymbolInfo(
+    credentials: ExchangeCredentials,
+    symbol: string
+  ): Promise<SymbolInfo>;
+  // Todos los símbolos del exchange, sin filtros
+  getAllSymbols(): Promise<
+    Pick<SymbolInfo, "symbol" | "baseAsset" | "quoteAsset" | "status">[]
+  >;
+
+  // Comisiones
+  getUserCommissionRates(
+    credentials: ExchangeCredentials,
+    symbol?: string
+  ): Promise<CommissionRates>;
+  getUserCommissionRate(
+    credentials: ExchangeCredentials,
+    symbol: string
+  ): Promise<CommissionRate>;
+}
+
+// Crea el adapter de un exchange para el entorno indicado
+export type FabricaAdapter = (config: ConfigEntorno) => ExchangeAdapter;
+
+// Conexión resuelta de un usuario: adapter + credenciales desencriptadas
+export interface ConexionExchange {
+  id: number; // id de la fila de exchanges, identifica la cuenta
+  nombreCuenta: string;
+  exchange: string;
+  entorno: string;
+  adapter: ExchangeAdapter;
+  credentials: ExchangeCredentials;
+  permisos: PermisosApiKey | null; // null si nunca se han comprobado
+}
+
+// Cuenta de exchange de un usuario, sin credenciales
+export interface CuentaExchange {
+  id: number;
+  nombre: string;
+  exchange: string;
+  entorno: string;
+  permisos: PermisosApiKey | null;
+}
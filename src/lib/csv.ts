@@ -0,0 +1,68 @@
+// lib/csv.ts
+
+/**
+ * LECTURA Y ESCRITURA DE CSV
+ *
+ * Los valores con el separador, comillas o saltos de línea van entre
+ * comillas y con las comillas duplicadas. Al escribir, null y undefined
+ * quedan vacíos.
+ */
+
+export type ValorCSV = string | number | boolean | null | undefined;
+
+export function filaCSV(valores: ValorCSV[], separador: string = ","): string {
+  return (
+    valores
+      .map((valor) => {
+        if (valor === null || valor === undefined) return "";
+        const texto = String(valor);
+        return /["\r\n]/.test(texto) || texto.includes(separador)
+          ? `"${texto.replace(/"/g, '""')}"`
+          : texto;
+      })
+      .join(separador) + "\r\n"
+  );
+}
+
+/**
+ * Filas de un CSV, sin las líneas vacías ni el BOM inicial
+ */
+export function leerCSV(texto: string, separador: string = ","): string[][] {
+  const filas: string[][] = [];
+  let fila: string[] = [];
+  let valor = "";
+  let entreComillas = false;
+
+  const contenido = texto.replace(/^\uFEFF/, "");
+  for (let i = 0; i < contenido.length; i++) {
+    const caracter = contenido[i];
+
+    if (entreComillas) {
+      if (caracter !== '"') {
+        valor += caracter;
+      } else if (contenido[i + 1] === '"') {
+        valor += '"';
+        i++;
+      } else {
+        entreComillas = false;
+      }
+    } else if (caracter === '"') {
+      entreComillas = true;
+    } else if (caracter === separador) {
+      fila.push(valor);
+      valor = "";
+    } else if (caracter === "\n" || caracter === "\r") {
+      if (caracter === "\r" && contenido[i + 1] === "\n") i++;
+      fila.push(valor);
+      if (fila.some((v) => v.trim() !== "")) filas.push(fila);
+      fila = [];
+      valor = "";
+    } else {
+      valor += caracter;
+    }
+  }
+
+  fila.push(valor);
+  if (fila.some((v) => v.trim() !== "")) filas.push(fila);
+  return filas;
+}
@@ -0,0 +1,370 @@
+// lib/filtrosOrden.ts
+
+/**
+ * VALIDACIÓN Y REDONDEO DE ÓRDENES SEGÚN LOS FILTROS DE EXCHANGEINFO
+ *
+ * Aplica PRICE_FILTER, LOT_SIZE, MARKET_LOT_SIZE, NOTIONAL/MIN_NOTIONAL y
+ * PERCENT_PRICE_BY_SIDE, y comprueba que el precio stop de las órdenes
+ * condicionales no se dispare al instante. Devuelve la orden redondeada lista
+ * para enviar o el motivo del rechazo. Los filtros se reciben indexados por filterType,
+ * tal y como los devuelve getSymbolInfo.
+ */
+
+import {
+  OrdenAValidar,
+  RechazoFiltro,
+  ResultadoValidacionOrden,
+  TipoOrden,
+} from "../interfaces/binance.types";
+
+type FiltrosSimbolo = { [filterType: string]: any };
+
+/**
+ * Órdenes que esperan a que el precio alcance stopPrice
+ */
+export function esOrdenCondicional(tipo: TipoOrden = "MARKET"): boolean {
+  return tipo.startsWith("STOP_LOSS") || tipo.startsWith("TAKE_PROFIT");
+}
+
+/**
+ * Órdenes con precio límite (price + timeInForce)
+ */
+export function llevaPrecioLimite(tipo: TipoOrden = "MARKET"): boolean {
+  return tipo === "LIMIT" || tipo.endsWith("_LIMIT") || tipo === "LIMIT_MAKER";
+}
+
+/**
+ * Número de decimales de un paso ("0.00100000" -> 3)
+ */
+export function decimalesPaso(paso: number | string): number {
+  const texto =
+    typeof paso === "number" ? paso.toFixed(12) : paso.toString();
+  const decimales = texto.split(".")[1]?.replace(/0+$/, "") || "";
+  return decimales.length;
+}
+
+/**
+ * Redondea un valor a un múltiplo del paso
+ * @param modo abajo (cantidades), arriba o cercano
+ */
+export function redondearAlPaso(
+  valor: number,
+  paso: number | string,
+  modo: "abajo" | "arriba" | "cercano" = "abajo"
+): number {
+  const pasoNum = parseFloat(paso.toString());
+  if (!pasoNum || pasoNum <= 0) return valor;
+
+  // Tolerancia para errores de coma flotante (0.3 / 0.1 = 2.9999999999999996)
+  const pasos = valor / pasoNum;
+  const redondeado =
+    modo === "abajo"
+      ? Math.floor(pasos + 1e-9)
+      : modo === "arriba"
+      ? Math.ceil(pasos - 1e-9)
+      : Math.round(pasos);
+
+  return parseFloat((redondeado * pasoNum).toFixed(decimalesPaso(paso)));
+}
+
+/**
+ * Formatea un valor con los decimales del paso (sin notación científica)
+ */
+export function formatearAlPaso(valor: number, paso?: number | string): string {
+  const pasoNum = paso ? parseFloat(paso.toString()) : 0;
+  if (!pasoNum) {
+    return parseFloat(valor.toFixed(8)).toString();
+  }
+  return valor.toFixed(decimalesPaso(paso!));
+}
+
+/**
+ * Valida y redondea una orden contra los filtros del símbolo
+ * @param filtros Filtros del símbolo indexados por filterType
+ * @param orden Orden a validar
+ * @returns Orden redondeada o rechazo (el primero y la lista completa)
+ */
+export function validarOrden(
+  filtros: FiltrosSimbolo,
+  orden: OrdenAValidar
+): ResultadoValidacionOrden {
+  const rechazos: RechazoFiltro[] = [];
+  const tipo = orden.type || "MARKET";
+  // STOP_LOSS / TAKE_PROFIT se ejecutan a mercado al dispararse
+  const esMarket = !llevaPrecioLimite(tipo);
+  const precioReferencia = orden.precioReferencia;
+
+  // --- Precio (solo LIMIT) ---
+  let precio: number | undefined;
+  const priceFilter = filtros.PRICE_FILTER;
+
+  if (!esMarket) {
+    precio = parseFloat((orden.price ?? "").toString());
+
+    if (!precio || precio <= 0) {
+      rechazos.push({
+        filtro: "PARAMETROS",
+        mensaje: `El precio es requerido para órdenes ${tipo}`,
+      });
+    } else if (priceFilter) {
+      // Compras hacia abajo y ventas hacia arriba: nunca peor que lo pedido
+      precio = redondearAlPaso(
+        precio,
+        priceFilter.tickSize || 0,
+        orden.side === "BUY" ? "abajo" : "arriba"
+      );
+
+      const minPrice = parseFloat(priceFilter.minPrice || "0");
+      const maxPrice = parseFloat(priceFilter.maxPrice || "0");
+      if (minPrice > 0 && precio < minPrice) {
+        rechazos.push({
+          filtro: "PRICE_FILTER",
+          mensaje: `Precio (${precio}) menor al mínimo permitido (${minPrice})`,
+          valor: precio,
+          limite: minPrice,
+        });
+      }
+      if (maxPrice > 0 && precio > maxPrice) {
+        rechazos.push({
+          filtro: "PRICE_FILTER",
+          mensaje: `Precio (${precio}) mayor al máximo permitido (${maxPrice})`,
+          valor: precio,
+          limite: maxPrice,
+        });
+      }
+    }
+  }
+
+  // LIMIT_MAKER se rechaza (-2010) si se ejecutaría al instante
+  if (tipo === "LIMIT_MAKER" && precio && precioReferencia > 0) {
+    const cruza =
+      orden.side === "BUY" ? precio >= precioReferencia : precio <= precioReferencia;
+    if (cruza) {
+      rechazos.push({
+        filtro: "PARAMETROS",
+        mensaje: `El precio (${precio}) se ejecutaría al instante contra el precio actual (${precioReferencia})`,
+        valor: precio,
+        limite: precioReferencia,
+      });
+    }
+  }
+
+  // --- Precio stop (órdenes condicionales) ---
+  let precioStop: number | undefined;
+
+  if (esOrdenCondicional(tipo)) {
+    precioStop = parseFloat((orden.stopPrice ?? "").toString());
+
+    if (!precioStop || precioStop <= 0) {
+      rechazos.push({
+        filtro: "PARAMETROS",
+        mensaje: `El precio stop es requerido para órdenes ${tipo}`,
+      });
+      precioStop = undefined;
+    } else {
+      if (priceFilter) {
+        precioStop = redondearAlPaso(precioStop, priceFilter.tickSize || 0, "cercano");
+      }
+
+      // Binance rechaza (-2010) las órdenes que se dispararían al enviarlas
+      const esStopLoss = tipo.startsWith("STOP_LOSS");
+      const dispararaAlSubir = (orden.side === "BUY") === esStopLoss;
+      if (precioReferencia > 0) {
+        if (dispararaAlSubir && precioStop <= precioReferencia) {
+          rechazos.push({
+            filtro: "PRECIO_STOP",
+            mensaje: `El precio stop (${precioStop}) debe ser mayor que el precio actual (${precioReferencia})`,
+            valor: precioStop,
+            limite: precioReferencia,
+          });
+        }
+        if (!dispararaAlSubir && precioStop >= precioReferencia) {
+          rechazos.push({
+            filtro: "PRECIO_STOP",
+            mensaje: `El precio stop (${precioStop}) debe ser menor que el precio actual (${precioReferencia})`,
+            valor: precioStop,
+            limite: precioReferencia,
+          });
+        }
+      }
+    }
+  }
+
+  // --- Cantidad (quantity o quoteOrderQty) ---
+  const lotSize = filtros.LOT_SIZE;
+  const marketLotSize = esMarket ? filtros.MARKET_LOT_SIZE : undefined;
+  const stepSize = parseFloat(lotSize?.stepSize || "0");
+  const stepMercado = parseFloat(marketLotSize?.stepSize || "0");
+  // Para formatear la cantidad se usa el paso más grueso de los dos
+  const pasoCantidad =
+    stepMercado > stepSize ? marketLotSize.stepSize : lotSize?.stepSize;
+
+  let cantidad: number | undefined;
+  let quoteOrderQty: number | undefined;
+
+  if (orden.quantity !== undefined && orden.quantity !== "") {
+    cantidad = parseFloat(orden.quantity.toString());
+    cantidad = redondearAlPaso(cantidad, lotSize?.stepSize || 0);
+    if (stepMercado > 0) {
+      cantidad = redondearAlPaso(cantidad, marketLotSize.stepSize);
+    }
+
+    const comprobarLote = (filtro: any, nombre: "LOT_SIZE" | "MARKET_LOT_SIZE") => {
+      if (!filtro) return;
+      const minQty = parseFloat(filtro.minQty || "0");
+      const maxQty = parseFloat(filtro.maxQty || "0");
+      if (cantidad! <= 0 || (minQty > 0 && cantidad! < minQty)) {
+        rechazos.push({
+          filtro: nombre,
+          mensaje: `Cantidad (${cantidad}) menor al mínimo permitido (${minQty})`,
+          valor: cantidad,
+          limite: minQty,
+        });
+      }
+      if (maxQty > 0 && cantidad! > maxQty) {
+        rechazos.push({
+          filtro: nombre,
+          mensaje: `Cantidad (${cantidad}) mayor al máximo permitido (${maxQty})`,
+          valor: cantidad,
+          limite: maxQty,
+        });
+      }
+    };
+
+    comprobarLote(lotSize, "LOT_SIZE");
+    comprobarLote(marketLotSize, "MARKET_LOT_SIZE");
+  } else if (
+    orden.quoteOrderQty !== undefined &&
+    orden.quoteOrderQty !== "" &&
+    tipo === "MARKET"
+  ) {
+    quoteOrderQty = parseFloat(
+      parseFloat(orden.quoteOrderQty.toString()).toFixed(8)
+    );
+    if (!quoteOrderQty || quoteOrderQty <= 0) {
+      rechazos.push({
+        filtro: "PARAMETROS",
+        mensaje: "quoteOrderQty debe ser mayor que 0",
+      });
+    }
+  } else {
+    rechazos.push({
+      filtro: "PARAMETROS",
+      mensaje:
+        tipo === "MARKET"
+          ? "Se requiere quantity o quoteOrderQty para órdenes MARKET"
+          : `La cantidad es requerida para órdenes ${tipo}`,
+    });
+  }
+
+  // --- Valor de la orden (NOTIONAL / MIN_NOTIONAL) ---
+  const precioEfectivo = esMarket
+    ? precioStop || precioReferencia
+    : precio || 0;
+  const notional =
+    quoteOrderQty !== undefined ? quoteOrderQty : (cantidad || 0) * precioEfectivo;
+  const cantidadEstimada =
+    cantidad !== undefined
+      ? cantidad
+      : precioReferencia > 0
+      ? redondearAlPaso((quoteOrderQty || 0) / precioReferencia, stepSize)
+      : 0;
+
+  const notionalFilter = filtros.NOTIONAL;
+  if (notionalFilter && precioEfectivo > 0) {
+    const minNotional = parseFloat(notionalFilter.minNotional || "0");
+    const maxNotional = parseFloat(notionalFilter.maxNotional || "0");
+    const aplicarMin = !esMarket || notionalFilter.applyMinToMarket !== false;
+    const aplicarMax = !esMarket || notionalFilter.applyMaxToMarket === true;
+
+    if (aplicarMin && minNotional > 0 && notional < minNotional) {
+      rechazos.push({
+        filtro: "NOTIONAL",
+        mensaje: `Valor de orden (${notional}) menor al mínimo requerido (${minNotional})`,
+        valor: notional,
+        limite: minNotional,
+      });
+    }
+    if (aplicarMax && maxNotional > 0 && notional > maxNotional) {
+      rechazos.push({
+        filtro: "NOTIONAL",
+        mensaje: `Valor de orden (${notional}) mayor al máximo permitido (${maxNotional})`,
+        valor: notional,
+        limite: maxNotional,
+      });
+    }
+  }
+
+  const minNotionalFilter = filtros.MIN_NOTIONAL;
+  if (minNotionalFilter && precioEfectivo > 0) {
+    const minNotional = parseFloat(minNotionalFilter.minNotional || "0");
+    const aplicar = !esMarket || minNotionalFilter.applyToMarket !== false;
+
+    if (aplicar && minNotional > 0 && notional < minNotional) {
+      rechazos.push({
+        filtro: "MIN_NOTIONAL",
+        mensaje: `Valor de orden (${notional}) menor al mínimo requerido (${minNotional})`,
+        valor: notional,
+        limite: minNotional,
+      });
+    }
+  }
+
+  // --- Desviación del precio respecto al precio medio (solo LIMIT) ---
+  const percentFilter = filtros.PERCENT_PRICE_BY_SIDE;
+  if (percentFilter && !esMarket && precio && precioReferencia > 0) {
+    const esCompra = orden.side === "BUY";
+    const multArriba = parseFloat(
+      (esCompra ? percentFilter.bidMultiplierUp : percentFilter.askMultiplierUp) || "0"
+    );
+    const multAbajo = parseFloat(
+      (esCompra ? percentFilter.bidMultiplierDown : percentFilter.askMultiplierDown) || "0"
+    );
+
+    if (multArriba > 0 && precio > precioReferencia * multArriba) {
+      rechazos.push({
+        filtro: "PERCENT_PRICE_BY_SIDE",
+        mensaje: `Precio (${precio}) demasiado alto respecto al precio medio (${precioReferencia})`,
+        valor: precio,
+        limite: precioReferencia * multArriba,
+      });
+    }
+    if (multAbajo > 0 && precio < precioReferencia * multAbajo) {
+      rechazos.push({
+        filtro: "PERCENT_PRICE_BY_SIDE",
+        mensaje: `Precio (${precio}) demasiado bajo respecto al precio medio (${precioReferencia})`,
+        valor: precio,
+        limite: precioReferencia * multAbajo,
+      });
+    }
+  }
+
+  if (rechazos.length > 0) {
+    return {
+      valida: false,
+      cantidadEstimada,
+      notionalEstimado: notional,
+      rechazo: rechazos[0],
+      rechazos,
+    };
+  }
+
+  return {
+    valida: true,
+    ...(cantidad !== undefined && {
+      quantity: formatearAlPaso(cantidad, pasoCantidad),
+    }),
+    ...(quoteOrderQty !== undefined && {
+      quoteOrderQty: formatearAlPaso(quoteOrderQty),
+    }),
+    ...(precio !== undefined && {
+      price: formatearAlPaso(precio, priceFilter?.tickSize),
+    }),
+    ...(precioStop !== undefined && {
+      stopPrice: formatearAlPaso(precioStop, priceFilter?.tickSize),
+    }),
+    cantidadEstimada,
+    notionalEstimado: notional,
+    rechazos: [],
+  };
+}
@@ -0,0 +1,160 @@
+// lib/grafoPrecios.ts
+
+/**
+ * GRAFO DE PRECIOS ENTRE ACTIVOS
+ *
+ * Cada par con precio (BTCEUR, ADABTC...) une sus dos activos en ambos
+ * sentidos. Para valorar un activo en otra moneda se busca el camino con
+ * menos pares y se encadenan sus precios:
+ *   ADA → BTC → EUR  =  precio(ADABTC) × precio(BTCEUR)
+ * Entre caminos igual de cortos gana el que pasa antes por las monedas más
+ * líquidas (MONEDAS_PUENTE), que son las de precio más fiable.
+ */
+
+export interface ParCotizado {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  price: number;
+}
+
+// Un salto del camino: el par usado y si se recorre de quote a base
+export interface PasoRuta {
+  symbol: string;
+  invertido: boolean;
+}
+
+export interface RutaPrecio {
+  destino: string; // moneda alcanzada (una de las pedidas)
+  precio: number; // unidades de destino por unidad de origen
+  pasos: PasoRuta[];
+}
+
+// Monedas en las que se puede pedir una valoración
+export const MONEDAS_REFERENCIA = ["USDC", "USDT", "EUR", "BTC"];
+
+// Preferencia al elegir por dónde pasar
+const MONEDAS_PUENTE = ["USDT", "USDC", "BTC", "ETH", "BNB", "FDUSD", "EUR"];
+
+// Más saltos que esto no dan un precio con sentido
+const MAX_SALTOS = 4;
+
+interface Arista {
+  activo: string;
+  factor: number;
+  paso: PasoRuta;
+}
+
+function prioridad(activo: string): number {
+  const indice = MONEDAS_PUENTE.indexOf(activo);
+  return indice === -1 ? MONEDAS_PUENTE.length : indice;
+}
+
+// =============================================================================
+// CLASE PRINCIPAL DEL GRAFO
+// =============================================================================
+
+export class GrafoPrecios {
+  private aristas: Map<string, Arista[]> = new Map();
+  private pares: Map<string, ParCotizado> = new Map();
+
+  constructor(pares: ParCotizado[]) {
+    for (const par of pares) {
+      if (!(par.price > 0)) continue;
+
+      this.pares.set(par.symbol, par);
+      this.anadirArista(par.baseAsset, {
+        activo: par.quoteAsset,
+        factor: par.price,
+        paso: { symbol: par.symbol, invertido: false },
+      });
+      this.anadirArista(par.quoteAsset, {
+        activo: par.baseAsset,
+        factor: 1 / par.price,
+        paso: { symbol: par.symbol, invertido: true },
+      });
+    }
+
+    this.aristas.forEach((lista) =>
+      lista.sort(
+        (a, b) =>
+          prioridad(a.activo) - prioridad(b.activo) ||
+          a.activo.localeCompare(b.activo)
+      )
+    );
+  }
+
+  /**
+   * Par con precio del grafo (undefined si no existe o no tiene precio)
+   */
+  par(symbol: string): ParCotizado | undefined {
+    return this.pares.get(symbol.toUpperCase());
+  }
+
+  /**
+   * Camino más corto desde un activo hasta cualquiera de las monedas dadas
+   * @param destinos Una moneda o varias equivalentes (p. ej. las estables USD)
+   * @returns null si no hay camino de como mucho MAX_SALTOS pares
+   */
+  ruta(origen: string, destinos: string | string[]): RutaPrecio | null {
+    const objetivo = new Set(
+      (Array.isArray(destinos) ? destinos : [destinos]).map((d) =>
+        d.toUpperCase()
+      )
+    );
+    const inicio = origen.toUpperCase();
+
+    if (objetivo.has(inicio)) {
+      return { destino: inicio, precio: 1, pasos: [] };
+    }
+
+    // Búsqueda en anchura: el primer destino alcanzado es el más cercano
+    const visitados = new Set([inicio]);
+    let frontera: { activo: string; precio: number; pasos: PasoRuta[] }[] = [
+      { activo: inicio, precio: 1, pasos: [] },
+    ];
+
+    for (let salto = 0; salto < MAX_SALTOS && frontera.length > 0; salto++) {
+      const siguiente: typeof frontera = [];
+
+      for (const nodo of frontera) {
+        for (const arista of this.aristas.get(nodo.activo) || []) {
+          if (visitados.has(arista.activo)) continue;
+          visitados.add(arista.activo);
+
+          const alcanzado = {
+            activo: arista.activo,
+            precio: nodo.precio * arista.factor,
+            pasos: [...nodo.pasos, arista.paso],
+          };
+          if (objetivo.has(arista.activo)) {
+            return {
+              destino: arista.activo,
+              precio: alcanzado.precio,
+              pasos: alcanzado.pasos,
+            };
+          }
+          siguiente.push(alcanzado);
+        }
+      }
+
+      frontera = siguiente;
+    }
+
+    return null;
+  }
+
+  /**
+   * Precio de una unidad de origen en la moneda destino
+   * @returns null si no se puede valorar
+   */
+  precio(origen: string, destino: string): number | null {
+    return this.ruta(origen, destino)?.precio ?? null;
+  }
+
+  private anadirArista(activo: string, arista: Arista): void {
+    const lista = this.aristas.get(activo) || [];
+    lista.push(arista);
+    this.aristas.set(activo, lista);
+  }
+}
@@ -0,0 +1,169 @@
+// lib/rendimiento.ts
+
+/**
+ * RENTABILIDAD DE UNA CARTERA CON APORTACIONES Y RETIRADAS
+ *
+ * - TWR (time-weighted): mide la gestión, sin el efecto de cuándo entra o
+ *   sale el dinero. Se encadenan los subperiodos entre valoraciones; dentro
+ *   de cada uno se usa Modified Dietz, que es exacto si hay una valoración en
+ *   cada flujo y una aproximación si no
+ * - MWR (money-weighted): la TIR de los flujos, que sí pondera cuánto dinero
+ *   había invertido en cada momento
+ *
+ * Los importes de los flujos son positivos para aportaciones y negativos para
+ * retiradas. Las fechas, timestamps en ms.
+ */
+
+export interface FlujoCaja {
+  fecha: number;
+  importe: number;
+}
+
+export interface Valoracion {
+  fecha: number;
+  valor: number;
+}
+
+const MS_ANIO = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Rentabilidad ponderada por tiempo del periodo completo (0.1 = +10%)
+ * @param valoraciones Al menos la inicial y la final
+ * @returns null si no hay dos valoraciones
+ */
+export function calcularTWR(
+  valoraciones: Valoracion[],
+  flujos: FlujoCaja[]
+): number | null {
+  const puntos = [...valoraciones].sort((a, b) => a.fecha - b.fecha);
+  if (puntos.length < 2) return null;
+
+  let acumulado = 1;
+  for (let i = 1; i < puntos.length; i++) {
+    const inicio = puntos[i - 1];
+    const fin = puntos[i];
+    const duracion = fin.fecha - inicio.fecha;
+
+    // Los flujos de una fecha con valoración ya están en esa valoración
+    const delPeriodo = flujos.filter(
+      (f) => f.fecha > inicio.fecha && f.fecha <= fin.fecha
+    );
+    const neto = delPeriodo.reduce((suma, f) => suma + f.importe, 0);
+    const ponderado = delPeriodo.reduce(
+      (suma, f) =>
+        suma + (duracion > 0 ? (f.importe * (fin.fecha - f.fecha)) / duracion : 0),
+      0
+    );
+
+    const capitalMedio = inicio.valor + ponderado;
+    if (capitalMedio <= 0) continue; // sin capital no hay rentabilidad que medir
+
+    acumulado *= 1 + (fin.valor - inicio.valor - neto) / capitalMedio;
+  }
+
+  return acumulado - 1;
+}
+
+/**
+ * TIR anualizada de la cartera: el valor inicial y los flujos entran, el
+ * valor final sale
+ * @returns null si no tiene solución (p. ej. sin dinero invertido)
+ */
+export function calcularMWRAnual(
+  inicial: Valoracion,
+  final: Valoracion,
+  flujos: FlujoCaja[]
+): number | null {
+  // Desde el punto de vista del inversor: lo que mete es negativo
+  const movimientos = [
+    { fecha: inicial.fecha, importe: -inicial.valor },
+    ...flujos.map((f) => ({ fecha: f.fecha, importe: -f.importe })),
+    { fecha: final.fecha, importe: final.valor },
+  ].filter((m) => m.importe !== 0);
+
+  const hayEntradas = movimientos.some((m) => m.importe < 0);
+  const haySalidas = movimientos.some((m) => m.importe > 0);
+  if (!hayEntradas || !haySalidas || final.fecha <= inicial.fecha) return null;
+
+  const vpn = (tasa: number) =>
+    movimientos.reduce(
+      (suma, m) =>
+        suma + m.importe / Math.pow(1 + tasa, (m.fecha - inicial.fecha) / MS_ANIO),
+      0
+    );
+
+  // Bisección: el VPN es decreciente en la tasa cuando las entradas van antes
+  let minimo = -0.9999;
+  let maximo = 1;
+  while (vpn(maximo) > 0 && maximo < 1e6) maximo *= 10;
+  if (Math.sign(vpn(minimo)) === Math.sign(vpn(maximo))) return null;
+
+  for (let i = 0; i < 200; i++) {
+    const medio = (minimo + maximo) / 2;
+    if (Math.sign(vpn(medio)) === Math.sign(vpn(minimo))) {
+      minimo = medio;
+    } else {
+      maximo = medio;
+    }
+    if (maximo - minimo < 1e-10) break;
+  }
+
+  return (minimo + maximo) / 2;
+}
+
+/**
+ * Pasa una tasa anual a la rentabilidad de un periodo de la duración dada
+ */
+export function tasaDelPeriodo(tasaAnual: number, duracionMs: number): number {
+  return Math.pow(1 + tasaAnual, duracionMs / MS_ANIO) - 1;
+}
+
+export interface Drawdown {
+  maximo: number; // caída máxima desde un pico (-0.2 = -20%)
+  pico: Valoracion | null;
+  valle: Valoracion | null;
+  recuperacion: number | null; // fecha en que se vuelve al pico, si se vuelve
+  actual: number; // caída del último valor respecto al máximo previo
+}
+
+/**
+ * Mayor caída de pico a valle de una serie de valoraciones
+ */
+export function calcularDrawdown(valoraciones: Valoracion[]): Drawdown {
+  const puntos = [...valoraciones].sort((a, b) => a.fecha - b.fecha);
+  const resultado: Drawdown = {
+    maximo: 0,
+    pico: null,
+    valle: null,
+    recuperacion: null,
+    actual: 0,
+  };
+
+  let pico: Valoracion | null = null;
+  for (const punto of puntos) {
+    if (!pico || punto.valor >= pico.valor) {
+      // Primera vez que se recupera el pico de la caída máxima
+      if (
+        resultado.valle &&
+        resultado.pico === pico &&
+        resultado.recuperacion === null
+      ) {
+        resultado.recuperacion = punto.fecha;
+      }
+      pico = punto;
+      resultado.actual = 0;
+      continue;
+    }
+
+    const caida = pico.valor > 0 ? punto.valor / pico.valor - 1 : 0;
+    resultado.actual = caida;
+    if (caida < resultado.maximo) {
+      resultado.maximo = caida;
+      resultado.pico = pico;
+      resultado.valle = punto;
+      resultado.recuperacion = null;
+    }
+  }
+
+  return resultado;
+}
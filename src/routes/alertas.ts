@@ -3,6 +3,8 @@ import { getSupabaseClient } from "../lib/supabase.js";
 import { monitorService } from "../services/servicioMonitoreo.js";
 import { servicioUsuario } from "../services/servicioUsuario";
 import { servicioAlertas } from "../services/servicioAlertas";
+import { servicioSimbolos } from "../services/servicioSimbolos";
+import { MONEDAS_REFERENCIA } from "../lib/grafoPrecios";
 
 const alertasRouter = express.Router();
 
@@ -53,6 +55,7 @@ alertasRouter.post("/", async (req: Request, res: Response) => {
     const {
       userId,
       criptomoneda,
+      moneda,
       condicion,
       estado,
       precio_objetivo,
@@ -87,10 +90,23 @@ alertasRouter.post("/", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "Faltan campos requeridos" });
     }
 
+    if (moneda && !MONEDAS_REFERENCIA.includes(moneda)) {
+      return res.status(400).json({
+        error: `Moneda no soportada. Usa una de: ${MONEDAS_REFERENCIA.join(", ")}`,
+      });
+    }
+
+    if (!servicioSimbolos.esActivoValido(criptomoneda, "alertas")) {
+      return res.status(400).json({
+        error: `No se pueden crear alertas para ${criptomoneda}`,
+      });
+    }
+
     // Usar el servicio para crear la alerta
     const alerta = await servicioAlertas.crearAlerta({
       userId,
       criptomoneda,
+      moneda,
       condicion,
       precio_objetivo,
       precio_actual,
@@ -136,13 +152,25 @@ alertasRouter.put("/:id/reactivar", async (req: Request, res: Response) => {
 alertasRouter.put("/:id", async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { criptomoneda, condicion, precio_objetivo, precio_actual } =
+    const { criptomoneda, moneda, condicion, precio_objetivo, precio_actual } =
       req.body;
 
     if (!criptomoneda || !condicion || !precio_objetivo || !precio_actual) {
       return res.status(400).json({ error: "Faltan campos requeridos" });
     }
 
+    if (moneda && !MONEDAS_REFERENCIA.includes(moneda)) {
+      return res.status(400).json({
+        error: `Moneda no soportada. Usa una de: ${MONEDAS_REFERENCIA.join(", ")}`,
+      });
+    }
+
+    if (!servicioSimbolos.esActivoValido(criptomoneda, "alertas")) {
+      return res.status(400).json({
+        error: `No se pueden crear alertas para ${criptomoneda}`,
+      });
+    }
+
     // Convertir id a número
     const alertaId = parseInt(id);
 
@@ -153,6 +181,7 @@ alertasRouter.put("/:id", async (req: Request, res: Response) => {
     // Usar el servicio para actualizar la alerta
     const alerta = await servicioAlertas.actualizarAlerta(alertaId, {
       criptomoneda,
+      moneda,
       condicion,
       precio_objetivo,
       precio_actual,
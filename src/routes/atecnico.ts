@@ -6,6 +6,9 @@ import {
   BinanceCredentials,
 } from "../interfaces/binance.types.js";
 import { monitorService } from '../services/servicioMonitoreo.js';
+import { servicioExchanges } from '../services/servicioExchanges.js';
+import { servicioSimbolos } from '../services/servicioSimbolos.js';
+import { servicioResultados } from '../services/servicioResultados.js';
 
 interface Exchange {
   id: number;
@@ -135,11 +138,37 @@ router.get('/signals-multi', async (req, res) => {
 // Activar bot para un usuario (con parámetros opcionales)
 router.post('/bot/activar', async (req, res) => {
   try {
-    const { userId, tradeAmountUSD, intervals, simbolos, limit, cooldownMinutes, maxInversion } = req.body;
+    const { userId, tradeAmountUSD, intervals, simbolos, limit, cooldownMinutes, maxInversion, cuenta, earnAutomatico } = req.body;
     if (!userId) {
       return res.status(400).json({ error: 'userId es requerido' });
     }
 
+    // Cuenta con la que opera el bot: obligatoria si el usuario tiene varias
+    const eleccion = await servicioExchanges.elegirConexion(userId, cuenta);
+    if (!('conexion' in eleccion)) {
+      return res.status(eleccion.status).json({ error: eleccion.error, cuentas: eleccion.cuentas });
+    }
+    if (!eleccion.conexion) {
+      return res.status(400).json({ error: 'No se encontraron exchanges activos para este usuario' });
+    }
+
+    // El bot lanza órdenes spot: se comprueba la key en el momento de arrancar
+    const permisos = await servicioExchanges.comprobarPermisos(eleccion.conexion);
+    if (!permisos.spot) {
+      return res.status(403).json({
+        error: `La API key de la cuenta ${eleccion.conexion.nombreCuenta} no tiene permiso de trading spot`,
+        permisos,
+      });
+    }
+
+    // Aparcar el saldo en Earn exige que la key pueda suscribir y reembolsar
+    if (earnAutomatico === true && !permisos.earn) {
+      return res.status(403).json({
+        error: `La API key de la cuenta ${eleccion.conexion.nombreCuenta} no tiene acceso a Simple Earn`,
+        permisos,
+      });
+    }
+
     // Procesar intervals (puede ser string separado por comas o array)
     let intervalArray: string[] | undefined;
     if (typeof intervals === 'string') {
@@ -163,18 +192,32 @@ router.post('/bot/activar', async (req, res) => {
       simbolosArray = simbolos.split(',').map(s => ({ symbol: s.trim() }));
     }
 
-    const activado = monitorService.activarBot(userId, {
+    // Solo símbolos con el bot activo en el registro
+    const noPermitidos = simbolosArray
+      .map(s => String(s.symbol || '').toUpperCase())
+      .filter(symbol => !servicioSimbolos.esValido(symbol, 'bot'));
+    if (noPermitidos.length > 0) {
+      return res.status(400).json({
+        error: `Símbolos no disponibles para el bot: ${noPermitidos.join(', ')}`,
+        simbolosDisponibles: servicioSimbolos.listar('bot'),
+      });
+    }
+    simbolosArray = simbolosArray.map(s => ({ ...s, symbol: String(s.symbol).toUpperCase() }));
+
+    const activado = monitorService.activarBot(userId, eleccion.conexion.id, {
       tradeAmountUSD: tradeAmountUSD ? Number(tradeAmountUSD) : undefined,
       intervals: intervalArray,
       simbolos: simbolosArray,   // Ahora pasa la estructura completa con límites
       limit: limit ? Number(limit) : undefined,
       cooldownMinutes: cooldownMinutes ? Number(cooldownMinutes) : undefined,
       maxInversion: maxInversion ? Number(maxInversion) : undefined,
+      earnAutomatico: earnAutomatico === true,
     });
 
     res.json({
       success: activado,
-      message: activado ? 'Bot activado correctamente' : 'El bot ya estaba activo'
+      message: activado ? 'Bot activado correctamente' : 'El bot ya estaba activo en esta cuenta',
+      cuenta: { id: eleccion.conexion.id, nombre: eleccion.conexion.nombreCuenta }
     });
   } catch (error: any) {
     console.error('Error en /bot/activar:', error);
@@ -182,16 +225,20 @@ router.post('/bot/activar', async (req, res) => {
   }
 });
 
-// Desactivar bot (solo userId)
+// Desactivar bot (de una cuenta o, sin cuenta, de todas las del usuario)
 router.post('/bot/desactivar', async (req, res) => {
   try {
-    const { userId } = req.body;
+    const { userId, cuenta } = req.body;
     if (!userId) {
       return res.status(400).json({ error: 'userId es requerido' });
     }
+    const idCuenta = servicioExchanges.leerIdCuenta(cuenta);
+    if (idCuenta === null) {
+      return res.status(400).json({ error: 'La cuenta debe ser un id numérico' });
+    }
 
-    const desactivado = monitorService.desactivarBot(userId);
-    const resultadoBD = await servicioUsuario.desactivarBotEnCompras(userId);
+    const desactivado = monitorService.desactivarBot(userId, idCuenta);
+    const resultadoBD = await servicioUsuario.desactivarBotEnCompras(userId, idCuenta);
     res.json({
       success: desactivado,
       message: desactivado ? 'Bot desactivado correctamente' : 'El bot no estaba activo',
@@ -216,10 +263,12 @@ router.get('/bot/estado/:userId', (req, res) => {
     if (!userId) {
       return res.status(400).json({ error: 'userId es requerido' });
     }
-    const activos = monitorService.obtenerUsuariosActivos();
-    const usuario = activos.find(u => u.userId === userId);
-    if (usuario) {
-      res.json({ activo: true, config: usuario.config });
+    // Un bot por cuenta: config es el primero y bots los de todas las cuentas
+    const bots = monitorService.obtenerUsuariosActivos()
+      .filter(u => u.userId === userId)
+      .map(u => u.config);
+    if (bots.length > 0) {
+      res.json({ activo: true, config: bots[0], bots });
     } else {
       res.json({ activo: false });
     }
@@ -236,16 +285,22 @@ router.get('/bot/operaciones/:userId', async (req, res) => {
     if (!userId) {
       return res.status(400).json({ error: 'userId es requerido' });
     }
+    const cuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+    if (cuenta === null) {
+      return res.status(400).json({ error: 'La cuenta debe ser un id numérico' });
+    }
 
-    const config = monitorService.obtenerConfigUsuario(userId);
+    // Con un bot en varias cuentas, ?cuenta= elige cuál (por defecto el primero)
+    const config = monitorService.obtenerConfigUsuario(userId, cuenta);
     if (!config || !config.fechaActivacion) {
       return res.status(404).json({ error: 'El bot no está activo o no tiene fecha de activación' });
     }
 
-    // Obtener compras y ventas del bot desde la fecha de activación
+    // Obtener compras y ventas del bot (en su cuenta) desde la fecha de activación
+    const idCuenta = config.idCuenta ?? undefined;
     const [compras, ventas] = await Promise.all([
-      servicioUsuario.obtenerComprasUsuario(userId, true, config.fechaActivacion),
-      servicioUsuario.obtenerVentasUsuario(userId, true, config.fechaActivacion)
+      servicioUsuario.obtenerComprasUsuario(userId, true, config.fechaActivacion, false, idCuenta),
+      servicioUsuario.obtenerVentasUsuario(userId, true, config.fechaActivacion, idCuenta)
     ]);
 
     // Fechas para últimas 24h
@@ -279,6 +334,18 @@ router.get('/bot/operaciones/:userId', async (req, res) => {
       .filter(v => new Date(v.fechaVenta) >= hace24h)
       .reduce((acc, v) => acc + (v.beneficio || 0), 0);
 
+    // Posiciones abiertas del bot valoradas al precio actual, con los mismos
+    // precios que el balance de su cuenta
+    const conexion = await servicioExchanges.obtenerConexionUsuario(userId, idCuenta);
+    if (!conexion) {
+      return res.status(404).json({ error: 'La cuenta del bot ya no está activa' });
+    }
+    const resultados = await servicioResultados.calcular(userId, servicioExchanges.obtenerAdapterValoracion([conexion]), {
+      desde: config.fechaActivacion,
+      botS: true,
+      idCuentas: idCuenta !== undefined ? [idCuenta] : undefined
+    });
+
     res.json({
       userId,
       fechaActivacion: config.fechaActivacion,
@@ -290,7 +357,11 @@ router.get('/bot/operaciones/:userId', async (req, res) => {
       operacionesUltimas24h,
       emparejadasUltimas24h,
       beneficioTotal,
-      beneficio24h
+      beneficio24h,
+      beneficioNoRealizado: resultados.total.beneficioNoRealizado,
+      comisiones: resultados.total.comisiones,
+      simbolosSinPrecio: resultados.simbolosSinPrecio,
+      resultados: resultados.simbolos
     });
   } catch (error: any) {
     console.error('Error en /bot/operaciones/:userId:', error);
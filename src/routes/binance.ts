@@ -1,36 +1,200 @@
 import express, { Request, Response } from "express";
 import { getSupabaseClient } from "../lib/supabase.js";
-import { encrypt, decrypt } from "../lib/encriptacion.js";
+import { encrypt } from "../lib/encriptacion.js";
 import {
-  binanceService,
-  SUPPORTED_SYMBOLS,
   isValidSymbol,
+  getSupportedSymbols,
+  ENTORNO_BINANCE_POR_DEFECTO,
+  PREFIJO_ORDEN_PENDIENTE,
+  generarClientOrderId,
 } from "../services/servicioBinance.js";
+import {
+  esOrdenCondicional,
+  llevaPrecioLimite,
+} from "../lib/filtrosOrden.js";
+import { MONEDAS_REFERENCIA } from "../lib/grafoPrecios.js";
+import {
+  ConexionExchange,
+  ExchangeAdapter,
+} from "../interfaces/exchange.types.js";
+import {
+  MetodoCoste,
+  ResolucionCurva,
+  ResultadoAsignacion,
+} from "../interfaces/comun.types.js";
 import {
   BinanceCredentials,
   ExchangeInfoResponse,
+  ReferenciaOrden,
   TradeHistoryParams,
 } from "../interfaces/binance.types.js";
 import { servicioUsuario } from "../services/servicioUsuario.js";
+import { servicioExchanges } from "../services/servicioExchanges.js";
+import { servicioProtecciones } from "../services/servicioProtecciones.js";
+import { servicioOrdenes } from "../services/servicioOrdenes.js";
+import { servicioMovimientos } from "../services/servicioMovimientos.js";
+import { servicioBackfill } from "../services/servicioBackfill.js";
+import { servicioEarn } from "../services/servicioEarn.js";
+import { servicioComisiones } from "../services/servicioComisiones.js";
+import {
+  METODOS_COSTE,
+  servicioLotes,
+} from "../services/servicioLotes.js";
+import { servicioResultados } from "../services/servicioResultados.js";
+import { servicioFiscal } from "../services/servicioFiscal.js";
+import { servicioImportacion } from "../services/servicioImportacion.js";
+import {
+  aplicarFiltros,
+  FormatoExportacion,
+  servicioExportacion,
+  TipoExportacion,
+  TIPOS_EXPORTACION,
+} from "../services/servicioExportacion.js";
+import {
+  RESOLUCIONES_CURVA,
+  servicioSnapshots,
+} from "../services/servicioSnapshots.js";
+
+const binanceRouter = express.Router();
 
-interface Exchange {
-  id: number;
-  exchange: string;
-  api_key: string;
-  api_secret: string;
+/**
+ * Conexión de la cuenta con la que opera la petición (?cuenta= o "cuenta" en
+ * el body). Si la cuenta no es válida responde el error y devuelve undefined
+ * @returns null si el usuario no tiene cuentas activas
+ */
+async function conexionDePeticion(
+  req: Request,
+  res: Response,
+  userId: string
+): Promise<ConexionExchange | null | undefined> {
+  const eleccion = await servicioExchanges.elegirConexion(
+    userId,
+    req.query.cuenta ?? req.body?.cuenta
+  );
+  if ("conexion" in eleccion) return eleccion.conexion;
+
+  res.status(eleccion.status).json({
+    success: false,
+    error: eleccion.error,
+    cuentas: eleccion.cuentas,
+  });
+  return undefined;
 }
 
-const binanceRouter = express.Router();
+/**
+ * Cuentas que abarca una vista agregada: todas las del usuario o solo la
+ * indicada con ?cuenta=. Si la cuenta no es válida responde el error y
+ * devuelve undefined
+ */
+async function conexionesDePeticion(
+  req: Request,
+  res: Response,
+  userId: string
+): Promise<ConexionExchange[] | undefined> {
+  const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+  if (idCuenta === null) {
+    res
+      .status(400)
+      .json({ success: false, error: "La cuenta debe ser un id numérico" });
+    return undefined;
+  }
+
+  const conexiones = await servicioExchanges.obtenerConexionesUsuario(userId);
+  if (idCuenta === undefined) return conexiones;
+
+  const conexion = conexiones.find((c) => c.id === idCuenta);
+  if (!conexion) {
+    res.status(404).json({
+      success: false,
+      error: `Cuenta ${idCuenta} no encontrada o inactiva`,
+    });
+    return undefined;
+  }
+  return [conexion];
+}
+
+/**
+ * Adapter de las rutas que reciben las credenciales en el body en vez de una
+ * cuenta guardada ("exchange", "entorno" y "baseUrl", como en /connect). Si
+ * no se puede resolver responde el error y devuelve undefined
+ */
+function adapterDePeticion(
+  req: Request,
+  res: Response
+): ExchangeAdapter | undefined {
+  const {
+    exchange = "BINANCE",
+    entorno = ENTORNO_BINANCE_POR_DEFECTO,
+    baseUrl,
+  } = req.body;
+
+  let adapter: ExchangeAdapter | null;
+  try {
+    adapter = servicioExchanges.obtenerAdapter(exchange, {
+      entorno,
+      base_url: baseUrl,
+    });
+  } catch (error) {
+    res.status(400).json({
+      success: false,
+      error: error instanceof Error ? error.message : "Entorno no válido",
+    });
+    return undefined;
+  }
+
+  if (!adapter) {
+    res.status(400).json({
+      success: false,
+      error: `Exchange ${exchange} no soportado`,
+      supportedExchanges: servicioExchanges.obtenerExchangesSoportados(),
+    });
+    return undefined;
+  }
+  return adapter;
+}
+
+/**
+ * Moneda en la que valorar una vista (?moneda=EUR). Si no es válida responde
+ * el error y devuelve undefined
+ * @returns null si no se pide ninguna (solo USD)
+ */
+function monedaDePeticion(req: Request, res: Response): string | null | undefined {
+  const moneda = req.query.moneda;
+  if (moneda === undefined || moneda === "") return null;
+
+  const valor = String(moneda).toUpperCase();
+  if (!MONEDAS_REFERENCIA.includes(valor)) {
+    res.status(400).json({
+      success: false,
+      error: `Moneda no soportada. Usa una de: ${MONEDAS_REFERENCIA.join(", ")}`,
+    });
+    return undefined;
+  }
+  return valor;
+}
 
 // Conexion a binance
 binanceRouter.post("/connect", async (req: Request, res: Response) => {
   try {
     console.log("=== CONEXIÓN BINANCE - BACKEND ===");
 
-    const { apiKey, apiSecret, userId } = req.body;
+    const {
+      apiKey,
+      apiSecret,
+      userId,
+      exchange = "BINANCE",
+      entorno = ENTORNO_BINANCE_POR_DEFECTO,
+      baseUrl,
+      nombre,
+      confirmarRetiros,
+    } = req.body;
 
     console.log("Datos recibidos:", {
       userId,
+      exchange,
+      entorno,
+      baseUrl,
+      nombre,
       apiKey: apiKey ? `...${apiKey.slice(-4)}` : "undefined",
     });
 
@@ -42,35 +206,103 @@ binanceRouter.post("/connect", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "API Key y Secret son requeridos" });
     }
 
-    // Probar conexión con Binance
+    if (!["mainnet", "testnet", "custom"].includes(entorno)) {
+      return res.status(400).json({
+        error: "El entorno debe ser mainnet, testnet o custom",
+      });
+    }
+
+    // Resolver el adapter para el entorno elegido
+    let adapter;
+    try {
+      adapter = servicioExchanges.obtenerAdapter(exchange, {
+        entorno,
+        base_url: baseUrl,
+      });
+    } catch (error) {
+      return res.status(400).json({
+        error: error instanceof Error ? error.message : "Entorno no válido",
+      });
+    }
+
+    if (!adapter) {
+      return res.status(400).json({
+        error: `Exchange ${exchange} no soportado`,
+        supportedExchanges: servicioExchanges.obtenerExchangesSoportados(),
+      });
+    }
+
+    // Probar conexión con el exchange
     const credentials: BinanceCredentials = {
       apiKey: apiKey,
       apiSecret: apiSecret,
     };
-    const isValid = await binanceService.testConnection(credentials);
+    const isValid = await adapter.testConnection(credentials);
 
     if (!isValid) {
       return res
         .status(401)
-        .json({ error: "Credenciales de Binance inválidas" });
+        .json({ error: `Credenciales de ${adapter.nombre} inválidas` });
+    }
+
+    // Permisos de la key: una key que puede retirar fondos solo se acepta si
+    // el usuario lo confirma expresamente
+    const permisos = await adapter.getPermisosApiKey(credentials);
+    const avisos = servicioExchanges.avisosPermisos(permisos);
+
+    if (permisos.retiros && confirmarRetiros !== true) {
+      return res.status(403).json({
+        error:
+          "La API key tiene permiso de retiro. Desactívalo en Binance o confirma la conexión con confirmarRetiros",
+        requiereConfirmacion: true,
+        permisos,
+        avisos,
+      });
+    }
+
+    // Una key ya guardada vuelve a su cuenta (el upsert choca con la fila)
+    const guardada = await servicioExchanges.buscarCuentaPorApiKey(userId, apiKey);
+
+    // Nombre de la cuenta: el indicado, el que ya tenía o "Binance", "Binance 2"...
+    const cuentas = await servicioExchanges.obtenerCuentasUsuario(userId);
+    const nombreCuenta =
+      (typeof nombre === "string" && nombre.trim()) ||
+      guardada?.nombre ||
+      (cuentas.length === 0
+        ? adapter.nombre
+        : `${adapter.nombre} ${cuentas.length + 1}`);
+
+    if (
+      await servicioExchanges.nombreCuentaEnUso(userId, nombreCuenta, guardada?.id)
+    ) {
+      return res.status(409).json({
+        error: `Ya tienes una cuenta llamada "${nombreCuenta}"`,
+      });
     }
 
-    // Encriptar credenciales
-    const encryptedApiKey = encrypt(apiKey);
+    // Encriptar credenciales (la key ya guardada se deja igual para el upsert)
+    const encryptedApiKey = guardada?.api_key ?? encrypt(apiKey);
     const encryptedApiSecret = encrypt(apiSecret);
 
     // Guardar en base de datos
     const supabase = getSupabaseClient();
-    const { data: exchange, error: exchangeError } = await supabase
+    const { data: registroExchange, error: exchangeError } = await supabase
       .from("exchanges")
-      .upsert({
-        user_id: userId,
-        exchange: "BINANCE",
-        api_key: encryptedApiKey,
-        api_secret: encryptedApiSecret,
-        is_active: true,
-        created_at: new Date().toISOString(),
-      })
+      .upsert(
+        {
+          user_id: userId,
+          exchange: exchange.toUpperCase(),
+          api_key: encryptedApiKey,
+          api_secret: encryptedApiSecret,
+          entorno,
+          base_url: entorno === "custom" ? adapter.baseUrl : null,
+          nombre: nombreCuenta,
+          permisos,
+          is_active: true,
+          ...(guardada ? {} : { created_at: new Date().toISOString() }),
+        },
+        { onConflict: "user_id,api_key" }
+      )
       .select()
       .single();
 
@@ -82,13 +314,18 @@ binanceRouter.post("/connect", async (req: Request, res: Response) => {
     }
 
     // Obtener balance total
-    const totalBalance = await binanceService.getTotalUSDBalance(credentials);
+    const totalBalance = await adapter.getTotalUSDBalance(credentials);
 
     console.log("=== CONEXIÓN EXITOSA ===");
     return res.json({
       success: true,
       totalBalance,
-      message: "Binance conectado correctamente",
+      entorno,
+      baseUrl: adapter.baseUrl,
+      cuenta: { id: registroExchange.id, nombre: nombreCuenta },
+      permisos,
+      avisos,
+      message: `${adapter.nombre} conectado correctamente`,
     });
   } catch (error) {
     console.error("Error en conexión Binance:", error);
@@ -98,6 +335,132 @@ binanceRouter.post("/connect", async (req: Request, res: Response) => {
   }
 });
 
+// Cuentas de exchange activas del usuario (sin credenciales)
+binanceRouter.get("/user/:userId/cuentas", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const cuentas = await servicioExchanges.obtenerCuentasUsuario(userId);
+
+    res.json({
+      success: true,
+      cuentas,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/cuentas:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener las cuentas",
+    });
+  }
+});
+
+// Cambiar el nombre de una cuenta
+binanceRouter.patch("/user/:userId/cuentas/:cuentaId", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const idCuenta = servicioExchanges.leerIdCuenta(req.params.cuentaId);
+    const { nombre } = req.body;
+
+    if (!idCuenta) {
+      return res.status(400).json({
+        success: false,
+        error: "La cuenta debe ser un id numérico",
+      });
+    }
+    if (typeof nombre !== "string" || nombre.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "El nombre es requerido",
+      });
+    }
+    if (await servicioExchanges.nombreCuentaEnUso(userId, nombre, idCuenta)) {
+      return res.status(409).json({
+        success: false,
+        error: `Ya tienes una cuenta llamada "${nombre.trim()}"`,
+      });
+    }
+
+    const cuenta = await servicioExchanges.renombrarCuenta(
+      userId,
+      idCuenta,
+      nombre
+    );
+    if (!cuenta) {
+      return res.status(404).json({
+        success: false,
+        error: `Cuenta ${idCuenta} no encontrada`,
+      });
+    }
+
+    res.json({
+      success: true,
+      cuenta,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/cuentas/:cuentaId:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al renombrar la cuenta",
+    });
+  }
+});
+
+// Volver a comprobar los permisos de la API key de una cuenta
+binanceRouter.post(
+  "/user/:userId/cuentas/:cuentaId/permisos",
+  async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const eleccion = await servicioExchanges.elegirConexion(
+        userId,
+        req.params.cuentaId
+      );
+
+      if (!("conexion" in eleccion)) {
+        return res.status(eleccion.status).json({
+          success: false,
+          error: eleccion.error,
+        });
+      }
+      if (!eleccion.conexion) {
+        return res.status(404).json({
+          success: false,
+          error: `Cuenta ${req.params.cuentaId} no encontrada o inactiva`,
+        });
+      }
+
+      const permisos = await servicioExchanges.comprobarPermisos(
+        eleccion.conexion
+      );
+
+      res.json({
+        success: true,
+        cuenta: {
+          id: eleccion.conexion.id,
+          nombre: eleccion.conexion.nombreCuenta,
+        },
+        permisos,
+        avisos: servicioExchanges.avisosPermisos(permisos),
+      });
+    } catch (error) {
+      console.error("Error en /user/:userId/cuentas/:cuentaId/permisos:", error);
+      res.status(500).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error desconocido al comprobar los permisos",
+      });
+    }
+  }
+);
+
 //obtener balance de la cuenta
 binanceRouter.get("/balance/:userId", async (req: Request, res: Response) => {
   try {
@@ -108,45 +471,53 @@ binanceRouter.get("/balance/:userId", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "El userId es requerido" });
     }
 
-    // Obtener credenciales de Binance del usuario
-    const exchanges: Exchange[] = await servicioUsuario.obtenerExchangesUsuario(
-      userId,
-      {
-        exchange: "binance",
-        is_active: true,
-      }
-    );
+    const moneda = monedaDePeticion(req, res);
+    if (moneda === undefined) return;
+
+    // Cuentas de exchange activas del usuario (o la indicada con ?cuenta=)
+    const conexiones = await conexionesDePeticion(req, res, userId);
+    if (conexiones === undefined) return;
 
     // Verificar si hay exchanges
-    if (!exchanges || exchanges.length === 0) {
+    if (conexiones.length === 0) {
       return res.json({
         totalBalance: 0,
         connected: false,
         exchangesCount: 0,
-        message:
-          "No se encontraron exchanges de Binance activos para este usuario",
+        message: "No se encontraron exchanges activos para este usuario",
       });
     }
 
-    // Tomar el primer exchange del array
-    const exchange = exchanges[0];
-    // Desencriptar credenciales
-    const decryptedApiKey = decrypt(exchange.api_key);
-    const decryptedApiSecret = decrypt(exchange.api_secret);
-
-    // Obtener balance actual
-    const credentials: BinanceCredentials = {
-      apiKey: decryptedApiKey,
-      apiSecret: decryptedApiSecret,
-    };
-    const totalUSD = await binanceService.getTotalUSDBalance(credentials);
+    const cuentas = await Promise.all(
+      conexiones.map(async ({ id, nombreCuenta, adapter, credentials }) => ({
+        id,
+        nombre: nombreCuenta,
+        exchange: adapter.nombre,
+        totalUSD: await adapter.getTotalUSDBalance(credentials),
+      }))
+    );
+    const totalUSD = cuentas.reduce((suma, c) => suma + c.totalUSD, 0);
     const exchangesCount = await servicioUsuario.contarExchangesUsuario(userId);
 
+    // Total en la moneda pedida, a partir de lo que vale una unidad en USD
+    let valoracion = null;
+    if (moneda) {
+      const precioUSD = await servicioExchanges
+        .obtenerAdapterValoracion(conexiones)
+        .getPrecioEn(moneda, "USD");
+      valoracion = {
+        moneda,
+        total: precioUSD ? totalUSD / precioUSD : null,
+      };
+    }
+
     return res.json({
-      totalUSD,
+      totalUSD: parseFloat(totalUSD.toFixed(2)),
       connected: true,
       exchangesCount: exchangesCount,
       currency: "USD",
+      valoracion,
+      cuentas,
       lastUpdated: new Date().toISOString(),
     });
   } catch (error) {
@@ -159,6 +530,86 @@ binanceRouter.get("/balance/:userId", async (req: Request, res: Response) => {
   }
 });
 
+// Desglose por activo (spot + Simple Earn) con su valor en USD
+binanceRouter.get("/holdings/:userId", async (req: Request, res: Response) => {
+  try {
+    const { userId } = req.params;
+
+    if (!userId || userId.trim().length === 0) {
+      return res.status(400).json({ error: "El userId es requerido" });
+    }
+
+    const moneda = monedaDePeticion(req, res);
+    if (moneda === undefined) return;
+
+    const conexiones = await conexionesDePeticion(req, res, userId);
+    if (conexiones === undefined) return;
+    if (conexiones.length === 0) {
+      return res.json({
+        connected: false,
+        totalUSD: 0,
+        assets: [],
+        message: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    // Desglose de cada cuenta y, sumados, el del usuario
+    const porCuenta = await Promise.all(
+      conexiones.map(({ adapter, credentials }) =>
+        adapter.getHoldings(credentials)
+      )
+    );
+    const holdings =
+      porCuenta.length === 1
+        ? porCuenta[0]
+        : servicioExchanges.combinarHoldings(porCuenta);
+
+    // Cada activo valorado directamente en la moneda pedida, encadenando pares
+    let valoracion = null;
+    if (moneda) {
+      const grafo = await servicioExchanges
+        .obtenerAdapterValoracion(conexiones)
+        .getGrafoPrecios();
+      const activos = holdings.assets.map((h) => {
+        const precio = grafo.precio(h.asset, moneda);
+        return {
+          asset: h.asset,
+          precio,
+          valor: precio === null ? null : h.total * precio,
+        };
+      });
+      valoracion = {
+        moneda,
+        total: activos.reduce((suma, a) => suma + (a.valor || 0), 0),
+        activos,
+        sinPrecio: activos.filter((a) => a.precio === null).map((a) => a.asset),
+      };
+    }
+
+    return res.json({
+      connected: true,
+      exchange: conexiones[0].adapter.nombre,
+      currency: "USD",
+      ...holdings,
+      valoracion,
+      cuentas: conexiones.map((c, i) => ({
+        id: c.id,
+        nombre: c.nombreCuenta,
+        exchange: c.adapter.nombre,
+        totalUSD: porCuenta[i].totalUSD,
+        spotUSD: porCuenta[i].spotUSD,
+        earnUSD: porCuenta[i].earnUSD,
+      })),
+      lastUpdated: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error("Error obteniendo desglose de activos:", error);
+    return res.status(500).json({
+      error: "Error al obtener los activos del usuario",
+    });
+  }
+});
+
 // Obtener historial de compras del usuario para un símbolo específico
 binanceRouter.get("/trades/:userId", async (req: Request, res: Response) => {
   try {
@@ -175,7 +626,7 @@ binanceRouter.get("/trades/:userId", async (req: Request, res: Response) => {
     if (!symbol) {
       return res.status(400).json({
         error: "El parámetro 'symbol' es obligatorio",
-        supportedSymbols: SUPPORTED_SYMBOLS,
+        supportedSymbols: getSupportedSymbols(),
       });
     }
 
@@ -183,41 +634,25 @@ binanceRouter.get("/trades/:userId", async (req: Request, res: Response) => {
     if (!isValidSymbol(symbolStr)) {
       return res.status(400).json({
         error: `Símbolo '${symbolStr}' no soportado`,
-        supportedSymbols: SUPPORTED_SYMBOLS,
+        supportedSymbols: getSupportedSymbols(),
       });
     }
 
-    // Obtener credenciales de Binance del usuario
-    const exchanges: Exchange[] = await servicioUsuario.obtenerExchangesUsuario(
-      userId,
-      {
-        exchange: "binance",
-        is_active: true,
-      }
-    );
+    // Obtener la conexión de exchange activa del usuario
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
 
     // Verificar si hay exchanges
-    if (!exchanges || exchanges.length === 0) {
+    if (!conexion) {
       return res.json({
         totalBalance: 0,
         connected: false,
         exchangesCount: 0,
-        message:
-          "No se encontraron exchanges de Binance activos para este usuario",
+        message: "No se encontraron exchanges activos para este usuario",
       });
     }
 
-    // Tomar el primer exchange del array
-    const exchange = exchanges[0];
-
-    // Desencriptar credenciales
-    const decryptedApiKey = decrypt(exchange.api_key);
-    const decryptedApiSecret = decrypt(exchange.api_secret);
-
-    const credentials: BinanceCredentials = {
-      apiKey: decryptedApiKey,
-      apiSecret: decryptedApiSecret,
-    };
+    const { adapter, credentials } = conexion;
 
     // Preparar parámetros para la consulta
     const tradeParams: TradeHistoryParams = {
@@ -234,7 +669,7 @@ binanceRouter.get("/trades/:userId", async (req: Request, res: Response) => {
     }
 
     // Obtener las compras del usuario
-    const buyTrades = await binanceService.getUserTrades(
+    const buyTrades = await adapter.getUserTrades(
       credentials,
       tradeParams
     );
@@ -297,35 +732,21 @@ binanceRouter.get(
         return res.status(400).json({ error: "El userId es requerido" });
       }
 
-      // Obtener credenciales de Binance del usuario
-      const exchanges: Exchange[] =
-        await servicioUsuario.obtenerExchangesUsuario(userId, {
-          exchange: "binance",
-          is_active: true,
-        });
+      // Obtener la conexión de exchange activa del usuario
+      const conexion = await conexionDePeticion(req, res, userId);
+      if (conexion === undefined) return;
 
       // Verificar si hay exchanges
-      if (!exchanges || exchanges.length === 0) {
+      if (!conexion) {
         return res.json({
           totalBalance: 0,
           connected: false,
           exchangesCount: 0,
-          message:
-            "No se encontraron exchanges de Binance activos para este usuario",
+          message: "No se encontraron exchanges activos para este usuario",
         });
       }
 
-      // Tomar el primer exchange del array
-      const exchange = exchanges[0];
-
-      // Desencriptar credenciales
-      const decryptedApiKey = decrypt(exchange.api_key);
-      const decryptedApiSecret = decrypt(exchange.api_secret);
-
-      const credentials: BinanceCredentials = {
-        apiKey: decryptedApiKey,
-        apiSecret: decryptedApiSecret,
-      };
+      const { adapter, credentials } = conexion;
 
       // Preparar parámetros para la consulta
       const tradeParams: Omit<TradeHistoryParams, "symbol"> = {
@@ -341,10 +762,9 @@ binanceRouter.get(
       }
 
       // Obtener todas las compras del usuario para todos los símbolos soportados
-      const allBuyTrades = await binanceService.getAllUserTrades(
-        credentials,
-        tradeParams
-      );
+      const allBuyTrades = (
+        await adapter.getAllUserTrades(credentials, tradeParams)
+      ).filter((trade) => trade.isBuyer);
 
       for (const trade of allBuyTrades) {
         try {
@@ -372,14 +792,23 @@ binanceRouter.get(
           }
 
           // Preparar datos para insertar
+          const comision = await servicioComisiones.normalizar(
+            adapter,
+            trade.symbol,
+            [trade],
+            trade.time
+          );
           const datosCompra = {
-            exchange: "Binance",
+            exchange: adapter.nombre,
+            idCuenta: conexion.id,
             idOrden: trade.orderId.toString(),
             simbolo: trade.symbol,
             precio: parseFloat(trade.price),
             cantidad: parseFloat(trade.qty),
             total: parseFloat(trade.quoteQty),
-            comision: parseFloat(trade.commission),
+            comision: comision.comision,
+            comisionMoneda: comision.comisionMoneda,
+            comisionCotizacion: comision.comisionCotizacion,
             fechaCompra: new Date(trade.time).toISOString(),
             vendida: false,
             idUsuario: userId,
@@ -436,14 +865,25 @@ binanceRouter.get(
   }
 );
 
-binanceRouter.get('/api/binance/user-commission-rate/:symbol', async (req, res) => {
-  const { symbol } = req.params.symbol;
+// Comisión del usuario en un par, con la cuenta de la petición (?cuenta=)
+binanceRouter.get('/user/:userId/user-commission-rate/:symbol', async (req, res) => {
+  const { userId, symbol } = req.params;
   try {
-    
-    const credentials = req.user.credentials; // Asumiendo que tienes las credenciales del usuario
-    
-    const commissionData = await binanceService.getUserCommissionRate(credentials, symbol);
-    
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const commissionData = await conexion.adapter.getUserCommissionRate(
+      conexion.credentials,
+      symbol
+    );
+
     res.json(commissionData);
     
   } catch (error) {
@@ -472,6 +912,7 @@ binanceRouter.get(
         orderBy = "fechaCompra",
         orderDirection = "desc",
       } = req.query;
+      const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
 
       console.log("=== 📋 OBTENIENDO COMPRAS ACTIVAS DEL USUARIO ===");
       console.log(`👤 User ID: ${userId}`);
@@ -501,37 +942,35 @@ binanceRouter.get(
           .json({ error: "Formato de fechaHasta inválido. Use YYYY-MM-DD" });
       }
 
+      if (idCuenta === null) {
+        return res
+          .status(400)
+          .json({ error: "La cuenta debe ser un id numérico" });
+      }
+
       const supabase = getSupabaseClient();
 
-      // Construir la consulta base
-      let query = supabase
-        .from("compras")
-        .select("*", { count: "exact" })
-        .eq("idUsuario", userId)
-        .eq("vendida", false);
+      // Construir la consulta base con los filtros de símbolo, cuenta y fechas
+      let query = aplicarFiltros(
+        supabase
+          .from("compras")
+          .select("*", { count: "exact" })
+          .eq("idUsuario", userId)
+          .eq("vendida", false),
+        { campoFecha: "fechaCompra" },
+        {
+          simbolo: simbolo?.toString(),
+          fechaDesde: fechaDesde as string | undefined,
+          fechaHasta: fechaHasta as string | undefined,
+          idCuenta,
+        }
+      );
 
-      // Aplicar filtro por símbolo si se proporciona
       if (simbolo && simbolo.toString().trim() !== "") {
-        query = query.ilike("simbolo", `%${simbolo.toString().toUpperCase()}%`);
         console.log(`🔍 Filtro por símbolo: ${simbolo}`);
       }
-
-      // Aplicar filtro por fecha desde si se proporciona
-      if (fechaDesde) {
-        const fechaDesdeObj = new Date(fechaDesde as string);
-        // Establecer hora a 00:00:00 para incluir todo el día
-        fechaDesdeObj.setHours(0, 0, 0, 0);
-        query = query.gte("fechaCompra", fechaDesdeObj.toISOString());
-        console.log(`📅 Filtrando desde: ${fechaDesdeObj.toISOString()}`);
-      }
-
-      // Aplicar filtro por fecha hasta si se proporciona
-      if (fechaHasta) {
-        const fechaHastaObj = new Date(fechaHasta as string);
-        // Establecer hora a 23:59:59 para incluir todo el día
-        fechaHastaObj.setHours(23, 59, 59, 999);
-        query = query.lte("fechaCompra", fechaHastaObj.toISOString());
-        console.log(`📅 Filtrando hasta: ${fechaHastaObj.toISOString()}`);
+      if (idCuenta !== undefined) {
+        console.log(`🏦 Filtro por cuenta: ${idCuenta}`);
       }
 
       // Aplicar ordenamiento
@@ -589,6 +1028,7 @@ binanceRouter.get(
         estadisticas,
         filtros: {
           simbolo: simbolo || null,
+          cuenta: idCuenta ?? null,
           fechaDesde: fechaDesde || null,
           fechaHasta: fechaHasta || null,
           orderBy,
@@ -624,35 +1064,23 @@ binanceRouter.get(
       if (!userId || userId.trim().length === 0) {
         return res.status(400).json({ error: "El userId es requerido" });
       }
-      const exchanges: Exchange[] =
-        await servicioUsuario.obtenerExchangesUsuario(userId, {
-          exchange: "BINANCE",
-          is_active: true,
-        });
+      // Obtener la conexión de exchange activa del usuario
+      const conexion = await conexionDePeticion(req, res, userId);
+      if (conexion === undefined) return;
 
       // Verificar si hay exchanges
-      if (!exchanges || exchanges.length === 0) {
+      if (!conexion) {
         return res.json({
           totalBalance: 0,
           connected: false,
           exchangesCount: 0,
-          message:
-            "No se encontraron exchanges de Binance activos para este usuario",
+          message: "No se encontraron exchanges activos para este usuario",
         });
       }
 
-      // Tomar el primer exchange del array
-      const exchange = exchanges[0];
+      const { adapter, credentials } = conexion;
 
-      const decryptedApiKey = decrypt(exchange.api_key);
-      const decryptedApiSecret = decrypt(exchange.api_secret);
-
-      const credentials: BinanceCredentials = {
-        apiKey: decryptedApiKey,
-        apiSecret: decryptedApiSecret,
-      };
-
-      const symbols = await binanceService.getUserTradeSymbols(credentials);
+      const symbols = await adapter.getUserTradeSymbols(credentials);
 
       return res.json({
         success: true,
@@ -685,8 +1113,11 @@ binanceRouter.post("/check-buy", async (req, res) => {
       });
     }
 
+    const adapter = adapterDePeticion(req, res);
+    if (!adapter) return;
+
     const credentials = { apiKey, apiSecret };
-    const result = await binanceService.checkBuyAvailability(
+    const result = await adapter.checkBuyAvailability(
       credentials,
       symbol,
       quantity
@@ -712,7 +1143,15 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
   try {
     const { userId } = req.params;
     // MODIFICADO: Añadir quoteQuantity
-    const { symbol, quantity, price, type, quoteQuantity } = req.body;
+    const {
+      symbol,
+      quantity,
+      price,
+      type,
+      quoteQuantity,
+      stopPrice,
+      desdeEarn,
+    } = req.body;
 
     console.log("=== 🛒 COMPRA DESDE USUARIO ===");
     console.log(`👤 User ID: ${userId}`);
@@ -722,6 +1161,7 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
       price,
       type,
       quoteQuantity,
+      stopPrice,
     });
 
     // Validaciones básicas
@@ -748,40 +1188,24 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
       });
     }
 
-    // Obtener credenciales de Binance del usuario
-    const exchanges: Exchange[] = await servicioUsuario.obtenerExchangesUsuario(
-      userId,
-      {
-        exchange: "binance",
-        is_active: true,
-      }
-    );
+    // Obtener la conexión de exchange activa del usuario
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
 
     // Verificar si hay exchanges
-    if (!exchanges || exchanges.length === 0) {
+    if (!conexion) {
       return res.status(400).json({
         success: false,
-        error:
-          "No se encontraron exchanges de Binance activos para este usuario",
+        error: "No se encontraron exchanges activos para este usuario",
       });
     }
 
-    // Tomar el primer exchange del array
-    const exchange = exchanges[0];
-
-    // Desencriptar credenciales
-    const decryptedApiKey = decrypt(exchange.api_key);
-    const decryptedApiSecret = decrypt(exchange.api_secret);
-
-    const credentials = {
-      apiKey: decryptedApiKey,
-      apiSecret: decryptedApiSecret,
-    };
+    const { adapter, credentials } = conexion;
 
     console.log(`🔐 Credenciales obtenidas para usuario ${userId}`);
 
     // MODIFICADO: Obtener precio actual para cálculos
-    const currentPrice = await binanceService.getPrice(symbol);
+    const currentPrice = await adapter.getPrice(symbol);
     console.log(`💰 Precio actual de ${symbol}: ${currentPrice}`);
 
     // MODIFICADO: Calcular cantidad real del activo base y costo estimado
@@ -805,8 +1229,19 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
     console.log(`📊 Cantidad calculada del activo base: ${baseQuantity}`);
     console.log(`📊 Costo estimado: ${estimatedCost}`);
 
+    // Si se pide, lo que falte de la moneda de cotización sale de Earn
+    let reembolsoEarn;
+    if (desdeEarn === true) {
+      const { quoteAsset } = await adapter.getSymbolInfo(credentials, symbol);
+      reembolsoEarn = await servicioEarn.asegurarSaldo(
+        conexion,
+        quoteAsset,
+        estimatedCost
+      );
+    }
+
     // MODIFICADO: Verificar disponibilidad con cantidad base y precio actual
-    const availability = await binanceService.checkBuyAvailability(
+    const availability = await adapter.checkBuyAvailability(
       credentials,
       symbol,
       baseQuantity,
@@ -817,6 +1252,7 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
       return res.status(400).json({
         success: false,
         error: `Saldo insuficiente. Disponible: ${availability.availableBalance} ${availability.quoteAsset}, Necesario estimado: ${availability.estimatedCost}`,
+        reembolsoEarn,
       });
     }
 
@@ -827,7 +1263,7 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
     };
 
     const isMarketOrder = !type || type === "MARKET";
-    const isLimitOrder = type === "LIMIT";
+    const isConditionalOrder = esOrdenCondicional(type);
 
     // Para órdenes de mercado con quoteQuantity, usar quoteOrderQty
     if (
@@ -842,44 +1278,72 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
       orderParams.quantity = baseQuantity;
     }
 
-    if (isLimitOrder && price) {
+    if (llevaPrecioLimite(type) && price) {
       orderParams.price = price;
     }
 
-    const result = await binanceService.placeBuyOrder(credentials, orderParams);
+    if (isConditionalOrder) {
+      orderParams.stopPrice = stopPrice;
+    }
+
+    // Las órdenes que pueden quedar abiertas (LIMIT, condicionales) no se
+    // guardan aquí: la compra la registra el user data stream al ejecutarse
+    if (!isMarketOrder) {
+      orderParams.newClientOrderId = generarClientOrderId(
+        PREFIJO_ORDEN_PENDIENTE
+      );
+    }
+
+    const result = await adapter.placeBuyOrder(credentials, orderParams);
 
     if (!result.success) {
       return res.status(400).json(result);
     }
 
-    if (result.order.fills && result.order.fills.length > 0) {
-      let comisionTotalUSDC = 0;
+    if (!isMarketOrder) {
+      const pendiente = await servicioOrdenes.registrarPendiente(
+        userId,
+        conexion,
+        result.order
+      );
 
-      result.order.fills.forEach((fill, index) => {
+      return res.json({
+        success: true,
+        message: pendiente
+          ? "Orden de compra abierta; la compra se registrará cuando se ejecute"
+          : "Orden de compra ejecutada exitosamente",
+        order: result.order,
+        pendiente,
+        reembolsoEarn,
+      });
+    }
+
+    const comision = await servicioComisiones.normalizar(
+      adapter,
+      symbol,
+      result.order.fills || [],
+      result.order.transactTime || Date.now()
+    );
+
+    if (result.order.fills && result.order.fills.length > 0) {
+      result.order.fills.forEach((fill, index) => {
         console.log(`   Transacción ${index + 1}:`);
         console.log(
           `     - Comisión: ${fill.commission} ${fill.commissionAsset}`
         );
-
-        // Si la comisión es en USDC/USDT, súmala
-        if (
-          fill.commissionAsset === "USDC" ||
-          fill.commissionAsset === "USDT"
-        ) {
-          comisionTotalUSDC += parseFloat(fill.commission);
-        } else {
-          console.log(`La comision no esta en usdc`);
-        }
       });
 
-      console.log(`   Total comisión en USDC: ${comisionTotalUSDC}`);
+      console.log(
+        `   Total comisión: ${comision.comisionCotizacion ?? "sin valorar"} ${comision.monedaCotizacion}`
+      );
     }
 
     // MODIFICADO: Guardar compra con cantidad base calculada
     try {
       const supabase = getSupabaseClient();
       const datosCompra = {
-        exchange: "Binance",
+        exchange: adapter.nombre,
+        idCuenta: conexion.id,
         idOrden: result.order?.orderId.toString() || "",
         simbolo: symbol,
         precio: result.order?.fills?.[0]?.price
@@ -889,12 +1353,9 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
         total: result.order?.cummulativeQuoteQty
           ? parseFloat(result.order.cummulativeQuoteQty)
           : null, // Usar costo estimado como fallback
-        comision: result.order?.fills?.[0]?.commission
-          ? parseFloat(result.order.fills[0].commission)
-          : 0,
-        comisionMoneda: result.order?.fills?.[0]?.commissionAsset
-          ? result.order.fills[0].commissionAsset
-          : "",
+        comision: comision.comision,
+        comisionMoneda: comision.comisionMoneda,
+        comisionCotizacion: comision.comisionCotizacion,
         fechaCompra: result.order?.transactTime
           ? new Date(result.order.transactTime).toISOString()
           : new Date().toISOString(),
@@ -921,6 +1382,7 @@ binanceRouter.post("/user/:userId/buy", async (req, res) => {
       message: "Orden de compra ejecutada exitosamente",
       order: result.order,
       localId: result.order?.orderId,
+      reembolsoEarn,
     });
   } catch (error) {
     console.error("Error en /user/:userId/buy:", error);
@@ -956,37 +1418,21 @@ binanceRouter.post("/user/:userId/check-buy", async (req, res) => {
       });
     }
 
-    // Obtener credenciales de Binance del usuario
-    const exchanges: Exchange[] = await servicioUsuario.obtenerExchangesUsuario(
-      userId,
-      {
-        exchange: "binance",
-        is_active: true,
-      }
-    );
+    // Obtener la conexión de exchange activa del usuario
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
 
     // Verificar si hay exchanges
-    if (!exchanges || exchanges.length === 0) {
+    if (!conexion) {
       return res.status(400).json({
         success: false,
-        error:
-          "No se encontraron exchanges de Binance activos para este usuario",
+        error: "No se encontraron exchanges activos para este usuario",
       });
     }
 
-    // Tomar el primer exchange del array
-    const exchange = exchanges[0];
-
-    // Desencriptar credenciales
-    const decryptedApiKey = decrypt(exchange.api_key);
-    const decryptedApiSecret = decrypt(exchange.api_secret);
+    const { adapter, credentials } = conexion;
 
-    const credentials = {
-      apiKey: decryptedApiKey,
-      apiSecret: decryptedApiSecret,
-    };
-
-    const result = await binanceService.checkBuyAvailability(
+    const result = await adapter.checkBuyAvailability(
       credentials,
       symbol,
       quantity
@@ -1022,18 +1468,32 @@ binanceRouter.post("/user/:userId/check-buy", async (req, res) => {
 binanceRouter.post("/user/:userId/sell", async (req, res) => {
   try {
     const { userId } = req.params;
-    // Parámetros: compraId es obligatorio para asociar la venta
-    const { compraId, symbol, quantity, price, type, quoteQuantity } = req.body;
+    // Parámetros: la venta se asocia a compraId, a las compras de compraIds
+    // (en ese orden) o, si no se indica ninguna, a las que elija metodoCoste
+    const {
+      compraId,
+      compraIds,
+      metodoCoste,
+      symbol,
+      quantity,
+      price,
+      type,
+      quoteQuantity,
+      stopPrice,
+    } = req.body;
 
     console.log("=== 📤 VENTA DESDE USUARIO ===");
     console.log(`👤 User ID: ${userId}`);
     console.log(`📊 Parámetros:`, {
       compraId,
+      compraIds,
+      metodoCoste,
       symbol,
       quantity,
       price,
       type,
       quoteQuantity,
+      stopPrice,
     });
 
     // Validaciones básicas
@@ -1044,10 +1504,31 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
       });
     }
 
-    if (!compraId) {
+    const idsCompra: number[] = Array.isArray(compraIds)
+      ? compraIds.map(Number)
+      : compraId
+      ? [Number(compraId)]
+      : [];
+
+    if (metodoCoste !== undefined && !METODOS_COSTE.includes(metodoCoste)) {
+      return res.status(400).json({
+        success: false,
+        error: `metodoCoste debe ser uno de: ${METODOS_COSTE.join(", ")}`,
+      });
+    }
+
+    if (metodoCoste === "ESPECIFICO" && idsCompra.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "Con metodoCoste ESPECIFICO hay que indicar compraId o compraIds",
+      });
+    }
+
+    // Una orden que puede quedar abierta se registra después contra su compra
+    if (type && type !== "MARKET" && idsCompra.length !== 1) {
       return res.status(400).json({
         success: false,
-        error: "El compraId es requerido para asociar la venta",
+        error: "Las órdenes que no son de mercado se asocian a una sola compra (compraId)",
       });
     }
 
@@ -1067,67 +1548,88 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
       });
     }
 
-    // Obtener credenciales de Binance del usuario
-    const exchanges: Exchange[] = await servicioUsuario.obtenerExchangesUsuario(
-      userId,
-      {
-        exchange: "binance",
-        is_active: true,
-      }
-    );
+    // Obtener la conexión de exchange activa del usuario
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
 
     // Verificar si hay exchanges
-    if (!exchanges || exchanges.length === 0) {
+    if (!conexion) {
       return res.status(400).json({
         success: false,
-        error:
-          "No se encontraron exchanges de Binance activos para este usuario",
+        error: "No se encontraron exchanges activos para este usuario",
       });
     }
 
-    // Obtener la compra asociada desde Supabase
-    const supabase = getSupabaseClient();
-    const { data: compra, error: errorCompra } = await supabase
-      .from("compras")
-      .select("*")
-      .eq("id", compraId)
-      .eq("idUsuario", userId)
-      .single();
+    // Comprobar la compra indicada desde Supabase
+    if (compraId && idsCompra.length === 1) {
+      const supabase = getSupabaseClient();
+      const { data: compra, error: errorCompra } = await supabase
+        .from("compras")
+        .select("*")
+        .eq("id", compraId)
+        .eq("idUsuario", userId)
+        .single();
+
+      if (errorCompra || !compra) {
+        return res.status(400).json({
+          success: false,
+          error: "Compra no encontrada o no pertenece al usuario",
+        });
+      }
+
+      // La venta tiene que hacerse en la cuenta donde se compró
+      if (compra.idCuenta !== conexion.id) {
+        return res.status(400).json({
+          success: false,
+          error: "La compra pertenece a otra cuenta del usuario",
+        });
+      }
+
+      // Verificar que la compra no esté ya vendida
+      if (compra.vendida) {
+        return res.status(400).json({
+          success: false,
+          error: "Esta compra ya ha sido vendida completamente",
+        });
+      }
+    }
+
+    // Lotes que cubrirán la venta y cantidad disponible en ellos
+    const metodo: MetodoCoste = idsCompra.length
+      ? "ESPECIFICO"
+      : metodoCoste || (await servicioLotes.obtenerMetodo(userId));
+    const abiertos = await servicioLotes.lotesAbiertos(userId, conexion.id, symbol);
 
-    if (errorCompra || !compra) {
+    // Con ESPECIFICO todas las compras indicadas tienen que poder venderse
+    // aquí: si no, la venta quedaría sin lote o en los de otra cuenta
+    const noDisponibles = servicioLotes.idsNoDisponibles(abiertos, idsCompra);
+    if (noDisponibles.length > 0) {
       return res.status(400).json({
         success: false,
-        error: "Compra no encontrada o no pertenece al usuario",
+        error: `Compras no encontradas, repetidas, ya vendidas o de otro símbolo o cuenta: ${noDisponibles.join(", ")}`,
+        compras: noDisponibles,
       });
     }
 
-    // Verificar que la compra no esté ya vendida
-    if (compra.vendida) {
+    const lotes = servicioLotes.ordenarLotes(abiertos, metodo, idsCompra);
+    if (lotes.length === 0) {
       return res.status(400).json({
         success: false,
-        error: "Esta compra ya ha sido vendida completamente",
+        error: `No hay compras abiertas de ${symbol} en esta cuenta`,
       });
     }
 
-    // Calcular cantidad disponible para vender
-    const cantidadDisponible = compra.cantidad_restante || compra.cantidad;
+    const cantidadDisponible = lotes.reduce(
+      (acc, lote) => acc + lote.restante,
+      0
+    );
     
-    // Tomar el primer exchange del array
-    const exchange = exchanges[0];
-
-    // Desencriptar credenciales
-    const decryptedApiKey = decrypt(exchange.api_key);
-    const decryptedApiSecret = decrypt(exchange.api_secret);
-
-    const credentials = {
-      apiKey: decryptedApiKey,
-      apiSecret: decryptedApiSecret,
-    };
+    const { adapter, credentials } = conexion;
 
     console.log(`🔐 Credenciales obtenidas para usuario ${userId}`);
 
     // Obtener precio actual para cálculos
-    const currentPrice = await binanceService.getPrice(symbol);
+    const currentPrice = await adapter.getPrice(symbol);
     console.log(`💰 Precio actual de ${symbol}: ${currentPrice}`);
 
     // Calcular cantidad real a vender
@@ -1162,7 +1664,7 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
     console.log(`📊 Ingreso estimado: ${estimatedRevenue}`);
 
     // Verificar disponibilidad para vender (balance en Binance)
-    const availability = await binanceService.checkSellAvailability(
+    const availability = await adapter.checkSellAvailability(
       credentials,
       symbol,
       cantidadAVender,
@@ -1183,7 +1685,7 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
     };
 
     const isMarketOrder = !type || type === "MARKET";
-    const isLimitOrder = type === "LIMIT";
+    const isConditionalOrder = esOrdenCondicional(type);
 
     // Para órdenes de mercado con quoteQuantity, usar quoteOrderQty
     if (
@@ -1198,20 +1700,54 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
       orderParams.quantity = cantidadAVender;
     }
 
-    if (isLimitOrder && price) {
+    if (llevaPrecioLimite(type) && price) {
       orderParams.price = price;
     }
 
+    if (isConditionalOrder) {
+      orderParams.stopPrice = stopPrice;
+    }
+
     // Ejecutar orden de venta
-    const result = await binanceService.placeSellOrder(credentials, orderParams);
+    const result = await adapter.placeSellOrder(credentials, orderParams);
 
     if (!result.success) {
       return res.status(400).json(result);
     }
 
+    // Orden que queda abierta (LIMIT que no cruza, stop loss, take profit):
+    // la venta se registra contra la compra cuando se ejecute
+    const pendiente = await servicioOrdenes.registrarPendiente(
+      userId,
+      conexion,
+      result.order,
+      idsCompra[0]
+    );
+    if (pendiente) {
+      const proteccion = await servicioProtecciones.registrarOrdenVenta(
+        userId,
+        idsCompra[0],
+        conexion,
+        result.order
+      );
+
+      return res.json({
+        success: true,
+        message:
+          "Orden de venta abierta; la venta se registrará cuando se ejecute",
+        order: result.order,
+        pendiente,
+        proteccion,
+      });
+    }
+
     // Log de comisiones
-    let comisionTotalVenta = 0;
-    let comisionMonedaVenta = "";
+    const comision = await servicioComisiones.normalizar(
+      adapter,
+      symbol,
+      result.order.fills || [],
+      result.order.transactTime || Date.now()
+    );
 
     if (result.order.fills && result.order.fills.length > 0) {
       result.order.fills.forEach((fill, index) => {
@@ -1219,24 +1755,11 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
         console.log(
           `     - Comisión: ${fill.commission} ${fill.commissionAsset}`
         );
-
-        // Sumar comisiones si son en la moneda de cotización (USDC/USDT)
-        if (
-          fill.commissionAsset === "USDC" ||
-          fill.commissionAsset === "USDT"
-        ) {
-          comisionTotalVenta += parseFloat(fill.commission);
-          comisionMonedaVenta = fill.commissionAsset;
-        } else {
-          console.log(`La comisión no está en USDC/USDT`);
-          // Guardamos la primera moneda de comisión no USDC
-          if (!comisionMonedaVenta) {
-            comisionMonedaVenta = fill.commissionAsset;
-          }
-        }
       });
 
-      console.log(`   Total comisión en venta: ${comisionTotalVenta} ${comisionMonedaVenta}`);
+      console.log(
+        `   Total comisión en venta: ${comision.comisionCotizacion ?? "sin valorar"} ${comision.monedaCotizacion}`
+      );
     }
 
     // Calcular precio de venta real (promedio ponderado)
@@ -1257,115 +1780,1470 @@ binanceRouter.post("/user/:userId/sell", async (req, res) => {
       }
     }
 
-    // Guardar venta en base de datos y actualizar compra
+    // La orden se redondea al step size: usar lo realmente ejecutado
+    const cantidadVendida = result.order?.executedQty
+      ? parseFloat(result.order.executedQty)
+      : cantidadAVender;
+
+    // Repartir la venta entre los lotes, guardarla y actualizar las compras
+    let asignacion: ResultadoAsignacion | null = null;
     try {
-      const totalVentaReal = result.order?.cummulativeQuoteQty
-        ? parseFloat(result.order.cummulativeQuoteQty)
-        : estimatedRevenue;
-
-      // Calcular beneficio
-      const totalCompra = compra.total || (compra.precio * cantidadAVender);
-      const beneficio = totalVentaReal - totalCompra;
-      const porcentajeBeneficio = (beneficio / totalCompra) * 100;
-
-      // 1. Insertar registro en ventas
-      const datosVenta = {
-        idCompra: compraId,
-        exchange: "Binance",
-        // idOrdenVenta: result.order?.orderId.toString() || "",
+      asignacion = await servicioLotes.registrarVenta({
+        idUsuario: userId,
+        exchange: adapter.nombre,
+        idCuenta: conexion.id,
         simbolo: symbol,
+        cantidad: cantidadVendida,
         precioVenta: precioVentaReal,
-        cantidadVendida: cantidadAVender,
-        // totalVenta: totalVentaReal,
-        comisionVenta: comisionTotalVenta,
-        comisionMoneda: comisionMonedaVenta,
-        beneficio: beneficio,
-        porcentajeBeneficio: porcentajeBeneficio,
-        idUsuario: userId,
-        fechaVenta: result.order?.transactTime
-          ? new Date(result.order.transactTime).toISOString()
-          : new Date().toISOString(),
-      };
+        comision,
+        fecha: result.order?.transactTime || Date.now(),
+        metodo,
+        idsCompra: lotes.map((lote) => lote.id),
+        // Lo que quede por debajo del step size ya no se puede vender
+        tolerancia: availability.stepSize,
+        idOrden: result.order?.orderId?.toString(),
+      });
+      console.log(
+        `✅ Venta guardada en base de datos (${asignacion?.emparejamientos.length} lote/s, método ${metodo})`
+      );
+    } catch (dbError) {
+      console.error("⚠️ Error en guardado BD:", dbError);
+    }
 
-      const { data: nuevaVenta, error: errorVenta } = await supabase
-        .from("ventas")
-        .insert([datosVenta])
-        .select();
+    res.json({
+      success: true,
+      message: "Orden de venta ejecutada exitosamente",
+      order: result.order,
+      localId: result.order?.orderId,
+      metodoCoste: metodo,
+      venta: asignacion?.venta || null,
+      emparejamientos: asignacion?.emparejamientos || [],
+      lotesCerrados: asignacion?.lotesCerrados || [],
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/sell:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al realizar la venta",
+    });
+  }
+});
 
-      if (errorVenta) {
-        console.error("⚠️ Error guardando venta en BD:", errorVenta);
-      } else {
-        console.log("✅ Venta guardada en base de datos");
-      }
+//====================================
+// Lotes de compra (emparejamiento de ventas)
+//====================================
 
-      // 2. Actualizar la compra (marcar como vendida o reducir cantidad)
-      const cantidadRestante = cantidadDisponible - cantidadAVender;
-      const estaCompletamenteVendida = cantidadRestante <= availability.stepSize; // Tolerancia por decimales
+/**
+ * Compras abiertas de un símbolo con lo que les queda, en el orden en que
+ * las vendería el método (?symbol, ?metodo; por defecto el del usuario)
+ */
+binanceRouter.get("/user/:userId/lotes", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const symbol = (req.query.symbol as string | undefined)?.toUpperCase();
+    const metodo = (req.query.metodo as MetodoCoste | undefined) || undefined;
 
-      const updateData: any = {
-        vendida: estaCompletamenteVendida,
-      };
+    if (!symbol) {
+      return res.status(400).json({
+        success: false,
+        error: "El símbolo es requerido",
+      });
+    }
 
-      // Si la cantidad restante es muy pequeña, establecer a 0 y marcar como vendida
-      if (cantidadRestante < availability.stepSize) {
-        updateData.cantidadRestante= 0
-        updateData.vendida = true;
-      }
+    if (metodo && (!METODOS_COSTE.includes(metodo) || metodo === "ESPECIFICO")) {
+      return res.status(400).json({
+        success: false,
+        error: "metodo debe ser FIFO, LIFO o HIFO",
+      });
+    }
 
-      const { error: errorUpdateCompra } = await supabase
-        .from("compras")
-        .update(updateData)
-        .eq("id", compraId);
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
 
-      if (errorUpdateCompra) {
-        console.error("⚠️ Error actualizando compra:", errorUpdateCompra);
-      } else {
-        console.log(`✅ Compra actualizada. Vendida: ${updateData.vendida}, Cantidad restante: ${updateData.cantidad_restante}`);
-      }
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
 
-    } catch (dbError) {
-      console.error("⚠️ Error en guardado BD:", dbError);
+    const metodoCoste = metodo || (await servicioLotes.obtenerMetodo(userId));
+    const lotes = servicioLotes.ordenarLotes(
+      await servicioLotes.lotesAbiertos(userId, conexion.id, symbol),
+      metodoCoste
+    );
+
+    res.json({
+      success: true,
+      metodoCoste,
+      lotes,
+      cantidadTotal: lotes.reduce((acc, lote) => acc + lote.restante, 0),
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/lotes:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener los lotes",
+    });
+  }
+});
+
+/**
+ * Compras que cubrió una venta, con el coste y el beneficio de cada parte
+ */
+binanceRouter.get("/user/:userId/ventas/:ventaId/lotes", async (req, res) => {
+  try {
+    const { userId, ventaId } = req.params;
+    const emparejamientos = await servicioLotes.obtenerEmparejamientos(
+      userId,
+      parseInt(ventaId)
+    );
+
+    res.json({ success: true, emparejamientos });
+  } catch (error) {
+    console.error("Error en /user/:userId/ventas/:ventaId/lotes:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener los lotes de la venta",
+    });
+  }
+});
+
+/**
+ * Método de coste para las ventas que no eligen lotes (ventas sin compraId
+ * y ventas hechas fuera de la aplicación). Body: { metodo }
+ */
+binanceRouter.put("/user/:userId/metodo-coste", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { metodo } = req.body;
+
+    if (!METODOS_COSTE.includes(metodo) || metodo === "ESPECIFICO") {
+      return res.status(400).json({
+        success: false,
+        error: "metodo debe ser FIFO, LIFO o HIFO",
+      });
+    }
+
+    await servicioLotes.establecerMetodo(userId, metodo);
+    res.json({ success: true, metodoCoste: metodo });
+  } catch (error) {
+    console.error("Error en /user/:userId/metodo-coste:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al guardar el método de coste",
+    });
+  }
+});
+
+//====================================
+// Protecciones (OCO, stop loss, take profit)
+//====================================
+
+/**
+ * Coloca una OCO de venta (take profit + stop loss) sobre una compra
+ */
+binanceRouter.post("/user/:userId/compras/:compraId/oco", async (req, res) => {
+  try {
+    const { userId, compraId } = req.params;
+    const { precioObjetivo, precioStop, precioStopLimite, cantidad } = req.body;
+
+    console.log("=== 🛡️ OCO SOBRE COMPRA ===");
+    console.log(`👤 User ID: ${userId}`);
+    console.log(`📊 Parámetros:`, {
+      compraId,
+      precioObjetivo,
+      precioStop,
+      precioStopLimite,
+      cantidad,
+    });
+
+    if (!precioObjetivo || !precioStop) {
+      return res.status(400).json({
+        success: false,
+        error: "Se requieren 'precioObjetivo' (take profit) y 'precioStop' (stop loss)",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const result = await servicioProtecciones.crearOco(
+      userId,
+      parseInt(compraId),
+      conexion,
+      { precioObjetivo, precioStop, precioStopLimite, cantidad }
+    );
+
+    if (!result.success) {
+      return res.status(400).json(result);
     }
 
     res.json({
       success: true,
-      message: "Orden de venta ejecutada exitosamente",
-      order: result.order,
-      localId: result.order?.orderId,
-      compraActualizada: {
-        compraId,
-        vendida: cantidadAVender >= cantidadDisponible,
-        cantidadRestante: cantidadDisponible - cantidadAVender,
-      },
+      message: "OCO creada exitosamente",
+      proteccion: result.proteccion,
     });
   } catch (error) {
-    console.error("Error en /user/:userId/sell:", error);
+    console.error("Error en /user/:userId/compras/:compraId/oco:", error);
     res.status(500).json({
       success: false,
       error:
         error instanceof Error
           ? error.message
-          : "Error desconocido al realizar la venta",
+          : "Error desconocido al crear la OCO",
     });
   }
 });
 
 /**
- * Ruta para verificar disponibilidad antes de vender
+ * Protecciones (activas e históricas) de una compra
  */
-binanceRouter.post("/check-sell", async (req, res) => {
+binanceRouter.get("/user/:userId/compras/:compraId/oco", async (req, res) => {
   try {
-    const { apiKey, apiSecret, symbol, quantity } = req.body;
+    const { userId, compraId } = req.params;
 
-    if (!apiKey || !apiSecret || !symbol || !quantity) {
+    const protecciones = await servicioProtecciones.obtenerProteccionesCompra(
+      userId,
+      parseInt(compraId)
+    );
+
+    res.json({
+      success: true,
+      protecciones,
+      activa: protecciones.find((p) => p.estado === "activa") || null,
+    });
+  } catch (error) {
+    console.error("Error en GET /user/:userId/compras/:compraId/oco:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener las protecciones",
+    });
+  }
+});
+
+/**
+ * Cancela la protección activa de una compra
+ */
+binanceRouter.delete("/user/:userId/compras/:compraId/oco", async (req, res) => {
+  try {
+    const { userId, compraId } = req.params;
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
       return res.status(400).json({
         success: false,
-        error: "Todos los parámetros son requeridos",
+        error: "No se encontraron exchanges activos para este usuario",
       });
     }
 
+    const result = await servicioProtecciones.cancelarProteccion(
+      userId,
+      parseInt(compraId),
+      conexion
+    );
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    res.json({
+      success: true,
+      message: "Protección cancelada",
+      proteccion: result.proteccion,
+    });
+  } catch (error) {
+    console.error("Error en DELETE /user/:userId/compras/:compraId/oco:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al cancelar la protección",
+    });
+  }
+});
+
+//====================================
+// Órdenes abiertas
+//====================================
+
+// orderId o clientOrderId de la orden, desde la query o el body
+function leerReferenciaOrden(fuente: any): ReferenciaOrden | null {
+  if (fuente.orderId) {
+    return { orderId: parseInt(fuente.orderId) };
+  }
+  if (fuente.clientOrderId) {
+    return { origClientOrderId: fuente.clientOrderId.toString() };
+  }
+  return null;
+}
+
+/**
+ * Órdenes abiertas en el exchange (de un símbolo o de todos)
+ */
+binanceRouter.get("/user/:userId/orders/open", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const symbol = req.query.symbol as string | undefined;
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const { adapter, credentials } = conexion;
+    const [orders, pendientes] = await Promise.all([
+      adapter.getOpenOrders(credentials, symbol),
+      servicioOrdenes.obtenerPendientes(userId, symbol, conexion.id),
+    ]);
+
+    // Marcar las que se lanzaron desde la aplicación
+    const registradas = new Set(pendientes.map((p) => p.idOrden));
+
+    res.json({
+      success: true,
+      orders: orders.map((order) => ({
+        ...order,
+        registrada: registradas.has(order.orderId),
+      })),
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/orders/open:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener las órdenes abiertas",
+    });
+  }
+});
+
+/**
+ * Órdenes de la aplicación que siguen abiertas (tabla ordenesPendientes), de
+ * todas las cuentas o de la indicada con ?cuenta=
+ */
+binanceRouter.get("/user/:userId/orders/pending", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const symbol = req.query.symbol as string | undefined;
+    const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+
+    if (idCuenta === null) {
+      return res.status(400).json({
+        success: false,
+        error: "La cuenta debe ser un id numérico",
+      });
+    }
+
+    const pendientes = await servicioOrdenes.obtenerPendientes(
+      userId,
+      symbol,
+      idCuenta
+    );
+
+    res.json({
+      success: true,
+      pendientes,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/orders/pending:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener las órdenes pendientes",
+    });
+  }
+});
+
+/**
+ * Cancela todas las órdenes abiertas de un símbolo
+ */
+binanceRouter.delete("/user/:userId/orders/open", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const symbol = (req.query.symbol || req.body?.symbol) as string;
+
+    if (!symbol) {
+      return res.status(400).json({
+        success: false,
+        error: "El símbolo es requerido",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const canceladas = await servicioOrdenes.cancelarTodas(
+      userId,
+      conexion,
+      symbol
+    );
+
+    res.json({
+      success: true,
+      message: `${canceladas.length} órdenes canceladas`,
+      orders: canceladas,
+    });
+  } catch (error) {
+    console.error("Error en DELETE /user/:userId/orders/open:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al cancelar las órdenes",
+    });
+  }
+});
+
+/**
+ * Estado de una orden por orderId o clientOrderId
+ */
+binanceRouter.get("/user/:userId/order", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const symbol = req.query.symbol as string;
+    const referencia = leerReferenciaOrden(req.query);
+
+    if (!symbol || !referencia) {
+      return res.status(400).json({
+        success: false,
+        error: "Se requieren 'symbol' y 'orderId' o 'clientOrderId'",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const { adapter, credentials } = conexion;
+    const order = await adapter.getOrder(credentials, symbol, referencia);
+
+    res.json({
+      success: true,
+      order,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/order:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al consultar la orden",
+    });
+  }
+});
+
+/**
+ * Cancela una orden por orderId o clientOrderId
+ */
+binanceRouter.delete("/user/:userId/order", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const fuente = { ...req.query, ...(req.body || {}) };
+    const symbol = fuente.symbol as string;
+    const referencia = leerReferenciaOrden(fuente);
+
+    if (!symbol || !referencia) {
+      return res.status(400).json({
+        success: false,
+        error: "Se requieren 'symbol' y 'orderId' o 'clientOrderId'",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const result = await servicioOrdenes.cancelarOrden(
+      userId,
+      conexion,
+      symbol,
+      referencia
+    );
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    res.json({
+      success: true,
+      message: "Orden cancelada",
+      order: result.order,
+    });
+  } catch (error) {
+    console.error("Error en DELETE /user/:userId/order:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al cancelar la orden",
+    });
+  }
+});
+
+/**
+ * Sustituye una orden abierta por otra (cancel-replace)
+ */
+binanceRouter.post("/user/:userId/order/cancel-replace", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { symbol, side, type, quantity, price, stopPrice } = req.body;
+    const referencia = leerReferenciaOrden(req.body);
+
+    console.log("=== 🔁 CANCEL-REPLACE DESDE USUARIO ===");
+    console.log(`👤 User ID: ${userId}`);
+    console.log(`📊 Parámetros:`, {
+      symbol,
+      referencia,
+      side,
+      type,
+      quantity,
+      price,
+      stopPrice,
+    });
+
+    if (!symbol || !referencia) {
+      return res.status(400).json({
+        success: false,
+        error: "Se requieren 'symbol' y 'orderId' o 'clientOrderId'",
+      });
+    }
+
+    if (!["BUY", "SELL"].includes(side)) {
+      return res.status(400).json({
+        success: false,
+        error: "El lado ('side') debe ser BUY o SELL",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const result = await servicioOrdenes.reemplazarOrden(userId, conexion, {
+      symbol,
+      side,
+      type: type || "LIMIT",
+      cancelar: referencia,
+      quantity,
+      price,
+      stopPrice,
+    });
+
+    if (!result.success) {
+      return res.status(400).json(result);
+    }
+
+    res.json({
+      ...result,
+      message: "Orden reemplazada exitosamente",
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/order/cancel-replace:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al reemplazar la orden",
+    });
+  }
+});
+
+//====================================
+// Depósitos, retiros y rentabilidad
+//====================================
+
+// Fecha ISO opcional de la query; undefined si no viene, null si no es válida
+function leerFechaQuery(valor: unknown): string | undefined | null {
+  if (valor === undefined || valor === "") return undefined;
+  const fecha = new Date(String(valor));
+  return isNaN(fecha.getTime()) ? null : fecha.toISOString();
+}
+
+/**
+ * Importa los depósitos y retiros nuevos desde la última sincronización
+ */
+binanceRouter.post("/user/:userId/movimientos/sync", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const resultado = await servicioMovimientos.sincronizarMovimientos(
+      userId,
+      conexion
+    );
+
+    res.json({
+      success: resultado.completo,
+      ...resultado,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/movimientos/sync:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al sincronizar los movimientos",
+    });
+  }
+});
+
+/**
+ * Depósitos y retiros guardados (?tipo=DEPOSITO|RETIRO&desde&hasta&cuenta)
+ */
+binanceRouter.get("/user/:userId/movimientos", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const tipo = req.query.tipo as string | undefined;
+    const desde = leerFechaQuery(req.query.desde);
+    const hasta = leerFechaQuery(req.query.hasta);
+    const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+
+    if (idCuenta === null) {
+      return res.status(400).json({
+        success: false,
+        error: "La cuenta debe ser un id numérico",
+      });
+    }
+    if (tipo && !["DEPOSITO", "RETIRO"].includes(tipo)) {
+      return res.status(400).json({
+        success: false,
+        error: "tipo debe ser DEPOSITO o RETIRO",
+      });
+    }
+    if (desde === null || hasta === null) {
+      return res.status(400).json({
+        success: false,
+        error: "Las fechas desde/hasta no son válidas",
+      });
+    }
+
+    const movimientos = await servicioMovimientos.obtenerMovimientos(userId, {
+      idCuentas: idCuenta !== undefined ? [idCuenta] : undefined,
+      tipo: tipo as "DEPOSITO" | "RETIRO" | undefined,
+      desde,
+      hasta,
+    });
+
+    res.json({
+      success: true,
+      movimientos,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/movimientos:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener los movimientos",
+    });
+  }
+});
+
+/**
+ * Aportación neta, TWR y MWR de un periodo, de todas las cuentas del usuario
+ * o de la indicada con ?cuenta=.
+ * Sin "desde" se mide desde el primer movimiento con la cuenta vacía; con
+ * "desde" el valor inicial es el indicado en valorInicial o, si no, el del
+ * último snapshot de cartera hasta esa fecha. Sin "hasta" el valor final es
+ * el balance actual; con "hasta", valorFinal o el último snapshot hasta esa
+ * fecha. El TWR se encadena en los snapshots de cartera del periodo
+ */
+binanceRouter.get("/user/:userId/rendimiento", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const desde = leerFechaQuery(req.query.desde);
+    const hasta = leerFechaQuery(req.query.hasta);
+    const valorInicial =
+      req.query.valorInicial !== undefined
+        ? parseFloat(req.query.valorInicial as string)
+        : undefined;
+    const valorFinal =
+      req.query.valorFinal !== undefined
+        ? parseFloat(req.query.valorFinal as string)
+        : undefined;
+
+    if (desde === null || hasta === null) {
+      return res.status(400).json({
+        success: false,
+        error: "Las fechas desde/hasta no son válidas",
+      });
+    }
+    if (
+      (valorInicial !== undefined && isNaN(valorInicial)) ||
+      (valorFinal !== undefined && isNaN(valorFinal))
+    ) {
+      return res.status(400).json({
+        success: false,
+        error: "valorInicial y valorFinal deben ser números",
+      });
+    }
+    const conexiones = await conexionesDePeticion(req, res, userId);
+    if (conexiones === undefined) return;
+
+    if (conexiones.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    // Sin valor indicado, el de los snapshots guardados hasta esa fecha
+    const idCuentas = conexiones.map((c) => c.id);
+    const inicial =
+      desde && valorInicial === undefined
+        ? await servicioSnapshots.valorEnFecha(userId, idCuentas, desde)
+        : undefined;
+    const final =
+      hasta && valorFinal === undefined
+        ? await servicioSnapshots.valorEnFecha(userId, idCuentas, hasta)
+        : undefined;
+
+    if (inicial === null) {
+      return res.status(400).json({
+        success: false,
+        error: "No hay snapshots de cartera anteriores a desde: indica valorInicial",
+      });
+    }
+    if (final === null) {
+      return res.status(400).json({
+        success: false,
+        error: "No hay snapshots de cartera anteriores a hasta: indica valorFinal",
+      });
+    }
+
+    const curva = await servicioSnapshots.generarCurva(userId, idCuentas, {
+      resolucion: "hora",
+      desde,
+      hasta,
+    });
+
+    const informe = await servicioMovimientos.generarInforme(userId, conexiones, {
+      desde,
+      hasta,
+      valorInicial: valorInicial ?? inicial?.valor,
+      valorFinal: valorFinal ?? final?.valor,
+      valoraciones: curva.puntos.map((p) => ({
+        fecha: Date.parse(p.fecha),
+        valor: p.valorUSD,
+      })),
+    });
+
+    res.json({
+      success: true,
+      informe,
+      // Fecha de los snapshots usados como valor inicial y final, si se usaron
+      snapshots: {
+        inicial: inicial?.fecha ?? null,
+        final: final?.fecha ?? null,
+      },
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/rendimiento:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al calcular la rentabilidad",
+    });
+  }
+});
+
+/**
+ * Curva del valor de la cartera a partir de los snapshots guardados, de
+ * todas las cuentas o de la indicada con ?cuenta=
+ * (?resolucion=hora|dia|semana&desde&hasta), con la rentabilidad de cada
+ * periodo sin depósitos ni retiros y el drawdown
+ */
+binanceRouter.get("/user/:userId/curva-valor", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const desde = leerFechaQuery(req.query.desde);
+    const hasta = leerFechaQuery(req.query.hasta);
+    const resolucion = (req.query.resolucion || "dia") as ResolucionCurva;
+
+    if (desde === null || hasta === null) {
+      return res.status(400).json({
+        success: false,
+        error: "Las fechas desde/hasta no son válidas",
+      });
+    }
+    if (!RESOLUCIONES_CURVA.includes(resolucion)) {
+      return res.status(400).json({
+        success: false,
+        error: `resolucion debe ser una de: ${RESOLUCIONES_CURVA.join(", ")}`,
+      });
+    }
+
+    const conexiones = await conexionesDePeticion(req, res, userId);
+    if (conexiones === undefined) return;
+
+    if (conexiones.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const curva = await servicioSnapshots.generarCurva(
+      userId,
+      conexiones.map((c) => c.id),
+      { resolucion, desde, hasta }
+    );
+
+    res.json({
+      success: true,
+      curva,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/curva-valor:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al generar la curva de valor",
+    });
+  }
+});
+
+/**
+ * Beneficio realizado y no realizado, precio medio de entrada y comisiones
+ * por par y en total (?desde&hasta&symbol&cuenta&bot=true|false&moneda).
+ * Las fechas filtran las compras y ventas que entran en el cálculo; los
+ * totales van en ?moneda (USD por defecto)
+ */
+binanceRouter.get("/user/:userId/resultados", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const desde = leerFechaQuery(req.query.desde);
+    const hasta = leerFechaQuery(req.query.hasta);
+    const bot = req.query.bot as string | undefined;
+
+    if (desde === null || hasta === null) {
+      return res.status(400).json({
+        success: false,
+        error: "Las fechas desde/hasta no son válidas",
+      });
+    }
+    if (bot !== undefined && bot !== "true" && bot !== "false") {
+      return res.status(400).json({
+        success: false,
+        error: "bot debe ser true o false",
+      });
+    }
+
+    const moneda = monedaDePeticion(req, res);
+    if (moneda === undefined) return;
+
+    const conexiones = await conexionesDePeticion(req, res, userId);
+    if (conexiones === undefined) return;
+
+    if (conexiones.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    // Precios de mercado aunque la cuenta sea de testnet
+    const informe = await servicioResultados.calcular(
+      userId,
+      servicioExchanges.obtenerAdapterValoracion(conexiones),
+      {
+        desde,
+        hasta,
+        simbolo: req.query.symbol
+          ? String(req.query.symbol).toUpperCase()
+          : undefined,
+        botS: bot === undefined ? undefined : bot === "true",
+        idCuentas: conexiones.map((c) => c.id),
+      },
+      moneda || "USD"
+    );
+
+    res.json({
+      success: true,
+      informe,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/resultados:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al calcular los resultados",
+    });
+  }
+});
+
+/**
+ * Importa los CSV de historial de trades u órdenes exportados de Binance.
+ * El fichero llega como text/csv o como "contenido" en un JSON. Sin
+ * confirmar=true solo devuelve la vista previa, con las operaciones nuevas,
+ * las ya guardadas y las que tienen errores
+ */
+binanceRouter.post(
+  "/user/:userId/trades/importar-csv",
+  express.text({ type: ["text/csv", "text/plain"], limit: "10mb" }),
+  async (req, res) => {
+    try {
+      const { userId } = req.params;
+      const contenido =
+        typeof req.body === "string" ? req.body : req.body?.contenido;
+      const confirmar =
+        req.query.confirmar === "true" || req.body?.confirmar === true;
+
+      if (typeof contenido !== "string" || contenido.trim() === "") {
+        return res.status(400).json({
+          success: false,
+          error: "Falta el contenido del CSV",
+        });
+      }
+
+      const conexion = await conexionDePeticion(req, res, userId);
+      if (conexion === undefined) return;
+
+      if (!conexion) {
+        return res.status(400).json({
+          success: false,
+          error: "No se encontraron exchanges activos para este usuario",
+        });
+      }
+
+      let resultado;
+      try {
+        resultado = await servicioImportacion.procesarCSV(
+          userId,
+          conexion,
+          contenido,
+          confirmar
+        );
+      } catch (error) {
+        // Cabecera que no es de Binance
+        if (error instanceof Error && error.message.includes("formato")) {
+          return res.status(400).json({ success: false, error: error.message });
+        }
+        throw error;
+      }
+
+      res.json({
+        success: true,
+        ...resultado,
+      });
+    } catch (error) {
+      console.error("Error en /user/:userId/trades/importar-csv:", error);
+      res.status(500).json({
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error desconocido al importar el CSV",
+      });
+    }
+  }
+);
+
+//====================================
+// Informe fiscal
+//====================================
+
+/**
+ * Ganancias y pérdidas patrimoniales de un ejercicio por FIFO, de todas las
+ * cuentas del usuario (?formato=json|csv|html&permutasEstables=true).
+ * El HTML es un resumen listo para imprimir o guardar como PDF
+ */
+binanceRouter.get("/user/:userId/informe-fiscal/:ejercicio", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const ejercicio = parseInt(req.params.ejercicio);
+    const formato = (req.query.formato as string) || "json";
+
+    if (isNaN(ejercicio) || ejercicio < 2009 || ejercicio > new Date().getFullYear()) {
+      return res.status(400).json({
+        success: false,
+        error: "El ejercicio debe ser un año válido",
+      });
+    }
+    if (!["json", "csv", "html"].includes(formato)) {
+      return res.status(400).json({
+        success: false,
+        error: "formato debe ser json, csv o html",
+      });
+    }
+
+    const conexiones = await servicioExchanges.obtenerConexionesUsuario(userId);
+    if (conexiones.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    // Precios en EUR de mercado aunque la cuenta sea de testnet
+    const informe = await servicioFiscal.generarInforme(
+      userId,
+      servicioExchanges.obtenerAdapterValoracion(conexiones),
+      ejercicio,
+      req.query.permutasEstables === "true"
+    );
+
+    if (formato === "csv") {
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="ganancias-patrimoniales-${ejercicio}.csv"`
+      );
+      return res.send(servicioFiscal.aCSV(informe));
+    }
+    if (formato === "html") {
+      res.setHeader("Content-Type", "text/html; charset=utf-8");
+      return res.send(servicioFiscal.aHTML(informe));
+    }
+
+    res.json({
+      success: true,
+      informe,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/informe-fiscal/:ejercicio:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al generar el informe fiscal",
+    });
+  }
+});
+
+//====================================
+// Exportación de datos
+//====================================
+
+/**
+ * Descarga compras, ventas, alertas u operaciones del bot en CSV o NDJSON
+ * (?formato=csv|ndjson&columnas=a,b). Filtros de /compras-activas: simbolo,
+ * fechaDesde, fechaHasta (YYYY-MM-DD) y cuenta, más bot=true|false en compras
+ * y ventas. Se envía por trozos mientras se lee
+ */
+binanceRouter.get("/user/:userId/exportar/:tipo", async (req, res) => {
+  const { userId } = req.params;
+  const tipo = req.params.tipo as TipoExportacion;
+  const formato = ((req.query.formato as string) || "csv") as FormatoExportacion;
+  const { simbolo, fechaDesde, fechaHasta, bot } = req.query;
+  const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+
+  if (!TIPOS_EXPORTACION.includes(tipo)) {
+    return res.status(400).json({
+      success: false,
+      error: `tipo debe ser ${TIPOS_EXPORTACION.join(", ")}`,
+    });
+  }
+  if (!["csv", "ndjson"].includes(formato)) {
+    return res.status(400).json({
+      success: false,
+      error: "formato debe ser csv o ndjson",
+    });
+  }
+  if (fechaDesde && !isValidDateString(fechaDesde as string)) {
+    return res.status(400).json({
+      success: false,
+      error: "Formato de fechaDesde inválido. Use YYYY-MM-DD",
+    });
+  }
+  if (fechaHasta && !isValidDateString(fechaHasta as string)) {
+    return res.status(400).json({
+      success: false,
+      error: "Formato de fechaHasta inválido. Use YYYY-MM-DD",
+    });
+  }
+  if (bot !== undefined && bot !== "true" && bot !== "false") {
+    return res.status(400).json({
+      success: false,
+      error: "bot debe ser true o false",
+    });
+  }
+  if (idCuenta === null) {
+    return res.status(400).json({
+      success: false,
+      error: "La cuenta debe ser un id numérico",
+    });
+  }
+
+  const eleccion = servicioExportacion.elegirColumnas(
+    tipo,
+    req.query.columnas as string | undefined
+  );
+  if ("error" in eleccion) {
+    return res.status(400).json({ success: false, error: eleccion.error });
+  }
+
+  res.setHeader(
+    "Content-Type",
+    formato === "csv"
+      ? "text/csv; charset=utf-8"
+      : "application/x-ndjson; charset=utf-8"
+  );
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${tipo}-${new Date().toISOString().slice(0, 10)}.${formato}"`
+  );
+
+  let cerrada = false;
+  req.on("close", () => {
+    cerrada = true;
+  });
+
+  // Espera a que se vacíe el buffer si el cliente va más lento
+  const escribir = async (trozo: string) => {
+    if (cerrada) throw new Error("El cliente cerró la conexión");
+    if (!res.write(trozo)) {
+      await new Promise<void>((resolve) => {
+        res.once("drain", resolve);
+        res.once("close", resolve);
+      });
+    }
+  };
+
+  try {
+    const filas = await servicioExportacion.exportar(
+      userId,
+      tipo,
+      {
+        simbolo: simbolo as string | undefined,
+        fechaDesde: fechaDesde as string | undefined,
+        fechaHasta: fechaHasta as string | undefined,
+        idCuenta,
+        botS: bot === undefined ? undefined : bot === "true",
+      },
+      eleccion.columnas,
+      formato,
+      escribir
+    );
+    console.log(`📤 ${filas} filas de ${tipo} exportadas (${formato}) para ${userId}`);
+    res.end();
+  } catch (error) {
+    console.error("Error en /user/:userId/exportar/:tipo:", error);
+    // Con la descarga empezada ya no se puede cambiar el estado
+    if (res.headersSent) return res.destroy();
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al exportar los datos",
+    });
+  }
+});
+
+//====================================
+// Importación del historial de trades
+//====================================
+
+/**
+ * Arranca (o retoma desde los cursores) la importación de todos los trades
+ * del usuario. Responde enseguida; el progreso llega por WebSocket
+ */
+binanceRouter.post("/user/:userId/trades/backfill", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const progreso = await servicioBackfill.iniciar(userId, conexion);
+
+    res.status(202).json({
+      success: true,
+      progreso,
+    });
+  } catch (error) {
+    console.error("Error en /user/:userId/trades/backfill:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al iniciar la importación de trades",
+    });
+  }
+});
+
+/**
+ * Progreso de la última importación de la cuenta
+ */
+binanceRouter.get("/user/:userId/trades/backfill", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    const progreso = conexion
+      ? servicioBackfill.obtenerProgreso(userId, conexion.id)
+      : null;
+
+    if (!progreso) {
+      return res.status(404).json({
+        success: false,
+        error: "No hay ninguna importación de trades para esta cuenta",
+      });
+    }
+
+    res.json({
+      success: true,
+      progreso,
+    });
+  } catch (error) {
+    console.error("Error en GET /user/:userId/trades/backfill:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al consultar la importación de trades",
+    });
+  }
+});
+
+// =============================================================================
+// SIMPLE EARN FLEXIBLE
+// =============================================================================
+
+/**
+ * Productos flexibles de Simple Earn con la posición del usuario (?asset)
+ */
+binanceRouter.get("/user/:userId/earn/productos", async (req, res) => {
+  try {
+    const { userId } = req.params;
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const productos = await servicioEarn.listarProductos(
+      conexion,
+      req.query.asset as string | undefined
+    );
+
+    res.json({ success: true, productos });
+  } catch (error) {
+    console.error("Error en /user/:userId/earn/productos:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al obtener los productos de Earn",
+    });
+  }
+});
+
+/**
+ * Suscribir saldo spot en el producto flexible de un activo
+ * Body: { asset, cantidad, cuenta? }
+ */
+binanceRouter.post("/user/:userId/earn/suscribir", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { asset } = req.body;
+    const cantidad = Number(req.body.cantidad);
+
+    if (!asset || !(cantidad > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "Se requieren 'asset' y una 'cantidad' positiva",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const resultado = await servicioEarn.suscribir(conexion, asset, cantidad);
+
+    res.status(resultado.success ? 200 : 400).json(resultado);
+  } catch (error) {
+    console.error("Error en /user/:userId/earn/suscribir:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al suscribir en Earn",
+    });
+  }
+});
+
+/**
+ * Reembolsar a spot parte de una posición flexible o toda ella
+ * Body: { asset, cantidad } o { asset, todo: true }, y cuenta?
+ */
+binanceRouter.post("/user/:userId/earn/reembolsar", async (req, res) => {
+  try {
+    const { userId } = req.params;
+    const { asset, todo } = req.body;
+    const cantidad =
+      req.body.cantidad !== undefined ? Number(req.body.cantidad) : undefined;
+
+    if (!asset) {
+      return res.status(400).json({
+        success: false,
+        error: "El parámetro 'asset' es obligatorio",
+      });
+    }
+
+    // El reembolso completo se pide de forma explícita
+    if (todo !== true && !(cantidad > 0)) {
+      return res.status(400).json({
+        success: false,
+        error: "Indica una 'cantidad' positiva o 'todo': true",
+      });
+    }
+
+    const conexion = await conexionDePeticion(req, res, userId);
+    if (conexion === undefined) return;
+
+    if (!conexion) {
+      return res.status(400).json({
+        success: false,
+        error: "No se encontraron exchanges activos para este usuario",
+      });
+    }
+
+    const resultado = await servicioEarn.reembolsar(
+      conexion,
+      asset,
+      todo === true ? undefined : cantidad
+    );
+
+    res.status(resultado.success ? 200 : 400).json(resultado);
+  } catch (error) {
+    console.error("Error en /user/:userId/earn/reembolsar:", error);
+    res.status(500).json({
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Error desconocido al reembolsar de Earn",
+    });
+  }
+});
+
+/**
+ * Ruta para verificar disponibilidad antes de vender
+ */
+binanceRouter.post("/check-sell", async (req, res) => {
+  try {
+    const { apiKey, apiSecret, symbol, quantity } = req.body;
+
+    if (!apiKey || !apiSecret || !symbol || !quantity) {
+      return res.status(400).json({
+        success: false,
+        error: "Todos los parámetros son requeridos",
+      });
+    }
+
+    const adapter = adapterDePeticion(req, res);
+    if (!adapter) return;
+
     const credentials = { apiKey, apiSecret };
-    const result = await binanceService.checkSellAvailability(
+    const result = await adapter.checkSellAvailability(
       credentials,
       symbol,
       quantity
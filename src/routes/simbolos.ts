@@ -0,0 +1,137 @@
+// routes/simbolos.ts
+import { Router, Request, Response } from 'express';
+import { obtenerBinanceService } from '../services/servicioBinance.js';
+import { authenticateToken, requireAdmin } from '../services/middleware/auth.js';
+import {
+  servicioSimbolos,
+  FUNCIONES_SIMBOLO,
+  FlagsSimbolo,
+} from '../services/servicioSimbolos.js';
+
+const router = Router();
+
+// Flags del cuerpo de la petición; null si alguno no es booleano
+function flagsDePeticion(body: any): FlagsSimbolo | null {
+  const flags: FlagsSimbolo = {};
+  for (const funcion of FUNCIONES_SIMBOLO) {
+    if (body?.[funcion] === undefined) continue;
+    if (typeof body[funcion] !== 'boolean') return null;
+    flags[funcion] = body[funcion];
+  }
+  return flags;
+}
+
+/**
+ * Registro completo de símbolos, o solo los operativos para una función
+ * (?funcion=precios|alertas|bot)
+ */
+router.get('/', (req: Request, res: Response) => {
+  const { funcion } = req.query;
+
+  if (funcion !== undefined) {
+    if (!FUNCIONES_SIMBOLO.includes(funcion as any)) {
+      return res.status(400).json({
+        error: `Función no válida. Usa una de: ${FUNCIONES_SIMBOLO.join(', ')}`,
+      });
+    }
+    return res.json({ simbolos: servicioSimbolos.listar(funcion as any) });
+  }
+
+  res.json({ simbolos: servicioSimbolos.obtenerTodos() });
+});
+
+// El resto de rutas modifican el registro: solo administradores
+router.use(authenticateToken, requireAdmin);
+
+/**
+ * Registrar un símbolo del exchange
+ */
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { simbolo } = req.body;
+    if (!simbolo || typeof simbolo !== 'string') {
+      return res.status(400).json({ error: 'simbolo es requerido' });
+    }
+
+    const flags = flagsDePeticion(req.body);
+    if (!flags) {
+      return res.status(400).json({
+        error: `Los flags ${FUNCIONES_SIMBOLO.join(', ')} deben ser booleanos`,
+      });
+    }
+
+    if (servicioSimbolos.obtenerTodos().some((s) => s.simbolo === simbolo.toUpperCase())) {
+      return res.status(409).json({ error: `${simbolo.toUpperCase()} ya está registrado` });
+    }
+
+    const registrado = await servicioSimbolos.registrar(
+      obtenerBinanceService('mainnet'),
+      simbolo,
+      flags
+    );
+    if (!registrado) {
+      return res.status(404).json({ error: `El exchange no lista ${simbolo.toUpperCase()}` });
+    }
+
+    return res.status(201).json(registrado);
+  } catch (error) {
+    console.error('Error registrando símbolo:', error);
+    return res.status(500).json({ error: 'Error al registrar el símbolo' });
+  }
+});
+
+/**
+ * Activar o desactivar funciones de un símbolo
+ */
+router.patch('/:simbolo', async (req: Request, res: Response) => {
+  try {
+    const flags = flagsDePeticion(req.body);
+    if (!flags || Object.keys(flags).length === 0) {
+      return res.status(400).json({
+        error: `Indica al menos un flag booleano: ${FUNCIONES_SIMBOLO.join(', ')}`,
+      });
+    }
+
+    const actualizado = await servicioSimbolos.actualizar(req.params.simbolo, flags);
+    if (!actualizado) {
+      return res.status(404).json({ error: 'Símbolo no registrado' });
+    }
+
+    return res.json(actualizado);
+  } catch (error) {
+    console.error('Error actualizando símbolo:', error);
+    return res.status(500).json({ error: 'Error al actualizar el símbolo' });
+  }
+});
+
+/**
+ * Quitar un símbolo del registro
+ */
+router.delete('/:simbolo', async (req: Request, res: Response) => {
+  try {
+    const eliminado = await servicioSimbolos.eliminar(req.params.simbolo);
+    if (!eliminado) {
+      return res.status(404).json({ error: 'Símbolo no registrado' });
+    }
+
+    return res.json({ message: 'Símbolo eliminado correctamente' });
+  } catch (error) {
+    console.error('Error eliminando símbolo:', error);
+    return res.status(500).json({ error: 'Error al eliminar el símbolo' });
+  }
+});
+
+/**
+ * Volver a leer el estado de todos los símbolos en el exchange
+ */
+router.post('/refrescar', async (req: Request, res: Response) => {
+  try {
+    const simbolos = await servicioSimbolos.refrescar(obtenerBinanceService('mainnet'));
+    return res.json({ simbolos });
+  } catch (error) {
+    console.error('Error refrescando símbolos:', error);
+    return res.status(500).json({ error: 'Error al refrescar los símbolos' });
+  }
+});
+
+export default router;
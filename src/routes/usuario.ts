@@ -2,6 +2,7 @@
 import { Router, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import { servicioUsuario } from "../services/servicioUsuario";
+import { servicioExchanges } from "../services/servicioExchanges";
 import { monitorService } from "../services/servicioMonitoreo";
 import { binanceService } from "../services/servicioBinance";
 const router = Router();
@@ -47,10 +48,21 @@ router.get("/:userId/cargarventas", async (req: Request, res: Response) => {
       return res.status(400).json({ error: "ID de usuario no proporcionado" });
     }
 
+    // Sin ?cuenta= se devuelven las de todas las cuentas
+    const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+    if (idCuenta === null) {
+      return res.status(400).json({ error: "La cuenta debe ser un id numérico" });
+    }
+
     console.log(`👤 Obteniendo ventas para usuario ID: ${userId}`);
 
     // Llamar al servicio para obtener las ventas
-    const ventas = await servicioUsuario.obtenerVentasUsuario(userId);
+    const ventas = await servicioUsuario.obtenerVentasUsuario(
+      userId,
+      false,
+      undefined,
+      idCuenta
+    );
 
     res.json({
       success: true,
@@ -84,8 +96,14 @@ router.get("/:userId/cargarcompras", async (req: Request, res: Response) => {
     // Convertir noVendida a booleano (true si el query es "true")
     const soloNoVendidas = noVendida === "true";
 
+    // Sin ?cuenta= se devuelven las de todas las cuentas
+    const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
+    if (idCuenta === null) {
+      return res.status(400).json({ error: "La cuenta debe ser un id numérico" });
+    }
+
     // Llamar al servicio para obtener las ventas
-    const compras = await servicioUsuario.obtenerComprasUsuario(userId,false,undefined,soloNoVendidas);
+    const compras = await servicioUsuario.obtenerComprasUsuario(userId,false,undefined,soloNoVendidas,idCuenta);
 
     res.json({
       success: true,
@@ -111,6 +129,7 @@ router.get("/:userId/cargarcompras/:simbolo", async (req: Request, res: Response
     const { userId, simbolo } = req.params;
     const bots = req.query.bots === "true";
     const fechaDesde = req.query.fechaDesde as string | undefined;
+    const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
 
     if (!userId || !simbolo) {
       return res.status(400).json({ 
@@ -118,13 +137,18 @@ router.get("/:userId/cargarcompras/:simbolo", async (req: Request, res: Response
       });
     }
 
+    if (idCuenta === null) {
+      return res.status(400).json({ error: "La cuenta debe ser un id numérico" });
+    }
+
     console.log(`👤 Obteniendo compras para usuario ${userId}, símbolo ${simbolo}`);
 
     const compras = await servicioUsuario.obtenerComprasUsuarioSimbolo(
       userId, 
       simbolo, 
       bots, 
-      fechaDesde
+      fechaDesde,
+      idCuenta
     );
 
     res.json({
@@ -150,6 +174,7 @@ router.get("/:userId/cargarventas/:simbolo", async (req: Request, res: Response)
     const { userId, simbolo } = req.params;
     const bots = req.query.bots === "true";
     const fechaDesde = req.query.fechaDesde as string | undefined;
+    const idCuenta = servicioExchanges.leerIdCuenta(req.query.cuenta);
 
     if (!userId || !simbolo) {
       return res.status(400).json({ 
@@ -157,13 +182,18 @@ router.get("/:userId/cargarventas/:simbolo", async (req: Request, res: Response)
       });
     }
 
+    if (idCuenta === null) {
+      return res.status(400).json({ error: "La cuenta debe ser un id numérico" });
+    }
+
     console.log(`👤 Obteniendo ventas para usuario ${userId}, símbolo ${simbolo}`);
 
     const ventas = await servicioUsuario.obtenerVentasUsuarioSimbolo(
       userId, 
       simbolo, 
       bots, 
-      fechaDesde
+      fechaDesde,
+      idCuenta
     );
 
     res.json({
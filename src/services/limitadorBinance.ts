@@ -0,0 +1,384 @@
+// servicios/limitadorBinance.ts
+
+/**
+ * LIMITADOR DE PETICIONES A LA API DE BINANCE
+ *
+ * Binance limita por peso de petición (por IP y host) y por número de
+ * órdenes (por cuenta). Este limitador:
+ * 1. Reserva el peso de cada petición antes de enviarla y espera a la
+ *    siguiente ventana si se superaría el límite
+ * 2. Ajusta el uso con las cabeceras X-MBX-USED-WEIGHT-* / X-MBX-ORDER-COUNT-*
+ * 3. Aplica los rateLimits de exchangeInfo
+ * 4. Respeta Retry-After tras un 429 y bloquea todo durante un baneo (418)
+ *
+ * Las ventanas de órdenes y el bloqueo por -1015 (demasiadas órdenes) van por
+ * API key: que una cuenta llegue a su límite no frena a las demás. Solo un
+ * 429 por peso de IP bloquea todas las peticiones al host.
+ */
+
+import { ExchangeInfoResponse } from "../interfaces/binance.types";
+
+type RateLimit = ExchangeInfoResponse["rateLimits"][number];
+
+// Uso en la ventana actual de un límite
+interface UsoVentana {
+  inicio: number;
+  usado: number;
+}
+
+// Margen de seguridad sobre el límite publicado (las otras instancias del
+// servidor comparten IP y no las vemos)
+const MARGEN_LIMITE = 0.9;
+
+// Más allá de esta espera preferimos fallar que retener la petición
+export const ESPERA_MAXIMA_MS = 60_000;
+
+// Reintentos de una petición rechazada con 429
+export const MAX_REINTENTOS_LIMITE = 3;
+
+// Retry-After por defecto si Binance no lo envía
+const RETRY_AFTER_POR_DEFECTO_MS = 60_000;
+
+// Código de Binance para el límite de órdenes de una cuenta
+export const CODIGO_DEMASIADAS_ORDENES = -1015;
+
+// Límites por defecto de spot hasta recibir los de exchangeInfo
+const LIMITES_POR_DEFECTO: RateLimit[] = [
+  { rateLimitType: "REQUEST_WEIGHT", interval: "MINUTE", intervalNum: 1, limit: 6000 },
+  { rateLimitType: "ORDERS", interval: "SECOND", intervalNum: 10, limit: 100 },
+  { rateLimitType: "ORDERS", interval: "DAY", intervalNum: 1, limit: 200000 },
+];
+
+// Los endpoints /sapi tienen su propio contador de peso por IP
+const LIMITE_SAPI: RateLimit = {
+  rateLimitType: "SAPI_WEIGHT",
+  interval: "MINUTE",
+  intervalNum: 1,
+  limit: 12000,
+};
+
+const DURACION_INTERVALO: Record<string, number> = {
+  SECOND: 1000,
+  MINUTE: 60_000,
+  HOUR: 3_600_000,
+  DAY: 86_400_000,
+};
+
+// Peso de cada endpoint según la documentación de Binance
+const PESOS_ENDPOINT: Record<string, number> = {
+  "/api/v3/time": 1,
+  "/api/v3/account": 20,
+  "/api/v3/myTrades": 20,
+  "/api/v3/exchangeInfo": 20,
+  "/api/v3/klines": 2,
+  "/api/v3/order": 1,
+  "/api/v3/orderList/oco": 1,
+  "/api/v3/orderList": 1,
+  "/api/v3/order/cancelReplace": 1,
+  "/api/v3/openOrders": 1,
+  "/api/v3/userDataStream": 2,
+  "/sapi/v1/simple-earn/account": 150,
+  "/sapi/v1/simple-earn/flexible/position": 150,
+  "/sapi/v1/simple-earn/locked/position": 150,
+  "/sapi/v1/asset/tradeFee": 1,
+  // El de retiros pesa 18000 por UID, no por IP
+  "/sapi/v1/capital/deposit/hisrec": 1,
+  "/sapi/v1/capital/withdraw/history": 1,
+};
+
+// =============================================================================
+// ERRORES
+// =============================================================================
+
+/**
+ * Binance ha rechazado la petición por exceso de peso (429) o el limitador
+ * no puede servirla sin esperar más de ESPERA_MAXIMA_MS
+ */
+export class ErrorLimiteBinance extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly reintentarEn: number, // timestamp a partir del cual se puede reintentar
+    readonly code?: number
+  ) {
+    super(message);
+    this.name = "ErrorLimiteBinance";
+  }
+}
+
+/**
+ * La IP está baneada (418): no se envía nada hasta que termine el baneo
+ */
+export class ErrorBaneoBinance extends ErrorLimiteBinance {
+  constructor(message: string, reintentarEn: number, code?: number) {
+    super(message, 418, reintentarEn, code);
+    this.name = "ErrorBaneoBinance";
+  }
+}
+
+// =============================================================================
+// CLASE PRINCIPAL DEL LIMITADOR
+// =============================================================================
+
+export class LimitadorBinance {
+  private limites: RateLimit[] = [...LIMITES_POR_DEFECTO, LIMITE_SAPI];
+  private uso: Map<string, UsoVentana> = new Map();
+  private bloqueadoHasta = 0; // tras un 429 por peso de IP
+  private ordenesBloqueadasHasta: Map<string, number> = new Map(); // tras un -1015, por API key
+  private baneadoHasta = 0; // tras un 418
+
+  /**
+   * @param ahora Reloj en ms (los tests lo sustituyen)
+   * @param dormir Espera los ms indicados
+   */
+  constructor(
+    private ahora: () => number = Date.now,
+    private dormir: (ms: number) => Promise<void> = (ms) =>
+      new Promise((resolve) => setTimeout(resolve, ms))
+  ) {}
+
+  /**
+   * Sustituye los límites por los publicados en exchangeInfo
+   */
+  configurarLimites(rateLimits: RateLimit[] = []): void {
+    const soportados = rateLimits.filter(
+      (l) =>
+        ["REQUEST_WEIGHT", "ORDERS"].includes(l.rateLimitType) &&
+        DURACION_INTERVALO[l.interval]
+    );
+    if (soportados.length === 0) return;
+
+    this.limites = [...soportados, LIMITE_SAPI];
+  }
+
+  /**
+   * Espera hasta poder enviar la petición y reserva su peso
+   * @param cuenta API key de la petición (las órdenes se cuentan por cuenta)
+   * @throws ErrorBaneoBinance si hay un baneo en curso
+   * @throws ErrorLimiteBinance si habría que esperar más de ESPERA_MAXIMA_MS
+   */
+  async esperarTurno(
+    endpoint: string,
+    method: string = "GET",
+    params: Record<string, string> = {},
+    cuenta: string = ""
+  ): Promise<void> {
+    const esSapi = endpoint.startsWith("/sapi/");
+    // Una OCO cuenta como dos órdenes
+    const ordenes =
+      endpoint === "/api/v3/orderList/oco"
+        ? 2
+        : (endpoint === "/api/v3/order" && method === "POST") ||
+          endpoint === "/api/v3/order/cancelReplace"
+        ? 1
+        : 0;
+    const esOrden = ordenes > 0;
+    const peso = this.calcularPeso(endpoint, method, params);
+
+    while (true) {
+      const ahora = this.ahora();
+
+      if (this.baneadoHasta > ahora) {
+        throw new ErrorBaneoBinance(
+          `IP baneada por Binance hasta ${new Date(this.baneadoHasta).toISOString()}`,
+          this.baneadoHasta
+        );
+      }
+
+      let esperarHasta = this.bloqueadoHasta > ahora ? this.bloqueadoHasta : 0;
+      if (esOrden) {
+        const bloqueoCuenta = this.ordenesBloqueadasHasta.get(cuenta) || 0;
+        if (bloqueoCuenta > ahora) {
+          esperarHasta = Math.max(esperarHasta, bloqueoCuenta);
+        }
+      }
+
+      if (!esperarHasta) {
+        for (const limite of this.limitesAplicables(esSapi, esOrden)) {
+          const ventana = this.ventana(limite, ahora, cuenta);
+          const coste = limite.rateLimitType === "ORDERS" ? ordenes : peso;
+          if (ventana.usado + coste > limite.limit * MARGEN_LIMITE) {
+            const fin = ventana.inicio + this.duracion(limite);
+            esperarHasta = Math.max(esperarHasta, fin);
+          }
+        }
+      }
+
+      if (!esperarHasta) {
+        // Reservar en todas las ventanas afectadas
+        for (const limite of this.limitesAplicables(esSapi, esOrden)) {
+          this.ventana(limite, ahora, cuenta).usado +=
+            limite.rateLimitType === "ORDERS" ? ordenes : peso;
+        }
+        return;
+      }
+
+      const espera = esperarHasta - ahora;
+      if (espera > ESPERA_MAXIMA_MS) {
+        throw new ErrorLimiteBinance(
+          `Límite de peticiones de Binance alcanzado, reintentar en ${Math.ceil(
+            espera / 1000
+          )}s`,
+          429,
+          esperarHasta
+        );
+      }
+
+      console.log(
+        `⏳ Límite de Binance: esperando ${espera}ms antes de ${method} ${endpoint}`
+      );
+      await this.dormir(espera);
+    }
+  }
+
+  /**
+   * Actualiza el uso con las cabeceras de la respuesta y detecta 429/418
+   * @param cuenta API key de la petición, la misma que en esperarTurno
+   * @returns El error correspondiente si Binance ha rechazado la petición
+   */
+  async registrarRespuesta(
+    response: Response,
+    cuenta: string = ""
+  ): Promise<ErrorLimiteBinance | null> {
+    const ahora = this.ahora();
+
+    for (const limite of this.limites) {
+      // Sin cuenta no sabemos de quién son las órdenes que cuenta la cabecera
+      if (limite.rateLimitType === "ORDERS" && !cuenta) continue;
+
+      const valor = response.headers.get(this.cabecera(limite));
+      if (valor === null) continue;
+
+      const usado = parseInt(valor);
+      if (isNaN(usado)) continue;
+
+      // La cabecera es el uso real; nos quedamos con el mayor por las reservas en vuelo
+      const ventana = this.ventana(limite, ahora, cuenta);
+      ventana.usado = Math.max(ventana.usado, usado);
+    }
+
+    if (response.status !== 429 && response.status !== 418) {
+      return null;
+    }
+
+    const retryAfter = parseInt(response.headers.get("Retry-After") || "");
+    const hasta =
+      ahora + (isNaN(retryAfter) ? RETRY_AFTER_POR_DEFECTO_MS : retryAfter * 1000);
+
+    let code: number | undefined;
+    let msg = "";
+    try {
+      const data = (await response.clone().json()) as { code?: number; msg?: string };
+      code = data.code;
+      msg = data.msg || "";
+    } catch {
+      // Cuerpo vacío o no JSON
+    }
+
+    if (response.status === 418) {
+      this.baneadoHasta = Math.max(this.baneadoHasta, hasta);
+      console.error(
+        `🚫 Binance ha baneado la IP hasta ${new Date(hasta).toISOString()}: ${msg}`
+      );
+      return new ErrorBaneoBinance(
+        `IP baneada por Binance hasta ${new Date(hasta).toISOString()}`,
+        hasta,
+        code
+      );
+    }
+
+    if (code === CODIGO_DEMASIADAS_ORDENES && cuenta) {
+      // Límite de órdenes de esta cuenta: las demás cuentas y las consultas siguen
+      this.ordenesBloqueadasHasta.set(
+        cuenta,
+        Math.max(this.ordenesBloqueadasHasta.get(cuenta) || 0, hasta)
+      );
+      console.warn(
+        `⚠️ Binance devolvió 429 (${code}), bloqueando las órdenes de la cuenta ${hasta - ahora}ms: ${msg}`
+      );
+    } else {
+      this.bloqueadoHasta = Math.max(this.bloqueadoHasta, hasta);
+      console.warn(
+        `⚠️ Binance devolvió 429, bloqueando peticiones ${hasta - ahora}ms: ${msg}`
+      );
+    }
+    return new ErrorLimiteBinance(
+      `Demasiadas peticiones a Binance, reintentar en ${Math.ceil(
+        (hasta - ahora) / 1000
+      )}s`,
+      429,
+      hasta,
+      code
+    );
+  }
+
+  // ===========================================================================
+  // MÉTODOS PRIVADOS
+  // ===========================================================================
+
+  private calcularPeso(
+    endpoint: string,
+    method: string,
+    params: Record<string, string>
+  ): number {
+    if (endpoint === "/api/v3/ticker/price") {
+      return params.symbol ? 2 : 4;
+    }
+    if (
+      (endpoint === "/api/v3/order" || endpoint === "/api/v3/orderList") &&
+      method === "GET"
+    ) {
+      return 4;
+    }
+    if (endpoint === "/api/v3/myTrades" && params.orderId) {
+      return 5;
+    }
+    if (endpoint === "/api/v3/openOrders" && method === "GET") {
+      return params.symbol ? 6 : 80;
+    }
+    return PESOS_ENDPOINT[endpoint] ?? 1;
+  }
+
+  private limitesAplicables(esSapi: boolean, esOrden: boolean): RateLimit[] {
+    return this.limites.filter((l) => {
+      if (l.rateLimitType === "SAPI_WEIGHT") return esSapi;
+      if (l.rateLimitType === "REQUEST_WEIGHT") return !esSapi;
+      return esOrden;
+    });
+  }
+
+  private duracion(limite: RateLimit): number {
+    return DURACION_INTERVALO[limite.interval] * limite.intervalNum;
+  }
+
+  // Binance usa ventanas fijas alineadas al reloj. Las de órdenes son de cada
+  // cuenta; las de peso, del host
+  private ventana(limite: RateLimit, ahora: number, cuenta: string): UsoVentana {
+    const duracion = this.duracion(limite);
+    const inicio = Math.floor(ahora / duracion) * duracion;
+    const clave =
+      limite.rateLimitType === "ORDERS"
+        ? `${limite.rateLimitType}:${cuenta}:${limite.intervalNum}${limite.interval}`
+        : `${limite.rateLimitType}:${limite.intervalNum}${limite.interval}`;
+
+    let ventana = this.uso.get(clave);
+    if (!ventana || ventana.inicio !== inicio) {
+      ventana = { inicio, usado: 0 };
+      this.uso.set(clave, ventana);
+    }
+    return ventana;
+  }
+
+  // X-MBX-USED-WEIGHT-1M, X-MBX-ORDER-COUNT-10S, X-SAPI-USED-IP-WEIGHT-1M...
+  private cabecera(limite: RateLimit): string {
+    const sufijo = `${limite.intervalNum}${limite.interval.charAt(0)}`;
+    switch (limite.rateLimitType) {
+      case "REQUEST_WEIGHT":
+        return `X-MBX-USED-WEIGHT-${sufijo}`;
+      case "ORDERS":
+        return `X-MBX-ORDER-COUNT-${sufijo}`;
+      default:
+        return `X-SAPI-USED-IP-WEIGHT-${sufijo}`;
+    }
+  }
+}
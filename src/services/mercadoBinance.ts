@@ -0,0 +1,305 @@
+// servicios/mercadoBinance.ts
+
+/**
+ * DATOS DE MERCADO DE BINANCE EN MEMORIA
+ *
+ * Mantiene un WebSocket de streams combinados (kline y miniTicker) para los
+ * símbolos que usan el monitor y el bot, y guarda en memoria:
+ * 1. El último precio de cada símbolo
+ * 2. Un buffer de velas por símbolo e intervalo
+ *
+ * Los buffers se rellenan con REST (backfill) la primera vez y tras cada
+ * reconexión; a partir de ahí los mantiene el stream. Si el stream no está
+ * conectado no se sirve nada desde memoria y se vuelve a REST.
+ */
+
+import { WebSocket } from "ws";
+import { Kline } from "../interfaces/exchange.types";
+
+interface TickerMercado {
+  precio: number;
+  actualizado: number;
+}
+
+// Velas que se guardan como máximo por símbolo e intervalo (límite de REST)
+const MAX_VELAS = 1000;
+
+// Un precio sin actualizar más tiempo que esto se vuelve a pedir por REST
+const VIGENCIA_PRECIO_MS = 60_000;
+
+const RECONEXION_MAX_MS = 60_000;
+
+export class MercadoBinance {
+  private socket: WebSocket | null = null;
+  private conectado = false;
+  private reconexion: NodeJS.Timeout | null = null;
+  private intentos = 0;
+  private siguienteId = 1;
+
+  // Streams pedidos por cada consumidor (monitor de precios, bot...)
+  private consumidores: Map<string, Set<string>> = new Map();
+  // Streams suscritos en el socket actual
+  private suscritos: Set<string> = new Set();
+
+  private tickers: Map<string, TickerMercado> = new Map();
+  private velas: Map<string, Kline[]> = new Map(); // clave: `${symbol}|${interval}`
+  // Buffers completos desde la última conexión (sin huecos)
+  private velasVivas: Set<string> = new Set();
+
+  constructor(private urlWs: () => string) {}
+
+  /**
+   * Fija los símbolos e intervalos que necesita un consumidor
+   * (sustituye a lo que hubiera pedido antes)
+   */
+  suscribir(
+    consumidor: string,
+    simbolos: string[],
+    intervalos: string[] = []
+  ): void {
+    const streams = new Set<string>();
+    for (const simbolo of simbolos) {
+      const s = simbolo.toLowerCase();
+      streams.add(`${s}@miniTicker`);
+      intervalos.forEach((intervalo) => streams.add(`${s}@kline_${intervalo}`));
+    }
+
+    this.consumidores.set(consumidor, streams);
+    this.sincronizar();
+  }
+
+  desuscribir(consumidor: string): void {
+    if (!this.consumidores.delete(consumidor)) return;
+    this.sincronizar();
+  }
+
+  /**
+   * Último precio recibido por el stream (undefined si no está o ha caducado)
+   */
+  obtenerPrecio(symbol: string): number | undefined {
+    if (!this.conectado) return undefined;
+
+    const ticker = this.tickers.get(symbol.toUpperCase());
+    if (!ticker || Date.now() - ticker.actualizado > VIGENCIA_PRECIO_MS) {
+      return undefined;
+    }
+    return ticker.precio;
+  }
+
+  /**
+   * Últimas velas del buffer (undefined si no hay suficientes o no es fiable)
+   */
+  obtenerVelas(
+    symbol: string,
+    interval: string,
+    limit: number
+  ): Kline[] | undefined {
+    const clave = `${symbol.toUpperCase()}|${interval}`;
+    if (!this.conectado || !this.velasVivas.has(clave)) return undefined;
+
+    const buffer = this.velas.get(clave)!;
+    if (buffer.length < limit) return undefined;
+
+    return buffer.slice(-limit).map((vela) => ({ ...vela }));
+  }
+
+  /**
+   * Backfill de un buffer con velas obtenidas por REST. Solo se guarda si el
+   * stream de ese intervalo está suscrito, para que el buffer no se quede
+   * desactualizado
+   */
+  cargarVelas(symbol: string, interval: string, velas: Kline[]): void {
+    const stream = `${symbol.toLowerCase()}@kline_${interval}`;
+    if (!this.conectado || !this.suscritos.has(stream)) return;
+
+    const clave = `${symbol.toUpperCase()}|${interval}`;
+    this.velas.set(
+      clave,
+      velas.slice(-MAX_VELAS).map((vela) => ({ ...vela }))
+    );
+    this.velasVivas.add(clave);
+  }
+
+  // ===========================================================================
+  // CONEXIÓN
+  // ===========================================================================
+
+  private streamsDeseados(): Set<string> {
+    const deseados = new Set<string>();
+    this.consumidores.forEach((streams) =>
+      streams.forEach((stream) => deseados.add(stream))
+    );
+    return deseados;
+  }
+
+  /**
+   * Ajusta las suscripciones del socket a lo que piden los consumidores
+   */
+  private sincronizar(): void {
+    const deseados = this.streamsDeseados();
+
+    if (deseados.size === 0) {
+      this.cerrar();
+      return;
+    }
+
+    if (!this.socket) {
+      this.conectar();
+      return;
+    }
+    if (!this.conectado) return; // al abrir se suscribe a todo
+
+    const nuevos = [...deseados].filter((s) => !this.suscritos.has(s));
+    const sobrantes = [...this.suscritos].filter((s) => !deseados.has(s));
+
+    if (nuevos.length > 0) this.enviar("SUBSCRIBE", nuevos);
+    if (sobrantes.length > 0) {
+      this.enviar("UNSUBSCRIBE", sobrantes);
+      sobrantes.forEach((stream) => this.olvidarStream(stream));
+    }
+  }
+
+  private conectar(): void {
+    const socket = new WebSocket(`${this.urlWs()}/stream`);
+    this.socket = socket;
+
+    socket.on("open", () => {
+      console.log(`🔗 Stream de mercado conectado (${this.urlWs()})`);
+      this.conectado = true;
+      this.intentos = 0;
+
+      const deseados = [...this.streamsDeseados()];
+      if (deseados.length > 0) this.enviar("SUBSCRIBE", deseados);
+    });
+
+    socket.on("message", (data) => {
+      try {
+        this.procesarMensaje(JSON.parse(data.toString()));
+      } catch (error) {
+        console.error("💥 Error procesando mensaje de mercado:", error);
+      }
+    });
+
+    socket.on("close", () => {
+      if (this.socket !== socket) return;
+
+      // Lo recibido hasta ahora puede tener huecos: se rehace con REST
+      this.socket = null;
+      this.conectado = false;
+      this.suscritos.clear();
+      this.velasVivas.clear();
+
+      if (this.streamsDeseados().size > 0) {
+        console.log("🔌 Stream de mercado cerrado, reconectando...");
+        this.programarReconexion();
+      }
+    });
+
+    socket.on("error", (error) => {
+      console.error("❌ Error en stream de mercado:", error.message);
+    });
+  }
+
+  private programarReconexion(): void {
+    if (this.reconexion) return;
+
+    const espera = Math.min(1000 * 2 ** this.intentos, RECONEXION_MAX_MS);
+    this.intentos++;
+
+    this.reconexion = setTimeout(() => {
+      this.reconexion = null;
+      if (!this.socket && this.streamsDeseados().size > 0) {
+        this.conectar();
+      }
+    }, espera);
+  }
+
+  private cerrar(): void {
+    if (this.reconexion) {
+      clearTimeout(this.reconexion);
+      this.reconexion = null;
+    }
+
+    const socket = this.socket;
+    this.socket = null;
+    this.conectado = false;
+    this.suscritos.clear();
+    this.velasVivas.clear();
+    this.velas.clear();
+    this.tickers.clear();
+
+    if (socket) {
+      socket.close();
+      console.log("🛑 Stream de mercado cerrado");
+    }
+  }
+
+  private enviar(method: "SUBSCRIBE" | "UNSUBSCRIBE", params: string[]): void {
+    this.socket?.send(
+      JSON.stringify({ method, params, id: this.siguienteId++ })
+    );
+
+    if (method === "SUBSCRIBE") {
+      params.forEach((stream) => this.suscritos.add(stream));
+    } else {
+      params.forEach((stream) => this.suscritos.delete(stream));
+    }
+  }
+
+  private olvidarStream(stream: string): void {
+    const [simbolo, tipo] = stream.split("@");
+    if (tipo.startsWith("kline_")) {
+      const clave = `${simbolo.toUpperCase()}|${tipo.slice("kline_".length)}`;
+      this.velas.delete(clave);
+      this.velasVivas.delete(clave);
+    } else {
+      this.tickers.delete(simbolo.toUpperCase());
+    }
+  }
+
+  // ===========================================================================
+  // EVENTOS
+  // ===========================================================================
+
+  private procesarMensaje(mensaje: any): void {
+    // Respuestas a SUBSCRIBE/UNSUBSCRIBE: { result: null, id }
+    const evento = mensaje?.data;
+    if (!evento) return;
+
+    if (evento.e === "24hrMiniTicker") {
+      this.actualizarPrecio(evento.s, parseFloat(evento.c));
+    } else if (evento.e === "kline") {
+      this.actualizarVela(evento.s, evento.k);
+    }
+  }
+
+  private actualizarPrecio(symbol: string, precio: number): void {
+    this.tickers.set(symbol, { precio, actualizado: Date.now() });
+  }
+
+  private actualizarVela(symbol: string, k: any): void {
+    // El cierre de la vela en curso es también el último precio
+    this.actualizarPrecio(symbol, parseFloat(k.c));
+
+    const clave = `${symbol}|${k.i}`;
+    if (!this.velasVivas.has(clave)) return;
+
+    const buffer = this.velas.get(clave)!;
+    const vela: Kline = {
+      time: k.t,
+      open: parseFloat(k.o),
+      high: parseFloat(k.h),
+      low: parseFloat(k.l),
+      close: parseFloat(k.c),
+      volume: parseFloat(k.v),
+    };
+
+    const ultima = buffer[buffer.length - 1];
+    if (ultima && ultima.time === vela.time) {
+      buffer[buffer.length - 1] = vela;
+    } else if (!ultima || vela.time > ultima.time) {
+      buffer.push(vela);
+      if (buffer.length > MAX_VELAS) buffer.shift();
+    }
+  }
+}
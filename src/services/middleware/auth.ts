@@ -34,4 +34,19 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
   } catch (error) {
     return res.status(403).json({ error: 'Token inválido o expirado' });
   }
-};
\ No newline at end of file
+};
+
+// Administradores: ids de usuario separados por comas en ADMIN_USER_IDS.
+// Va detrás de authenticateToken
+export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
+  const admins = (process.env.ADMIN_USER_IDS || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+
+  if (!req.user || !admins.includes(String(req.user.id))) {
+    return res.status(403).json({ error: 'Se requieren permisos de administrador' });
+  }
+
+  next();
+};
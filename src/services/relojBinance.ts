@@ -0,0 +1,119 @@
+// servicios/relojBinance.ts
+
+/**
+ * RELOJ SINCRONIZADO CON EL SERVIDOR DE BINANCE
+ *
+ * Las peticiones firmadas llevan un timestamp que Binance rechaza (-1021) si
+ * se sale de recvWindow respecto a su reloj. En vez de pedir la hora al
+ * servidor antes de cada petición, este reloj:
+ * 1. Mide el desfase con /api/v3/time del mismo host, descontando la mitad
+ *    del tiempo de ida y vuelta
+ * 2. Lo renueva cada INTERVALO_SINCRONIZACION_MS, en la primera petición
+ *    que lo necesite
+ * 3. Permite forzar una nueva medida tras un -1021
+ */
+
+// Cada cuánto se vuelve a medir el desfase
+const INTERVALO_SINCRONIZACION_MS = 30 * 60 * 1000;
+
+// Tras un fallo al medir no se vuelve a intentar hasta pasado este tiempo
+const ESPERA_TRAS_FALLO_MS = 30_000;
+
+// Límites de recvWindow que acepta Binance
+const RECV_WINDOW_MAXIMO_MS = 60_000;
+export const RECV_WINDOW_POR_DEFECTO_MS =
+  parseInt(process.env.BINANCE_RECV_WINDOW || "") || 5000;
+
+// Código de Binance para un timestamp fuera de recvWindow
+export const CODIGO_TIMESTAMP_FUERA_DE_VENTANA = -1021;
+
+// =============================================================================
+// CLASE PRINCIPAL DEL RELOJ
+// =============================================================================
+
+export class RelojBinance {
+  private desfase = 0; // hora del servidor - hora local
+  private ultimaSincronizacion = 0;
+  private ultimoFallo = 0;
+  private sincronizando: Promise<void> | null = null;
+  private recvWindowMs = RECV_WINDOW_POR_DEFECTO_MS;
+
+  /**
+   * @param consultarHoraServidor Devuelve el serverTime de /api/v3/time
+   * @param ahora Reloj local en ms (los tests lo sustituyen)
+   */
+  constructor(
+    private consultarHoraServidor: () => Promise<number>,
+    private ahora: () => number = Date.now
+  ) {}
+
+  get recvWindow(): number {
+    return this.recvWindowMs;
+  }
+
+  /**
+   * Cambia el margen que Binance da a las peticiones firmadas
+   * @throws Error si no está entre 1 y 60000 ms
+   */
+  configurarRecvWindow(ms: number): void {
+    if (!Number.isFinite(ms) || ms <= 0 || ms > RECV_WINDOW_MAXIMO_MS) {
+      throw new Error(
+        `recvWindow debe estar entre 1 y ${RECV_WINDOW_MAXIMO_MS} ms`
+      );
+    }
+    this.recvWindowMs = Math.floor(ms);
+  }
+
+  /**
+   * Timestamp para firmar una petición, con el desfase aplicado.
+   * Sincroniza antes si el desfase no se ha medido o ha caducado
+   */
+  async marcaTiempo(): Promise<number> {
+    const ahora = this.ahora();
+    const caducado =
+      ahora - this.ultimaSincronizacion > INTERVALO_SINCRONIZACION_MS;
+    const puedeReintentar = ahora - this.ultimoFallo > ESPERA_TRAS_FALLO_MS;
+
+    if (caducado && puedeReintentar) {
+      await this.sincronizar();
+    }
+    return this.ahora() + this.desfase;
+  }
+
+  /**
+   * Mide de nuevo el desfase. Las llamadas simultáneas comparten la medida
+   */
+  sincronizar(): Promise<void> {
+    if (!this.sincronizando) {
+      this.sincronizando = this.medirDesfase().finally(() => {
+        this.sincronizando = null;
+      });
+    }
+    return this.sincronizando;
+  }
+
+  // ===========================================================================
+  // MÉTODOS PRIVADOS
+  // ===========================================================================
+
+  private async medirDesfase(): Promise<void> {
+    try {
+      const inicio = this.ahora();
+      const horaServidor = await this.consultarHoraServidor();
+      const fin = this.ahora();
+
+      // El servidor respondió, aproximadamente, a mitad del viaje
+      this.desfase = Math.round(horaServidor - (inicio + fin) / 2);
+      this.ultimaSincronizacion = fin;
+      console.log(
+        `⏰ Reloj de Binance sincronizado: desfase ${this.desfase}ms (ida y vuelta ${
+          fin - inicio
+        }ms)`
+      );
+    } catch (error) {
+      // Se mantiene el último desfase conocido (0 si nunca se midió)
+      this.ultimoFallo = this.ahora();
+      console.error("❌ Error sincronizando el reloj de Binance:", error);
+    }
+  }
+}
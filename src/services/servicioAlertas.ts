@@ -10,6 +10,7 @@ export const servicioAlertas = {
   async crearAlerta(datosAlerta: {
     userId: string;
     criptomoneda: string;
+    moneda?: string; // moneda del precio objetivo (por defecto USDC)
     condicion: string;
     precio_objetivo: number;
     precio_actual: number;
@@ -23,6 +24,7 @@ export const servicioAlertas = {
         {
           user_id: datosAlerta.userId,
           criptomoneda: datosAlerta.criptomoneda,
+          moneda: datosAlerta.moneda || "USDC",
           condicion: datosAlerta.condicion,
           precio_objetivo: datosAlerta.precio_objetivo,
           precio_actual: datosAlerta.precio_actual,
@@ -156,7 +158,7 @@ export const servicioAlertas = {
   
     // Campos directos (sin mapeo)
     const camposDirectos: (keyof DatosActualizacionAlerta)[] = [
-      'criptomoneda', 'condicion', 'precio_objetivo', 'precio_actual'
+      'criptomoneda', 'moneda', 'condicion', 'precio_objetivo', 'precio_actual'
     ];
   
     camposDirectos.forEach(campo => {
@@ -0,0 +1,253 @@
+// servicios/servicioBackfill.ts
+
+/**
+ * IMPORTACIÓN DEL HISTORIAL COMPLETO DE TRADES
+ *
+ * El monitor solo consulta las últimas 24 horas de los símbolos registrados.
+ * Esta importación trae a "compras" y "ventas" todo lo operado en cualquier
+ * par:
+ * 1. Descubre los símbolos candidatos: pares del exchange cuyos dos activos
+ *    ha tenido el usuario (balances, Earn, depósitos/retiros o compras)
+ * 2. Recorre myTrades de cada símbolo con fromId hasta agotarlo
+ * 3. Guarda tras cada página un cursor por símbolo (servicioCursores), así
+ *    que se retoma tras un reinicio o una pausa por límite de peticiones
+ * 4. Informa del progreso por la ruta de estado y por WebSocket
+ *
+ * Compras y ventas se guardan con servicioTrades, como el user data stream:
+ * una compra por orden (si ya estaba guardada se recalcula con todos sus
+ * fills) y cada fill de venta repartido entre las compras anteriores. Como
+ * las páginas van en orden de trade id, las compras de una venta ya están
+ * guardadas cuando llega, y repetir una página no duplica nada.
+ *
+ * El cursor se llamaba "trades:<símbolo>" cuando solo se importaban compras;
+ * con la clave nueva esas cuentas se recorren de nuevo para traer las ventas.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { webSocketService } from "./servicioWebSocket.js";
+import { servicioCursores } from "./servicioCursores.js";
+import { servicioMovimientos } from "./servicioMovimientos.js";
+import { servicioSimbolos } from "./servicioSimbolos.js";
+import { servicioTrades } from "./servicioTrades.js";
+import { ErrorBaneoBinance, ErrorLimiteBinance } from "./limitadorBinance.js";
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import { ProgresoBackfill } from "../interfaces/comun.types.js";
+
+const LIMITE_PAGINA = 1000;
+
+interface TrabajoBackfill {
+  progreso: ProgresoBackfill;
+  conexion: ConexionExchange;
+  pendientes: string[]; // símbolos que faltan, el primero es el actual
+  reanudacion: NodeJS.Timeout | null;
+}
+
+// Un trabajo por cuenta, clave "usuario:idCuenta" (el último, aunque haya
+// terminado)
+const trabajos: Map<string, TrabajoBackfill> = new Map();
+
+function notificarProgreso(userId: string, progreso: ProgresoBackfill): void {
+  webSocketService.enviarNotificacion(userId, {
+    tipo: "backfill_trades",
+    mensaje: `Importación de trades: ${progreso.simbolosCompletados}/${progreso.simbolos} símbolos`,
+    progreso,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Recorre los símbolos pendientes del trabajo. Si Binance limita las
+ * peticiones, se pausa y se reanuda sola cuando se pueda
+ */
+async function ejecutarTrabajo(userId: string, trabajo: TrabajoBackfill) {
+  const { progreso, conexion } = trabajo;
+  const { adapter, credentials } = conexion;
+
+  progreso.estado = "en_curso";
+  progreso.reanudarEn = null;
+  notificarProgreso(userId, progreso);
+
+  try {
+    while (trabajo.pendientes.length > 0) {
+      const symbol = trabajo.pendientes[0];
+      const claveCursor = `historial:${symbol}`;
+      progreso.simboloActual = symbol;
+
+      let fromId =
+        (await servicioCursores.leer(userId, conexion.id, claveCursor)) ?? 0;
+
+      while (true) {
+        const trades = await adapter.getMyTrades(credentials, {
+          symbol,
+          fromId,
+          limit: LIMITE_PAGINA,
+        });
+        if (trades.length === 0) break;
+
+        const compras = await servicioTrades.guardarCompras(
+          userId,
+          conexion,
+          trades
+        );
+        progreso.comprasNuevas += compras.nuevas;
+        progreso.comprasActualizadas += compras.actualizadas;
+
+        const ventas = await servicioTrades.guardarVentas(
+          userId,
+          conexion,
+          trades
+        );
+        progreso.ventasRegistradas += ventas.registradas;
+        progreso.ventasSinLote += ventas.sinLote;
+
+        fromId = trades[trades.length - 1].id + 1;
+        await servicioCursores.guardar(
+          userId,
+          conexion.id,
+          claveCursor,
+          fromId
+        );
+        progreso.trades += trades.length;
+
+        if (trades.length < LIMITE_PAGINA) break;
+        notificarProgreso(userId, progreso);
+      }
+
+      trabajo.pendientes.shift();
+      progreso.simbolosCompletados++;
+      notificarProgreso(userId, progreso);
+    }
+
+    progreso.estado = "completado";
+    progreso.simboloActual = null;
+    progreso.fin = new Date().toISOString();
+    console.log(
+      `✅ Importación de trades de ${userId}: ${progreso.trades} trades, ${progreso.comprasNuevas} compras nuevas, ${progreso.ventasRegistradas} ventas`
+    );
+  } catch (error) {
+    if (
+      error instanceof ErrorLimiteBinance &&
+      !(error instanceof ErrorBaneoBinance)
+    ) {
+      // Se retoma desde el cursor del símbolo actual
+      const espera = Math.max(error.reintentarEn - Date.now(), 1000);
+      progreso.estado = "pausado";
+      progreso.reanudarEn = new Date(Date.now() + espera).toISOString();
+      console.log(`⏸️ Importación de trades de ${userId} pausada ${espera}ms`);
+
+      trabajo.reanudacion = setTimeout(() => {
+        trabajo.reanudacion = null;
+        ejecutarTrabajo(userId, trabajo);
+      }, espera);
+    } else {
+      progreso.estado = "error";
+      progreso.error = error instanceof Error ? error.message : String(error);
+      progreso.fin = new Date().toISOString();
+      console.error(`❌ Importación de trades de ${userId} fallida:`, error);
+    }
+  }
+
+  notificarProgreso(userId, progreso);
+}
+
+export const servicioBackfill = {
+  /**
+   * Símbolos en los que el usuario puede haber operado
+   */
+  async descubrirSimbolos(
+    userId: string,
+    conexion: ConexionExchange
+  ): Promise<string[]> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+
+    const [simbolos, holdings, movimientos, { data: compras }] =
+      await Promise.all([
+        adapter.getAllSymbols(),
+        adapter.getHoldings(credentials),
+        servicioMovimientos.obtenerMovimientos(userId, {
+          idCuentas: [conexion.id],
+        }),
+        supabase
+          .from("compras")
+          .select("simbolo")
+          .eq("idUsuario", userId)
+          .eq("idCuenta", conexion.id),
+      ]);
+
+    const conocidos = new Set<string>([
+      ...servicioSimbolos.listar(),
+      ...(compras || []).map((c: { simbolo: string }) => c.simbolo),
+    ]);
+
+    const activos = new Set<string>([
+      ...holdings.assets.map((a) => a.asset),
+      ...movimientos.map((m) => m.activo),
+    ]);
+    simbolos
+      .filter((s) => conocidos.has(s.symbol))
+      .forEach((s) => {
+        activos.add(s.baseAsset);
+        activos.add(s.quoteAsset);
+      });
+
+    return simbolos
+      .filter(
+        (s) =>
+          conocidos.has(s.symbol) ||
+          (activos.has(s.baseAsset) && activos.has(s.quoteAsset))
+      )
+      .map((s) => s.symbol)
+      .sort();
+  },
+
+  /**
+   * Arranca (o retoma) la importación en segundo plano
+   * @returns El progreso del trabajo, nuevo o el que ya estaba en marcha
+   */
+  async iniciar(
+    userId: string,
+    conexion: ConexionExchange
+  ): Promise<ProgresoBackfill> {
+    const clave = `${userId}:${conexion.id}`;
+    const actual = trabajos.get(clave);
+    if (actual && ["en_curso", "pausado"].includes(actual.progreso.estado)) {
+      return actual.progreso;
+    }
+
+    const simbolos = await this.descubrirSimbolos(userId, conexion);
+    console.log(
+      `🔎 Importación de trades de ${userId}: ${simbolos.length} símbolos candidatos`
+    );
+
+    const trabajo: TrabajoBackfill = {
+      conexion,
+      pendientes: [...simbolos],
+      reanudacion: null,
+      progreso: {
+        idCuenta: conexion.id,
+        estado: "en_curso",
+        simbolos: simbolos.length,
+        simbolosCompletados: 0,
+        simboloActual: null,
+        trades: 0,
+        comprasNuevas: 0,
+        comprasActualizadas: 0,
+        ventasRegistradas: 0,
+        ventasSinLote: 0,
+        inicio: new Date().toISOString(),
+        fin: null,
+        reanudarEn: null,
+        error: null,
+      },
+    };
+    trabajos.set(clave, trabajo);
+
+    ejecutarTrabajo(userId, trabajo);
+    return trabajo.progreso;
+  },
+
+  obtenerProgreso(userId: string, idCuenta: number): ProgresoBackfill | null {
+    return trabajos.get(`${userId}:${idCuenta}`)?.progreso || null;
+  },
+};
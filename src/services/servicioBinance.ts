@@ -16,6 +16,9 @@ import {
   SimpleEarnAccount,
   SimpleEarnFlexibleResponse,
   SimpleEarnLockedResponse,
+  FlexiblePosition,
+  ProductoEarnFlexible,
+  ProductosEarnFlexibleResponse,
   BinanceAccountResponse,
   BinanceTrade,
   TickerPrice,
@@ -24,25 +27,95 @@ import {
   OrderResponse,
   BinanceOrder,
   ExchangeInfoResponse,
+  EntornoBinance,
+  OrdenAValidar,
+  ResultadoValidacionOrden,
+  TipoOrden,
+  OcoOrderParams,
+  OcoOrderResponse,
+  BinanceOrderList,
+  ReferenciaOrden,
+  CancelReplaceParams,
+  CancelReplaceResponse,
+  DepositoBinance,
+  HistorialCapitalParams,
+  RetiroBinance,
+  RestriccionesApiBinance,
 } from "../interfaces/binance.types";
+import {
+  AssetHolding,
+  ExchangeAdapter,
+  HoldingsBreakdown,
+  OperacionEarnResponse,
+  PermisosApiKey,
+  SymbolInfo,
+} from "../interfaces/exchange.types";
+import { llevaPrecioLimite, validarOrden } from "../lib/filtrosOrden";
+import { GrafoPrecios } from "../lib/grafoPrecios";
+import {
+  ErrorBaneoBinance,
+  ErrorLimiteBinance,
+  ESPERA_MAXIMA_MS,
+  LimitadorBinance,
+  MAX_REINTENTOS_LIMITE,
+} from "./limitadorBinance";
+import {
+  CODIGO_TIMESTAMP_FUERA_DE_VENTANA,
+  RelojBinance,
+} from "./relojBinance";
+import { MercadoBinance } from "./mercadoBinance";
 
 import { EMA, RSI, MACD } from "technicalindicators";
 
-// Lista fija de símbolos a consultar
-export const SUPPORTED_SYMBOLS = [
-  "BTCUSDC",
-  "ETHUSDC",
-  "SOLUSDC",
-  "ADAUSDC",
-  "XRPUSDC",
-  "BNBUSDC",
-  "AVAXUSDC",
-  "LINKUSDC",
-  "DOGEUSDC",
-  "PEPEUSDC",
-];
-
 import { getSupabaseClient } from "../lib/supabase.js";
+import { servicioSimbolos } from "./servicioSimbolos.js";
+
+// Hosts de la API REST según el entorno
+export const BINANCE_BASE_URLS: Record<
+  Exclude<EntornoBinance, "custom">,
+  string
+> = {
+  mainnet: "https://api.binance.com",
+  testnet: "https://testnet.binance.vision",
+};
+
+// Hosts de los streams WebSocket según el entorno
+export const BINANCE_WS_URLS: Record<Exclude<EntornoBinance, "custom">, string> =
+  {
+    mainnet: "wss://stream.binance.com:9443",
+    testnet: "wss://stream.testnet.binance.vision",
+  };
+
+// Prefijo del clientOrderId de las órdenes lanzadas desde la aplicación
+// (el user data stream no las guarda porque ya lo hace quien las lanza)
+export const PREFIJO_ORDEN_APP = "dport_";
+
+// Compras de la aplicación que pueden quedar abiertas (LIMIT, condicionales):
+// su ejecución la registra el user data stream como cualquier otra
+export const PREFIJO_ORDEN_PENDIENTE = "dpend_";
+
+// Entorno usado cuando la conexión no tiene uno guardado
+export const ENTORNO_BINANCE_POR_DEFECTO: EntornoBinance = "testnet";
+
+// Activos que se valoran directamente a 1 USD
+export const ACTIVOS_ESTABLES_USD = ["USDT", "BUSD", "USDC", "TUSD", "USDP", "DAI", "FDUSD"];
+
+// Los filtros de un símbolo cambian muy poco: 10 minutos de caché
+const TTL_EXCHANGE_INFO_MS = 10 * 60 * 1000;
+
+// El grafo de precios se reutiliza unos segundos (p. ej. al valorar una
+// serie de movimientos)
+const TTL_GRAFO_PRECIOS_MS = 10 * 1000;
+
+// Velas por petición de /api/v3/klines
+const MAX_VELAS_PETICION = 1000;
+
+const MINUTO_MS = 60 * 1000;
+
+type ParSimbolo = Pick<
+  SymbolInfo,
+  "symbol" | "baseAsset" | "quoteAsset" | "status"
+>;
 
 type IntervalSignal = {
   interval: string;
@@ -60,16 +133,54 @@ type IntervalSignal = {
 // CLASE PRINCIPAL DEL SERVICIO
 // =============================================================================
 
-class BinanceService {
-  // private baseUrl = "https://api.binance.com";
-  //pruebas
-  private baseUrl = "https://testnet.binance.vision";
+class BinanceService implements ExchangeAdapter {
+  readonly nombre = "Binance";
 
   private lastTradeTime: Map<string, number> = new Map();
+
+  // Peso y órdenes usados contra este host
+  private limitador = new LimitadorBinance();
+
+  // Desfase con el reloj de este host, para firmar sin pedir la hora cada vez
+  private reloj = new RelojBinance(() => this.consultarHoraServidor());
+
+  // Precios y velas recibidos por los streams de mercado de este host
+  private mercado = new MercadoBinance(() => this.wsBaseUrl);
+
+  // exchangeInfo por símbolo, válido durante TTL_EXCHANGE_INFO_MS
+  private symbolInfoCache: Map<
+    string,
+    { promesa: Promise<SymbolInfo>; expiraEn: number }
+  > = new Map();
+
+  // Lista completa de símbolos, con el mismo TTL
+  private listaSimbolos: {
+    promesa: Promise<ParSimbolo[]>;
+    expiraEn: number;
+  } | null = null;
+
+  // Último grafo de precios, válido TTL_GRAFO_PRECIOS_MS
+  private grafoPrecios: {
+    promesa: Promise<GrafoPrecios>;
+    expiraEn: number;
+  } | null = null;
+
+  /**
+   * @param baseUrl Host de la API REST (mainnet, testnet o uno personalizado)
+   */
+  constructor(readonly baseUrl: string = BINANCE_BASE_URLS.testnet) {}
   // ===========================================================================
   // MÉTODOS PÚBLICOS
   // ===========================================================================
 
+  /**
+   * Margen (ms) que Binance da a las peticiones firmadas de este host.
+   * Por defecto BINANCE_RECV_WINDOW o 5000
+   */
+  configurarRecvWindow(ms: number): void {
+    this.reloj.configurarRecvWindow(ms);
+  }
+
   async testConnection(credentials: BinanceCredentials): Promise<boolean> {
     try {
       const response = await this.makeAuthenticatedRequest(
@@ -83,14 +194,69 @@ class BinanceService {
     }
   }
 
+  /**
+   * Permisos de la API key, combinando la cuenta (canTrade, permissions) con
+   * /sapi/v1/account/apiRestrictions. Si el host no tiene /sapi (testnet),
+   * retiros y restricción de IP quedan a null. Simple Earn solo se puede
+   * usar si su API responde y la key puede operar en spot
+   */
+  async getPermisosApiKey(
+    credentials: BinanceCredentials
+  ): Promise<PermisosApiKey> {
+    const [respuestaCuenta, respuestaRestricciones, respuestaEarn] =
+      await Promise.all([
+        this.makeAuthenticatedRequest("/api/v3/account", credentials),
+        this.makeAuthenticatedRequest(
+          "/sapi/v1/account/apiRestrictions",
+          credentials
+        ),
+        this.makeAuthenticatedRequest(
+          "/sapi/v1/simple-earn/account",
+          credentials
+        ),
+      ]);
+
+    if (!respuestaCuenta.ok) {
+      const errorText = await respuestaCuenta.text();
+      throw new Error(`Error consultando la cuenta: ${errorText}`);
+    }
+
+    const cuenta = (await respuestaCuenta.json()) as BinanceAccountResponse;
+    const restricciones = respuestaRestricciones.ok
+      ? ((await respuestaRestricciones.json()) as RestriccionesApiBinance)
+      : null;
+
+    if (!restricciones) {
+      console.log(
+        `⚠️ Restricciones de la API key no disponibles en ${this.baseUrl}`
+      );
+    }
+
+    const spot =
+      cuenta.canTrade &&
+      (cuenta.permissions || []).includes("SPOT") &&
+      (restricciones?.enableSpotAndMarginTrading ?? true);
+
+    return {
+      lectura: restricciones?.enableReading ?? true,
+      spot,
+      earn: spot && respuestaEarn.ok,
+      retiros: restricciones ? restricciones.enableWithdrawals : null,
+      restriccionIp: restricciones ? restricciones.ipRestrict : null,
+      permisosCuenta: cuenta.permissions || [],
+      comprobadoEn: new Date().toISOString(),
+    };
+  }
+
   async getTotalUSDBalance(credentials: BinanceCredentials): Promise<number> {
     try {
       console.log("🚀 Calculando balance total de Binance...");
 
-      // Obtener balances de Spot y Earn en paralelo para mejor rendimiento
+      // Spot y Earn en paralelo, valorados con el mismo grafo de precios
+      const grafo = await this.mercadoValoracion().getGrafoPrecios();
       const [spotBalance, earnBalance] = await Promise.all([
-        this.getSpotBalance(credentials),
-        this.getEarnBalance(credentials),
+        this.getSpotBalance(credentials, grafo),
+        this.getEarnBalance(credentials, grafo),
       ]);
 
       const totalUSD = spotBalance + earnBalance;
@@ -106,23 +272,129 @@ class BinanceService {
     }
   }
 
+  /**
+   * Desglose por activo de lo que tiene el usuario en spot y Simple Earn,
+   * valorado en USD con los mismos precios que getTotalUSDBalance
+   */
+  async getHoldings(credentials: BinanceCredentials): Promise<HoldingsBreakdown> {
+    try {
+      console.log("=== 📦 OBTENIENDO DESGLOSE DE ACTIVOS ===");
+
+      const [balances, grafo, earn] = await Promise.all([
+        this.getAccountBalance(credentials),
+        this.mercadoValoracion().getGrafoPrecios(),
+        this.getEarnPositions(credentials),
+      ]);
+
+      const tenencias: Map<string, AssetHolding> = new Map();
+      const tenencia = (asset: string): AssetHolding => {
+        let t = tenencias.get(asset);
+        if (!t) {
+          t = {
+            asset,
+            free: 0,
+            locked: 0,
+            earnFlexible: 0,
+            earnLocked: 0,
+            total: 0,
+            priceUSD: null,
+            valueUSD: 0,
+            portfolioPct: 0,
+          };
+          tenencias.set(asset, t);
+        }
+        return t;
+      };
+
+      for (const position of earn.flexible?.rows || []) {
+        const amount = parseFloat(position.totalAmount);
+        if (amount > 0) tenencia(position.asset).earnFlexible += amount;
+      }
+      for (const position of earn.locked?.rows || []) {
+        const amount = parseFloat(position.totalAmount);
+        if (amount > 0) tenencia(position.asset).earnLocked += amount;
+      }
+
+      for (const balance of balances) {
+        const free = parseFloat(balance.free);
+        const locked = parseFloat(balance.locked);
+        if (free + locked === 0) continue;
+
+        // LDxxx es el reflejo en spot de una posición flexible ya contada
+        if (
+          balance.asset.startsWith("LD") &&
+          tenencias.get(balance.asset.slice(2))?.earnFlexible
+        ) {
+          continue;
+        }
+
+        const t = tenencia(balance.asset);
+        t.free += free;
+        t.locked += locked;
+      }
+
+      let spotUSD = 0;
+      let earnUSD = 0;
+      const unpriced: string[] = [];
+
+      for (const t of tenencias.values()) {
+        t.total = t.free + t.locked + t.earnFlexible + t.earnLocked;
+        t.priceUSD = this.precioEn(grafo, t.asset, "USD");
+
+        if (t.priceUSD === null) {
+          unpriced.push(t.asset);
+          continue;
+        }
+
+        t.valueUSD = t.total * t.priceUSD;
+        spotUSD += (t.free + t.locked) * t.priceUSD;
+        earnUSD += (t.earnFlexible + t.earnLocked) * t.priceUSD;
+      }
+
+      const totalUSD = spotUSD + earnUSD;
+      const assets = [...tenencias.values()]
+        .map((t) => ({
+          ...t,
+          valueUSD: parseFloat(t.valueUSD.toFixed(2)),
+          portfolioPct:
+            totalUSD > 0
+              ? parseFloat(((t.valueUSD / totalUSD) * 100).toFixed(2))
+              : 0,
+        }))
+        .sort((a, b) => b.valueUSD - a.valueUSD);
+
+      if (unpriced.length > 0) {
+        console.log(`⚠️ Activos sin precio USD: ${unpriced.join(", ")}`);
+      }
+      console.log(
+        `✅ ${assets.length} activos, total ${totalUSD.toFixed(2)} USD`
+      );
+
+      return {
+        totalUSD: parseFloat(totalUSD.toFixed(2)),
+        spotUSD: parseFloat(spotUSD.toFixed(2)),
+        earnUSD: parseFloat(earnUSD.toFixed(2)),
+        assets,
+        unpriced,
+      };
+    } catch (error) {
+      console.error("❌ Error obteniendo desglose de activos:", error);
+      throw error;
+    }
+  }
+
   // ===========================================================================
   // MÉTODOS PRIVADOS - CÁLCULO DE BALANCES
   // ===========================================================================
 
   private async getSpotBalance(
-    credentials: BinanceCredentials
+    credentials: BinanceCredentials,
+    grafo: GrafoPrecios
   ): Promise<number> {
     try {
       console.log("api-key:" + credentials.apiKey);
       console.log("api-secret:" + credentials.apiSecret);
-      // Obtener balances y precios en paralelo
-      const [balances, usdtPrices, btcPrice, ethPrice] = await Promise.all([
-        this.getAccountBalance(credentials),
-        this.getUSDTPrices(),
-        this.getPrice("BTCUSDT"),
-        this.getPrice("ETHUSDT"),
-      ]);
+      const balances = await this.getAccountBalance(credentials);
 
       let spotTotal = 0;
 
@@ -133,35 +405,14 @@ class BinanceService {
 
         if (totalBalance === 0) continue;
 
-        // Stablecoins directamente en USD
-        if (
-          ["USDT", "BUSD", "USDC", "TUSD", "USDP", "DAI", "FDUSD"].includes(
-            asset
-          )
-        ) {
-          spotTotal += totalBalance;
-          continue;
-        }
-
-        // Buscar precio en USDT
-        if (usdtPrices[asset]) {
-          const usdValue = totalBalance * usdtPrices[asset];
-          spotTotal += usdValue;
-          continue;
-        }
-
-        // BTC y ETH como fallback
-        if (asset === "BTC" && btcPrice > 0) {
-          spotTotal += totalBalance * btcPrice;
-          continue;
-        }
-
-        if (asset === "ETH" && ethPrice > 0) {
-          spotTotal += totalBalance * ethPrice;
+        // Stablecoins a 1 USD; el resto por el camino de pares más corto
+        const precio = this.precioEn(grafo, asset, "USD");
+        if (precio !== null) {
+          spotTotal += totalBalance * precio;
           continue;
         }
 
-        console.log(`⚠️ ${asset} spot: Sin par USDT disponible, no incluido`);
+        console.log(`⚠️ ${asset} spot: Sin precio USD disponible, no incluido`);
       }
 
       console.log(`💵 BALANCE SPOT TOTAL: ${spotTotal.toFixed(2)} USD`);
@@ -173,7 +424,8 @@ class BinanceService {
   }
 
   private async getEarnBalance(
-    credentials: BinanceCredentials
+    credentials: BinanceCredentials,
+    grafo: GrafoPrecios
   ): Promise<number> {
     try {
       console.log("=== 🏦 OBTENIENDO BALANCE EARN ===");
@@ -190,7 +442,7 @@ class BinanceService {
 
         if (accountData.totalAmountInBTC) {
           const btcAmount = parseFloat(accountData.totalAmountInBTC);
-          const btcPrice = await this.getPrice("BTCUSDT");
+          const btcPrice = this.precioEn(grafo, "BTC", "USD") || 0;
           const total = btcAmount * btcPrice;
           console.log(
             `💰 TOTAL EARN: ${btcAmount} BTC × ${btcPrice} = ${total.toFixed(
@@ -209,7 +461,7 @@ class BinanceService {
       console.log(
         "⚠️ Endpoint principal falló, usando endpoints individuales..."
       );
-      return await this.getEarnBalanceFromPositions(credentials);
+      return await this.getEarnBalanceFromPositions(credentials, grafo);
     } catch (error) {
       console.error("❌ Error obteniendo balance earn:", error);
       return 0;
@@ -217,44 +469,31 @@ class BinanceService {
   }
 
   private async getEarnBalanceFromPositions(
-    credentials: BinanceCredentials
+    credentials: BinanceCredentials,
+    grafo: GrafoPrecios
   ): Promise<number> {
     try {
       console.log("=== 🔄 USANDO FALLBACK PARA EARN BALANCE ===");
 
-      // Obtener precios y posiciones en paralelo
-      const [usdtPrices, flexibleResponse, lockedResponse] = await Promise.all([
-        this.getUSDTPrices(),
-        this.makeAuthenticatedRequest(
-          "/sapi/v1/simple-earn/flexible/position",
-          credentials
-        ),
-        this.makeAuthenticatedRequest(
-          "/sapi/v1/simple-earn/locked/position",
-          credentials
-        ),
-      ]);
+      const { flexible, locked } = await this.getEarnPositions(credentials);
 
       let totalEarn = 0;
 
       // Procesar posiciones flexibles
-      if (flexibleResponse.ok) {
-        const data =
-          (await flexibleResponse.json()) as SimpleEarnFlexibleResponse; // ✅ Type assertion
+      if (flexible) {
         totalEarn += this.calculateEarnFromPositions(
-          data,
+          flexible,
           "flexible",
-          usdtPrices
+          grafo
         );
       }
 
       // Procesar posiciones locked
-      if (lockedResponse.ok) {
-        const data = (await lockedResponse.json()) as SimpleEarnLockedResponse; // ✅ Type assertion
+      if (locked) {
         totalEarn += this.calculateEarnFromPositions(
-          data,
+          locked,
           "locked",
-          usdtPrices
+          grafo
         );
       }
 
@@ -268,6 +507,52 @@ class BinanceService {
     }
   }
 
+  /**
+   * Posiciones flexibles y locked de Simple Earn (null si el endpoint falla,
+   * p. ej. en testnet, que no tiene /sapi)
+   */
+  private async getEarnPositions(credentials: BinanceCredentials): Promise<{
+    flexible: SimpleEarnFlexibleResponse | null;
+    locked: SimpleEarnLockedResponse | null;
+  }> {
+    const [flexibleResponse, lockedResponse] = await Promise.all([
+      this.makeAuthenticatedRequest(
+        "/sapi/v1/simple-earn/flexible/position",
+        credentials
+      ),
+      this.makeAuthenticatedRequest(
+        "/sapi/v1/simple-earn/locked/position",
+        credentials
+      ),
+    ]);
+
+    return {
+      flexible: flexibleResponse.ok
+        ? ((await flexibleResponse.json()) as SimpleEarnFlexibleResponse)
+        : null,
+      locked: lockedResponse.ok
+        ? ((await lockedResponse.json()) as SimpleEarnLockedResponse)
+        : null,
+    };
+  }
+
+  /**
+   * Precio de un activo en una moneda según el grafo. "USD" acepta cualquier
+   * estable de ACTIVOS_ESTABLES_USD, que valen 1
+   * @returns null si no hay camino de pares entre ambos
+   */
+  private precioEn(
+    grafo: GrafoPrecios,
+    asset: string,
+    moneda: string
+  ): number | null {
+    if (moneda === "USD") {
+      if (ACTIVOS_ESTABLES_USD.includes(asset)) return 1;
+      return grafo.ruta(asset, ACTIVOS_ESTABLES_USD)?.precio ?? null;
+    }
+    return grafo.precio(asset, moneda);
+  }
+
   /**
    * Obtener el historial de trades (compras/ventas) de un usuario para un símbolo específico
    */
@@ -309,7 +594,41 @@ class BinanceService {
   }
 
   /**
-   * Obtener todos los trades del usuario iterando por la lista fija de símbolos
+   * Trades de un símbolo tal cual los devuelve myTrades (compras y ventas).
+   * Con fromId se pagina desde ese trade en adelante
+   */
+  async getMyTrades(
+    credentials: BinanceCredentials,
+    params: TradeHistoryParams
+  ): Promise<BinanceTrade[]> {
+    if (!params.symbol) {
+      throw new Error("El parámetro 'symbol' es obligatorio");
+    }
+
+    const query: Record<string, string> = {};
+    Object.entries(params).forEach(([clave, valor]) => {
+      if (valor !== undefined) query[clave] = valor.toString();
+    });
+
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/myTrades",
+      credentials,
+      query
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Error obteniendo trades de ${params.symbol}: ${errorText}`
+      );
+    }
+
+    return (await response.json()) as BinanceTrade[];
+  }
+
+  /**
+   * Obtener todos los trades del usuario (compras y ventas) iterando por los
+   * símbolos del registro
    */
   async getAllUserTrades(
     credentials: BinanceCredentials,
@@ -317,24 +636,25 @@ class BinanceService {
   ): Promise<BinanceTrade[]> {
     try {
       console.log("=== 🔄 OBTENIENDO TODOS LOS TRADES DEL USUARIO ===");
-      console.log("📊 Usando lista fija de símbolos:", SUPPORTED_SYMBOLS);
+      const simbolos = servicioSimbolos.listar();
+      console.log("📊 Usando símbolos del registro:", simbolos);
 
       let allTrades: BinanceTrade[] = [];
 
       console.log(
-        `📊 Obteniendo trades para ${SUPPORTED_SYMBOLS.length} símbolos...`
+        `📊 Obteniendo trades para ${simbolos.length} símbolos...`
       );
 
       // Usamos Promise.all con limitación de concurrencia para mejor performance
       const batchSize = 2; // Número de requests concurrentes
-      for (let i = 0; i < SUPPORTED_SYMBOLS.length; i += batchSize) {
-        const batch = SUPPORTED_SYMBOLS.slice(i, i + batchSize);
+      for (let i = 0; i < simbolos.length; i += batchSize) {
+        const batch = simbolos.slice(i, i + batchSize);
 
         const batchPromises = batch.map(async (symbol) => {
           try {
             console.log(`🔍 Buscando trades para ${symbol}...`);
 
-            const symbolTrades = await this.getUserTrades(credentials, {
+            const symbolTrades = await this.getMyTrades(credentials, {
               ...params,
               symbol: symbol,
             });
@@ -344,6 +664,8 @@ class BinanceService {
             );
             return symbolTrades;
           } catch (error) {
+            // Un límite o baneo afecta a todos los símbolos: propagarlo
+            if (error instanceof ErrorLimiteBinance) throw error;
             console.error(`❌ Error obteniendo trades para ${symbol}:`, error);
             return []; // Retornar array vacío en caso de error
           }
@@ -355,7 +677,7 @@ class BinanceService {
         });
 
         // Pequeño delay entre batches para evitar rate limiting
-        if (i + batchSize < SUPPORTED_SYMBOLS.length) {
+        if (i + batchSize < simbolos.length) {
           await new Promise((resolve) => setTimeout(resolve, 200));
         }
       }
@@ -369,7 +691,7 @@ class BinanceService {
       }
 
       console.log(
-        `✅ Obtenidos ${allTrades.length} trades de ${SUPPORTED_SYMBOLS.length} símbolos`
+        `✅ Obtenidos ${allTrades.length} trades de ${simbolos.length} símbolos`
       );
 
       return allTrades;
@@ -385,17 +707,203 @@ class BinanceService {
   async getUserTradeSymbols(
     credentials: BinanceCredentials
   ): Promise<string[]> {
-    try {
-      console.log("=== 🔍 OBTENIENDO SÍMBOLOS SOPORTADOS ===");
+    console.log("=== 🔍 OBTENIENDO SÍMBOLOS SOPORTADOS ===");
 
-      // Devolvemos directamente la lista fija
-      console.log(`✅ Símbolos soportados: ${SUPPORTED_SYMBOLS.length}`);
+    // Devolvemos directamente los símbolos del registro
+    const simbolos = servicioSimbolos.listar();
+    console.log(`✅ Símbolos soportados: ${simbolos.length}`);
 
-      return SUPPORTED_SYMBOLS;
-    } catch (error) {
-      console.error("❌ Error obteniendo símbolos:", error);
-      return SUPPORTED_SYMBOLS; // Fallback a la lista fija
+    return simbolos;
+  }
+
+  // ===========================================================================
+  // DEPÓSITOS Y RETIROS
+  // ===========================================================================
+
+  /**
+   * Historial de depósitos (como mucho 90 días por consulta)
+   */
+  async getDepositHistory(
+    credentials: BinanceCredentials,
+    params: HistorialCapitalParams = {}
+  ): Promise<DepositoBinance[]> {
+    const response = await this.makeAuthenticatedRequest(
+      "/sapi/v1/capital/deposit/hisrec",
+      credentials,
+      this.paramsHistorialCapital(params)
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error obteniendo depósitos: ${errorText}`);
+    }
+
+    return (await response.json()) as DepositoBinance[];
+  }
+
+  /**
+   * Historial de retiros (como mucho 90 días por consulta)
+   */
+  async getWithdrawHistory(
+    credentials: BinanceCredentials,
+    params: HistorialCapitalParams = {}
+  ): Promise<RetiroBinance[]> {
+    const response = await this.makeAuthenticatedRequest(
+      "/sapi/v1/capital/withdraw/history",
+      credentials,
+      this.paramsHistorialCapital(params)
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error obteniendo retiros: ${errorText}`);
+    }
+
+    return (await response.json()) as RetiroBinance[];
+  }
+
+  private paramsHistorialCapital(
+    params: HistorialCapitalParams
+  ): Record<string, string> {
+    const resultado: Record<string, string> = {};
+    Object.entries(params).forEach(([clave, valor]) => {
+      if (valor !== undefined && valor !== null) {
+        resultado[clave] = valor.toString();
+      }
+    });
+    return resultado;
+  }
+
+  // ===========================================================================
+  // SIMPLE EARN FLEXIBLE
+  // ===========================================================================
+
+  /**
+   * Saldo libre en spot de un activo (0 si no tiene)
+   */
+  async getSaldoLibre(
+    credentials: BinanceCredentials,
+    asset: string
+  ): Promise<number> {
+    const balances = await this.getAccountBalance(credentials);
+    const balance = balances.find((b) => b.asset === asset.toUpperCase());
+    return balance ? parseFloat(balance.free) : 0;
+  }
+
+  /**
+   * Productos flexibles de Simple Earn, opcionalmente de un solo activo
+   */
+  async getProductosEarnFlexible(
+    credentials: BinanceCredentials,
+    asset?: string
+  ): Promise<ProductoEarnFlexible[]> {
+    const response = await this.makeAuthenticatedRequest(
+      "/sapi/v1/simple-earn/flexible/list",
+      credentials,
+      { size: "100", ...(asset && { asset: asset.toUpperCase() }) }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error obteniendo productos de Earn: ${errorText}`);
+    }
+
+    const data = (await response.json()) as ProductosEarnFlexibleResponse;
+    return data.rows || [];
+  }
+
+  /**
+   * Posiciones flexibles de Simple Earn, opcionalmente de un solo activo
+   */
+  async getPosicionesEarnFlexible(
+    credentials: BinanceCredentials,
+    asset?: string
+  ): Promise<FlexiblePosition[]> {
+    const response = await this.makeAuthenticatedRequest(
+      "/sapi/v1/simple-earn/flexible/position",
+      credentials,
+      { size: "100", ...(asset && { asset: asset.toUpperCase() }) }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error obteniendo posiciones de Earn: ${errorText}`);
+    }
+
+    const data = (await response.json()) as SimpleEarnFlexibleResponse;
+    return data.rows || [];
+  }
+
+  /**
+   * Pasa saldo spot a un producto flexible
+   */
+  async suscribirEarnFlexible(
+    credentials: BinanceCredentials,
+    productId: string,
+    amount: number
+  ): Promise<OperacionEarnResponse> {
+    console.log(`🏦 Suscribiendo ${amount} en ${productId}`);
+    return this.operacionEarn(
+      "/sapi/v1/simple-earn/flexible/subscribe",
+      credentials,
+      { productId, amount: amount.toFixed(8) },
+      "purchaseId"
+    );
+  }
+
+  /**
+   * Devuelve a spot parte de una posición flexible, o toda si no se indica
+   * cantidad
+   */
+  async reembolsarEarnFlexible(
+    credentials: BinanceCredentials,
+    productId: string,
+    amount?: number
+  ): Promise<OperacionEarnResponse> {
+    console.log(`🏦 Reembolsando ${amount ?? "todo"} de ${productId}`);
+    return this.operacionEarn(
+      "/sapi/v1/simple-earn/flexible/redeem",
+      credentials,
+      amount === undefined
+        ? { productId, redeemAll: "true" }
+        : { productId, amount: amount.toFixed(8) },
+      "redeemId"
+    );
+  }
+
+  private async operacionEarn(
+    endpoint: string,
+    credentials: BinanceCredentials,
+    params: Record<string, string>,
+    campoId: "purchaseId" | "redeemId"
+  ): Promise<OperacionEarnResponse> {
+    const response = await this.makeAuthenticatedRequest(
+      endpoint,
+      credentials,
+      params,
+      "POST"
+    );
+    const responseText = await response.text();
+
+    if (!response.ok) {
+      console.error(`❌ Error en ${endpoint}:`, responseText);
+      try {
+        const errorData = JSON.parse(responseText);
+        return {
+          success: false,
+          error: errorData.msg || "Error desconocido",
+          code: errorData.code,
+        };
+      } catch {
+        return {
+          success: false,
+          error: responseText || "Error en la API de Binance",
+        };
+      }
     }
+
+    const data = JSON.parse(responseText);
+    return { success: data.success !== false, id: data[campoId] };
   }
   // ===========================================================================
   // COMPRAS
@@ -409,8 +917,9 @@ class BinanceService {
     params: {
       symbol: string;
       quantity?: number | string; // Hacerlo opcional
-      type?: "MARKET" | "LIMIT";
+      type?: TipoOrden;
       price?: number | string;
+      stopPrice?: number | string; // órdenes STOP_LOSS* / TAKE_PROFIT*
       newClientOrderId?: string;
       quoteOrderQty?: number | string; // Añadir este parámetro
     }
@@ -428,16 +937,16 @@ class BinanceService {
       if (
         !params.quantity &&
         !params.quoteOrderQty &&
-        params.type !== "LIMIT"
+        (params.type || "MARKET") === "MARKET"
       ) {
         throw new Error(
           "Se requiere quantity o quoteOrderQty para órdenes MARKET"
         );
       }
 
-      // MODIFICADO: Para órdenes LIMIT, quantity sigue siendo obligatorio
-      if (params.type === "LIMIT" && !params.quantity) {
-        throw new Error("La cantidad es requerida para órdenes LIMIT");
+      // MODIFICADO: Para el resto de tipos, quantity sigue siendo obligatorio
+      if ((params.type || "MARKET") !== "MARKET" && !params.quantity) {
+        throw new Error(`La cantidad es requerida para órdenes ${params.type}`);
       }
 
       // Preparar parámetros para la orden
@@ -447,28 +956,53 @@ class BinanceService {
         type: params.type || "MARKET",
       };
 
-      // MODIFICADO: Agregar quantity o quoteOrderQty según corresponda
-      if (params.quantity) {
-        orderParams.quantity = params.quantity.toString();
+      // Validar y redondear cantidad/precio con los filtros del símbolo
+      const validacion = await this.validarOrden(credentials, params.symbol, {
+        side: "BUY",
+        type: params.type || "MARKET",
+        quantity: params.quantity,
+        quoteOrderQty: params.quantity ? undefined : params.quoteOrderQty,
+        price: params.price,
+        stopPrice: params.stopPrice,
+      });
+
+      if (!validacion.valida) {
+        console.error(
+          `❌ Orden rechazada por ${validacion.rechazo.filtro}: ${validacion.rechazo.mensaje}`
+        );
+        return {
+          success: false,
+          error: validacion.rechazo.mensaje,
+          code: -1013, // Filter failure
+          rechazo: validacion.rechazo,
+        };
       }
 
-      if (params.quoteOrderQty) {
-        orderParams.quoteOrderQty = params.quoteOrderQty.toString();
+      // Agregar quantity o quoteOrderQty según corresponda
+      if (validacion.quantity) {
+        orderParams.quantity = validacion.quantity;
+      } else if (validacion.quoteOrderQty) {
+        orderParams.quoteOrderQty = validacion.quoteOrderQty;
       }
 
       // Agregar parámetros específicos según el tipo de orden
-      if (params.type === "LIMIT") {
-        if (!params.price) {
-          throw new Error("El precio es requerido para órdenes LIMIT");
+      if (llevaPrecioLimite(params.type)) {
+        if (!validacion.price) {
+          throw new Error(`El precio es requerido para órdenes ${params.type}`);
+        }
+        orderParams.price = validacion.price;
+        // LIMIT_MAKER no admite timeInForce
+        if (params.type !== "LIMIT_MAKER") {
+          orderParams.timeInForce = "GTC"; // Good Till Cancelled
         }
-        orderParams.price = params.price.toString();
-        orderParams.timeInForce = "GTC"; // Good Till Cancelled
       }
-
-      if (params.newClientOrderId) {
-        orderParams.newClientOrderId = params.newClientOrderId;
+      if (validacion.stopPrice) {
+        orderParams.stopPrice = validacion.stopPrice;
       }
 
+      orderParams.newClientOrderId =
+        params.newClientOrderId || generarClientOrderId();
+
       console.log("📝 Parámetros finales para Binance:", orderParams);
 
       // Realizar la solicitud a la API de Binance
@@ -545,6 +1079,10 @@ class BinanceService {
           error instanceof Error
             ? error.message
             : "Error desconocido al realizar la orden",
+        // -1003: demasiadas peticiones
+        ...(error instanceof ErrorLimiteBinance && {
+          code: error.code ?? -1003,
+        }),
       };
     }
   }
@@ -577,6 +1115,7 @@ class BinanceService {
     availableBalance: number;
     estimatedCost: number;
     quoteAsset: string;
+    reasons?: string[];
   }> {
     try {
       console.log("=== 🔍 VERIFICANDO DISPONIBILIDAD PARA COMPRA ===");
@@ -592,9 +1131,18 @@ class BinanceService {
         price = await this.getPrice(symbol);
       }
       const quantityNum = parseFloat(quantity.toString());
-      const estimatedCost = quantityNum * price;
 
-      // Obtener balance de la cuenta
+      // Validar la orden con los filtros del símbolo (cantidad redondeada)
+      const validacion = validarOrden(symbolInfo.filters, {
+        side: "BUY",
+        type: "MARKET",
+        quantity: quantityNum,
+        precioReferencia: price,
+      });
+      const reasons = validacion.rechazos.map((r) => r.mensaje);
+      const estimatedCost = validacion.cantidadEstimada * price;
+
+      // Obtener balance de la cuenta
       const accountResponse = await this.makeAuthenticatedRequest(
         "/api/v3/account",
         credentials
@@ -614,16 +1162,23 @@ class BinanceService {
 
       if (!assetBalance) {
         console.log(`❌ No se encontró balance para ${quoteAsset}`);
+        reasons.push(`No se encontró balance para ${quoteAsset}`);
         return {
           canBuy: false,
           availableBalance: 0,
           estimatedCost,
           quoteAsset,
+          reasons,
         };
       }
 
       const available = parseFloat(assetBalance.free);
-      const canBuy = available >= estimatedCost;
+      if (available < estimatedCost) {
+        reasons.push(
+          `Saldo insuficiente. Disponible: ${available} ${quoteAsset}, Necesario: ${estimatedCost} ${quoteAsset}`
+        );
+      }
+      const canBuy = reasons.length === 0;
 
       console.log(`📊 Balance disponible de ${quoteAsset}: ${available}`);
       console.log(`📊 Costo estimado: ${estimatedCost}`);
@@ -635,6 +1190,7 @@ class BinanceService {
         availableBalance: available,
         estimatedCost,
         quoteAsset,
+        reasons: reasons.length > 0 ? reasons : undefined,
       };
     } catch (error) {
       console.error("Error verificando disponibilidad para compra:", error);
@@ -724,71 +1280,24 @@ class BinanceService {
         );
       }
 
-      // Verificar cantidad mínima
-      const minQty = symbolInfo.minQty || 0;
-      if (quantityNum < minQty) {
-        console.log(`❌ Cantidad menor al mínimo permitido: ${minQty}`);
-        reasons.push(
-          `Cantidad (${quantityNum}) menor al mínimo permitido (${minQty})`
-        );
-      }
-
-      // Verificar step size
-
-      if (stepSize > 0) {
-        const remainder = quantityNum % stepSize;
-        const tolerance = 0.00000001;
-        if (
-          remainder > tolerance &&
-          Math.abs(remainder - stepSize) > tolerance
-        ) {
-          console.log(`❌ Cantidad no es múltiplo del step size: ${stepSize}`);
-          console.log(`❌ Remainder: ${remainder}`);
-          reasons.push(`Cantidad no es múltiplo del step size (${stepSize})`);
-
-          // Calcular cantidad válida más cercana
-          const validQuantity = Math.floor(quantityNum / stepSize) * stepSize;
-          console.log(`💡 Cantidad válida más cercana: ${validQuantity}`);
-        }
-      }
+      // Verificar filtros del símbolo (LOT_SIZE, MARKET_LOT_SIZE, NOTIONAL...)
+      const validacion = validarOrden(symbolInfo.filters, {
+        side: "SELL",
+        type: "MARKET",
+        quantity: quantityNum,
+        precioReferencia: price,
+      });
 
-      // Verificar notional mínimo (valor mínimo de la orden)
-      const minNotional = symbolInfo.minNotional || 0;
-      if (estimatedRevenue < minNotional) {
+      if (validacion.cantidadEstimada !== quantityNum) {
         console.log(
-          `❌ Valor de orden muy bajo. Mínimo requerido: ${minNotional} ${symbolInfo.quoteAsset}`
-        );
-        console.log(
-          `❌ Valor actual: ${estimatedRevenue} ${symbolInfo.quoteAsset}`
-        );
-        reasons.push(
-          `Valor de orden (${estimatedRevenue}) menor al mínimo requerido (${minNotional})`
+          `💡 Cantidad redondeada al step size (${stepSize}): ${validacion.cantidadEstimada}`
         );
       }
 
-      // Verificar filtro de MARKET_LOT_SIZE si es una orden de mercado
-      const marketLotFilter = symbolInfo.filters.MARKET_LOT_SIZE;
-      if (marketLotFilter) {
-        const maxQtyMarket = parseFloat(marketLotFilter.maxQty || "0");
-        const minQtyMarket = parseFloat(marketLotFilter.minQty || "0");
-
-        if (quantityNum < minQtyMarket) {
-          console.log(
-            `❌ Cantidad menor al mínimo permitido para mercado: ${minQtyMarket}`
-          );
-          reasons.push(
-            `Cantidad menor al mínimo para órdenes de mercado (${minQtyMarket})`
-          );
-        }
-        if (quantityNum > maxQtyMarket && maxQtyMarket > 0) {
-          console.log(
-            `❌ Cantidad mayor al máximo permitido para mercado: ${maxQtyMarket}`
-          );
-          reasons.push(
-            `Cantidad mayor al máximo para órdenes de mercado (${maxQtyMarket})`
-          );
-        }
-      }
+      validacion.rechazos.forEach((rechazo) => {
+        console.log(`❌ ${rechazo.filtro}: ${rechazo.mensaje}`);
+        reasons.push(rechazo.mensaje);
+      });
 
       // Verificar filtro de MAX_NUM_ORDERS si es relevante
       const maxOrdersFilter = symbolInfo.filters.MAX_NUM_ORDERS;
@@ -827,8 +1336,9 @@ class BinanceService {
     params: {
       symbol: string;
       quantity?: number | string;
-      type?: "MARKET" | "LIMIT";
+      type?: TipoOrden;
       price?: number | string;
+      stopPrice?: number | string;
       newClientOrderId?: string;
       quoteOrderQty?: number | string;
     }
@@ -846,16 +1356,16 @@ class BinanceService {
       if (
         !params.quantity &&
         !params.quoteOrderQty &&
-        params.type !== "LIMIT"
+        (params.type || "MARKET") === "MARKET"
       ) {
         throw new Error(
           "Se requiere quantity o quoteOrderQty para órdenes MARKET"
         );
       }
 
-      // Para órdenes LIMIT, quantity sigue siendo obligatorio
-      if (params.type === "LIMIT" && !params.quantity) {
-        throw new Error("La cantidad es requerida para órdenes LIMIT");
+      // Para el resto de tipos, quantity sigue siendo obligatorio
+      if ((params.type || "MARKET") !== "MARKET" && !params.quantity) {
+        throw new Error(`La cantidad es requerida para órdenes ${params.type}`);
       }
 
       // Preparar parámetros para la orden
@@ -865,28 +1375,52 @@ class BinanceService {
         type: params.type || "MARKET",
       };
 
-      // Agregar quantity o quoteOrderQty según corresponda
-      if (params.quantity) {
-        orderParams.quantity = params.quantity.toString();
+      // Validar y redondear cantidad/precio con los filtros del símbolo
+      const validacion = await this.validarOrden(credentials, params.symbol, {
+        side: "SELL",
+        type: params.type || "MARKET",
+        quantity: params.quantity,
+        quoteOrderQty: params.quantity ? undefined : params.quoteOrderQty,
+        price: params.price,
+        stopPrice: params.stopPrice,
+      });
+
+      if (!validacion.valida) {
+        console.error(
+          `❌ Orden rechazada por ${validacion.rechazo.filtro}: ${validacion.rechazo.mensaje}`
+        );
+        return {
+          success: false,
+          error: validacion.rechazo.mensaje,
+          code: -1013, // Filter failure
+          rechazo: validacion.rechazo,
+        };
       }
 
-      if (params.quoteOrderQty) {
-        orderParams.quoteOrderQty = params.quoteOrderQty.toString();
+      // Agregar quantity o quoteOrderQty según corresponda
+      if (validacion.quantity) {
+        orderParams.quantity = validacion.quantity;
+      } else if (validacion.quoteOrderQty) {
+        orderParams.quoteOrderQty = validacion.quoteOrderQty;
       }
 
       // Agregar parámetros específicos según el tipo de orden
-      if (params.type === "LIMIT") {
-        if (!params.price) {
-          throw new Error("El precio es requerido para órdenes LIMIT");
+      if (llevaPrecioLimite(params.type)) {
+        if (!validacion.price) {
+          throw new Error(`El precio es requerido para órdenes ${params.type}`);
+        }
+        orderParams.price = validacion.price;
+        if (params.type !== "LIMIT_MAKER") {
+          orderParams.timeInForce = "GTC";
         }
-        orderParams.price = params.price.toString();
-        orderParams.timeInForce = "GTC";
       }
-
-      if (params.newClientOrderId) {
-        orderParams.newClientOrderId = params.newClientOrderId;
+      if (validacion.stopPrice) {
+        orderParams.stopPrice = validacion.stopPrice;
       }
 
+      orderParams.newClientOrderId =
+        params.newClientOrderId || generarClientOrderId();
+
       console.log("📝 Parámetros finales para Binance (SELL):", orderParams);
 
       // Realizar la solicitud a la API de Binance
@@ -954,6 +1488,10 @@ class BinanceService {
           error instanceof Error
             ? error.message
             : "Error desconocido al realizar la orden",
+        // -1003: demasiadas peticiones
+        ...(error instanceof ErrorLimiteBinance && {
+          code: error.code ?? -1003,
+        }),
       };
     }
   }
@@ -964,16 +1502,105 @@ class BinanceService {
   async getSymbolInfo(
     credentials: BinanceCredentials,
     symbol: string
-  ): Promise<{
-    symbol: string;
-    baseAsset: string;
-    quoteAsset: string;
-    status: string;
-    filters: { [key: string]: any };
-    minQty?: number;
-    stepSize?: number;
-    minNotional?: number;
-  }> {
+  ): Promise<SymbolInfo> {
+    const clave = symbol.toUpperCase();
+    const cacheado = this.symbolInfoCache.get(clave);
+
+    if (cacheado && cacheado.expiraEn > Date.now()) {
+      return cacheado.promesa;
+    }
+
+    // Guardamos la promesa para que las llamadas concurrentes compartan la petición
+    const promesa = this.fetchSymbolInfo(credentials, clave);
+    this.symbolInfoCache.set(clave, {
+      promesa,
+      expiraEn: Date.now() + TTL_EXCHANGE_INFO_MS,
+    });
+
+    promesa.catch(() => {
+      // No cachear errores
+      if (this.symbolInfoCache.get(clave)?.promesa === promesa) {
+        this.symbolInfoCache.delete(clave);
+      }
+    });
+
+    return promesa;
+  }
+
+  /**
+   * Todos los símbolos del exchange (solo par y estado), cacheados
+   * TTL_EXCHANGE_INFO_MS
+   */
+  async getAllSymbols(): Promise<ParSimbolo[]> {
+    if (this.listaSimbolos && this.listaSimbolos.expiraEn > Date.now()) {
+      return this.listaSimbolos.promesa;
+    }
+
+    const promesa = (async () => {
+      const response = await this.makeAuthenticatedRequest(
+        "/api/v3/exchangeInfo",
+        {} as BinanceCredentials
+      );
+
+      if (!response.ok) {
+        throw new Error(`Error obteniendo símbolos: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as ExchangeInfoResponse;
+      this.limitador.configurarLimites(data.rateLimits);
+      return (data.symbols || []).map((s) => ({
+        symbol: s.symbol,
+        baseAsset: s.baseAsset,
+        quoteAsset: s.quoteAsset,
+        status: s.status,
+      }));
+    })();
+
+    this.listaSimbolos = {
+      promesa,
+      expiraEn: Date.now() + TTL_EXCHANGE_INFO_MS,
+    };
+    promesa.catch(() => {
+      if (this.listaSimbolos?.promesa === promesa) this.listaSimbolos = null;
+    });
+
+    return promesa;
+  }
+
+  /**
+   * Invalida la información cacheada de un símbolo (o de todos)
+   */
+  invalidarSymbolInfo(symbol?: string): void {
+    if (symbol) {
+      this.symbolInfoCache.delete(symbol.toUpperCase());
+    } else {
+      this.symbolInfoCache.clear();
+    }
+  }
+
+  /**
+   * Valida y redondea una orden con los filtros del símbolo
+   * @param orden Orden a validar; si no se indica precioReferencia se consulta el precio actual
+   * @returns Orden redondeada o motivo del rechazo
+   */
+  async validarOrden(
+    credentials: BinanceCredentials,
+    symbol: string,
+    orden: Omit<OrdenAValidar, "precioReferencia"> & {
+      precioReferencia?: number;
+    }
+  ): Promise<ResultadoValidacionOrden> {
+    const symbolInfo = await this.getSymbolInfo(credentials, symbol);
+    const precioReferencia =
+      orden.precioReferencia || (await this.getPrice(symbol.toUpperCase()));
+
+    return validarOrden(symbolInfo.filters, { ...orden, precioReferencia });
+  }
+
+  private async fetchSymbolInfo(
+    credentials: BinanceCredentials,
+    symbol: string
+  ): Promise<SymbolInfo> {
     try {
       console.log(`🔍 Obteniendo información del símbolo ${symbol}...`);
 
@@ -998,6 +1625,7 @@ class BinanceService {
       }
 
       const data = (await response.json()) as ExchangeInfoResponse;
+      this.limitador.configurarLimites(data.rateLimits);
       const symbolInfo = data.symbols?.find(
         (s) => s.symbol === symbol.toUpperCase()
       );
@@ -1017,16 +1645,7 @@ class BinanceService {
       const minNotionalFilter = filters.MIN_NOTIONAL || filters.NOTIONAL || {};
 
       // Crear el objeto de retorno con el tipado exacto
-      const result: {
-        symbol: string;
-        baseAsset: string;
-        quoteAsset: string;
-        status: string;
-        filters: { [key: string]: any };
-        minQty?: number;
-        stepSize?: number;
-        minNotional?: number;
-      } = {
+      const result: SymbolInfo = {
         symbol: symbolInfo.symbol,
         baseAsset: symbolInfo.baseAsset,
         quoteAsset: symbolInfo.quoteAsset,
@@ -1053,12 +1672,517 @@ class BinanceService {
       console.log(`   Base Asset: ${result.baseAsset}`);
       console.log(`   Quote Asset: ${result.quoteAsset}`);
 
-      return result;
-    } catch (error: any) {
-      console.error("❌ Error en getSymbolInfo:", error.message);
-      throw new Error(
-        `Error obteniendo información del símbolo ${symbol}: ${error.message}`
+      return result;
+    } catch (error: any) {
+      console.error("❌ Error en fetchSymbolInfo:", error.message);
+      throw new Error(
+        `Error obteniendo información del símbolo ${symbol}: ${error.message}`
+      );
+    }
+  }
+
+  // ===========================================================================
+  // ÓRDENES OCO Y CONSULTA DE ÓRDENES
+  // ===========================================================================
+
+  /**
+   * Crea una OCO: una orden límite (objetivo) y una stop. Cuando se ejecuta
+   * una de las dos, Binance cancela la otra.
+   * En una venta la límite queda por encima del precio actual (take profit)
+   * y la stop por debajo (stop loss); en una compra, al revés.
+   */
+  async placeOcoOrder(
+    credentials: BinanceCredentials,
+    params: OcoOrderParams
+  ): Promise<OcoOrderResponse> {
+    try {
+      console.log("=== 🎯 INICIANDO ORDEN OCO ===");
+      console.log("📊 Parámetros de la orden:", params);
+
+      if (!params.symbol) {
+        throw new Error("El símbolo es requerido");
+      }
+      if (!params.quantity) {
+        throw new Error("La cantidad es requerida para órdenes OCO");
+      }
+
+      const symbol = params.symbol.toUpperCase();
+      const precioReferencia = await this.getPrice(symbol);
+      const tipoStop: TipoOrden = params.stopLimitPrice
+        ? "STOP_LOSS_LIMIT"
+        : "STOP_LOSS";
+
+      // Cada pata se valida por separado contra los filtros del símbolo
+      const validacionLimite = await this.validarOrden(credentials, symbol, {
+        side: params.side,
+        type: "LIMIT_MAKER",
+        quantity: params.quantity,
+        price: params.price,
+        precioReferencia,
+      });
+      const validacionStop = await this.validarOrden(credentials, symbol, {
+        side: params.side,
+        type: tipoStop,
+        quantity: params.quantity,
+        price: params.stopLimitPrice,
+        stopPrice: params.stopPrice,
+        precioReferencia,
+      });
+
+      const rechazo = validacionLimite.rechazo || validacionStop.rechazo;
+      if (rechazo) {
+        console.error(
+          `❌ OCO rechazada por ${rechazo.filtro}: ${rechazo.mensaje}`
+        );
+        return {
+          success: false,
+          error: rechazo.mensaje,
+          code: -1013, // Filter failure
+          rechazo,
+        };
+      }
+
+      const listClientOrderId =
+        params.listClientOrderId || generarClientOrderId();
+
+      const pataLimite: Record<string, string> = {
+        Type: "LIMIT_MAKER",
+        Price: validacionLimite.price!,
+        ClientOrderId: `${listClientOrderId}_l`,
+      };
+      const pataStop: Record<string, string> = {
+        Type: tipoStop,
+        StopPrice: validacionStop.stopPrice!,
+        ClientOrderId: `${listClientOrderId}_s`,
+        ...(validacionStop.price && {
+          Price: validacionStop.price,
+          TimeInForce: "GTC",
+        }),
+      };
+
+      // En una venta la límite va por encima (above); en una compra, por debajo
+      const [above, below] =
+        params.side === "SELL" ? [pataLimite, pataStop] : [pataStop, pataLimite];
+
+      const orderParams: Record<string, string> = {
+        symbol,
+        side: params.side,
+        quantity: validacionLimite.quantity!,
+        listClientOrderId,
+      };
+      Object.entries(above).forEach(([k, v]) => (orderParams[`above${k}`] = v));
+      Object.entries(below).forEach(([k, v]) => (orderParams[`below${k}`] = v));
+
+      console.log("📝 Parámetros finales para Binance (OCO):", orderParams);
+
+      const response = await this.makeAuthenticatedRequest(
+        "/api/v3/orderList/oco",
+        credentials,
+        orderParams,
+        "POST"
+      );
+
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        console.error("❌ Error en la orden OCO:", responseText);
+
+        try {
+          const errorData = JSON.parse(responseText);
+          return {
+            success: false,
+            error: errorData.msg || "Error desconocido",
+            code: errorData.code,
+          };
+        } catch {
+          return {
+            success: false,
+            error: responseText || "Error en la API de Binance",
+          };
+        }
+      }
+
+      const orderList = JSON.parse(responseText) as BinanceOrderList;
+
+      console.log("✅ OCO creada exitosamente");
+      console.log(`   orderListId: ${orderList.orderListId}`);
+      console.log(
+        `   Órdenes: ${orderList.orders.map((o) => o.orderId).join(", ")}`
+      );
+
+      return {
+        success: true,
+        orderList,
+      };
+    } catch (error) {
+      console.error("💥 Error en placeOcoOrder:", error);
+
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error desconocido al crear la OCO",
+        ...(error instanceof ErrorLimiteBinance && {
+          code: error.code ?? -1003,
+        }),
+      };
+    }
+  }
+
+  /**
+   * Estado de una lista de órdenes (OCO)
+   */
+  async getOrderList(
+    credentials: BinanceCredentials,
+    orderListId: number
+  ): Promise<BinanceOrderList> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/orderList",
+      credentials,
+      { orderListId: orderListId.toString() }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error consultando la OCO ${orderListId}: ${errorText}`);
+    }
+
+    return (await response.json()) as BinanceOrderList;
+  }
+
+  /**
+   * Cancela las dos órdenes de una OCO
+   */
+  async cancelOrderList(
+    credentials: BinanceCredentials,
+    symbol: string,
+    orderListId: number
+  ): Promise<OcoOrderResponse> {
+    try {
+      const response = await this.makeAuthenticatedRequest(
+        "/api/v3/orderList",
+        credentials,
+        { symbol: symbol.toUpperCase(), orderListId: orderListId.toString() },
+        "DELETE"
+      );
+
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        console.error(`❌ Error cancelando la OCO ${orderListId}:`, responseText);
+        try {
+          const errorData = JSON.parse(responseText);
+          return {
+            success: false,
+            error: errorData.msg || "Error desconocido",
+            code: errorData.code,
+          };
+        } catch {
+          return {
+            success: false,
+            error: responseText || "Error en la API de Binance",
+          };
+        }
+      }
+
+      console.log(`🗑️ OCO ${orderListId} cancelada`);
+      return {
+        success: true,
+        orderList: JSON.parse(responseText) as BinanceOrderList,
+      };
+    } catch (error) {
+      console.error("💥 Error en cancelOrderList:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error desconocido al cancelar la OCO",
+      };
+    }
+  }
+
+  /**
+   * Cancela una orden abierta
+   * @param orden orderId o referencia por clientOrderId
+   */
+  async cancelOrder(
+    credentials: BinanceCredentials,
+    symbol: string,
+    orden: number | ReferenciaOrden
+  ): Promise<OrderResponse> {
+    const referencia = this.paramsReferencia(orden);
+    const descripcion = referencia.orderId || referencia.origClientOrderId;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(
+        "/api/v3/order",
+        credentials,
+        { symbol: symbol.toUpperCase(), ...referencia },
+        "DELETE"
+      );
+
+      const responseText = await response.text();
+
+      if (!response.ok) {
+        console.error(`❌ Error cancelando la orden ${descripcion}:`, responseText);
+        try {
+          const errorData = JSON.parse(responseText);
+          return {
+            success: false,
+            error: errorData.msg || "Error desconocido",
+            code: errorData.code,
+          };
+        } catch {
+          return {
+            success: false,
+            error: responseText || "Error en la API de Binance",
+          };
+        }
+      }
+
+      console.log(`🗑️ Orden ${descripcion} cancelada`);
+      return {
+        success: true,
+        order: JSON.parse(responseText) as BinanceOrder,
+      };
+    } catch (error) {
+      console.error("💥 Error en cancelOrder:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error desconocido al cancelar la orden",
+      };
+    }
+  }
+
+  /**
+   * Estado de una orden (sin fills)
+   * @param orden orderId o referencia por clientOrderId
+   */
+  async getOrder(
+    credentials: BinanceCredentials,
+    symbol: string,
+    orden: number | ReferenciaOrden
+  ): Promise<BinanceOrder> {
+    const referencia = this.paramsReferencia(orden);
+
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/order",
+      credentials,
+      { symbol: symbol.toUpperCase(), ...referencia }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Error consultando la orden ${
+          referencia.orderId || referencia.origClientOrderId
+        }: ${errorText}`
+      );
+    }
+
+    return (await response.json()) as BinanceOrder;
+  }
+
+  private paramsReferencia(
+    orden: number | ReferenciaOrden
+  ): { orderId?: string; origClientOrderId?: string } {
+    if (typeof orden === "number") {
+      return { orderId: orden.toString() };
+    }
+    if (orden.orderId) {
+      return { orderId: orden.orderId.toString() };
+    }
+    if (orden.origClientOrderId) {
+      return { origClientOrderId: orden.origClientOrderId };
+    }
+    throw new Error("Se requiere orderId o clientOrderId de la orden");
+  }
+
+  // ===========================================================================
+  // ÓRDENES ABIERTAS
+  // ===========================================================================
+
+  /**
+   * Órdenes abiertas de un símbolo (o de todos, con mucho más peso)
+   */
+  async getOpenOrders(
+    credentials: BinanceCredentials,
+    symbol?: string
+  ): Promise<BinanceOrder[]> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/openOrders",
+      credentials,
+      symbol ? { symbol: symbol.toUpperCase() } : {}
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error obteniendo órdenes abiertas: ${errorText}`);
+    }
+
+    return (await response.json()) as BinanceOrder[];
+  }
+
+  /**
+   * Cancela todas las órdenes abiertas de un símbolo (incluidas las OCO)
+   * @returns Órdenes canceladas
+   */
+  async cancelAllOrders(
+    credentials: BinanceCredentials,
+    symbol: string
+  ): Promise<BinanceOrder[]> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/openOrders",
+      credentials,
+      { symbol: symbol.toUpperCase() },
+      "DELETE"
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(
+        `Error cancelando las órdenes de ${symbol}: ${errorText}`
+      );
+    }
+
+    // Las OCO vienen como listas con sus órdenes en orderReports
+    const canceladas = (await response.json()) as Array<
+      BinanceOrder | BinanceOrderList
+    >;
+    return canceladas.flatMap((item) =>
+      "orderReports" in item
+        ? (item.orderReports as BinanceOrder[])
+        : [item as BinanceOrder]
+    );
+  }
+
+  /**
+   * Cancela una orden y crea otra en la misma petición. Si la cancelación
+   * falla no se crea la nueva (STOP_ON_FAILURE)
+   */
+  async cancelReplaceOrder(
+    credentials: BinanceCredentials,
+    params: CancelReplaceParams
+  ): Promise<CancelReplaceResponse> {
+    try {
+      console.log("=== 🔁 INICIANDO CANCEL-REPLACE ===");
+      console.log("📊 Parámetros de la orden:", params);
+
+      if (!params.symbol) {
+        throw new Error("El símbolo es requerido");
+      }
+      if (params.type !== "MARKET" && !params.quantity) {
+        throw new Error(`La cantidad es requerida para órdenes ${params.type}`);
+      }
+
+      const symbol = params.symbol.toUpperCase();
+      const validacion = await this.validarOrden(credentials, symbol, {
+        side: params.side,
+        type: params.type,
+        quantity: params.quantity,
+        price: params.price,
+        stopPrice: params.stopPrice,
+      });
+
+      if (!validacion.valida) {
+        console.error(
+          `❌ Orden rechazada por ${validacion.rechazo.filtro}: ${validacion.rechazo.mensaje}`
+        );
+        return {
+          success: false,
+          cancelResult: "NOT_ATTEMPTED",
+          newOrderResult: "NOT_ATTEMPTED",
+          error: validacion.rechazo.mensaje,
+          code: -1013, // Filter failure
+          rechazo: validacion.rechazo,
+        };
+      }
+
+      const referencia = this.paramsReferencia(params.cancelar);
+      const orderParams: Record<string, string> = {
+        symbol,
+        side: params.side,
+        type: params.type,
+        cancelReplaceMode: "STOP_ON_FAILURE",
+        newOrderRespType: "FULL",
+        newClientOrderId: params.newClientOrderId || generarClientOrderId(),
+        ...(referencia.orderId && { cancelOrderId: referencia.orderId }),
+        ...(referencia.origClientOrderId && {
+          cancelOrigClientOrderId: referencia.origClientOrderId,
+        }),
+      };
+
+      if (validacion.quantity) {
+        orderParams.quantity = validacion.quantity;
+      }
+      if (llevaPrecioLimite(params.type)) {
+        orderParams.price = validacion.price!;
+        if (params.type !== "LIMIT_MAKER") {
+          orderParams.timeInForce = "GTC";
+        }
+      }
+      if (validacion.stopPrice) {
+        orderParams.stopPrice = validacion.stopPrice;
+      }
+
+      console.log("📝 Parámetros finales para Binance:", orderParams);
+
+      const response = await this.makeAuthenticatedRequest(
+        "/api/v3/order/cancelReplace",
+        credentials,
+        orderParams,
+        "POST"
+      );
+
+      const responseText = await response.text();
+      const data = JSON.parse(responseText || "{}");
+
+      if (!response.ok) {
+        console.error("❌ Error en cancel-replace:", responseText);
+        // Con fallos parciales Binance devuelve el detalle en "data"
+        const detalle = data.data || {};
+        return {
+          success: false,
+          cancelResult: detalle.cancelResult,
+          newOrderResult: detalle.newOrderResult,
+          cancelResponse: detalle.cancelResult === "SUCCESS"
+            ? detalle.cancelResponse
+            : undefined,
+          error: data.msg || "Error desconocido",
+          code: data.code,
+        };
+      }
+
+      console.log("✅ Orden reemplazada exitosamente");
+      console.log(
+        `   ${data.cancelResponse.orderId} -> ${data.newOrderResponse.orderId}`
       );
+
+      return {
+        success: true,
+        cancelResult: data.cancelResult,
+        newOrderResult: data.newOrderResult,
+        cancelResponse: data.cancelResponse,
+        newOrder: data.newOrderResponse,
+      };
+    } catch (error) {
+      console.error("💥 Error en cancelReplaceOrder:", error);
+
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Error desconocido al reemplazar la orden",
+        ...(error instanceof ErrorLimiteBinance && {
+          code: error.code ?? -1003,
+        }),
+      };
     }
   }
 
@@ -1289,36 +2413,10 @@ class BinanceService {
     );
   }
 
-  private async getUSDTPrices(): Promise<{ [asset: string]: number }> {
-    try {
-      const response = await fetch(`${this.baseUrl}/api/v3/ticker/price`);
-      if (!response.ok) throw new Error("Failed to fetch prices");
-
-      const prices = (await response.json()) as TickerPrice[]; // ✅ Type assertion
-
-      const usdtPrices: { [asset: string]: number } = {};
-
-      prices.forEach((price: TickerPrice) => {
-        if (price.symbol.endsWith("USDT")) {
-          const asset = price.symbol.replace("USDT", "");
-          usdtPrices[asset] = parseFloat(price.price);
-        }
-      });
-
-      console.log(
-        `📊 Obtenidos precios de ${Object.keys(usdtPrices).length} pares USDT`
-      );
-      return usdtPrices;
-    } catch (error) {
-      console.error("❌ Error obteniendo precios USDT:", error);
-      return {};
-    }
-  }
-
   private calculateEarnFromPositions(
     data: SimpleEarnFlexibleResponse | SimpleEarnLockedResponse,
     type: string,
-    usdtPrices: { [asset: string]: number }
+    grafo: GrafoPrecios
   ): number {
     try {
       let total = 0;
@@ -1332,10 +2430,9 @@ class BinanceService {
 
         const amount = parseFloat(amountStr);
         if (amount > 0 && position.asset) {
-          if (["USDT", "BUSD", "USDC"].includes(position.asset)) {
-            total += amount;
-          } else if (usdtPrices[position.asset]) {
-            total += amount * usdtPrices[position.asset];
+          const precio = this.precioEn(grafo, position.asset, "USD");
+          if (precio !== null) {
+            total += amount * precio;
           } else {
             console.log(
               `⚠️ ${position.asset} earn: Sin precio disponible, no incluido`
@@ -1359,9 +2456,16 @@ class BinanceService {
    * Obtener el precio actual de un símbolo (público - no necesita autenticación)
    */
   async getPrice(symbol: string): Promise<number> {
+    const enMemoria = this.mercado.obtenerPrecio(symbol);
+    if (enMemoria !== undefined) {
+      return enMemoria;
+    }
+
     try {
-      const response = await fetch(
-        `${this.baseUrl}/api/v3/ticker/price?symbol=${symbol}`
+      const response = await this.makeAuthenticatedRequest(
+        "/api/v3/ticker/price",
+        {} as BinanceCredentials,
+        { symbol }
       );
 
       if (!response.ok) {
@@ -1376,6 +2480,260 @@ class BinanceService {
     }
   }
 
+  /**
+   * Precio de un símbolo en un instante pasado: cierre de la vela de 1 minuto
+   * que lo contiene (público)
+   */
+  async getPriceAt(symbol: string, time: number): Promise<number> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/klines",
+      {} as BinanceCredentials,
+      {
+        symbol: symbol.toUpperCase(),
+        interval: "1m",
+        endTime: time.toString(),
+        limit: "1",
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Error ${response.status}: ${response.statusText}`);
+    }
+
+    const data = (await response.json()) as any[];
+    if (data.length === 0) {
+      throw new Error(
+        `Sin velas de ${symbol} anteriores a ${new Date(time).toISOString()}`
+      );
+    }
+    return parseFloat(data[0][4]);
+  }
+
+  /**
+   * Grafo con el último precio de todos los pares en TRADING (público),
+   * cacheado TTL_GRAFO_PRECIOS_MS
+   */
+  async getGrafoPrecios(): Promise<GrafoPrecios> {
+    if (this.grafoPrecios && this.grafoPrecios.expiraEn > Date.now()) {
+      return this.grafoPrecios.promesa;
+    }
+
+    const promesa = (async () => {
+      const [simbolos, response] = await Promise.all([
+        this.getAllSymbols(),
+        this.makeAuthenticatedRequest(
+          "/api/v3/ticker/price",
+          {} as BinanceCredentials
+        ),
+      ]);
+
+      if (!response.ok) {
+        throw new Error(`Error obteniendo precios: ${response.statusText}`);
+      }
+
+      const precios = new Map(
+        ((await response.json()) as TickerPrice[]).map((p) => [
+          p.symbol,
+          parseFloat(p.price),
+        ])
+      );
+
+      const pares = simbolos
+        .filter((s) => s.status === "TRADING" && precios.has(s.symbol))
+        .map((s) => ({
+          symbol: s.symbol,
+          baseAsset: s.baseAsset,
+          quoteAsset: s.quoteAsset,
+          price: precios.get(s.symbol)!,
+        }));
+
+      console.log(`📊 Grafo de precios con ${pares.length} pares`);
+      return new GrafoPrecios(pares);
+    })();
+
+    this.grafoPrecios = {
+      promesa,
+      expiraEn: Date.now() + TTL_GRAFO_PRECIOS_MS,
+    };
+    promesa.catch(() => {
+      if (this.grafoPrecios?.promesa === promesa) this.grafoPrecios = null;
+    });
+
+    return promesa;
+  }
+
+  /**
+   * Servicio con el que se valoran las carteras de este host. Los precios de
+   * testnet no son de mercado, así que sus cuentas se valoran con los de
+   * mainnet; mainnet y custom (un mercado completo, como el simulador) usan
+   * los suyos
+   */
+  mercadoValoracion(): BinanceService {
+    return this.baseUrl === BINANCE_BASE_URLS.testnet
+      ? obtenerBinanceService("mainnet")
+      : this;
+  }
+
+  /**
+   * Precio actual de un activo en otra moneda, encadenando pares si no hay
+   * uno directo (ADA en EUR = ADABTC × BTCEUR)
+   * @param moneda Moneda de referencia; "USD" = cualquier estable en USD
+   * @returns null si no hay camino entre ambos
+   */
+  async getPrecioEn(activo: string, moneda: string): Promise<number | null> {
+    const grafo = await this.getGrafoPrecios();
+    return this.precioEn(grafo, activo.toUpperCase(), moneda.toUpperCase());
+  }
+
+  /**
+   * Precio de un activo en otra moneda en un instante pasado: se elige el
+   * camino con los pares actuales y se usa el cierre de 1 minuto de cada uno
+   * @returns null si no hay camino o falta alguna vela
+   */
+  async getPrecioEnFecha(
+    activo: string,
+    moneda: string,
+    time: number
+  ): Promise<number | null> {
+    const origen = activo.toUpperCase();
+    const destino = moneda.toUpperCase();
+    if (destino === "USD" && ACTIVOS_ESTABLES_USD.includes(origen)) return 1;
+
+    const grafo = await this.getGrafoPrecios();
+    const ruta = grafo.ruta(
+      origen,
+      destino === "USD" ? ACTIVOS_ESTABLES_USD : destino
+    );
+    if (!ruta) return null;
+
+    try {
+      let precio = 1;
+      for (const paso of ruta.pasos) {
+        const precioPar = await this.getPriceAt(paso.symbol, time);
+        precio *= paso.invertido ? 1 / precioPar : precioPar;
+      }
+      return precio;
+    } catch (error) {
+      console.warn(`⚠️ Sin precio histórico de ${origen} en ${destino}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Como getPrecioEnFecha para muchos instantes a la vez: cada par del camino
+   * se pide en tramos de hasta 1000 velas de 1 minuto, en lugar de una
+   * petición por instante y par
+   * @returns Precio de cada instante; null si no hay camino o falta su vela
+   */
+  async getPreciosEnFechas(
+    activo: string,
+    moneda: string,
+    times: number[]
+  ): Promise<Map<number, number | null>> {
+    const origen = activo.toUpperCase();
+    const destino = moneda.toUpperCase();
+    const precios: Map<number, number | null> = new Map(
+      times.map((time) => [time, null])
+    );
+    if (times.length === 0) return precios;
+    if (destino === "USD" && ACTIVOS_ESTABLES_USD.includes(origen)) {
+      times.forEach((time) => precios.set(time, 1));
+      return precios;
+    }
+
+    const grafo = await this.getGrafoPrecios();
+    const ruta = grafo.ruta(
+      origen,
+      destino === "USD" ? ACTIVOS_ESTABLES_USD : destino
+    );
+    if (!ruta) return precios;
+
+    const cierres = await Promise.all(
+      ruta.pasos.map((paso) => this.getCierresMinuto(paso.symbol, times))
+    );
+
+    for (const time of times) {
+      let precio: number | null = 1;
+      ruta.pasos.forEach((paso, i) => {
+        const precioPar = cierres[i].get(time);
+        precio =
+          precio === null || precioPar === undefined
+            ? null
+            : precio * (paso.invertido ? 1 / precioPar : precioPar);
+      });
+      precios.set(time, precio);
+    }
+    return precios;
+  }
+
+  /**
+   * Cierre de la vela de 1 minuto que contiene cada instante, con una
+   * petición por tramo de MAX_VELAS_PETICION minutos. Los instantes cuya vela
+   * no esté en su tramo se piden sueltos con getPriceAt
+   * @returns Solo los instantes con precio
+   */
+  private async getCierresMinuto(
+    symbol: string,
+    times: number[]
+  ): Promise<Map<number, number>> {
+    const cierres: Map<number, number> = new Map();
+    const pendientes = [...new Set(times)].sort((a, b) => a - b);
+
+    while (pendientes.length > 0) {
+      const inicio = Math.floor(pendientes[0] / MINUTO_MS) * MINUTO_MS;
+      const fin = inicio + MAX_VELAS_PETICION * MINUTO_MS - 1;
+      const siguiente = pendientes.findIndex((time) => time > fin);
+      const tramo = pendientes.splice(
+        0,
+        siguiente === -1 ? pendientes.length : siguiente
+      );
+
+      let velas: [number, number][] = [];
+      try {
+        const response = await this.makeAuthenticatedRequest(
+          "/api/v3/klines",
+          {} as BinanceCredentials,
+          {
+            symbol: symbol.toUpperCase(),
+            interval: "1m",
+            startTime: inicio.toString(),
+            endTime: fin.toString(),
+            limit: MAX_VELAS_PETICION.toString(),
+          }
+        );
+        if (!response.ok) {
+          throw new Error(`Error ${response.status}: ${response.statusText}`);
+        }
+        velas = ((await response.json()) as any[]).map((kline) => [
+          kline[0],
+          parseFloat(kline[4]),
+        ]);
+      } catch (error) {
+        console.warn(
+          `⚠️ Sin velas de ${symbol} desde ${new Date(inicio).toISOString()}:`,
+          error
+        );
+      }
+
+      // Última vela abierta antes de cada instante (las velas vienen en orden)
+      let i = -1;
+      for (const time of tramo) {
+        while (i + 1 < velas.length && velas[i + 1][0] <= time) i++;
+        if (i >= 0) {
+          cierres.set(time, velas[i][1]);
+          continue;
+        }
+        try {
+          cierres.set(time, await this.getPriceAt(symbol, time));
+        } catch {
+          // Sin vela anterior: el instante queda sin precio
+        }
+      }
+    }
+
+    return cierres;
+  }
+
   /**
    * Obtener múltiples precios a la vez (público)
    */
@@ -1409,16 +2767,122 @@ class BinanceService {
     }
   }
 
+  // ===========================================================================
+  // STREAMS DE MERCADO
+  // ===========================================================================
+
+  /**
+   * Suscribe los símbolos/intervalos que necesita un consumidor a los streams
+   * de mercado; getPrice y getKlines los sirven desde memoria
+   * @param consumidor Identificador de quien pide los datos (sustituye su suscripción anterior)
+   */
+  suscribirMercado(
+    consumidor: string,
+    simbolos: string[],
+    intervalos: string[] = []
+  ): void {
+    this.mercado.suscribir(consumidor, simbolos, intervalos);
+  }
+
+  desuscribirMercado(consumidor: string): void {
+    this.mercado.desuscribir(consumidor);
+  }
+
+  // ===========================================================================
+  // USER DATA STREAM
+  // ===========================================================================
+
+  /**
+   * Host de los streams WebSocket que corresponde a este host REST
+   * (en un entorno custom se asume el mismo host con ws/wss)
+   */
+  get wsBaseUrl(): string {
+    if (this.baseUrl === BINANCE_BASE_URLS.mainnet) {
+      return BINANCE_WS_URLS.mainnet;
+    }
+    if (this.baseUrl === BINANCE_BASE_URLS.testnet) {
+      return BINANCE_WS_URLS.testnet;
+    }
+    return this.baseUrl.replace(/^http/i, "ws");
+  }
+
+  /**
+   * Crea un listenKey para el user data stream (válido 60 minutos)
+   */
+  async crearListenKey(credentials: BinanceCredentials): Promise<string> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/userDataStream",
+      credentials,
+      {},
+      "POST"
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Error creando listenKey: ${errorText}`);
+    }
+
+    const data = (await response.json()) as { listenKey: string };
+    return data.listenKey;
+  }
+
+  /**
+   * Alarga la validez de un listenKey otros 60 minutos
+   * @returns false si el listenKey ya no existe y hay que crear otro
+   */
+  async renovarListenKey(
+    credentials: BinanceCredentials,
+    listenKey: string
+  ): Promise<boolean> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/userDataStream",
+      credentials,
+      { listenKey },
+      "PUT"
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`❌ Error renovando listenKey: ${errorText}`);
+      return false;
+    }
+    return true;
+  }
+
+  async cerrarListenKey(
+    credentials: BinanceCredentials,
+    listenKey: string
+  ): Promise<void> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/userDataStream",
+      credentials,
+      { listenKey },
+      "DELETE"
+    );
+
+    if (!response.ok) {
+      console.error(`⚠️ Error cerrando listenKey: ${await response.text()}`);
+    }
+  }
+
+  /**
+   * URL del WebSocket del user data stream
+   */
+  obtenerUrlUserDataStream(listenKey: string): string {
+    return `${this.wsBaseUrl}/ws/${listenKey}`;
+  }
+
   // ===========================================================================
   // MÉTODOS DE AUTENTICACIÓN
   // ===========================================================================
 
   // Actualiza el método makeAuthenticatedRequest para soportar POST
+  // Todas las peticiones pasan por el limitador de peso de Binance
   private async makeAuthenticatedRequest(
     endpoint: string,
     credentials: BinanceCredentials,
     additionalParams: Record<string, string> = {},
-    method: "GET" | "POST" = "GET"
+    method: "GET" | "POST" | "PUT" | "DELETE" = "GET"
   ): Promise<Response> {
     try {
       console.log("\n=== 🔐 MAKE REQUEST ===");
@@ -1428,84 +2892,145 @@ class BinanceService {
       // Determinar si es un endpoint público
       const isPublicEndpoint =
         endpoint.includes("/api/v3/exchangeInfo") ||
-        endpoint.includes("/api/v3/klines");
-
-      let url: string;
-
-      if (isPublicEndpoint) {
-        // Para endpoints públicos, solo añade los parámetros adicionales
-        const params = new URLSearchParams(additionalParams);
-        const queryString = params.toString();
-        url = `${this.baseUrl}${endpoint}${
-          queryString ? `?${queryString}` : ""
-        }`;
-        console.log(`🌐 URL (public endpoint): ${url}`);
-      } else {
-        // Para endpoints privados, usa autenticación completa
-        const binanceTime = await this.getBinanceServerTime();
-        console.log(`⏰ Tiempo Binance: ${binanceTime}`);
-
-        const timestamp = binanceTime.toString();
+        endpoint.includes("/api/v3/klines") ||
+        endpoint.includes("/api/v3/ticker/price") ||
+        endpoint.includes("/api/v3/time");
+
+      // Endpoints USER_STREAM: solo API Key, sin firma
+      const isApiKeyOnlyEndpoint = endpoint.includes("/api/v3/userDataStream");
+
+      const esFirmado = !isPublicEndpoint && !isApiKeyOnlyEndpoint;
+      let resincronizado = false;
+
+      for (let intento = 0; ; intento++) {
+        let url: string;
+
+        if (isPublicEndpoint || isApiKeyOnlyEndpoint) {
+          // Para endpoints públicos, solo añade los parámetros adicionales
+          const params = new URLSearchParams(additionalParams);
+          const queryString = params.toString();
+          url = `${this.baseUrl}${endpoint}${
+            queryString ? `?${queryString}` : ""
+          }`;
+          console.log(`🌐 URL (public endpoint): ${url}`);
+        } else {
+          // Para endpoints privados, usa autenticación completa
+          // (se vuelve a firmar en cada intento para renovar el timestamp)
+          const binanceTime = await this.reloj.marcaTiempo();
+          console.log(`⏰ Tiempo Binance: ${binanceTime}`);
 
-        const params = new URLSearchParams({
-          timestamp,
-          recvWindow: "5000",
-          ...additionalParams,
-        });
+          const timestamp = binanceTime.toString();
 
-        const queryString = params.toString();
-        console.log(`📝 Query String: ${queryString}`);
+          const params = new URLSearchParams({
+            timestamp,
+            recvWindow: this.reloj.recvWindow.toString(),
+            ...additionalParams,
+          });
 
-        const signature = await this.generateSignature(
-          queryString,
-          credentials.apiSecret
-        );
-        console.log(`✍️ Signature: ${signature.substring(0, 30)}...`);
+          const queryString = params.toString();
+          console.log(`📝 Query String: ${queryString}`);
 
-        url = `${this.baseUrl}${endpoint}?${queryString}&signature=${signature}`;
-        console.log(`🌐 URL (private endpoint): ${url}`);
-      }
+          const signature = await this.generateSignature(
+            queryString,
+            credentials.apiSecret
+          );
+          console.log(`✍️ Signature: ${signature.substring(0, 30)}...`);
 
-      const options: RequestInit = {
-        method: method,
-        headers: {
-          "Content-Type": "application/json",
-        },
-      };
+          url = `${this.baseUrl}${endpoint}?${queryString}&signature=${signature}`;
+          console.log(`🌐 URL (private endpoint): ${url}`);
+        }
 
-      // Solo añade la API Key si no es un endpoint público
-      if (!isPublicEndpoint) {
-        options.headers = {
-          ...options.headers,
-          "X-MBX-APIKEY": credentials.apiKey,
+        const options: RequestInit = {
+          method: method,
+          headers: {
+            "Content-Type": "application/json",
+          },
         };
-      }
 
-      console.log("🚀 Enviando request a Binance...");
+        // Solo añade la API Key si no es un endpoint público
+        if (!isPublicEndpoint) {
+          options.headers = {
+            ...options.headers,
+            "X-MBX-APIKEY": credentials.apiKey,
+          };
+        }
+
+        // Esperar turno según el peso usado (lanza si hay baneo)
+        const cuenta = isPublicEndpoint ? "" : credentials.apiKey;
+        await this.limitador.esperarTurno(
+          endpoint,
+          method,
+          additionalParams,
+          cuenta
+        );
+
+        console.log("🚀 Enviando request a Binance...");
+
+        const startTime = Date.now();
+        const response = await fetch(url, options);
+        const endTime = Date.now();
 
-      const startTime = Date.now();
-      const response = await fetch(url, options);
-      const endTime = Date.now();
+        console.log(`⏱️ Tiempo de respuesta: ${endTime - startTime}ms`);
+        console.log(`📊 Status: ${response.status} ${response.statusText}`);
+
+        const errorLimite = await this.limitador.registrarRespuesta(
+          response,
+          cuenta
+        );
+        if (!errorLimite) {
+          // -1021: el reloj se ha desviado; se mide de nuevo y se reintenta una vez
+          if (
+            esFirmado &&
+            !resincronizado &&
+            (await this.esTimestampFueraDeVentana(response))
+          ) {
+            resincronizado = true;
+            console.warn(
+              `⏰ Timestamp fuera de recvWindow en ${endpoint}, resincronizando reloj`
+            );
+            await this.reloj.sincronizar();
+            continue;
+          }
+          return response;
+        }
 
-      console.log(`⏱️ Tiempo de respuesta: ${endTime - startTime}ms`);
-      console.log(`📊 Status: ${response.status} ${response.statusText}`);
+        // 418 no se reintenta; 429 sí, mientras la espera sea razonable
+        if (
+          errorLimite instanceof ErrorBaneoBinance ||
+          intento >= MAX_REINTENTOS_LIMITE ||
+          errorLimite.reintentarEn - Date.now() > ESPERA_MAXIMA_MS
+        ) {
+          throw errorLimite;
+        }
 
-      return response;
+        console.log(
+          `🔁 Reintentando ${endpoint} (${intento + 1}/${MAX_REINTENTOS_LIMITE})`
+        );
+      }
     } catch (error) {
       console.error("💥 ERROR en makeAuthenticatedRequest:", error);
       throw error;
     }
   }
 
-  private async getBinanceServerTime(): Promise<number> {
+  // Hora del servidor de este host (la usa el reloj para medir el desfase)
+  private async consultarHoraServidor(): Promise<number> {
+    const response = await this.makeAuthenticatedRequest(
+      "/api/v3/time",
+      {} as BinanceCredentials
+    );
+    if (!response.ok) throw new Error("Failed to get server time");
+    const data = (await response.json()) as { serverTime: number };
+    return data.serverTime;
+  }
+
+  private async esTimestampFueraDeVentana(response: Response): Promise<boolean> {
+    if (response.status !== 400) return false;
     try {
-      const response = await fetch("https://api.binance.com/api/v3/time");
-      if (!response.ok) throw new Error("Failed to get server time");
-      const data = (await response.json()) as { serverTime: number }; // ✅ Type assertion
-      return data.serverTime;
-    } catch (error) {
-      console.error("Error obteniendo tiempo de Binance:", error);
-      return Date.now(); // Fallback al tiempo local
+      const data = (await response.clone().json()) as { code?: number };
+      return data.code === CODIGO_TIMESTAMP_FUERA_DE_VENTANA;
+    } catch {
+      return false;
     }
   }
 
@@ -1579,6 +3104,11 @@ class BinanceService {
       volume: number;
     }[]
   > {
+    const enMemoria = this.mercado.obtenerVelas(symbol, interval, limit);
+    if (enMemoria) {
+      return enMemoria;
+    }
+
     try {
       console.log(`📊 Obteniendo ${limit} velas de ${symbol} (${interval})...`);
 
@@ -1604,7 +3134,7 @@ class BinanceService {
       const data = (await response.json()) as any[];
 
       // Transformar a un formato más amigable
-      return data.map((kline: any[]) => ({
+      const velas = data.map((kline: any[]) => ({
         time: kline[0], // timestamp de apertura
         open: parseFloat(kline[1]),
         high: parseFloat(kline[2]),
@@ -1612,6 +3142,10 @@ class BinanceService {
         close: parseFloat(kline[4]),
         volume: parseFloat(kline[5]),
       }));
+
+      // Backfill del buffer en memoria si el intervalo está suscrito
+      this.mercado.cargarVelas(symbol, interval, velas);
+      return velas;
     } catch (error) {
       console.error(`❌ Error en getKlines para ${symbol}:`, error);
       throw error;
@@ -1885,7 +3419,7 @@ class BinanceService {
       signals: { action: "BUY" | "SELL" | "NONE"; confidence: number };
     }>
   > {
-    const promises = SUPPORTED_SYMBOLS.map(async (symbol) => {
+    const promises = servicioSimbolos.listar().map(async (symbol) => {
       try {
         console.log;
         return await this.getTechnicalSignals(symbol, interval, limit);
@@ -1955,6 +3489,8 @@ class BinanceService {
       // Obtener señales para cada intervalo en paralelo
       const intervalPromises = intervals.map((interval) =>
         this.getSignalsForInterval(symbol, interval, limit).catch((err) => {
+          // Con el límite de Binance alcanzado no tiene sentido seguir
+          if (err instanceof ErrorLimiteBinance) throw err;
           console.error(`Error en intervalo ${interval} para ${symbol}:`, err);
           return null;
         })
@@ -2008,7 +3544,7 @@ class BinanceService {
   async getAllTechnicalSignalsMulti(
     intervals: string[] = ["3m", "5m"],
     limit: number = 100,
-    simbolos: string[] = SUPPORTED_SYMBOLS
+    simbolos: string[] = servicioSimbolos.listar("bot")
   ): Promise<
     Array<{
       symbol: string;
@@ -2021,6 +3557,7 @@ class BinanceService {
       try {
         return await this.getTechnicalSignalsMulti(symbol, intervals, limit);
       } catch (error) {
+        if (error instanceof ErrorLimiteBinance) throw error;
         console.error(`Error obteniendo señales multi para ${symbol}:`, error);
         return null;
       }
@@ -2671,17 +4208,142 @@ class BinanceService {
 }
 
 /**
- * Valida si un símbolo está en la lista de soportados
+ * Valida si un símbolo está operativo en el registro de símbolos
  */
 export function isValidSymbol(symbol: string): boolean {
-  return SUPPORTED_SYMBOLS.includes(symbol.toUpperCase());
+  return servicioSimbolos.esValido(symbol);
 }
 
 /**
- * Obtiene la lista de símbolos soportados
+ * Obtiene la lista de símbolos operativos del registro
  */
 export function getSupportedSymbols(): string[] {
-  return [...SUPPORTED_SYMBOLS]; // Retorna copia para evitar mutaciones
+  return servicioSimbolos.listar(); // listar() ya devuelve una copia
+}
+
+/**
+ * clientOrderId con el prefijo de la aplicación (máx. 36 caracteres)
+ */
+export function generarClientOrderId(
+  prefijo: string = PREFIJO_ORDEN_APP
+): string {
+  const aleatorio = Math.random().toString(36).slice(2, 10);
+  return `${prefijo}${Date.now()}_${aleatorio}`;
+}
+
+// Instancias por host, para que cada conexión hable con su propio entorno
+const instanciasPorBaseUrl: Map<string, BinanceService> = new Map();
+
+/**
+ * URL http/https sin usuario, query ni barra final
+ * @returns null si no es una URL válida
+ */
+function normalizarBaseUrl(valor?: string | null): string | null {
+  if (!valor) return null;
+
+  let url: URL;
+  try {
+    url = new URL(valor.trim());
+  } catch {
+    return null;
+  }
+  if (!["http:", "https:"].includes(url.protocol)) return null;
+  if (url.username || url.password || url.search || url.hash) return null;
+
+  return `${url.protocol}//${url.host}${url.pathname.replace(/\/+$/, "")}`;
+}
+
+// Hosts custom añadidos desde el propio proceso (el simulador al arrancar)
+const hostsCustomDelProceso: Set<string> = new Set();
+
+/**
+ * Hosts admitidos en el entorno custom: los de BINANCE_CUSTOM_BASE_URLS
+ * (separados por comas) y los añadidos con permitirBaseUrlCustom. Sin ninguno
+ * no se admite el entorno custom
+ */
+function hostsCustomPermitidos(): string[] {
+  return [
+    ...(process.env.BINANCE_CUSTOM_BASE_URLS || "")
+      .split(",")
+      .map((url) => normalizarBaseUrl(url))
+      .filter((url): url is string => url !== null),
+    ...hostsCustomDelProceso,
+  ];
+}
+
+/**
+ * Admite un host en el entorno custom mientras dure el proceso. No se expone
+ * por HTTP: es para hosts que levanta el propio proceso, como el simulador
+ */
+export function permitirBaseUrlCustom(baseUrl: string): void {
+  const url = normalizarBaseUrl(baseUrl);
+  if (!url) {
+    throw new Error(`baseUrl no válida: ${baseUrl}`);
+  }
+  hostsCustomDelProceso.add(url);
+}
+
+/**
+ * Resuelve el host de la API a partir del entorno de una conexión
+ * @param entorno mainnet, testnet o custom (por defecto testnet)
+ * @param baseUrl Host personalizado, obligatorio si el entorno es custom y
+ *                solo de la lista de hosts permitidos
+ * @throws Error si el entorno o el host no son válidos, o si se pide el
+ *         entorno custom en producción
+ */
+export function resolverBaseUrlBinance(
+  entorno?: string | null,
+  baseUrl?: string | null
+): string {
+  const entornoFinal = (entorno || ENTORNO_BINANCE_POR_DEFECTO).toLowerCase();
+
+  if (entornoFinal === "custom") {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("El entorno custom no está disponible en producción");
+    }
+
+    const url = normalizarBaseUrl(baseUrl);
+    if (!url) {
+      throw new Error(
+        "Se requiere una baseUrl válida (http/https) para el entorno custom"
+      );
+    }
+    // Las peticiones firmadas llevan la API key: solo a hosts de confianza
+    if (!hostsCustomPermitidos().includes(url)) {
+      throw new Error(
+        `La baseUrl ${url} no está permitida. Añádela a BINANCE_CUSTOM_BASE_URLS`
+      );
+    }
+    return url;
+  }
+
+  const url = BINANCE_BASE_URLS[entornoFinal as keyof typeof BINANCE_BASE_URLS];
+  if (!url) {
+    throw new Error(`Entorno de Binance no válido: ${entorno}`);
+  }
+  return url;
+}
+
+/**
+ * Obtiene el servicio de Binance para un entorno concreto
+ * @param entorno mainnet, testnet o custom (por defecto testnet)
+ * @param baseUrl Host personalizado para el entorno custom
+ */
+export function obtenerBinanceService(
+  entorno?: string | null,
+  baseUrl?: string | null
+): BinanceService {
+  const url = resolverBaseUrlBinance(entorno, baseUrl);
+
+  let instancia = instanciasPorBaseUrl.get(url);
+  if (!instancia) {
+    instancia = new BinanceService(url);
+    instanciasPorBaseUrl.set(url, instancia);
+  }
+  return instancia;
 }
 
-export const binanceService = new BinanceService();
+export { BinanceService };
+
+// Instancia por defecto, para consultas públicas que no dependen de una conexión
+export const binanceService = obtenerBinanceService();
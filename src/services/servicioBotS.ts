@@ -1,22 +1,13 @@
 import { EMA, RSI, MACD } from "technicalindicators";
 import { getSupabaseClient } from "../lib/supabase.js";
-import { BinanceCredentials } from "../interfaces/binance.types";
+import { redondearAlPaso, validarOrden } from "../lib/filtrosOrden";
+import { ConexionExchange } from "../interfaces/exchange.types";
 import { SimboloConfig, BotConfig } from "../interfaces/bot.types.js";
 import { binanceService } from "./servicioBinance.js";
-
-// Lista fija de símbolos a consultar
-export const SUPPORTED_SYMBOLS = [
-  "BTCUSDC",
-  "ETHUSDC",
-  "SOLUSDC",
-  "ADAUSDC",
-  "XRPUSDC",
-  "BNBUSDC",
-  "AVAXUSDC",
-  "LINKUSDC",
-  "DOGEUSDC",
-  "PEPEUSDC",
-];
+import { servicioSimbolos } from "./servicioSimbolos.js";
+import { servicioEarn } from "./servicioEarn.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import { servicioLotes } from "./servicioLotes.js";
 
 type IntervalSignal = {
   interval: string;
@@ -60,31 +51,51 @@ class ServicioBot {
 
   /**
    * Ejecuta órdenes de compra/venta basadas en las señales combinadas.
-   * @param credentials Credenciales de Binance
+   * @param conexion Conexión de exchange del usuario (adapter + credenciales)
    * @param userId ID del usuario en la base de datos
    * @param tradeAmountUSD Cantidad en USD (quote) a invertir en cada compra (por defecto 10)
    * @param intervals Intervalos a considerar para las señales
-   * @param simbolos Lista de símbolos a evaluar
+   * @param simbolos Lista de símbolos a evaluar (solo se operan los que
+   * tienen el bot activo en el registro)
    * @param limit Número de velas por intervalo
    * @param cooldownMinutes Minutos de espera entre operaciones del mismo símbolo
    * @param maxInversion Máximo total invertido permitido (suma de compras activas)
+   * @param earnAutomatico Aparcar en Earn flexible la moneda de cotización
+   * libre al final del ciclo y reembolsarla justo antes de cada compra
    */
   async executeTrades(
-    credentials: BinanceCredentials,
+    conexion: ConexionExchange,
     userId: string,
     tradeAmountUSD: number = 10,
     intervals: string[] = ["3m", "5m"],
-    simbolosConfig: SimboloConfig[] = SUPPORTED_SYMBOLS.map((s) => ({
-      symbol: s,
-    })),
+    simbolosConfig: SimboloConfig[] = servicioSimbolos
+      .listar("bot")
+      .map((s) => ({ symbol: s })),
     limit: number = 50,
     cooldownMinutes: number = 3,
-    maxInversion: number = 10
+    maxInversion: number = 10,
+    earnAutomatico: boolean = false
   ): Promise<{ executed: TradeExecutionResult[] }> {
     const results: TradeExecutionResult[] = [];
     const cooldownMs = cooldownMinutes * 60 * 1000;
 
     try {
+      // Un símbolo desactivado en el registro deja de operarse aunque siga
+      // en la configuración del usuario
+      const desactivados = simbolosConfig.filter(
+        (item) => !servicioSimbolos.esValido(item.symbol, "bot")
+      );
+      if (desactivados.length > 0) {
+        console.log(
+          `⏸️ Símbolos sin bot activo, se omiten: ${desactivados
+            .map((item) => item.symbol)
+            .join(", ")}`
+        );
+        simbolosConfig = simbolosConfig.filter(
+          (item) => !desactivados.includes(item)
+        );
+      }
+
       // Crear un mapa para acceso rápido a la configuración por símbolo
       const configMap = new Map(
         simbolosConfig.map((item) => [item.symbol, item])
@@ -131,20 +142,21 @@ class ServicioBot {
         if (combinedSignal.action === "BUY") {
           // TypeScript estrecha combinedSignal a { action: "BUY"; confidence: number }
           const buyResult = await this.processBuySignal(
-            credentials,
+            conexion,
             userId,
             symbol,
             combinedSignal,
             tradeAmountUSD,
             maxInversion,
             config.lowerLimit, // ← Límite inferior
-            config.upperLimit // ← Límite superior
+            config.upperLimit, // ← Límite superior
+            earnAutomatico
           );
           results.push(buyResult);
         } else {
           // combinedSignal.action === "SELL"
           const sellResults = await this.processSellSignal(
-            credentials,
+            conexion,
             userId,
             symbol,
             combinedSignal
@@ -152,6 +164,10 @@ class ServicioBot {
           results.push(...sellResults);
         }
       }
+
+      if (earnAutomatico) {
+        await this.aparcarSaldoLibre(conexion, symbolsList);
+      }
     } catch (error) {
       console.error("Error crítico en executeTrades:", error);
       throw error;
@@ -161,7 +177,7 @@ class ServicioBot {
   }
 
   public async ejecutarOrdenSegunSenial(
-    credentials: BinanceCredentials,
+    conexion: ConexionExchange,
     userId: string,
     symbol: string,
     signal: { action: "BUY" | "SELL"; confidence: number },
@@ -170,7 +186,7 @@ class ServicioBot {
     cooldownMs: number,
     lowerLimit?: number | null,
     upperLimit?: number | null,
-    
+    earnAutomatico: boolean = false
   ): Promise<any> {
     // Verificar cooldown (necesitas un mecanismo para almacenar cooldowns por símbolo, quizás un Map en memoria)
     if (this.isCooldownActive(symbol, cooldownMs)) {
@@ -184,17 +200,18 @@ class ServicioBot {
     if (signal.action === "BUY") {
 
       return await this.processBuySignal(
-        credentials,
+        conexion,
         userId,
         symbol,
         signal,
         tradeAmountUSD,
         maxInversion,
         lowerLimit,
-        upperLimit
+        upperLimit,
+        earnAutomatico
       );
     } else {
-      return await this.processSellSignal(credentials, userId, symbol, signal);
+      return await this.processSellSignal(conexion, userId, symbol, signal);
     }
   }
 
@@ -241,6 +258,36 @@ class ServicioBot {
     return { within: true };
   }
 
+  /**
+   * Suscribe en Earn flexible el saldo libre de las monedas de cotización de
+   * los símbolos del bot. Un fallo no interrumpe el ciclo.
+   */
+  public async aparcarSaldoLibre(
+    conexion: ConexionExchange,
+    simbolos: string[]
+  ): Promise<void> {
+    const registro = servicioSimbolos.obtenerTodos();
+    const monedas = new Set(
+      simbolos
+        .map((s) => registro.find((r) => r.simbolo === s)?.activoCotizacion)
+        .filter(Boolean)
+    );
+
+    for (const moneda of monedas) {
+      try {
+        const resultado = await servicioEarn.aparcarSobrante(conexion, moneda);
+        if (resultado && !resultado.success) {
+          console.error(
+            `❌ No se pudo aparcar ${moneda} en Earn:`,
+            resultado.error
+          );
+        }
+      } catch (error) {
+        console.error(`❌ Error aparcando ${moneda} en Earn:`, error);
+      }
+    }
+  }
+
   /**
    * Construye un resultado para una operación omitida (skipped).
    */
@@ -263,14 +310,15 @@ class ServicioBot {
    * Procesa una señal de compra.
    */
   private async processBuySignal(
-    credentials: BinanceCredentials,
+    conexion: ConexionExchange,
     userId: string,
     symbol: string,
     signal: { action: "BUY" | "SELL"; confidence: number },
     tradeAmountUSD: number,
     maxInversion: number,
     lowerLimit?: number | null,
-    upperLimit?: number | null
+    upperLimit?: number | null,
+    earnAutomatico: boolean = false
   ): Promise<TradeExecutionResult> {
     console.log(
       `🔔 Señal de COMPRA para ${symbol} con confianza ${signal.confidence}. Verificando disponibilidad...`
@@ -278,7 +326,7 @@ class ServicioBot {
 
     try {
       // Obtener precio actual e información del símbolo (filtros, minNotional, etc.)
-      const currentPrice = await binanceService.getPrice(symbol);
+      const currentPrice = await conexion.adapter.getPrice(symbol);
 
       // Validar límites
       const priceCheck = this.checkPriceWithinLimits(
@@ -292,17 +340,31 @@ class ServicioBot {
         return this.buildSkippedResult(symbol, signal, priceCheck.message!);
       }
 
-      const symbolInfo = await binanceService.getSymbolInfo(
-        credentials,
+      const symbolInfo = await conexion.adapter.getSymbolInfo(
+        conexion.credentials,
         symbol
       );
       const minNotional = symbolInfo.minNotional || 5; // valor por defecto si no viene
 
+      // El importe del bot está en USD: se pasa a la moneda de cotización del
+      // par (EUR, BTC...), que vale 1 si es una estable en USD
+      const precioCotizacionUSD = await conexion.adapter.getPrecioEn(
+        symbolInfo.quoteAsset,
+        "USD"
+      );
+      if (!precioCotizacionUSD) {
+        return this.buildSkippedResult(
+          symbol,
+          signal,
+          `Sin precio USD de ${symbolInfo.quoteAsset}`
+        );
+      }
+
       // Ajustar el monto de compra si es menor que minNotional
-      let montoCompra = tradeAmountUSD;
+      let montoCompra = tradeAmountUSD / precioCotizacionUSD;
       if (montoCompra < minNotional) {
         console.log(
-          `⚠️ tradeAmountUSD (${montoCompra}) es menor que minNotional (${minNotional}) para ${symbol}. Usando ${minNotional}`
+          `⚠️ tradeAmountUSD (${montoCompra} ${symbolInfo.quoteAsset}) es menor que minNotional (${minNotional}) para ${symbol}. Usando ${minNotional}`
         );
         montoCompra = minNotional;
       }
@@ -310,8 +372,9 @@ class ServicioBot {
       // Verificar límite de inversión total (compras activas del usuario)
       if (maxInversion) {
         const limiteExcedido = await this.isMaxInvestmentExceeded(
+          conexion,
           userId,
-          montoCompra,
+          montoCompra * precioCotizacionUSD,
           maxInversion
         );
         if (limiteExcedido.excedido) {
@@ -328,6 +391,7 @@ class ServicioBot {
 
       // Verificar si ya existe una compra activa en un rango de ±0.4% del precio actual
       const existeCompraCercana = await this.existsActiveBuyInRange(
+        conexion,
         userId,
         symbol,
         currentPrice
@@ -343,25 +407,66 @@ class ServicioBot {
         );
       }
 
+      // Validar la orden con los filtros del símbolo
+      const validacion = await conexion.adapter.validarOrden(
+        conexion.credentials,
+        symbol,
+        {
+          side: "BUY",
+          type: "MARKET",
+          quoteOrderQty: montoCompra,
+          precioReferencia: currentPrice,
+        }
+      );
+      if (!validacion.valida) {
+        console.log(
+          `⏭️ ${symbol}: orden rechazada por ${validacion.rechazo.filtro}: ${validacion.rechazo.mensaje}`
+        );
+        return this.buildSkippedResult(
+          symbol,
+          signal,
+          validacion.rechazo.mensaje
+        );
+      }
+
       // Calcular cantidad base a comprar
       const quantityBase = montoCompra / currentPrice;
 
-      // Verificar disponibilidad de fondos (saldo de la moneda quote)
-      const availability = await binanceService.checkBuyAvailability(
-        credentials,
+      // Con Earn automático el saldo está aparcado: traer justo lo que falta
+      if (earnAutomatico) {
+        await servicioEarn
+          .asegurarSaldo(conexion, symbolInfo.quoteAsset, montoCompra)
+          .catch((error) =>
+            console.error(
+              `❌ Error reembolsando ${symbolInfo.quoteAsset} de Earn:`,
+              error
+            )
+          );
+      }
+
+      // Verificar disponibilidad de fondos (saldo de la moneda quote).
+      // Se redondea hacia arriba para que el step size no deje la cantidad
+      // por debajo del mínimo
+      const availability = await conexion.adapter.checkBuyAvailability(
+        conexion.credentials,
         symbol,
-        quantityBase,
+        redondearAlPaso(
+          quantityBase,
+          symbolInfo.filters?.LOT_SIZE?.stepSize || 0,
+          "arriba"
+        ),
         currentPrice
       );
       if (!availability.canBuy) {
-        console.log(
-          `❌ No se puede comprar ${symbol}: saldo insuficiente de ${availability.quoteAsset}`
-        );
+        const motivo =
+          availability.reasons?.join(". ") ||
+          `Saldo insuficiente de ${availability.quoteAsset}`;
+        console.log(`❌ No se puede comprar ${symbol}: ${motivo}`);
         return {
           symbol,
           side: "BUY",
           success: false,
-          error: `Saldo insuficiente de ${availability.quoteAsset}`,
+          error: motivo,
           confidence: signal.confidence,
         };
       }
@@ -370,11 +475,14 @@ class ServicioBot {
       console.log(
         `✅ Disponibilidad OK. Ejecutando orden de compra para ${symbol}...`
       );
-      const buyResult = await binanceService.placeBuyOrder(credentials, {
-        symbol,
-        quoteOrderQty: montoCompra,
-        type: "MARKET",
-      });
+      const buyResult = await conexion.adapter.placeBuyOrder(
+        conexion.credentials,
+        {
+          symbol,
+          quoteOrderQty: montoCompra,
+          type: "MARKET",
+        }
+      );
 
       if (!buyResult.success) {
         console.error(`❌ Error en compra de ${symbol}:`, buyResult.error);
@@ -392,6 +500,7 @@ class ServicioBot {
 
       // Guardar la compra en la base de datos
       const dbSaved = await this.saveBuyToDatabase(
+        conexion,
         userId,
         symbol,
         currentPrice,
@@ -425,16 +534,18 @@ class ServicioBot {
   /**
    * Verifica si el usuario ha alcanzado el límite máximo de inversión.
    * Retorna un objeto con indicador y el total invertido actual.
+   * Todo en USD: cada compra se valora en la moneda de cotización de su par
    */
   private async isMaxInvestmentExceeded(
+    conexion: ConexionExchange,
     userId: string,
-    montoCompra: number,
+    montoCompraUSD: number,
     maxInversion: number
   ): Promise<{ excedido: boolean; totalInvertido: number }> {
     const supabase = getSupabaseClient();
     const { data: comprasActivas, error: errorTotal } = await supabase
       .from("compras")
-      .select("total")
+      .select("total, simbolo")
       .eq("idUsuario", userId)
       .eq("botS", true)
       .eq("vendida", false);
@@ -445,19 +556,32 @@ class ServicioBot {
       return { excedido: true, totalInvertido: 0 };
     }
 
-    const totalInvertido = comprasActivas.reduce(
-      (sum, c) => sum + (c.total || 0),
-      0
-    );
-    const excedido = totalInvertido + montoCompra > maxInversion;
+    // Sin par conocido o sin precio, el total se cuenta tal cual
+    const grafo = await conexion.adapter.getGrafoPrecios();
+    const preciosUSD: Map<string, number> = new Map();
+    let totalInvertido = 0;
+    for (const compra of comprasActivas) {
+      const cotizacion = grafo.par(compra.simbolo)?.quoteAsset;
+      if (cotizacion && !preciosUSD.has(cotizacion)) {
+        preciosUSD.set(
+          cotizacion,
+          (await conexion.adapter.getPrecioEn(cotizacion, "USD")) ?? 1
+        );
+      }
+      totalInvertido +=
+        (compra.total || 0) * (cotizacion ? preciosUSD.get(cotizacion)! : 1);
+    }
+
+    const excedido = totalInvertido + montoCompraUSD > maxInversion;
     return { excedido, totalInvertido };
   }
 
   /**
-   * Verifica si existe una compra activa (no vendida) del mismo símbolo
-   * cuyo precio esté dentro del ±0.4% del precio actual.
+   * Verifica si existe una compra activa (no vendida) del mismo símbolo en la
+   * cuenta cuyo precio esté dentro del ±0.4% del precio actual.
    */
   private async existsActiveBuyInRange(
+    conexion: ConexionExchange,
     userId: string,
     symbol: string,
     currentPrice: number
@@ -471,6 +595,7 @@ class ServicioBot {
       .select("id")
       .eq("simbolo", symbol)
       .eq("idUsuario", userId)
+      .eq("idCuenta", conexion.id)
       .eq("botS", true)
       .eq("vendida", false)
       .gte("precio", rangoInferior)
@@ -490,6 +615,7 @@ class ServicioBot {
    * Guarda una compra en la base de datos y retorna si fue exitoso.
    */
   private async saveBuyToDatabase(
+    conexion: ConexionExchange,
     userId: string,
     symbol: string,
     currentPrice: number,
@@ -499,21 +625,16 @@ class ServicioBot {
     try {
       const supabase = getSupabaseClient();
 
-      // Calcular comisión total en USDC (o USDT) a partir de los fills
-      let comisionTotalUSDC = 0;
-      if (order.fills && order.fills.length > 0) {
-        order.fills.forEach((fill: any) => {
-          if (
-            fill.commissionAsset === "USDC" ||
-            fill.commissionAsset === "USDT"
-          ) {
-            comisionTotalUSDC += parseFloat(fill.commission);
-          }
-        });
-      }
+      const comision = await servicioComisiones.normalizar(
+        conexion.adapter,
+        symbol,
+        order?.fills || [],
+        order?.transactTime || Date.now()
+      );
 
       const datosCompra = {
-        exchange: "Binance",
+        exchange: conexion.adapter.nombre,
+        idCuenta: conexion.id,
         idOrden: order?.orderId?.toString() || "",
         simbolo: symbol,
         precio: order?.fills?.[0]?.price
@@ -523,8 +644,9 @@ class ServicioBot {
         total: order?.cummulativeQuoteQty
           ? parseFloat(order.cummulativeQuoteQty)
           : null,
-        comision: comisionTotalUSDC,
-        comisionMoneda: "USDC",
+        comision: comision.comision,
+        comisionMoneda: comision.comisionMoneda,
+        comisionCotizacion: comision.comisionCotizacion,
         fechaCompra: order?.transactTime
           ? new Date(order.transactTime).toISOString()
           : new Date().toISOString(),
@@ -553,7 +675,7 @@ class ServicioBot {
    * Puede generar múltiples operaciones si hay varias compras elegibles.
    */
   private async processSellSignal(
-    credentials: BinanceCredentials,
+    conexion: ConexionExchange,
     userId: string,
     symbol: string,
     signal: { action: "BUY" | "SELL"; confidence: number }
@@ -566,9 +688,9 @@ class ServicioBot {
 
     try {
       // Obtener precio actual e información del símbolo
-      const currentPrice = await binanceService.getPrice(symbol);
-      const symbolInfo = await binanceService.getSymbolInfo(
-        credentials,
+      const currentPrice = await conexion.adapter.getPrice(symbol);
+      const symbolInfo = await conexion.adapter.getSymbolInfo(
+        conexion.credentials,
         symbol
       );
       const minNotional = symbolInfo.minNotional || 0;
@@ -579,8 +701,8 @@ class ServicioBot {
       const umbral = currentPrice * 0.995;
 
       // Obtener balance disponible del activo base
-      const availability = await binanceService.checkSellAvailability(
-        credentials,
+      const availability = await conexion.adapter.checkSellAvailability(
+        conexion.credentials,
         symbol,
         1,
         undefined
@@ -600,13 +722,14 @@ class ServicioBot {
         return results;
       }
 
-      // Buscar en BD todas las compras no vendidas de este símbolo con botS=true y precio < umbral
+      // Buscar en BD todas las compras no vendidas de este símbolo en la cuenta con botS=true y precio < umbral
       const supabase = getSupabaseClient();
       const { data: compras, error: errorBusqueda } = await supabase
         .from("compras")
         .select("*")
         .eq("simbolo", symbol)
         .eq("idUsuario", userId)
+        .eq("idCuenta", conexion.id)
         .eq("vendida", false)
         .eq("botS", true)
         .lt("precio", umbral)
@@ -632,7 +755,7 @@ class ServicioBot {
 
       // Verificar que el balance total sea suficiente para la suma de todas las cantidades
       const cantidadTotalAVender = compras.reduce(
-        (sum, c) => sum + c.cantidad,
+        (sum, c) => sum + (c.cantidadRestante ?? c.cantidad),
         0
       );
       if (balanceDisponible < cantidadTotalAVender) {
@@ -652,7 +775,7 @@ class ServicioBot {
       // Procesar cada compra elegible
       for (const compra of compras) {
         const sellResultForCompra = await this.sellSinglePurchase(
-          credentials,
+          conexion,
           userId,
           symbol,
           compra,
@@ -694,7 +817,7 @@ class ServicioBot {
    * Vende una compra específica, realizando todas las validaciones y guardando en BD.
    */
   private async sellSinglePurchase(
-    credentials: BinanceCredentials,
+    conexion: ConexionExchange,
     userId: string,
     symbol: string,
     compra: any,
@@ -702,48 +825,27 @@ class ServicioBot {
     symbolInfo: any,
     balanceDisponible: number // ya no se usa directamente, pero se mantiene por si acaso
   ): Promise<TradeExecutionResult> {
-    const stepSize = symbolInfo.stepSize || 1;
-    const minQty = symbolInfo.minQty || 0;
-    const minNotional = symbolInfo.minNotional || 0;
-    const precision = stepSize.toString().split(".")[1]?.length || 0;
-
-    // 1. Redondear cantidad a vender según el stepSize del símbolo
-    let cantidadAVender = Math.floor(compra.cantidad / stepSize) * stepSize;
-    cantidadAVender = parseFloat(cantidadAVender.toFixed(precision));
-
-    // 2. Validar cantidad mínima permitida
-    if (cantidadAVender < minQty) {
-      console.log(
-        `⚠️ Cantidad redondeada ${cantidadAVender} < minQty (${minQty}) para ${symbol}. Omitiendo compra ${compra.id}.`
-      );
-      return {
-        symbol,
-        side: "SELL",
-        success: false,
-        skipped: true,
-        reason: `Cantidad redondeada insuficiente (${cantidadAVender} < ${minQty})`,
-        confidence: 0,
-      };
-    }
+    // 1. Redondear lo que queda de la compra y validarlo con los filtros del
+    //    símbolo (LOT_SIZE, MARKET_LOT_SIZE, NOTIONAL...)
+    const validacion = validarOrden(symbolInfo.filters || {}, {
+      side: "SELL",
+      type: "MARKET",
+      quantity: await servicioLotes.cantidadRestante(compra),
+      precioReferencia: currentPrice,
+    });
+    const cantidadAVender = validacion.cantidadEstimada;
 
-    // 3. Validar valor mínimo de venta (minNotional)
-    let valorVenta = cantidadAVender * currentPrice;
-    if (valorVenta < minNotional) {
+    // 2-3. Omitir la compra si la orden no pasaría los filtros
+    if (!validacion.valida) {
       console.log(
-        `⚠️ Valor de venta ${valorVenta.toFixed(
-          2
-        )} es menor que minNotional (${minNotional}) para ${symbol}. Omitiendo compra ${
-          compra.id
-        }.`
+        `⚠️ Venta de ${cantidadAVender} ${symbol} rechazada por ${validacion.rechazo.filtro}: ${validacion.rechazo.mensaje}. Omitiendo compra ${compra.id}.`
       );
       return {
         symbol,
         side: "SELL",
         success: false,
         skipped: true,
-        reason: `Valor de venta (${valorVenta.toFixed(
-          2
-        )}) menor que mínimo (${minNotional})`,
+        reason: validacion.rechazo.mensaje,
         confidence: 0,
       };
     }
@@ -768,11 +870,14 @@ class ServicioBot {
     console.log(
       `✅ Vendiendo ${cantidadAVender} de ${symbol} correspondiente a compra ${compra.id}...`
     );
-    const sellResult = await binanceService.placeSellOrder(credentials, {
-      symbol,
-      quantity: cantidadAVender,
-      type: "MARKET",
-    });
+    const sellResult = await conexion.adapter.placeSellOrder(
+      conexion.credentials,
+      {
+        symbol,
+        quantity: cantidadAVender,
+        type: "MARKET",
+      }
+    );
 
     if (!sellResult.success) {
       console.error(
@@ -793,10 +898,12 @@ class ServicioBot {
 
     // 6. Guardar la venta en BD y marcar la compra como vendida
     const dbSaved = await this.saveSellToDatabase(
+      conexion,
       userId,
       compra,
       cantidadAVender,
-      sellResult.order
+      sellResult.order,
+      symbolInfo.stepSize || 0
     );
 
     return {
@@ -810,20 +917,19 @@ class ServicioBot {
   }
 
   /**
-   * Guarda una venta en la base de datos, calcula beneficio y actualiza la compra.
+   * Guarda la venta de una compra con el emparejador de lotes, que calcula
+   * el beneficio y descuenta lo vendido de la compra.
    */
   private async saveSellToDatabase(
+    conexion: ConexionExchange,
     userId: string,
     compra: any,
     cantidadVendida: number,
-    order: any
+    order: any,
+    stepSize: number
   ): Promise<boolean> {
     try {
-      const supabase = getSupabaseClient();
-
-      // Calcular comisiones y precio promedio de venta a partir de los fills
-      let comisionTotalVenta = 0;
-      let comisionMonedaVenta = "";
+      // Precio promedio de venta a partir de los fills
       let precioVentaReal = 0;
 
       if (order.fills && order.fills.length > 0) {
@@ -834,68 +940,46 @@ class ServicioBot {
           const precio = parseFloat(fill.price);
           totalCantidad += cantidad;
           totalValor += cantidad * precio;
-
-          if (
-            fill.commissionAsset === "USDC" ||
-            fill.commissionAsset === "USDT"
-          ) {
-            comisionTotalVenta += parseFloat(fill.commission);
-            comisionMonedaVenta = fill.commissionAsset;
-          } else if (!comisionMonedaVenta) {
-            comisionMonedaVenta = fill.commissionAsset;
-          }
         });
         precioVentaReal = totalValor / totalCantidad;
+      } else if (order?.cummulativeQuoteQty) {
+        precioVentaReal = parseFloat(order.cummulativeQuoteQty) / cantidadVendida;
       }
 
-      const totalVentaReal = order?.cummulativeQuoteQty
-        ? parseFloat(order.cummulativeQuoteQty)
-        : cantidadVendida * precioVentaReal;
-
-      // Calcular beneficio
-      const totalCompra = compra.precio * cantidadVendida;
-      const beneficio = totalVentaReal - totalCompra;
-      const porcentajeBeneficio = (beneficio / totalCompra) * 100;
+      const comision = await servicioComisiones.normalizar(
+        conexion.adapter,
+        compra.simbolo,
+        order?.fills || [],
+        order?.transactTime || Date.now()
+      );
 
-      // Insertar en tabla ventas
-      const datosVenta = {
-        idCompra: compra.id,
-        exchange: "Binance",
+      // El bot vende su compra entera: lo que quede por debajo del step size
+      // ya no se puede vender y la compra se cierra
+      const resultado = await servicioLotes.registrarVenta({
+        idUsuario: userId,
+        exchange: conexion.adapter.nombre,
+        idCuenta: conexion.id,
         simbolo: compra.simbolo,
+        cantidad: cantidadVendida,
         precioVenta: precioVentaReal,
-        cantidadVendida: cantidadVendida,
-        comisionVenta: comisionTotalVenta,
-        comisionMoneda: comisionMonedaVenta,
-        beneficio: beneficio,
-        porcentajeBeneficio: porcentajeBeneficio,
-        idUsuario: userId,
-        fechaVenta: order?.transactTime
-          ? new Date(order.transactTime).toISOString()
-          : new Date().toISOString(),
+        comision,
+        fecha: order?.transactTime || Date.now(),
+        metodo: "ESPECIFICO",
+        idsCompra: [compra.id],
         botS: true,
-      };
+        tolerancia: stepSize,
+        idOrden: order?.orderId?.toString(),
+      });
 
-      const { error: errorVenta } = await supabase
-        .from("ventas")
-        .insert([datosVenta]);
-      if (errorVenta) {
-        console.error("⚠️ Error guardando venta en BD:", errorVenta);
+      if (resultado.cantidadAsignada === 0) {
+        console.error(
+          `⚠️ La compra ${compra.id} ya no tiene cantidad por vender: venta guardada sin lote`
+        );
         return false;
       }
-      console.log("✅ Venta guardada en base de datos");
-
-      // Marcar la compra como vendida
-      const { error: errorUpdateCompra } = await supabase
-        .from("compras")
-        .update({ vendida: true })
-        .eq("id", compra.id);
-
-      if (errorUpdateCompra) {
-        console.error("⚠️ Error actualizando compra:", errorUpdateCompra);
-        // No retornamos false porque la venta ya se guardó, pero la compra queda inconsistente
-      } else {
-        console.log("✅ Compra marcada como vendida");
-      }
+      console.log(
+        `✅ Venta guardada en base de datos (beneficio ${resultado.venta.beneficio})`
+      );
 
       return true;
     } catch (dbError) {
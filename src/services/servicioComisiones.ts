@@ -0,0 +1,181 @@
+// servicios/servicioComisiones.ts
+
+/**
+ * COMISIONES EN LA MONEDA DE COTIZACIÓN
+ *
+ * El exchange cobra la comisión de cada fill en la moneda de cotización, en
+ * el activo base o en otro activo (BNB con descuento). Cada comisión se
+ * guarda con su activo original y, además, convertida a la moneda de
+ * cotización del par para que el beneficio incluya el coste real:
+ * - En la moneda de cotización: tal cual
+ * - En el activo base: al precio del propio fill
+ * - En otro activo: a su precio en la moneda de cotización a la hora del fill
+ *
+ * Si un activo no se puede valorar, comisionCotizacion queda a null y el
+ * beneficio se calcula sin esa comisión.
+ */
+
+import { ExchangeAdapter } from "../interfaces/exchange.types.js";
+import { ComisionNormalizada } from "../interfaces/comun.types.js";
+
+// Lo necesario de un fill de orden, un trade de myTrades o un executionReport
+export interface FillComision {
+  commission: string | number;
+  commissionAsset: string | null;
+  price: string | number;
+  time?: number; // por defecto, la hora de la orden
+}
+
+export const servicioComisiones = {
+  /**
+   * Suma las comisiones de los fills de una orden y las valora en la moneda
+   * de cotización del par
+   * @param time Hora de la orden, para los fills que no traen la suya
+   */
+  async normalizar(
+    adapter: ExchangeAdapter,
+    symbol: string,
+    fills: FillComision[],
+    time: number
+  ): Promise<ComisionNormalizada> {
+    const conComision = fills.filter(
+      (f) => (parseFloat(String(f.commission)) || 0) > 0 && f.commissionAsset
+    );
+    const activos = [...new Set(conComision.map((f) => f.commissionAsset!))];
+
+    let par: { baseAsset: string; quoteAsset: string } | undefined;
+    try {
+      par = (await adapter.getAllSymbols()).find(
+        (s) => s.symbol === symbol.toUpperCase()
+      );
+    } catch (error) {
+      console.warn(`⚠️ No se pudieron obtener los activos de ${symbol}:`, error);
+    }
+    const monedaCotizacion = par?.quoteAsset || "";
+
+    // Precio de cada activo ajeno al par, se pide una vez por orden
+    const precios: Map<string, number | null> = new Map();
+    let comisionCotizacion: number | null = par ? 0 : null;
+
+    for (const fill of conComision) {
+      if (comisionCotizacion === null) break;
+
+      const activo = fill.commissionAsset!;
+      let precio: number | null;
+      if (activo === par!.quoteAsset) {
+        precio = 1;
+      } else if (activo === par!.baseAsset) {
+        precio = parseFloat(String(fill.price));
+      } else {
+        if (!precios.has(activo)) {
+          precios.set(
+            activo,
+            await adapter.getPrecioEnFecha(activo, monedaCotizacion, fill.time ?? time)
+          );
+        }
+        precio = precios.get(activo)!;
+      }
+
+      if (precio === null || !(precio > 0)) {
+        console.warn(
+          `⚠️ Comisión en ${activo} de ${symbol} sin valorar en ${monedaCotizacion}`
+        );
+        comisionCotizacion = null;
+        break;
+      }
+      comisionCotizacion += parseFloat(String(fill.commission)) * precio;
+    }
+
+    // Con varios activos no se pueden sumar las originales: se guarda la
+    // valorada, o la del primer activo si no se pudo valorar
+    const mezcla = activos.length > 1 && comisionCotizacion !== null;
+    const comisionMoneda = mezcla
+      ? monedaCotizacion
+      : activos[0] || fills.find((f) => f.commissionAsset)?.commissionAsset || "";
+    const comision = mezcla
+      ? comisionCotizacion!
+      : conComision
+          .filter((f) => f.commissionAsset === comisionMoneda)
+          .reduce((acc, f) => acc + parseFloat(String(f.commission)), 0);
+
+    return { comision, comisionMoneda, comisionCotizacion, monedaCotizacion };
+  },
+
+  /**
+   * Suma la comisión de un fill nuevo a la ya guardada de la misma orden
+   */
+  acumular(
+    previa: Partial<ComisionNormalizada> | null,
+    nueva: ComisionNormalizada
+  ): ComisionNormalizada {
+    if (!previa || !previa.comision) return nueva;
+
+    const anterior: ComisionNormalizada = {
+      comision: previa.comision,
+      comisionMoneda: previa.comisionMoneda || "",
+      comisionCotizacion: previa.comisionCotizacion ?? null,
+      monedaCotizacion: nueva.monedaCotizacion,
+    };
+    if (!nueva.comision) return anterior;
+
+    const comisionCotizacion =
+      anterior.comisionCotizacion === null || nueva.comisionCotizacion === null
+        ? null
+        : anterior.comisionCotizacion + nueva.comisionCotizacion;
+
+    if (anterior.comisionMoneda === nueva.comisionMoneda) {
+      return {
+        ...nueva,
+        comision: anterior.comision + nueva.comision,
+        comisionCotizacion,
+      };
+    }
+    if (comisionCotizacion !== null) {
+      return {
+        ...nueva,
+        comision: comisionCotizacion,
+        comisionMoneda: nueva.monedaCotizacion,
+        comisionCotizacion,
+      };
+    }
+    return { ...anterior, comisionCotizacion };
+  },
+
+  /**
+   * Comisión en moneda de cotización de una fila de compras o ventas. Las
+   * filas anteriores a la conversión solo cuentan si se cobró en esa moneda
+   */
+  deFila(
+    simbolo: string,
+    cotizacion: number | null | undefined,
+    comision: number | null | undefined,
+    moneda: string | null | undefined
+  ): number {
+    if (cotizacion !== null && cotizacion !== undefined) return cotizacion;
+    return moneda && simbolo.endsWith(moneda) ? comision || 0 : 0;
+  },
+
+  /**
+   * Beneficio de vender parte de una compra, descontando la comisión de la
+   * venta y la parte proporcional de la comisión de la compra
+   */
+  calcularBeneficio(
+    compra: { precio: number; cantidad: number; comisionCotizacion?: number | null },
+    cantidadVendida: number,
+    totalVenta: number,
+    comisionVentaCotizacion: number | null
+  ): { beneficio: number; porcentajeBeneficio: number; coste: number } {
+    const comisionCompra =
+      compra.cantidad > 0
+        ? (compra.comisionCotizacion || 0) * (cantidadVendida / compra.cantidad)
+        : 0;
+    const coste = compra.precio * cantidadVendida + comisionCompra;
+    const beneficio = totalVenta - (comisionVentaCotizacion || 0) - coste;
+
+    return {
+      beneficio,
+      porcentajeBeneficio: coste > 0 ? (beneficio / coste) * 100 : 0,
+      coste,
+    };
+  },
+};
@@ -0,0 +1,81 @@
+// servicios/servicioCursores.ts
+
+/**
+ * CURSORES DE SINCRONIZACIÓN
+ *
+ * Las importaciones largas contra el exchange (depósitos, retiros...) se
+ * hacen por tramos y guardan en la tabla "cursoresSincronizacion" hasta dónde
+ * han llegado, para continuar desde ahí si se cortan o en la siguiente pasada.
+ * Cada cursor se identifica por usuario, cuenta de exchange y una clave libre.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+
+export const servicioCursores = {
+  /**
+   * @returns El cursor guardado o null si nunca se ha sincronizado
+   */
+  async leer(
+    userId: string,
+    idCuenta: number,
+    clave: string
+  ): Promise<number | null> {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from("cursoresSincronizacion")
+      .select("cursor")
+      .eq("idUsuario", userId)
+      .eq("idCuenta", idCuenta)
+      .eq("clave", clave)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error al leer el cursor ${clave}: ${error.message}`);
+    }
+
+    return data ? Number(data.cursor) : null;
+  },
+
+  async guardar(
+    userId: string,
+    idCuenta: number,
+    clave: string,
+    cursor: number
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const fechaActualizacion = new Date().toISOString();
+
+    const { data: existente, error: errorConsulta } = await supabase
+      .from("cursoresSincronizacion")
+      .select("id")
+      .eq("idUsuario", userId)
+      .eq("idCuenta", idCuenta)
+      .eq("clave", clave)
+      .maybeSingle();
+
+    if (errorConsulta) {
+      throw new Error(
+        `Error al leer el cursor ${clave}: ${errorConsulta.message}`
+      );
+    }
+
+    const { error } = existente
+      ? await supabase
+          .from("cursoresSincronizacion")
+          .update({ cursor, fechaActualizacion })
+          .eq("id", existente.id)
+      : await supabase.from("cursoresSincronizacion").insert([
+          {
+            idUsuario: userId,
+            idCuenta,
+            clave,
+            cursor,
+            fechaActualizacion,
+          },
+        ]);
+
+    if (error) {
+      throw new Error(`Error al guardar el cursor ${clave}: ${error.message}`);
+    }
+  },
+};
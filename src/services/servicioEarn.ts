@@ -0,0 +1,237 @@
+// servicios/servicioEarn.ts
+
+/**
+ * SUSCRIPCIONES Y REEMBOLSOS DE SIMPLE EARN FLEXIBLE
+ *
+ * Se trabaja por activo: el producto flexible de cada activo se busca en el
+ * exchange al operar. Además de suscribir y reembolsar a petición, permite:
+ * - Asegurar saldo antes de una compra: reembolsa de Earn lo que falte en
+ *   spot y espera a que llegue
+ * - Aparcar el saldo spot sobrante en Earn (lo usa el bot con earnAutomatico)
+ */
+
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import { ResultadoOperacionEarn } from "../interfaces/comun.types.js";
+
+// Margen sobre lo que falta al reembolsar, para redondeos y variaciones de
+// precio entre el cálculo y la orden
+const MARGEN_REEMBOLSO = 0.005;
+
+// Espera a que el reembolso aparezca en spot
+const ESPERAS_REEMBOLSO = 10;
+const PAUSA_REEMBOLSO_MS = 500;
+
+export const servicioEarn = {
+  /**
+   * Productos flexibles disponibles, opcionalmente de un solo activo
+   */
+  async listarProductos(conexion: ConexionExchange, asset?: string) {
+    const { adapter, credentials } = conexion;
+    const [productos, posiciones] = await Promise.all([
+      adapter.getProductosEarnFlexible(credentials, asset),
+      adapter.getPosicionesEarnFlexible(credentials, asset),
+    ]);
+
+    return productos.map((producto) => ({
+      ...producto,
+      posicion: parseFloat(
+        posiciones.find((p) => p.asset === producto.asset)?.totalAmount || "0"
+      ),
+    }));
+  },
+
+  /**
+   * Pasa saldo spot de un activo a su producto flexible
+   */
+  async suscribir(
+    conexion: ConexionExchange,
+    asset: string,
+    cantidad: number
+  ): Promise<ResultadoOperacionEarn> {
+    const { adapter, credentials } = conexion;
+    const activo = asset.toUpperCase();
+    const fallo = (error: string): ResultadoOperacionEarn => ({
+      success: false,
+      asset: activo,
+      cantidad,
+      error,
+    });
+
+    const producto = (
+      await adapter.getProductosEarnFlexible(credentials, activo)
+    ).find((p) => p.asset === activo);
+    if (!producto || !producto.canPurchase || producto.isSoldOut) {
+      return fallo(`No hay producto flexible disponible para ${activo}`);
+    }
+
+    const minimo = parseFloat(producto.minPurchaseAmount || "0");
+    if (cantidad < minimo) {
+      return fallo(`La suscripción mínima de ${activo} es ${minimo}`);
+    }
+
+    const libre = await adapter.getSaldoLibre(credentials, activo);
+    if (cantidad > libre) {
+      return fallo(
+        `Saldo insuficiente. Disponible: ${libre} ${activo}, Necesario: ${cantidad} ${activo}`
+      );
+    }
+
+    const resultado = await adapter.suscribirEarnFlexible(
+      credentials,
+      producto.productId,
+      cantidad
+    );
+    return {
+      ...resultado,
+      asset: activo,
+      cantidad,
+      productId: producto.productId,
+    };
+  },
+
+  /**
+   * Devuelve a spot parte de la posición flexible de un activo, o toda si no
+   * se indica cantidad
+   */
+  async reembolsar(
+    conexion: ConexionExchange,
+    asset: string,
+    cantidad?: number
+  ): Promise<ResultadoOperacionEarn> {
+    const { adapter, credentials } = conexion;
+    const activo = asset.toUpperCase();
+    const fallo = (error: string): ResultadoOperacionEarn => ({
+      success: false,
+      asset: activo,
+      cantidad: cantidad ?? null,
+      error,
+    });
+
+    const posicion = (
+      await adapter.getPosicionesEarnFlexible(credentials, activo)
+    ).find((p) => p.asset === activo);
+    const total = parseFloat(posicion?.totalAmount || "0");
+    if (!posicion || total <= 0) {
+      return fallo(`No hay posición flexible de ${activo}`);
+    }
+    if (posicion.canRedeem === false) {
+      return fallo(`La posición de ${activo} no se puede reembolsar ahora`);
+    }
+    if (cantidad !== undefined && cantidad > total) {
+      return fallo(
+        `La posición de ${activo} es de ${total}, no se pueden reembolsar ${cantidad}`
+      );
+    }
+
+    // Las posiciones antiguas no traen productId: se busca el producto
+    const productId =
+      posicion.productId ||
+      (await adapter.getProductosEarnFlexible(credentials, activo)).find(
+        (p) => p.asset === activo
+      )?.productId;
+    if (!productId) {
+      return fallo(`No se encontró el producto flexible de ${activo}`);
+    }
+
+    const resultado = await adapter.reembolsarEarnFlexible(
+      credentials,
+      productId,
+      cantidad
+    );
+    return {
+      ...resultado,
+      asset: activo,
+      cantidad: cantidad ?? null,
+      productId,
+    };
+  },
+
+  /**
+   * Reembolsa de Earn lo que falte para tener `necesario` libre en spot y
+   * espera a que llegue. Si Earn no alcanza, reembolsa lo que haya
+   */
+  async asegurarSaldo(
+    conexion: ConexionExchange,
+    asset: string,
+    necesario: number
+  ): Promise<{ disponible: number; reembolsado: number; error?: string }> {
+    const { adapter, credentials } = conexion;
+    const activo = asset.toUpperCase();
+
+    const libre = await adapter.getSaldoLibre(credentials, activo);
+    if (libre >= necesario) return { disponible: libre, reembolsado: 0 };
+
+    const posicion = (
+      await adapter.getPosicionesEarnFlexible(credentials, activo)
+    ).find((p) => p.asset === activo);
+    const enEarn = parseFloat(posicion?.totalAmount || "0");
+    if (enEarn <= 0) return { disponible: libre, reembolsado: 0 };
+
+    const falta =
+      Math.ceil((necesario - libre) * (1 + MARGEN_REEMBOLSO) * 1e8) / 1e8;
+    const cantidad = falta >= enEarn ? undefined : falta;
+    const resultado = await this.reembolsar(conexion, activo, cantidad);
+    if (!resultado.success) {
+      console.error(
+        `❌ No se pudo reembolsar ${activo} de Earn:`,
+        resultado.error
+      );
+      return { disponible: libre, reembolsado: 0, error: resultado.error };
+    }
+
+    const reembolsado = cantidad ?? enEarn;
+    console.log(`🏦 Reembolsados ${reembolsado} ${activo} de Earn`);
+
+    let disponible = libre;
+    for (let i = 0; i < ESPERAS_REEMBOLSO; i++) {
+      disponible = await adapter.getSaldoLibre(credentials, activo);
+      if (disponible >= necesario) break;
+      await new Promise((resolve) => setTimeout(resolve, PAUSA_REEMBOLSO_MS));
+    }
+
+    return { disponible, reembolsado };
+  },
+
+  /**
+   * Suscribe en Earn el saldo spot libre de un activo que pase de `reserva`
+   * @returns null si no hay producto o el sobrante no llega al mínimo
+   */
+  async aparcarSobrante(
+    conexion: ConexionExchange,
+    asset: string,
+    reserva: number = 0
+  ): Promise<ResultadoOperacionEarn | null> {
+    const { adapter, credentials } = conexion;
+    const activo = asset.toUpperCase();
+
+    const producto = (
+      await adapter.getProductosEarnFlexible(credentials, activo)
+    ).find((p) => p.asset === activo);
+    if (!producto || !producto.canPurchase || producto.isSoldOut) return null;
+
+    const libre = await adapter.getSaldoLibre(credentials, activo);
+    const sobrante = Math.floor((libre - reserva) * 1e8) / 1e8;
+    if (
+      sobrante <= 0 ||
+      sobrante < parseFloat(producto.minPurchaseAmount || "0")
+    ) {
+      return null;
+    }
+
+    const resultado = await adapter.suscribirEarnFlexible(
+      credentials,
+      producto.productId,
+      sobrante
+    );
+    if (resultado.success) {
+      console.log(`🏦 Aparcados ${sobrante} ${activo} en Earn flexible`);
+    }
+
+    return {
+      ...resultado,
+      asset: activo,
+      cantidad: sobrante,
+      productId: producto.productId,
+    };
+  },
+};
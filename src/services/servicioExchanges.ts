@@ -0,0 +1,397 @@
+// servicios/servicioExchanges.ts
+import { decrypt } from "../lib/encriptacion";
+import { getSupabaseClient } from "../lib/supabase";
+import {
+  ConexionExchange,
+  ConfigEntorno,
+  CuentaExchange,
+  ExchangeAdapter,
+  FabricaAdapter,
+  AssetHolding,
+  HoldingsBreakdown,
+  PermisosApiKey,
+  RegistroExchange,
+} from "../interfaces/exchange.types";
+import {
+  ENTORNO_BINANCE_POR_DEFECTO,
+  obtenerBinanceService,
+} from "./servicioBinance";
+import { servicioUsuario } from "./servicioUsuario";
+
+// Fábricas de adapters, indexadas por el valor de la columna "exchange"
+const fabricas: Map<string, FabricaAdapter> = new Map();
+
+// Datos públicos de la cuenta de una conexión
+function datosCuenta(conexion: ConexionExchange): CuentaExchange {
+  return {
+    id: conexion.id,
+    nombre: conexion.nombreCuenta,
+    exchange: conexion.exchange,
+    entorno: conexion.entorno,
+    permisos: conexion.permisos,
+  };
+}
+
+export const servicioExchanges = {
+  /**
+   * Registra la fábrica de adapters de un exchange
+   * @param exchange - Nombre del exchange tal y como se guarda en la tabla exchanges
+   * @param fabrica - Crea el adapter para un entorno concreto
+   */
+  registrarAdapter(exchange: string, fabrica: FabricaAdapter): void {
+    fabricas.set(exchange.toUpperCase(), fabrica);
+  },
+
+  /**
+   * Obtiene el adapter de un exchange para un entorno
+   * @param exchange - Nombre del exchange (no distingue mayúsculas)
+   * @param config - Entorno de la conexión (por defecto el del exchange)
+   * @returns El adapter o null si el exchange no está soportado
+   * @throws Error si el entorno no es válido
+   */
+  obtenerAdapter(
+    exchange: string,
+    config: ConfigEntorno = {}
+  ): ExchangeAdapter | null {
+    const fabrica = fabricas.get(exchange?.toUpperCase());
+    return fabrica ? fabrica(config) : null;
+  },
+
+  /**
+   * Adapter con el que se valoran las cuentas indicadas: precios de mercado
+   * reales aunque sean de testnet, los mismos que usan sus balances y
+   * snapshots (ver ExchangeAdapter.mercadoValoracion)
+   */
+  obtenerAdapterValoracion(conexiones: ConexionExchange[]): ExchangeAdapter {
+    return conexiones[0].adapter.mercadoValoracion();
+  },
+
+  /**
+   * Lista los exchanges soportados
+   */
+  obtenerExchangesSoportados(): string[] {
+    return Array.from(fabricas.keys());
+  },
+
+  /**
+   * Resuelve una fila de la tabla exchanges en adapter + credenciales
+   * @param registro - Fila de la tabla exchanges
+   * @returns Conexión lista para usar
+   */
+  resolverConexion(registro: RegistroExchange): ConexionExchange {
+    const adapter = this.obtenerAdapter(registro.exchange, registro);
+
+    if (!adapter) {
+      throw new Error(`Exchange ${registro.exchange} no soportado`);
+    }
+
+    return {
+      id: registro.id,
+      nombreCuenta: registro.nombre || `${adapter.nombre} ${registro.id}`,
+      exchange: registro.exchange.toUpperCase(),
+      entorno: registro.entorno || ENTORNO_BINANCE_POR_DEFECTO,
+      adapter,
+      credentials: {
+        apiKey: decrypt(registro.api_key),
+        apiSecret: decrypt(registro.api_secret),
+      },
+      permisos: registro.permisos || null,
+    };
+  },
+
+  /**
+   * Obtiene una conexión activa y soportada de un usuario
+   * @param userId - ID del usuario
+   * @param idCuenta - Cuenta concreta (por defecto la primera, la más antigua)
+   * @returns Conexión o null si el usuario no tiene esa cuenta activa
+   */
+  async obtenerConexionUsuario(
+    userId: string,
+    idCuenta?: number | null
+  ): Promise<ConexionExchange | null> {
+    const conexiones = await this.obtenerConexionesUsuario(userId);
+
+    if (idCuenta != null) {
+      return conexiones.find((c) => c.id === idCuenta) || null;
+    }
+    return conexiones[0] || null;
+  },
+
+  /**
+   * Lee el id de cuenta recibido en una petición
+   * @returns undefined si no viene, null si no es un id válido
+   */
+  leerIdCuenta(valor: unknown): number | undefined | null {
+    if (valor === undefined || valor === null || valor === "") return undefined;
+    const id = Number(valor);
+    return Number.isInteger(id) && id > 0 ? id : null;
+  },
+
+  /**
+   * Elige la cuenta con la que opera una petición: la indicada o, si no se
+   * indica, la única que tenga el usuario
+   * @param cuenta - Valor recibido en la petición (?cuenta= o body.cuenta)
+   * @returns La conexión (null si el usuario no tiene cuentas activas) o el
+   *          status HTTP y el mensaje con el que rechazar la petición
+   */
+  async elegirConexion(
+    userId: string,
+    cuenta: unknown
+  ): Promise<
+    | { conexion: ConexionExchange | null }
+    | { status: number; error: string; cuentas?: CuentaExchange[] }
+  > {
+    const idCuenta = this.leerIdCuenta(cuenta);
+    if (idCuenta === null) {
+      return { status: 400, error: "La cuenta debe ser un id numérico" };
+    }
+
+    const conexiones = await this.obtenerConexionesUsuario(userId);
+    if (conexiones.length === 0) return { conexion: null };
+
+    if (idCuenta !== undefined) {
+      const conexion = conexiones.find((c) => c.id === idCuenta);
+      return conexion
+        ? { conexion }
+        : { status: 404, error: `Cuenta ${idCuenta} no encontrada o inactiva` };
+    }
+
+    if (conexiones.length > 1) {
+      return {
+        status: 400,
+        error: `El usuario tiene ${conexiones.length} cuentas: indica cuál con el parámetro cuenta`,
+        cuentas: conexiones.map(datosCuenta),
+      };
+    }
+    return { conexion: conexiones[0] };
+  },
+
+  /**
+   * Suma el desglose por activo de varias cuentas en uno solo
+   */
+  combinarHoldings(desgloses: HoldingsBreakdown[]): HoldingsBreakdown {
+    const porActivo: Map<string, AssetHolding> = new Map();
+
+    for (const desglose of desgloses) {
+      for (const h of desglose.assets) {
+        const actual = porActivo.get(h.asset);
+        porActivo.set(
+          h.asset,
+          actual
+            ? {
+                ...actual,
+                free: actual.free + h.free,
+                locked: actual.locked + h.locked,
+                earnFlexible: actual.earnFlexible + h.earnFlexible,
+                earnLocked: actual.earnLocked + h.earnLocked,
+                total: actual.total + h.total,
+                priceUSD: actual.priceUSD ?? h.priceUSD,
+                valueUSD: actual.valueUSD + h.valueUSD,
+              }
+            : { ...h }
+        );
+      }
+    }
+
+    const redondear = (valor: number) => parseFloat(valor.toFixed(2));
+    const totalUSD = desgloses.reduce((suma, d) => suma + d.totalUSD, 0);
+
+    return {
+      totalUSD: redondear(totalUSD),
+      spotUSD: redondear(desgloses.reduce((suma, d) => suma + d.spotUSD, 0)),
+      earnUSD: redondear(desgloses.reduce((suma, d) => suma + d.earnUSD, 0)),
+      assets: [...porActivo.values()]
+        .map((h) => ({
+          ...h,
+          valueUSD: redondear(h.valueUSD),
+          portfolioPct:
+            totalUSD > 0 ? redondear((h.valueUSD / totalUSD) * 100) : 0,
+        }))
+        .sort((a, b) => b.valueUSD - a.valueUSD),
+      unpriced: [...new Set(desgloses.flatMap((d) => d.unpriced))],
+    };
+  },
+
+  /**
+   * Lista las cuentas activas de un usuario, sin credenciales
+   */
+  async obtenerCuentasUsuario(userId: string): Promise<CuentaExchange[]> {
+    const conexiones = await this.obtenerConexionesUsuario(userId);
+    return conexiones.map(datosCuenta);
+  },
+
+  /**
+   * Busca entre las cuentas del usuario (también las desconectadas) la que
+   * ya tiene guardada una API key. Las keys se cifran con sal aleatoria, así
+   * que hay que descifrarlas para compararlas
+   * @returns La fila con la key cifrada tal y como está guardada, o null
+   */
+  async buscarCuentaPorApiKey(
+    userId: string,
+    apiKey: string
+  ): Promise<{ id: number; api_key: string; nombre: string | null } | null> {
+    const { data, error } = await getSupabaseClient()
+      .from("exchanges")
+      .select("id, api_key, nombre")
+      .eq("user_id", userId);
+
+    if (error) {
+      throw new Error(`Error al consultar las cuentas del usuario: ${error.message}`);
+    }
+
+    return (
+      (data || []).find((fila) => {
+        try {
+          return decrypt(fila.api_key) === apiKey;
+        } catch {
+          return false;
+        }
+      }) || null
+    );
+  },
+
+  /**
+   * Comprueba si el usuario ya tiene otra cuenta activa con ese nombre
+   * @param excluirId - Cuenta que no cuenta (la que se está renombrando)
+   */
+  async nombreCuentaEnUso(
+    userId: string,
+    nombre: string,
+    excluirId?: number
+  ): Promise<boolean> {
+    const cuentas = await this.obtenerCuentasUsuario(userId);
+    const buscado = nombre.trim().toLowerCase();
+
+    return cuentas.some(
+      (c) => c.id !== excluirId && c.nombre.trim().toLowerCase() === buscado
+    );
+  },
+
+  /**
+   * Cambia el nombre de una cuenta del usuario
+   * @returns La cuenta renombrada o null si no es del usuario
+   */
+  async renombrarCuenta(
+    userId: string,
+    idCuenta: number,
+    nombre: string
+  ): Promise<CuentaExchange | null> {
+    const supabase = getSupabaseClient();
+    const { data, error } = await supabase
+      .from("exchanges")
+      .update({ nombre: nombre.trim() })
+      .eq("id", idCuenta)
+      .eq("user_id", userId)
+      .select("id, exchange, entorno, nombre, permisos")
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error al renombrar la cuenta: ${error.message}`);
+    }
+    if (!data) return null;
+
+    return {
+      id: data.id,
+      nombre: data.nombre,
+      exchange: data.exchange.toUpperCase(),
+      entorno: data.entorno || ENTORNO_BINANCE_POR_DEFECTO,
+      permisos: data.permisos || null,
+    };
+  },
+
+  /**
+   * Consulta al exchange los permisos de la API key de una cuenta y los
+   * guarda en la fila de exchanges
+   * @returns Los permisos actuales (también quedan en conexion.permisos)
+   */
+  async comprobarPermisos(conexion: ConexionExchange): Promise<PermisosApiKey> {
+    const permisos = await conexion.adapter.getPermisosApiKey(
+      conexion.credentials
+    );
+
+    const supabase = getSupabaseClient();
+    const { error } = await supabase
+      .from("exchanges")
+      .update({ permisos })
+      .eq("id", conexion.id);
+
+    if (error) {
+      throw new Error(
+        `Error al guardar los permisos de la cuenta ${conexion.id}: ${error.message}`
+      );
+    }
+
+    conexion.permisos = permisos;
+    return permisos;
+  },
+
+  /**
+   * Avisos para el usuario sobre los permisos de una API key
+   */
+  avisosPermisos(permisos: PermisosApiKey): string[] {
+    const avisos: string[] = [];
+
+    if (permisos.retiros) {
+      avisos.push("La API key puede retirar fondos: desactiva ese permiso en Binance");
+    } else if (permisos.retiros === null) {
+      avisos.push("No se ha podido comprobar si la API key puede retirar fondos");
+    }
+    if (!permisos.spot) {
+      avisos.push("La API key no puede operar en spot: el bot no podrá arrancar");
+    }
+    if (!permisos.earn) {
+      avisos.push("La API key no puede usar Simple Earn");
+    }
+    if (permisos.restriccionIp === false) {
+      avisos.push("La API key no está restringida a IPs de confianza");
+    }
+
+    return avisos;
+  },
+
+  /**
+   * Usuarios con al menos una cuenta de exchange activa
+   */
+  async obtenerUsuariosConCuentas(): Promise<string[]> {
+    const { data, error } = await getSupabaseClient()
+      .from("exchanges")
+      .select("user_id")
+      .eq("is_active", true);
+
+    if (error) {
+      throw new Error(`Error al obtener los usuarios con cuentas: ${error.message}`);
+    }
+
+    return [...new Set((data || []).map((fila) => fila.user_id as string))];
+  },
+
+  /**
+   * Obtiene todas las conexiones activas y soportadas de un usuario
+   * @param userId - ID del usuario
+   * @returns Lista de conexiones (las que no se pueden resolver se omiten)
+   */
+  async obtenerConexionesUsuario(userId: string): Promise<ConexionExchange[]> {
+    const exchanges = await servicioUsuario.obtenerExchangesUsuario(userId, {
+      is_active: true,
+    });
+
+    const conexiones: ConexionExchange[] = [];
+    for (const registro of exchanges) {
+      try {
+        conexiones.push(this.resolverConexion(registro));
+      } catch (error) {
+        console.error(
+          `⚠️ No se pudo resolver el exchange ${registro.exchange} (${registro.id}) del usuario ${userId}:`,
+          error
+        );
+      }
+    }
+
+    return conexiones;
+  },
+};
+
+// Exchanges soportados
+servicioExchanges.registrarAdapter("BINANCE", (config) =>
+  obtenerBinanceService(config.entorno, config.base_url)
+);
@@ -0,0 +1,367 @@
+// servicios/servicioExportacion.ts
+
+/**
+ * EXPORTACIÓN DE OPERACIONES Y ALERTAS (CSV / NDJSON)
+ *
+ * Exporta compras, ventas, alertas u operaciones del bot (sus compras y
+ * ventas juntas, por fecha) leyendo por páginas y escribiendo cada página en
+ * cuanto llega, así que no hay que tener toda la tabla en memoria.
+ *
+ * Los filtros son los de /compras-activas (aplicarFiltros): símbolo que
+ * contiene el texto, fechas YYYY-MM-DD que incluyen el día entero y cuenta.
+ * El formato es el mismo en CSV y NDJSON:
+ * - Números con punto decimal, sin separador de miles y hasta 8 decimales
+ * - Fechas en ISO 8601 UTC
+ */
+
+import type { PostgrestFilterBuilder } from "@supabase/postgrest-js";
+import { getSupabaseClient } from "../lib/supabase.js";
+import { filaCSV } from "../lib/csv.js";
+
+export type TipoExportacion = "compras" | "ventas" | "alertas" | "bot";
+export type FormatoExportacion = "csv" | "ndjson";
+
+export const TIPOS_EXPORTACION: TipoExportacion[] = [
+  "compras",
+  "ventas",
+  "alertas",
+  "bot",
+];
+
+export interface FiltrosOperaciones {
+  simbolo?: string;
+  fechaDesde?: string; // YYYY-MM-DD
+  fechaHasta?: string; // YYYY-MM-DD
+  idCuenta?: number;
+  botS?: boolean;
+}
+
+const TAMANO_PAGINA = 1000;
+
+interface TablaExportable {
+  tabla: string;
+  campoUsuario: string;
+  campoFecha: string;
+  campoSimbolo: string;
+  porCuenta: boolean; // tiene idCuenta y botS
+}
+
+const TABLAS: { [tipo in Exclude<TipoExportacion, "bot">]: TablaExportable } = {
+  compras: {
+    tabla: "compras",
+    campoUsuario: "idUsuario",
+    campoFecha: "fechaCompra",
+    campoSimbolo: "simbolo",
+    porCuenta: true,
+  },
+  ventas: {
+    tabla: "ventas",
+    campoUsuario: "idUsuario",
+    campoFecha: "fechaVenta",
+    campoSimbolo: "simbolo",
+    porCuenta: true,
+  },
+  alertas: {
+    tabla: "alertas",
+    campoUsuario: "user_id",
+    campoFecha: "creado",
+    campoSimbolo: "criptomoneda",
+    porCuenta: false,
+  },
+};
+
+// Columnas que se pueden pedir, en el orden por defecto
+export const COLUMNAS_EXPORTACION: { [tipo in TipoExportacion]: string[] } = {
+  compras: [
+    "id",
+    "fechaCompra",
+    "simbolo",
+    "idOrden",
+    "exchange",
+    "idCuenta",
+    "precio",
+    "cantidad",
+    "cantidadRestante",
+    "total",
+    "comision",
+    "comisionMoneda",
+    "comisionCotizacion",
+    "vendida",
+    "botS",
+  ],
+  ventas: [
+    "id",
+    "fechaVenta",
+    "simbolo",
+    "idOrden",
+    "idCompra",
+    "exchange",
+    "idCuenta",
+    "precioVenta",
+    "cantidadVendida",
+    "cantidadSinLote",
+    "comisionVenta",
+    "comisionMoneda",
+    "comisionVentaCotizacion",
+    "beneficio",
+    "porcentajeBeneficio",
+    "metodoCoste",
+    "botS",
+  ],
+  alertas: [
+    "id",
+    "creado",
+    "criptomoneda",
+    "condicion",
+    "precio_objetivo",
+    "precio_actual",
+    "estado",
+    "leido",
+    "activado",
+  ],
+  bot: [
+    "tipo",
+    "id",
+    "fecha",
+    "simbolo",
+    "idOrden",
+    "idCuenta",
+    "precio",
+    "cantidad",
+    "total",
+    "comisionCotizacion",
+    "beneficio",
+  ],
+};
+
+const COLUMNAS_FECHA = ["fechaCompra", "fechaVenta", "fecha", "creado", "activado"];
+
+/**
+ * Filtros de /compras-activas sobre una consulta de Supabase
+ */
+export function aplicarFiltros<
+  T extends PostgrestFilterBuilder<any, any, any, unknown>
+>(
+  query: T,
+  campos: { campoFecha: string; campoSimbolo?: string },
+  filtros: FiltrosOperaciones
+): T {
+  let consulta = query;
+
+  if (filtros.simbolo && filtros.simbolo.trim() !== "") {
+    consulta = consulta.ilike(
+      campos.campoSimbolo || "simbolo",
+      `%${filtros.simbolo.toUpperCase()}%`
+    );
+  }
+
+  // Sin cuenta se incluyen todas las cuentas del usuario
+  if (filtros.idCuenta !== undefined) {
+    consulta = consulta.eq("idCuenta", filtros.idCuenta);
+  }
+
+  if (filtros.botS !== undefined) {
+    consulta = consulta.eq("botS", filtros.botS);
+  }
+
+  // Las fechas incluyen el día entero
+  if (filtros.fechaDesde) {
+    const desde = new Date(filtros.fechaDesde);
+    desde.setHours(0, 0, 0, 0);
+    consulta = consulta.gte(campos.campoFecha, desde.toISOString());
+  }
+
+  if (filtros.fechaHasta) {
+    const hasta = new Date(filtros.fechaHasta);
+    hasta.setHours(23, 59, 59, 999);
+    consulta = consulta.lte(campos.campoFecha, hasta.toISOString());
+  }
+
+  return consulta;
+}
+
+/**
+ * Filas de una tabla del usuario, de la más antigua a la más reciente, por
+ * páginas
+ */
+async function* leerTabla(
+  userId: string,
+  definicion: TablaExportable,
+  filtros: FiltrosOperaciones
+): AsyncGenerator<any> {
+  const supabase = getSupabaseClient();
+  const filtrosTabla = definicion.porCuenta
+    ? filtros
+    : { ...filtros, idCuenta: undefined, botS: undefined };
+
+  for (let desde = 0; ; desde += TAMANO_PAGINA) {
+    const { data, error } = await aplicarFiltros(
+      supabase
+        .from(definicion.tabla)
+        .select("*")
+        .eq(definicion.campoUsuario, userId),
+      definicion,
+      filtrosTabla
+    )
+      .order(definicion.campoFecha, { ascending: true })
+      .order("id", { ascending: true })
+      .range(desde, desde + TAMANO_PAGINA - 1);
+
+    if (error) {
+      throw new Error(`Error al exportar ${definicion.tabla}: ${error.message}`);
+    }
+
+    for (const fila of data || []) yield fila;
+    if (!data || data.length < TAMANO_PAGINA) return;
+  }
+}
+
+/**
+ * Compras y ventas del bot en una sola secuencia por fecha
+ */
+async function* leerOperacionesBot(
+  userId: string,
+  filtros: FiltrosOperaciones
+): AsyncGenerator<any> {
+  const delBot = { ...filtros, botS: true };
+  const compras = leerTabla(userId, TABLAS.compras, delBot);
+  const ventas = leerTabla(userId, TABLAS.ventas, delBot);
+
+  const compra = (c: any) => ({
+    tipo: "COMPRA",
+    id: c.id,
+    fecha: c.fechaCompra,
+    simbolo: c.simbolo,
+    idOrden: c.idOrden,
+    idCuenta: c.idCuenta,
+    precio: c.precio,
+    cantidad: c.cantidad,
+    total: c.total,
+    comisionCotizacion: c.comisionCotizacion,
+    beneficio: null,
+  });
+  const venta = (v: any) => ({
+    tipo: "VENTA",
+    id: v.id,
+    fecha: v.fechaVenta,
+    simbolo: v.simbolo,
+    idOrden: v.idOrden,
+    idCuenta: v.idCuenta,
+    precio: v.precioVenta,
+    cantidad: v.cantidadVendida,
+    total: v.precioVenta * v.cantidadVendida,
+    comisionCotizacion: v.comisionVentaCotizacion,
+    beneficio: v.beneficio,
+  });
+
+  let siguienteCompra = await compras.next();
+  let siguienteVenta = await ventas.next();
+  while (!siguienteCompra.done || !siguienteVenta.done) {
+    const tocaCompra =
+      siguienteVenta.done ||
+      (!siguienteCompra.done &&
+        Date.parse(siguienteCompra.value.fechaCompra) <=
+          Date.parse(siguienteVenta.value.fechaVenta));
+
+    if (tocaCompra) {
+      yield compra(siguienteCompra.value);
+      siguienteCompra = await compras.next();
+    } else {
+      yield venta(siguienteVenta.value);
+      siguienteVenta = await ventas.next();
+    }
+  }
+}
+
+function formatearValor(columna: string, valor: any): string | number | boolean | null {
+  if (valor === null || valor === undefined || valor === "") return null;
+
+  if (COLUMNAS_FECHA.includes(columna)) {
+    const fecha = new Date(valor);
+    return isNaN(fecha.getTime()) ? String(valor) : fecha.toISOString();
+  }
+  if (typeof valor === "number") {
+    return Number.isFinite(valor) ? parseFloat(valor.toFixed(8)) : null;
+  }
+  if (typeof valor === "boolean") return valor;
+  return typeof valor === "object" ? JSON.stringify(valor) : String(valor);
+}
+
+// Sin notación exponencial en el CSV (1e-7 -> 0.0000001)
+function numeroCSV(valor: number): string {
+  return valor
+    .toFixed(8)
+    .replace(/(\.\d*?)0+$/, "$1")
+    .replace(/\.$/, "");
+}
+
+export const servicioExportacion = {
+  /**
+   * Comprueba las columnas pedidas
+   * @returns Las columnas a exportar o el error si alguna no existe
+   */
+  elegirColumnas(
+    tipo: TipoExportacion,
+    pedidas?: string
+  ): { columnas: string[] } | { error: string } {
+    const disponibles = COLUMNAS_EXPORTACION[tipo];
+    if (!pedidas || pedidas.trim() === "") return { columnas: disponibles };
+
+    const columnas = pedidas
+      .split(",")
+      .map((c) => c.trim())
+      .filter((c) => c !== "");
+    const desconocidas = columnas.filter((c) => !disponibles.includes(c));
+    if (desconocidas.length > 0) {
+      return {
+        error: `Columnas no disponibles para ${tipo}: ${desconocidas.join(
+          ", "
+        )}. Disponibles: ${disponibles.join(", ")}`,
+      };
+    }
+    return { columnas };
+  },
+
+  /**
+   * Escribe la exportación por trozos
+   * @param escribir Recibe cada trozo y espera a que se pueda seguir
+   * @returns Filas exportadas
+   */
+  async exportar(
+    userId: string,
+    tipo: TipoExportacion,
+    filtros: FiltrosOperaciones,
+    columnas: string[],
+    formato: FormatoExportacion,
+    escribir: (trozo: string) => Promise<void>
+  ): Promise<number> {
+    const filas =
+      tipo === "bot"
+        ? leerOperacionesBot(userId, filtros)
+        : leerTabla(userId, TABLAS[tipo], filtros);
+
+    if (formato === "csv") await escribir(filaCSV(columnas));
+
+    let exportadas = 0;
+    let trozo = "";
+    for await (const fila of filas) {
+      const valores = columnas.map((c) => formatearValor(c, fila[c]));
+
+      trozo +=
+        formato === "csv"
+          ? filaCSV(valores.map((v) => (typeof v === "number" ? numeroCSV(v) : v)))
+          : JSON.stringify(
+              Object.fromEntries(columnas.map((c, i) => [c, valores[i]]))
+            ) + "\n";
+
+      exportadas++;
+      if (exportadas % TAMANO_PAGINA === 0) {
+        await escribir(trozo);
+        trozo = "";
+      }
+    }
+    if (trozo) await escribir(trozo);
+
+    return exportadas;
+  },
+};
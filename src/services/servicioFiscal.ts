@@ -0,0 +1,535 @@
+// servicios/servicioFiscal.ts
+
+/**
+ * INFORME DE GANANCIAS Y PÉRDIDAS PATRIMONIALES (IRPF)
+ *
+ * Recorre todas las compras y ventas del usuario, de todas sus cuentas, y
+ * empareja cada transmisión con sus adquisiciones por FIFO y por activo, que
+ * es el criterio de Hacienda para elementos homogéneos (independiente del
+ * método de coste elegido en la app):
+ * - Comprar o vender contra dinero (EUR, otra moneda fiat y, por defecto,
+ *   las stablecoins) es una adquisición o una transmisión
+ * - Operar un par entre dos criptos es una permuta: se transmite lo que se
+ *   entrega y se adquiere lo que se recibe, ambos por el valor de mercado
+ * - La comisión de una compra es gasto de adquisición y la de una venta,
+ *   gasto de transmisión
+ *
+ * Los importes se pasan a EUR al precio de la fecha de cada operación (las
+ * velas de cada moneda se piden por tramos, no una vez por operación). Si
+ * falta el precio de una operación, sus transmisiones (y las que consuman lo
+ * que adquirió) se marcan sinPrecio, quedan fuera de los totales y el precio
+ * que falta se lista en preciosNoEncontrados. Solo se informan las
+ * transmisiones del ejercicio (hora de Madrid), pero FIFO tiene en cuenta
+ * todo el historial anterior.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { filaCSV } from "../lib/csv.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import { ACTIVOS_ESTABLES_USD } from "./servicioBinance.js";
+import { ExchangeAdapter } from "../interfaces/exchange.types.js";
+import {
+  InformeFiscal,
+  TotalesFiscales,
+  TransmisionFiscal,
+} from "../interfaces/comun.types.js";
+
+// Monedas de curso legal con las que cotiza el exchange: no son permutas
+const MONEDAS_FIAT = [
+  "EUR",
+  "USD",
+  "GBP",
+  "TRY",
+  "BRL",
+  "ARS",
+  "JPY",
+  "MXN",
+  "PLN",
+  "RON",
+  "UAH",
+  "ZAR",
+  "COP",
+  "CZK",
+];
+
+const ZONA_FISCAL = "Europe/Madrid";
+
+// Cantidad por debajo de la cual se ignora lo que falta por cubrir
+const TOLERANCIA_CANTIDAD = 1e-8;
+
+const TAMANO_PAGINA = 1000;
+
+interface LoteFiscal {
+  fecha: number;
+  cantidad: number;
+  valor: number; // EUR de la cantidad restante
+  gastos: number;
+  sinPrecio: boolean; // adquirido sin precio en EUR
+}
+
+interface OperacionFiscal {
+  id: number;
+  lado: "COMPRA" | "VENTA";
+  simbolo: string;
+  fecha: number;
+  cantidad: number; // del activo base
+  importe: number; // en la moneda de cotización
+  comision: number; // en la moneda de cotización
+}
+
+function ejercicioDe(fecha: number): number {
+  return Number(
+    new Intl.DateTimeFormat("en", { timeZone: ZONA_FISCAL, year: "numeric" }).format(
+      fecha
+    )
+  );
+}
+
+function fechaLocal(fecha: string | null): string {
+  if (!fecha) return "";
+  return new Intl.DateTimeFormat("es-ES", {
+    timeZone: ZONA_FISCAL,
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+  }).format(Date.parse(fecha));
+}
+
+const redondear = (valor: number) => parseFloat(valor.toFixed(2));
+
+// Números con coma decimal, como los espera una hoja de cálculo en español
+const decimalES = (valor: number, decimales: number = 2) =>
+  valor.toFixed(decimales).replace(".", ",");
+
+const importeES = (valor: number) =>
+  valor.toLocaleString("es-ES", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const escaparHTML = (texto: string) =>
+  texto
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Las transmisiones sin precio no suman: su resultado no es real
+function totalizar(transmisiones: TransmisionFiscal[]): TotalesFiscales {
+  const valoradas = transmisiones.filter((t) => !t.sinPrecio);
+  const suma = (valor: (t: TransmisionFiscal) => number) =>
+    redondear(valoradas.reduce((acc, t) => acc + valor(t), 0));
+
+  return {
+    valorTransmision: suma((t) => t.valorTransmision),
+    valorAdquisicion: suma((t) => t.valorAdquisicion),
+    gastos: suma((t) => t.gastosAdquisicion + t.gastosTransmision),
+    ganancias: suma((t) => Math.max(t.resultado, 0)),
+    perdidas: suma((t) => Math.max(-t.resultado, 0)),
+    resultado: suma((t) => t.resultado),
+  };
+}
+
+/**
+ * Todas las filas de una tabla del usuario por orden de fecha, por páginas
+ * (PostgREST no devuelve más de 1000 de una vez)
+ */
+async function leerTabla(
+  userId: string,
+  tabla: "compras" | "ventas",
+  campoFecha: string
+): Promise<any[]> {
+  const filas: any[] = [];
+
+  for (let desde = 0; ; desde += TAMANO_PAGINA) {
+    const { data, error } = await getSupabaseClient()
+      .from(tabla)
+      .select("*")
+      .eq("idUsuario", userId)
+      .order(campoFecha, { ascending: true })
+      .order("id", { ascending: true })
+      .range(desde, desde + TAMANO_PAGINA - 1);
+
+    if (error) {
+      throw new Error(`Error al obtener las operaciones: ${error.message}`);
+    }
+
+    filas.push(...(data || []));
+    if (!data || data.length < TAMANO_PAGINA) return filas;
+  }
+}
+
+async function leerOperaciones(userId: string): Promise<OperacionFiscal[]> {
+  const [compras, ventas] = await Promise.all([
+    leerTabla(userId, "compras", "fechaCompra"),
+    leerTabla(userId, "ventas", "fechaVenta"),
+  ]);
+
+  return [
+    ...compras.map(
+      (c): OperacionFiscal => ({
+        id: c.id,
+        lado: "COMPRA",
+        simbolo: c.simbolo,
+        fecha: Date.parse(c.fechaCompra),
+        cantidad: Number(c.cantidad),
+        importe: c.precio * c.cantidad,
+        comision: servicioComisiones.deFila(
+          c.simbolo,
+          c.comisionCotizacion,
+          c.comision,
+          c.comisionMoneda
+        ),
+      })
+    ),
+    ...ventas.map(
+      (v): OperacionFiscal => ({
+        id: v.id,
+        lado: "VENTA",
+        simbolo: v.simbolo,
+        fecha: Date.parse(v.fechaVenta),
+        cantidad: Number(v.cantidadVendida),
+        importe: v.precioVenta * v.cantidadVendida,
+        comision: servicioComisiones.deFila(
+          v.simbolo,
+          v.comisionVentaCotizacion,
+          v.comisionVenta,
+          v.comisionMoneda
+        ),
+      })
+    ),
+  ].sort((a, b) => a.fecha - b.fecha || a.id - b.id);
+}
+
+export const servicioFiscal = {
+  /**
+   * Transmisiones de un ejercicio con su resultado, por FIFO
+   * @param adapter Exchange del que sacar los pares y los precios en EUR
+   * @param permutasEstables Tratar las stablecoins como cripto (cambiar
+   *   una cripto por USDC sería una permuta) en lugar de como dinero
+   */
+  async generarInforme(
+    userId: string,
+    adapter: ExchangeAdapter,
+    ejercicio: number,
+    permutasEstables: boolean = false
+  ): Promise<InformeFiscal> {
+    const operaciones = await leerOperaciones(userId);
+    const pares = new Map(
+      (await adapter.getAllSymbols()).map((s) => [s.symbol, s])
+    );
+    const esDinero = (activo: string) =>
+      MONEDAS_FIAT.includes(activo) ||
+      (!permutasEstables && ACTIVOS_ESTABLES_USD.includes(activo));
+
+    const avisos: Set<string> = new Set();
+    const lotes: Map<string, LoteFiscal[]> = new Map();
+    const transmisiones: TransmisionFiscal[] = [];
+    const preciosNoEncontrados: InformeFiscal["preciosNoEncontrados"] = [];
+
+    // Precio en EUR de la moneda de cotización de cada operación hasta el
+    // ejercicio, pedidos de una vez por moneda
+    const fechasPorMoneda: Map<string, number[]> = new Map();
+    for (const operacion of operaciones) {
+      if (ejercicioDe(operacion.fecha) > ejercicio) break;
+      const moneda = pares.get(operacion.simbolo)?.quoteAsset;
+      if (!moneda || moneda === "EUR") continue;
+      if (!fechasPorMoneda.has(moneda)) fechasPorMoneda.set(moneda, []);
+      fechasPorMoneda.get(moneda)!.push(operacion.fecha);
+    }
+
+    const tipos: Map<string, Map<number, number | null>> = new Map();
+    for (const [moneda, fechas] of fechasPorMoneda) {
+      tipos.set(moneda, await adapter.getPreciosEnFechas(moneda, "EUR", fechas));
+    }
+    const tipoEUR = (moneda: string, fecha: number) =>
+      moneda === "EUR" ? 1 : tipos.get(moneda)?.get(fecha) ?? null;
+
+    const adquirir = (activo: string, lote: LoteFiscal) => {
+      if (lote.cantidad <= TOLERANCIA_CANTIDAD) return;
+      if (!lotes.has(activo)) lotes.set(activo, []);
+      lotes.get(activo)!.push(lote);
+    };
+
+    const transmitir = (
+      activo: string,
+      operacion: OperacionFiscal,
+      tipo: TransmisionFiscal["tipo"],
+      cantidad: number,
+      valor: number,
+      gastos: number,
+      sinPrecio: boolean
+    ) => {
+      const informar = ejercicioDe(operacion.fecha) === ejercicio;
+      const fechaTransmision = new Date(operacion.fecha).toISOString();
+      const cola = lotes.get(activo) || [];
+      let pendiente = cantidad;
+
+      const anotar = (
+        parte: number,
+        fechaAdquisicion: string | null,
+        valorAdquisicion: number,
+        gastosAdquisicion: number,
+        adquisicionSinPrecio: boolean
+      ) => {
+        if (!informar) return;
+        const proporcion = cantidad > 0 ? parte / cantidad : 0;
+        const valorTransmision = valor * proporcion;
+        const gastosTransmision = gastos * proporcion;
+        transmisiones.push({
+          activo,
+          tipo,
+          simbolo: operacion.simbolo,
+          idOperacion: operacion.id,
+          cantidad: parte,
+          fechaAdquisicion,
+          fechaTransmision,
+          valorAdquisicion: redondear(valorAdquisicion),
+          gastosAdquisicion: redondear(gastosAdquisicion),
+          valorTransmision: redondear(valorTransmision),
+          gastosTransmision: redondear(gastosTransmision),
+          resultado: redondear(
+            valorTransmision -
+              gastosTransmision -
+              valorAdquisicion -
+              gastosAdquisicion
+          ),
+          sinPrecio: sinPrecio || adquisicionSinPrecio,
+        });
+      };
+
+      while (pendiente > TOLERANCIA_CANTIDAD && cola.length > 0) {
+        const lote = cola[0];
+        const parte = Math.min(lote.cantidad, pendiente);
+        const proporcion = parte / lote.cantidad;
+        const valorParte = lote.valor * proporcion;
+        const gastosParte = lote.gastos * proporcion;
+
+        anotar(
+          parte,
+          new Date(lote.fecha).toISOString(),
+          valorParte,
+          gastosParte,
+          lote.sinPrecio
+        );
+
+        lote.cantidad -= parte;
+        lote.valor -= valorParte;
+        lote.gastos -= gastosParte;
+        if (lote.cantidad <= TOLERANCIA_CANTIDAD) cola.shift();
+        pendiente -= parte;
+      }
+
+      if (pendiente > TOLERANCIA_CANTIDAD) {
+        anotar(pendiente, null, 0, 0, false);
+        if (informar) {
+          avisos.add(
+            `${activo}: se transmite más de lo adquirido en las operaciones registradas; lo que falta figura sin valor de adquisición`
+          );
+        }
+      }
+    };
+
+    for (const operacion of operaciones) {
+      if (ejercicioDe(operacion.fecha) > ejercicio) break;
+
+      const par = pares.get(operacion.simbolo);
+      if (!par) {
+        avisos.add(`${operacion.simbolo}: par desconocido, operaciones no incluidas`);
+        continue;
+      }
+      const { baseAsset: base, quoteAsset: cotizacion } = par;
+
+      const tipo = tipoEUR(cotizacion, operacion.fecha);
+      const sinPrecio = tipo === null;
+      if (sinPrecio) {
+        const fecha = new Date(operacion.fecha).toISOString();
+        preciosNoEncontrados.push({ activo: cotizacion, fecha, simbolo: operacion.simbolo });
+        avisos.add(
+          `${operacion.simbolo}: sin precio de ${cotizacion} en EUR el ${fechaLocal(
+            fecha
+          )}; sus transmisiones quedan fuera de los totales`
+        );
+      }
+      const valor = operacion.importe * (tipo ?? 0);
+      const comision = operacion.comision * (tipo ?? 0);
+      const permuta = !esDinero(cotizacion);
+
+      if (operacion.lado === "COMPRA") {
+        adquirir(base, {
+          fecha: operacion.fecha,
+          cantidad: operacion.cantidad,
+          valor,
+          gastos: comision,
+          sinPrecio,
+        });
+        if (permuta) {
+          transmitir(
+            cotizacion,
+            operacion,
+            "PERMUTA",
+            operacion.importe,
+            valor,
+            0,
+            sinPrecio
+          );
+        }
+      } else {
+        transmitir(
+          base,
+          operacion,
+          permuta ? "PERMUTA" : "VENTA",
+          operacion.cantidad,
+          valor,
+          comision,
+          sinPrecio
+        );
+        if (permuta) {
+          adquirir(cotizacion, {
+            fecha: operacion.fecha,
+            cantidad: operacion.importe - operacion.comision,
+            valor: valor - comision,
+            gastos: 0,
+            sinPrecio,
+          });
+        }
+      }
+    }
+
+    const activos = [...new Set(transmisiones.map((t) => t.activo))].sort();
+
+    return {
+      ejercicio,
+      moneda: "EUR",
+      permutasEstables,
+      transmisiones,
+      porActivo: activos.map((activo) => ({
+        activo,
+        ...totalizar(transmisiones.filter((t) => t.activo === activo)),
+      })),
+      totales: totalizar(transmisiones),
+      preciosNoEncontrados,
+      avisos: [...avisos],
+    };
+  },
+
+  /**
+   * Una fila por transmisión, con separador ";" y coma decimal
+   */
+  aCSV(informe: InformeFiscal): string {
+    const cabecera = filaCSV(
+      [
+        "Activo",
+        "Tipo",
+        "Par",
+        "Fecha adquisición",
+        "Fecha transmisión",
+        "Cantidad",
+        "Valor adquisición (EUR)",
+        "Gastos adquisición (EUR)",
+        "Valor transmisión (EUR)",
+        "Gastos transmisión (EUR)",
+        "Ganancia/pérdida (EUR)",
+        "Observaciones",
+      ],
+      ";"
+    );
+
+    const filas = informe.transmisiones.map((t) =>
+      filaCSV(
+        [
+          t.activo,
+          t.tipo,
+          t.simbolo,
+          t.fechaAdquisicion ? fechaLocal(t.fechaAdquisicion) : "SIN REGISTRO",
+          fechaLocal(t.fechaTransmision),
+          decimalES(t.cantidad, 8),
+          decimalES(t.valorAdquisicion),
+          decimalES(t.gastosAdquisicion),
+          decimalES(t.valorTransmision),
+          decimalES(t.gastosTransmision),
+          decimalES(t.resultado),
+          t.sinPrecio ? "SIN PRECIO EN EUR: fuera de los totales" : "",
+        ],
+        ";"
+      )
+    );
+
+    // BOM para que Excel lea bien los acentos
+    return "\uFEFF" + cabecera + filas.join("");
+  },
+
+  /**
+   * Resumen imprimible (o guardable como PDF desde el navegador)
+   */
+  aHTML(informe: InformeFiscal): string {
+    const filaTotales = (nombre: string, t: TotalesFiscales) => `
+      <tr>
+        <td>${escaparHTML(nombre)}</td>
+        <td class="num">${importeES(t.valorTransmision)}</td>
+        <td class="num">${importeES(t.valorAdquisicion)}</td>
+        <td class="num">${importeES(t.gastos)}</td>
+        <td class="num">${importeES(t.ganancias)}</td>
+        <td class="num">${importeES(t.perdidas)}</td>
+        <td class="num"><strong>${importeES(t.resultado)}</strong></td>
+      </tr>`;
+
+    const detalle = informe.transmisiones
+      .map(
+        (t) => `
+      <tr>
+        <td>${escaparHTML(t.activo)}</td>
+        <td>${t.tipo === "PERMUTA" ? "Permuta" : "Venta"} (${escaparHTML(t.simbolo)})</td>
+        <td>${t.fechaAdquisicion ? fechaLocal(t.fechaAdquisicion) : "Sin registro"}</td>
+        <td>${fechaLocal(t.fechaTransmision)}</td>
+        <td class="num">${t.cantidad.toLocaleString("es-ES", { maximumFractionDigits: 8 })}</td>
+        <td class="num">${importeES(t.valorAdquisicion + t.gastosAdquisicion)}</td>
+        <td class="num">${importeES(t.valorTransmision - t.gastosTransmision)}</td>
+        <td class="num">${t.sinPrecio ? "Sin precio (fuera de totales)" : importeES(t.resultado)}</td>
+      </tr>`
+      )
+      .join("");
+
+    const avisos =
+      informe.avisos.length > 0
+        ? `<h2>Avisos</h2><ul>${informe.avisos
+            .map((a) => `<li>${escaparHTML(a)}</li>`)
+            .join("")}</ul>`
+        : "";
+
+    return `<!DOCTYPE html>
+<html lang="es">
+<head>
+<meta charset="utf-8">
+<title>Ganancias y pérdidas patrimoniales ${informe.ejercicio}</title>
+<style>
+  body { font-family: Arial, sans-serif; font-size: 12px; margin: 24px; color: #222; }
+  h1 { font-size: 18px; } h2 { font-size: 14px; margin-top: 24px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+  th, td { border: 1px solid #ccc; padding: 4px 6px; text-align: left; }
+  th { background: #f2f2f2; }
+  .num { text-align: right; white-space: nowrap; }
+  .nota { color: #666; font-size: 11px; }
+  @page { size: A4 landscape; margin: 12mm; }
+  @media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>Ganancias y pérdidas patrimoniales por transmisión de criptomonedas — Ejercicio ${informe.ejercicio}</h1>
+<p class="nota">Importes en EUR al precio de la fecha de cada operación. Adquisiciones emparejadas por FIFO por activo.
+Las permutas entre criptomonedas se declaran como transmisión de lo entregado al valor de mercado de lo recibido.
+${informe.permutasEstables ? "Las stablecoins se tratan como criptomonedas." : "Las stablecoins se tratan como dinero."}</p>
+
+<h2>Resumen</h2>
+<table>
+  <tr><th></th><th>Valor de transmisión</th><th>Valor de adquisición</th><th>Gastos</th><th>Ganancias</th><th>Pérdidas</th><th>Resultado</th></tr>
+  ${informe.porActivo.map((a) => filaTotales(a.activo, a)).join("")}
+  ${filaTotales("Total", informe.totales)}
+</table>
+${avisos}
+<h2>Detalle de transmisiones</h2>
+<table>
+  <tr><th>Activo</th><th>Operación</th><th>Fecha adquisición</th><th>Fecha transmisión</th><th>Cantidad</th><th>Adquisición con gastos</th><th>Transmisión neta de gastos</th><th>Ganancia/pérdida</th></tr>
+  ${detalle}
+</table>
+</body>
+</html>`;
+  },
+};
@@ -0,0 +1,536 @@
+// servicios/servicioImportacion.ts
+
+/**
+ * IMPORTACIÓN DE TRADES DESDE LOS CSV EXPORTADOS DE BINANCE
+ *
+ * Para el historial que no se puede traer por API (operado antes de conectar
+ * la cuenta o con claves ya perdidas). Se aceptan los dos ficheros que
+ * exporta Binance, reconocidos por su cabecera:
+ * - Historial de trades: un fill por línea, con comisión pero, según la
+ *   versión, sin número de orden. Los fills del mismo par, lado y segundo se
+ *   agrupan en una orden con id "csv-<ms>-<lado>"
+ * - Historial de órdenes: una orden por línea con su número, sin comisión.
+ *   Las que no llegaron a ejecutarse se ignoran
+ *
+ * Cada orden se normaliza como las de monitorearComprasUsuario y se descarta
+ * si ya existe una compra o venta con su número de orden y par (o, sin
+ * número, del mismo par en el mismo segundo). Sin confirmar solo se devuelve
+ * la vista previa, que ya marca como SIN_LOTE las ventas que no tendrán
+ * compras anteriores que cubrirlas (lotes abiertos más las compras del
+ * fichero); al confirmar, las compras se guardan y las ventas se reparten
+ * entre los lotes comprados antes con el método del usuario (las que no
+ * tienen ninguno se guardan igual, sin lote).
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { leerCSV } from "../lib/csv.js";
+import { servicioComisiones, FillComision } from "./servicioComisiones.js";
+import { servicioLotes } from "./servicioLotes.js";
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import {
+  MetodoCoste,
+  OperacionImportada,
+  ResultadoImportacionCSV,
+} from "../interfaces/comun.types.js";
+
+interface OperacionLeida extends OperacionImportada {
+  fills: FillComision[];
+}
+
+// Órdenes por consulta al buscar duplicadas: la lista va en la URL y
+// PostgREST rechaza las muy largas
+const TAMANO_LOTE_CONSULTA = 200;
+
+// Cantidad por debajo de la cual una venta se da por cubierta
+const TOLERANCIA_CANTIDAD = 1e-8;
+
+// Columnas de cada dato en las distintas versiones de los ficheros
+const COLUMNAS = {
+  fecha: ["dateutc", "date", "timeutc", "time"],
+  simbolo: ["pair", "market", "symbol"],
+  orden: ["orderno", "orderid", "ordernumber"],
+  estado: ["status"],
+  precio: ["averageprice", "avgtradingprice", "avgprice", "price"],
+  cantidad: ["executed", "filled", "quantity", "qty"],
+  total: ["tradingtotal", "total", "quoteqty"],
+  comision: ["fee"],
+  comisionMoneda: ["feecoin", "feeasset"],
+};
+
+const normalizarCabecera = (cabecera: string) =>
+  cabecera.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function leerFecha(texto: string): number | null {
+  const partes = texto
+    .trim()
+    .match(/^(\d{2,4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!partes) return null;
+
+  const [, anio, mes, dia, hora, minuto, segundo] = partes.map(Number);
+  return Date.UTC(
+    partes[1].length === 2 ? 2000 + anio : anio,
+    mes - 1,
+    dia,
+    hora,
+    minuto,
+    segundo
+  );
+}
+
+/**
+ * Deja el punto como separador decimal y quita el de miles. Con los dos, el
+ * último es el decimal ("1.250,5"); con solo comas, son de miles si separan
+ * grupos de tres cifras ("1,250") y si no es la coma decimal ("0,0015")
+ */
+function normalizarSeparadores(texto: string): string {
+  const ultimaComa = texto.lastIndexOf(",");
+  const ultimoPunto = texto.lastIndexOf(".");
+
+  if (ultimaComa < 0) return texto;
+  if (ultimoPunto > ultimaComa) return texto.replace(/,/g, "");
+  if (ultimoPunto >= 0) return texto.replace(/\./g, "").replace(",", ".");
+  return /^-?\d{1,3}(,\d{3})+(?![\d,])/.test(texto)
+    ? texto.replace(/,/g, "")
+    : texto.replace(",", ".");
+}
+
+/**
+ * Cantidad con o sin el activo pegado ("0.0015BTC", "1,250.5 USDT",
+ * "0,5 BTC"). Con activos como 1INCH no se sabe dónde acaba el número, así
+ * que se prueba con los activos conocidos, del nombre más largo al más corto
+ */
+function leerImporte(
+  texto: string | undefined,
+  activos: string[]
+): { numero: number; activo: string } | null {
+  const limpio = normalizarSeparadores(
+    (texto || "").replace(/\s/g, "").toUpperCase()
+  );
+  if (limpio === "") return null;
+
+  const numerico = (valor: string) =>
+    /^-?(\d+\.?\d*|\.\d+)(E-?\d+)?$/.test(valor) ? parseFloat(valor) : null;
+
+  const soloNumero = numerico(limpio);
+  if (soloNumero !== null) return { numero: soloNumero, activo: "" };
+
+  for (const activo of activos) {
+    if (!limpio.endsWith(activo)) continue;
+    const numero = numerico(limpio.slice(0, -activo.length));
+    if (numero !== null) return { numero, activo };
+  }
+  return null;
+}
+
+/**
+ * Lee el fichero y agrupa sus líneas en órdenes
+ * @param pares Pares del exchange con sus activos
+ * @throws Error si la cabecera no es de un historial de Binance
+ */
+function interpretar(
+  contenido: string,
+  pares: Map<string, { baseAsset: string; quoteAsset: string }>
+): { formato: ResultadoImportacionCSV["formato"]; operaciones: OperacionLeida[] } {
+  const [cabecera, ...filas] = leerCSV(contenido);
+  const nombres = (cabecera || []).map(normalizarCabecera);
+  const columna = (candidatos: string[]) =>
+    candidatos.map((c) => nombres.indexOf(c)).find((i) => i >= 0) ?? -1;
+
+  const col = {
+    fecha: columna(COLUMNAS.fecha),
+    simbolo: columna(COLUMNAS.simbolo),
+    // En el historial antiguo de trades el lado va en "Type"
+    lado: nombres.includes("side")
+      ? nombres.indexOf("side")
+      : nombres.indexOf("type"),
+    orden: columna(COLUMNAS.orden),
+    estado: columna(COLUMNAS.estado),
+    precio: columna(COLUMNAS.precio),
+    cantidad: columna(COLUMNAS.cantidad),
+    total: columna(COLUMNAS.total),
+    comision: columna(COLUMNAS.comision),
+    comisionMoneda: columna(COLUMNAS.comisionMoneda),
+  };
+
+  // "Amount" es la cantidad en los ficheros sin "Executed" y el total en
+  // los que lo tienen
+  const amount = nombres.indexOf("amount");
+  if (col.cantidad < 0) {
+    col.cantidad = amount;
+  } else if (col.total < 0) {
+    col.total = amount;
+  }
+
+  if ([col.fecha, col.simbolo, col.lado, col.cantidad].some((i) => i < 0)) {
+    throw new Error(
+      "El fichero no tiene el formato de un historial de trades u órdenes de Binance"
+    );
+  }
+
+  const formato =
+    col.orden >= 0 && col.estado >= 0 ? "HISTORIAL_ORDENES" : "HISTORIAL_TRADES";
+  const activos = [
+    ...new Set([...pares.values()].flatMap((p) => [p.baseAsset, p.quoteAsset])),
+  ].sort((a, b) => b.length - a.length);
+
+  const operaciones: Map<string, OperacionLeida> = new Map();
+  filas.forEach((fila, indice) => {
+    const linea = indice + 2;
+    const valor = (i: number) => (i >= 0 ? (fila[i] || "").trim() : "");
+
+    const simbolo = valor(col.simbolo).replace(/[^A-Za-z0-9]/g, "").toUpperCase();
+    const ladoTexto = valor(col.lado).toUpperCase();
+    const lado = ladoTexto.startsWith("BUY")
+      ? "COMPRA"
+      : ladoTexto.startsWith("SELL")
+      ? "VENTA"
+      : null;
+    const fecha = leerFecha(valor(col.fecha));
+    const cantidad = leerImporte(valor(col.cantidad), activos);
+    const precio = leerImporte(valor(col.precio), activos);
+    const total = leerImporte(valor(col.total), activos);
+    const comision = leerImporte(valor(col.comision), activos);
+
+    const error = (motivo: string) => {
+      operaciones.set(`error:${linea}`, {
+        linea,
+        idOrden: valor(col.orden),
+        simbolo,
+        lado: lado || "COMPRA",
+        fecha: fecha ? new Date(fecha).toISOString() : valor(col.fecha),
+        cantidad: cantidad?.numero || 0,
+        precio: precio?.numero || 0,
+        total: total?.numero || 0,
+        comision: 0,
+        comisionMoneda: "",
+        estado: "ERROR",
+        motivo,
+        fills: [],
+      });
+    };
+
+    // Órdenes canceladas o caducadas sin ejecutar
+    if (formato === "HISTORIAL_ORDENES" && cantidad?.numero === 0) return;
+
+    if (!pares.has(simbolo)) return error(`Par desconocido: ${simbolo}`);
+    if (!lado) return error(`Lado no reconocido: ${valor(col.lado)}`);
+    if (fecha === null) return error(`Fecha no válida: ${valor(col.fecha)}`);
+    if (!cantidad || !(cantidad.numero > 0)) {
+      return error(`Cantidad no válida: ${valor(col.cantidad)}`);
+    }
+    const importe =
+      total && total.numero > 0
+        ? total.numero
+        : precio && precio.numero > 0
+        ? precio.numero * cantidad.numero
+        : null;
+    if (importe === null) return error("Sin precio ni total");
+
+    const comisionMoneda = (
+      valor(col.comisionMoneda) ||
+      comision?.activo ||
+      ""
+    ).toUpperCase();
+    const idOrden =
+      valor(col.orden) || `csv-${fecha}-${lado === "COMPRA" ? "B" : "S"}`;
+    const clave = `${simbolo}:${idOrden}`;
+
+    const operacion = operaciones.get(clave) || {
+      linea,
+      idOrden,
+      simbolo,
+      lado,
+      fecha: new Date(fecha).toISOString(),
+      cantidad: 0,
+      precio: 0,
+      total: 0,
+      comision: 0,
+      comisionMoneda,
+      estado: "NUEVA",
+      fills: [],
+    };
+    operacion.cantidad += cantidad.numero;
+    operacion.total += importe;
+    operacion.precio = operacion.total / operacion.cantidad;
+    if (comision && comision.numero > 0) {
+      operacion.fills.push({
+        commission: comision.numero,
+        commissionAsset: comisionMoneda,
+        price: importe / cantidad.numero,
+        time: fecha,
+      });
+      if (!operacion.comisionMoneda) operacion.comisionMoneda = comisionMoneda;
+      if (operacion.comisionMoneda === comisionMoneda) {
+        operacion.comision += comision.numero;
+      }
+    }
+    operaciones.set(clave, operacion);
+  });
+
+  return {
+    formato,
+    operaciones: [...operaciones.values()].sort(
+      (a, b) => Date.parse(a.fecha) - Date.parse(b.fecha) || a.linea - b.linea
+    ),
+  };
+}
+
+/**
+ * Marca como duplicadas las operaciones que ya están en compras o ventas
+ */
+async function marcarDuplicadas(
+  userId: string,
+  operaciones: OperacionLeida[]
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const grupos: Map<string, OperacionLeida[]> = new Map();
+  operaciones
+    .filter((o) => o.estado === "NUEVA")
+    .forEach((o) => {
+      const clave = `${o.lado}:${o.simbolo}`;
+      grupos.set(clave, [...(grupos.get(clave) || []), o]);
+    });
+
+  for (const grupo of grupos.values()) {
+    const { lado, simbolo } = grupo[0];
+    const tabla = lado === "COMPRA" ? "compras" : "ventas";
+    const campoFecha = lado === "COMPRA" ? "fechaCompra" : "fechaVenta";
+    const sinNumero = (idOrden: string | null) =>
+      !idOrden || String(idOrden).startsWith("csv-");
+
+    for (let i = 0; i < grupo.length; i += TAMANO_LOTE_CONSULTA) {
+      const lote = grupo.slice(i, i + TAMANO_LOTE_CONSULTA);
+
+      const { data: porOrden, error } = await supabase
+        .from(tabla)
+        .select("idOrden")
+        .eq("idUsuario", userId)
+        .eq("simbolo", simbolo)
+        .in(
+          "idOrden",
+          lote.map((o) => o.idOrden)
+        );
+      if (error) {
+        throw new Error(`Error comprobando ${tabla} ya guardadas: ${error.message}`);
+      }
+      const ordenes = new Set(
+        (porOrden || []).map((fila) => String(fila.idOrden))
+      );
+
+      // Lo importado sin número de orden no se puede cruzar por orden con lo
+      // demás: si uno de los dos no lo tiene, se compara por fecha
+      const { data: porFecha, error: errorFecha } = await supabase
+        .from(tabla)
+        .select(`idOrden, ${campoFecha}`)
+        .eq("idUsuario", userId)
+        .eq("simbolo", simbolo)
+        .in(
+          campoFecha,
+          lote.map((o) => o.fecha)
+        );
+      if (errorFecha) {
+        throw new Error(
+          `Error comprobando ${tabla} ya guardadas: ${errorFecha.message}`
+        );
+      }
+
+      for (const operacion of lote) {
+        if (ordenes.has(operacion.idOrden)) {
+          operacion.estado = "DUPLICADA";
+          operacion.motivo = `La orden ${operacion.idOrden} ya está guardada`;
+        } else if (
+          (porFecha || []).some(
+            (fila: any) =>
+              Date.parse(fila[campoFecha]) === Date.parse(operacion.fecha) &&
+              (sinNumero(operacion.idOrden) || sinNumero(fila.idOrden))
+          )
+        ) {
+          operacion.estado = "DUPLICADA";
+          operacion.motivo = "Ya hay una operación del par en la misma fecha";
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Vista previa: marca como SIN_LOTE las ventas nuevas que no tendrán
+ * compras anteriores con cantidad por vender. Lo disponible en la fecha de
+ * cada venta son los lotes abiertos de la cuenta y las compras nuevas del
+ * fichero hasta esa fecha, menos lo que se lleven las ventas anteriores
+ */
+async function marcarSinLote(
+  userId: string,
+  idCuenta: number,
+  operaciones: OperacionLeida[]
+): Promise<void> {
+  const nuevas = operaciones.filter((o) => o.estado === "NUEVA");
+  const simbolos = new Set(
+    nuevas.filter((o) => o.lado === "VENTA").map((o) => o.simbolo)
+  );
+
+  for (const simbolo of simbolos) {
+    const delSimbolo = nuevas.filter((o) => o.simbolo === simbolo);
+    const entradas = [
+      ...(await servicioLotes.lotesAbiertos(userId, idCuenta, simbolo)).map(
+        (lote) => ({
+          fecha: Date.parse(lote.fechaCompra),
+          cantidad: lote.restante,
+        })
+      ),
+      ...delSimbolo
+        .filter((o) => o.lado === "COMPRA")
+        .map((o) => ({ fecha: Date.parse(o.fecha), cantidad: o.cantidad })),
+    ];
+    let vendido = 0;
+
+    for (const venta of delSimbolo.filter((o) => o.lado === "VENTA")) {
+      const fecha = Date.parse(venta.fecha);
+      const disponible =
+        entradas
+          .filter((e) => e.fecha <= fecha)
+          .reduce((acc, e) => acc + e.cantidad, 0) - vendido;
+      const asignada = Math.min(venta.cantidad, Math.max(disponible, 0));
+      vendido += asignada;
+
+      if (asignada <= TOLERANCIA_CANTIDAD) {
+        venta.estado = "SIN_LOTE";
+        venta.motivo = "No hay compras anteriores con cantidad por vender";
+      } else if (venta.cantidad - asignada > TOLERANCIA_CANTIDAD) {
+        venta.motivo = `${venta.cantidad - asignada} sin compras anteriores que lo cubran`;
+      }
+    }
+  }
+}
+
+/**
+ * Guarda una operación nueva y deja en ella el estado con el que queda
+ */
+async function guardarOperacion(
+  userId: string,
+  conexion: ConexionExchange,
+  operacion: OperacionLeida,
+  metodo: MetodoCoste
+): Promise<void> {
+  const { adapter } = conexion;
+  const fecha = Date.parse(operacion.fecha);
+  const comision = await servicioComisiones.normalizar(
+    adapter,
+    operacion.simbolo,
+    operacion.fills,
+    fecha
+  );
+
+  if (operacion.lado === "COMPRA") {
+    const { error } = await getSupabaseClient()
+      .from("compras")
+      .insert([
+        {
+          exchange: adapter.nombre,
+          idCuenta: conexion.id,
+          idOrden: operacion.idOrden,
+          simbolo: operacion.simbolo,
+          precio: operacion.precio,
+          cantidad: operacion.cantidad,
+          total: operacion.total,
+          comision: comision.comision,
+          comisionMoneda: comision.comisionMoneda,
+          comisionCotizacion: comision.comisionCotizacion,
+          fechaCompra: operacion.fecha,
+          vendida: false,
+          idUsuario: userId,
+        },
+      ]);
+
+    if (error) throw new Error(error.message);
+    operacion.estado = "IMPORTADA";
+    return;
+  }
+
+  const resultado = await servicioLotes.registrarVenta({
+    idUsuario: userId,
+    exchange: adapter.nombre,
+    idCuenta: conexion.id,
+    simbolo: operacion.simbolo,
+    cantidad: operacion.cantidad,
+    precioVenta: operacion.precio,
+    comision,
+    fecha,
+    metodo,
+    idOrden: operacion.idOrden,
+    soloAnteriores: true,
+  });
+
+  if (resultado.cantidadAsignada === 0) {
+    operacion.estado = "SIN_LOTE";
+    operacion.motivo =
+      "No hay compras anteriores con cantidad por vender; guardada sin lote";
+  } else {
+    operacion.estado = "IMPORTADA";
+    if (resultado.sinAsignar > 0) {
+      operacion.motivo = `${resultado.sinAsignar} sin compras anteriores que lo cubran`;
+    }
+  }
+}
+
+export const servicioImportacion = {
+  /**
+   * Lee un CSV de Binance y, si se confirma, guarda sus operaciones nuevas
+   * en la cuenta indicada
+   * @param confirmar false para obtener solo la vista previa
+   */
+  async procesarCSV(
+    userId: string,
+    conexion: ConexionExchange,
+    contenido: string,
+    confirmar: boolean = false
+  ): Promise<ResultadoImportacionCSV> {
+    const pares = new Map(
+      (await conexion.adapter.getAllSymbols()).map((s) => [s.symbol, s])
+    );
+    const { formato, operaciones } = interpretar(contenido, pares);
+    const validas = operaciones.filter((o) => o.estado !== "ERROR");
+    await marcarDuplicadas(userId, operaciones);
+    if (!confirmar) await marcarSinLote(userId, conexion.id, operaciones);
+
+    if (confirmar) {
+      const metodo = await servicioLotes.obtenerMetodo(userId);
+      for (const operacion of operaciones) {
+        if (operacion.estado !== "NUEVA") continue;
+        try {
+          await guardarOperacion(userId, conexion, operacion, metodo);
+        } catch (error) {
+          console.error(
+            `❌ Error importando la orden ${operacion.idOrden} de ${operacion.simbolo}:`,
+            error
+          );
+          operacion.estado = "ERROR";
+          operacion.motivo = error instanceof Error ? error.message : String(error);
+        }
+      }
+      console.log(
+        `📥 Importación CSV de ${userId}: ${
+          operaciones.filter((o) => o.estado === "IMPORTADA").length
+        } operaciones guardadas`
+      );
+    }
+
+    const contar = (estado: OperacionImportada["estado"]) =>
+      operaciones.filter((o) => o.estado === estado).length;
+
+    return {
+      formato,
+      confirmado: confirmar,
+      operaciones: operaciones.map(({ fills, ...operacion }) => operacion),
+      resumen: {
+        compras: validas.filter((o) => o.lado === "COMPRA").length,
+        ventas: validas.filter((o) => o.lado === "VENTA").length,
+        nuevas: contar("NUEVA"),
+        duplicadas: contar("DUPLICADA"),
+        errores: contar("ERROR"),
+        importadas: contar("IMPORTADA"),
+        sinLote: contar("SIN_LOTE"),
+      },
+    };
+  },
+};
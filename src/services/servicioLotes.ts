@@ -0,0 +1,550 @@
+// servicios/servicioLotes.ts
+
+/**
+ * EMPAREJAMIENTO DE VENTAS CON LOTES DE COMPRA
+ *
+ * Cada fila de "compras" es un lote con la cantidad que le queda por vender
+ * (cantidadRestante). Una venta se reparte entre los lotes abiertos del
+ * símbolo en la cuenta según el método de coste (FIFO, LIFO, HIFO o lotes
+ * concretos):
+ * 1. Se guarda una fila en "ventas" con todo lo vendido y el beneficio de
+ *    lo que cubren los lotes; su idCompra es el primer lote cubierto. Lo que
+ *    no cubre ningún lote abierto queda en cantidadSinLote (y una venta sin
+ *    ningún lote se guarda igual, sin idCompra), para que el informe fiscal
+ *    vea la venta entera
+ * 2. La parte que cubre cada lote, con su coste y su beneficio, va a
+ *    "emparejamientosVenta"
+ * 3. A cada lote se le descuenta lo vendido y el que se queda a cero se
+ *    marca como vendido
+ *
+ * El reparto se calcula aquí y se guarda con la función registrar_venta de
+ * Postgres, en una transacción que bloquea los lotes: si otra venta los ha
+ * cambiado entretanto se vuelve a calcular, y una orden (o fill) que ya está
+ * en "ventas" no se registra dos veces.
+ *
+ * Las compras sin cantidadRestante (anteriores a este registro) calculan lo
+ * que les queda con las ventas que las apuntan.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import {
+  ComisionNormalizada,
+  EmparejamientoVenta,
+  MetodoCoste,
+  ResultadoAsignacion,
+} from "../interfaces/comun.types.js";
+
+export const METODOS_COSTE: MetodoCoste[] = ["FIFO", "LIFO", "HIFO", "ESPECIFICO"];
+
+// Para las ventas que no eligen método (sincronizadas, usuarios sin preferencia)
+export const METODO_COSTE_DEFECTO: MetodoCoste = "FIFO";
+
+// Por debajo de esto un lote se da por vendido
+const TOLERANCIA_CANTIDAD = 1e-8;
+
+// Intentos de guardar una venta cuyos lotes cambia otra venta a la vez
+const MAX_INTENTOS_VENTA = 3;
+
+// SQLSTATE con el que registrar_venta avisa de que los lotes han cambiado
+// Intentos de actualizar una compra que una venta cambia a la vez
+const MAX_INTENTOS_COMPRA = 3;
+
+const CODIGO_LOTES_CAMBIADOS = "40001";
+
+const TAMANO_PAGINA = 1000;
+
+// Ids por consulta .in(): van en la URL de PostgREST
+const TAMANO_LOTE_CONSULTA = 200;
+
+export interface LoteAbierto {
+  id: number;
+  simbolo: string;
+  precio: number;
+  cantidad: number;
+  comisionCotizacion: number | null;
+  fechaCompra: string;
+  restante: number;
+}
+
+export interface VentaAAsignar {
+  idUsuario: string;
+  exchange: string;
+  idCuenta: number;
+  simbolo: string;
+  cantidad: number;
+  precioVenta: number;
+  comision: Omit<ComisionNormalizada, "monedaCotizacion">;
+  fecha: number;
+  metodo: MetodoCoste;
+  idsCompra?: number[]; // lotes para ESPECIFICO
+  botS?: boolean; // venta hecha por el bot
+  tolerancia?: number; // restante que ya no se puede vender (step size)
+  idOrden?: string; // orden del exchange, para no registrarla dos veces
+  idFill?: string; // parte de la orden si se registra por fills (trade id o cantidad acumulada)
+  soloAnteriores?: boolean; // solo lotes comprados antes de la venta
+}
+
+/**
+ * Añade a cada compra lo que le queda por vender
+ */
+async function conRestante(compras: any[]): Promise<LoteAbierto[]> {
+  const sinRestante = compras.filter(
+    (c) => c.cantidadRestante === null || c.cantidadRestante === undefined
+  );
+  const vendido: Map<number, number> = new Map();
+
+  for (let i = 0; i < sinRestante.length; i += TAMANO_LOTE_CONSULTA) {
+    const ids = sinRestante.slice(i, i + TAMANO_LOTE_CONSULTA).map((c) => c.id);
+
+    for (let desde = 0; ; desde += TAMANO_PAGINA) {
+      const { data: ventas, error } = await getSupabaseClient()
+        .from("ventas")
+        .select("id, idCompra, cantidadVendida")
+        .in("idCompra", ids)
+        .order("id", { ascending: true })
+        .range(desde, desde + TAMANO_PAGINA - 1);
+
+      if (error) {
+        throw new Error(`Error al obtener las ventas de los lotes: ${error.message}`);
+      }
+
+      (ventas || []).forEach((v) => {
+        vendido.set(v.idCompra, (vendido.get(v.idCompra) || 0) + (v.cantidadVendida || 0));
+      });
+      if (!ventas || ventas.length < TAMANO_PAGINA) break;
+    }
+  }
+
+  return compras.map((c) => ({
+    ...c,
+    restante:
+      c.cantidadRestante ?? Math.max(c.cantidad - (vendido.get(c.id) || 0), 0),
+  }));
+}
+
+/**
+ * La venta ya guardada de esta orden (y fill), si la hay
+ */
+async function ventaRegistrada(
+  datos: VentaAAsignar
+): Promise<ResultadoAsignacion | null> {
+  if (!datos.idOrden) return null;
+
+  let query = getSupabaseClient()
+    .from("ventas")
+    .select("*")
+    .eq("idUsuario", datos.idUsuario)
+    .eq("simbolo", datos.simbolo)
+    .eq("idOrden", datos.idOrden);
+  query = datos.idFill
+    ? query.eq("idFill", datos.idFill)
+    : query.is("idFill", null);
+
+  const { data: venta, error } = await query
+    .order("id", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Error al comprobar la orden ${datos.idOrden}: ${error.message}`);
+  }
+  if (!venta) return null;
+
+  return resultadoDuplicada(
+    venta,
+    await servicioLotes.obtenerEmparejamientos(datos.idUsuario, venta.id)
+  );
+}
+
+function resultadoDuplicada(
+  venta: any,
+  emparejamientos: EmparejamientoVenta[]
+): ResultadoAsignacion {
+  const sinAsignar = venta.cantidadSinLote || 0;
+  return {
+    venta,
+    emparejamientos,
+    cantidadAsignada: venta.cantidadVendida - sinAsignar,
+    sinAsignar,
+    lotesCerrados: [],
+    duplicada: true,
+  };
+}
+
+function costeUnitario(lote: LoteAbierto): number {
+  return (
+    lote.precio +
+    (lote.cantidad > 0 ? (lote.comisionCotizacion || 0) / lote.cantidad : 0)
+  );
+}
+
+export const servicioLotes = {
+  /**
+   * Compras con cantidad por vender de un símbolo en una cuenta, de la más
+   * antigua a la más reciente, por páginas (PostgREST no devuelve más de
+   * 1000 de una vez)
+   */
+  async lotesAbiertos(
+    idUsuario: string,
+    idCuenta: number,
+    simbolo: string
+  ): Promise<LoteAbierto[]> {
+    const compras: any[] = [];
+
+    for (let desde = 0; ; desde += TAMANO_PAGINA) {
+      const { data, error } = await getSupabaseClient()
+        .from("compras")
+        .select("*")
+        .eq("idUsuario", idUsuario)
+        .eq("idCuenta", idCuenta)
+        .eq("simbolo", simbolo)
+        .eq("vendida", false)
+        .order("fechaCompra", { ascending: true })
+        .order("id", { ascending: true })
+        .range(desde, desde + TAMANO_PAGINA - 1);
+
+      if (error) {
+        throw new Error(`Error al obtener los lotes de ${simbolo}: ${error.message}`);
+      }
+
+      compras.push(...(data || []));
+      if (!data || data.length < TAMANO_PAGINA) break;
+    }
+
+    return (await conRestante(compras)).filter(
+      (lote) => lote.restante > TOLERANCIA_CANTIDAD
+    );
+  },
+
+  /**
+   * Lo que le queda por vender a una compra
+   */
+  async cantidadRestante(compra: {
+    id: number;
+    cantidad: number;
+    cantidadRestante?: number | null;
+  }): Promise<number> {
+    return (await conRestante([compra]))[0].restante;
+  },
+
+  /**
+   * Guarda los acumulados de una compra que ha recibido más fills. Lo que
+   * crece la orden se suma a lo que le quedaba por vender: una compra a
+   * medio vender (o ya vendida) vuelve a quedar abierta con el resto
+   * @throws Error si no se puede guardar o la compra cambia en cada intento
+   */
+  async actualizarCompra(
+    idCompra: number,
+    datos: { cantidad: number; [campo: string]: unknown }
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+
+    for (let intento = 1; intento <= MAX_INTENTOS_COMPRA; intento++) {
+      const { data: compra, error } = await supabase
+        .from("compras")
+        .select("id, cantidad, cantidadRestante")
+        .eq("id", idCompra)
+        .single();
+
+      if (error || !compra) {
+        throw new Error(`Error al leer la compra ${idCompra}: ${error?.message}`);
+      }
+
+      // Sin más cantidad (solo cambia la comisión) lo vendido no se toca
+      const aumento = datos.cantidad - compra.cantidad;
+      if (Math.abs(aumento) <= TOLERANCIA_CANTIDAD) {
+        const { error: errorActualizar } = await supabase
+          .from("compras")
+          .update(datos)
+          .eq("id", idCompra);
+
+        if (errorActualizar) {
+          throw new Error(
+            `Error al actualizar la compra ${idCompra}: ${errorActualizar.message}`
+          );
+        }
+        return;
+      }
+
+      const restante = Math.max(
+        (await conRestante([compra]))[0].restante + aumento,
+        0
+      );
+
+      // Solo si nadie ha vendido de la compra desde la lectura
+      let consulta = supabase
+        .from("compras")
+        .update({
+          ...datos,
+          cantidadRestante: restante,
+          vendida: restante <= TOLERANCIA_CANTIDAD,
+        })
+        .eq("id", idCompra)
+        .eq("cantidad", compra.cantidad);
+      consulta =
+        compra.cantidadRestante === null
+          ? consulta.is("cantidadRestante", null)
+          : consulta.eq("cantidadRestante", compra.cantidadRestante);
+
+      const { data: actualizadas, error: errorActualizar } =
+        await consulta.select("id");
+
+      if (errorActualizar) {
+        throw new Error(
+          `Error al actualizar la compra ${idCompra}: ${errorActualizar.message}`
+        );
+      }
+      if (actualizadas && actualizadas.length > 0) return;
+
+      console.log(
+        `🔁 La compra ${idCompra} ha cambiado mientras se actualizaba, leyéndola de nuevo (${intento}/${MAX_INTENTOS_COMPRA})`
+      );
+    }
+
+    throw new Error(`La compra ${idCompra} ha cambiado en cada intento`);
+  },
+
+  /**
+   * Las compras indicadas con lo que le queda por vender a cada una
+   */
+  async restantes(compras: any[]): Promise<LoteAbierto[]> {
+    return conRestante(compras);
+  },
+
+  /**
+   * Ids de ESPECIFICO que no son lotes abiertos de la lista (no existen, son
+   * de otra cuenta o símbolo o ya están vendidos), no son un id válido o se
+   * repiten
+   */
+  idsNoDisponibles(lotes: LoteAbierto[], idsCompra: unknown[]): string[] {
+    return idsCompra
+      .filter(
+        (id, i) =>
+          !Number.isInteger(Number(id)) ||
+          idsCompra.findIndex((otro) => Number(otro) === Number(id)) !== i ||
+          !lotes.some((lote) => lote.id === Number(id))
+      )
+      .map(String);
+  },
+
+  /**
+   * Lotes en el orden en que los consume el método (con ESPECIFICO, solo
+   * los indicados, una vez cada uno)
+   */
+  ordenarLotes(
+    lotes: LoteAbierto[],
+    metodo: MetodoCoste,
+    idsCompra: number[] = []
+  ): LoteAbierto[] {
+    const fecha = (lote: LoteAbierto) => Date.parse(lote.fechaCompra);
+
+    switch (metodo) {
+      case "ESPECIFICO":
+        return [...new Set(idsCompra.map(Number))]
+          .map((id) => lotes.find((lote) => lote.id === id))
+          .filter((lote): lote is LoteAbierto => !!lote);
+      case "LIFO":
+        return [...lotes].sort((a, b) => fecha(b) - fecha(a) || b.id - a.id);
+      case "HIFO":
+        return [...lotes].sort(
+          (a, b) => costeUnitario(b) - costeUnitario(a) || fecha(a) - fecha(b)
+        );
+      default:
+        return [...lotes].sort((a, b) => fecha(a) - fecha(b) || a.id - b.id);
+    }
+  },
+
+  /**
+   * Reparte una venta ejecutada entre los lotes abiertos y la registra
+   * entera, con lo que no cubre ningún lote en sinAsignar
+   * @returns La venta ya guardada (duplicada) si la orden ya estaba registrada
+   * @throws Error si no se puede guardar (no queda nada a medias)
+   */
+  async registrarVenta(datos: VentaAAsignar): Promise<ResultadoAsignacion> {
+    const tolerancia = Math.max(datos.tolerancia ?? 0, TOLERANCIA_CANTIDAD);
+
+    const registrada = await ventaRegistrada(datos);
+    if (registrada) {
+      console.log(
+        `⏭️ Orden ${datos.idOrden} de ${datos.simbolo} ya registrada (venta ${registrada.venta.id})`
+      );
+      return registrada;
+    }
+
+    for (let intento = 1; ; intento++) {
+      const lotes = this.ordenarLotes(
+        (
+          await this.lotesAbiertos(datos.idUsuario, datos.idCuenta, datos.simbolo)
+        ).filter(
+          (lote) =>
+            !datos.soloAnteriores || Date.parse(lote.fechaCompra) <= datos.fecha
+        ),
+        datos.metodo,
+        datos.idsCompra
+      );
+
+      let pendiente = datos.cantidad;
+      const partes: { lote: LoteAbierto; cantidad: number }[] = [];
+      for (const lote of lotes) {
+        if (pendiente <= TOLERANCIA_CANTIDAD) break;
+        const cantidad = Math.min(lote.restante, pendiente);
+        pendiente -= cantidad;
+        partes.push({ lote, cantidad });
+      }
+
+      const cantidadAsignada = partes.reduce((acc, p) => acc + p.cantidad, 0);
+      const sinAsignar = Math.max(datos.cantidad - cantidadAsignada, 0);
+      const { comisionCotizacion } = datos.comision;
+      const fechaVenta = new Date(datos.fecha).toISOString();
+
+      // Cada lote carga con la comisión de venta en proporción a lo que cubre
+      const calculos = partes.map(({ lote, cantidad }) => {
+        const comisionVenta =
+          comisionCotizacion === null
+            ? null
+            : comisionCotizacion * (cantidad / datos.cantidad);
+        return {
+          lote,
+          cantidad,
+          comisionVenta,
+          ...servicioComisiones.calcularBeneficio(
+            lote,
+            cantidad,
+            datos.precioVenta * cantidad,
+            comisionVenta
+          ),
+        };
+      });
+
+      // El beneficio es solo el de lo cubierto: lo demás no tiene coste
+      const beneficio = calculos.reduce((acc, c) => acc + c.beneficio, 0);
+      const coste = calculos.reduce((acc, c) => acc + c.coste, 0);
+
+      const { data, error } = await getSupabaseClient().rpc("registrar_venta", {
+        p_venta: {
+          idCompra: partes[0]?.lote.id ?? null,
+          exchange: datos.exchange,
+          idCuenta: datos.idCuenta,
+          simbolo: datos.simbolo,
+          precioVenta: datos.precioVenta,
+          cantidadVendida: datos.cantidad,
+          comisionVenta: datos.comision.comision,
+          comisionMoneda: datos.comision.comisionMoneda,
+          comisionVentaCotizacion: comisionCotizacion,
+          beneficio,
+          porcentajeBeneficio: coste > 0 ? (beneficio / coste) * 100 : 0,
+          metodoCoste: datos.metodo,
+          cantidadSinLote: sinAsignar > TOLERANCIA_CANTIDAD ? sinAsignar : 0,
+          idOrden: datos.idOrden ?? null,
+          idFill: datos.idFill ?? null,
+          idUsuario: datos.idUsuario,
+          fechaVenta,
+          botS: datos.botS || false,
+        },
+        // Con lo que le quedaba a cada lote, para detectar otra venta a la vez
+        p_partes: calculos.map((c) => ({
+          idCompra: c.lote.id,
+          cantidad: c.cantidad,
+          restante: c.lote.restante,
+          emparejamiento: {
+            idCompra: c.lote.id,
+            idUsuario: datos.idUsuario,
+            simbolo: datos.simbolo,
+            cantidad: c.cantidad,
+            precioCompra: c.lote.precio,
+            precioVenta: datos.precioVenta,
+            coste: c.coste,
+            comisionVenta: c.comisionVenta,
+            beneficio: c.beneficio,
+            fechaCompra: c.lote.fechaCompra,
+            fechaVenta,
+          },
+        })),
+        p_tolerancia: tolerancia,
+      });
+
+      if (error?.code === CODIGO_LOTES_CAMBIADOS && intento < MAX_INTENTOS_VENTA) {
+        console.warn(
+          `🔁 Los lotes de ${datos.simbolo} han cambiado, repartiendo de nuevo la venta (${intento}/${MAX_INTENTOS_VENTA}): ${error.message}`
+        );
+        continue;
+      }
+      if (error || !data) {
+        throw new Error(
+          `Error al guardar la venta de ${datos.simbolo}: ${error?.message}`
+        );
+      }
+
+      if (data.duplicada) {
+        console.log(
+          `⏭️ Orden ${datos.idOrden} de ${datos.simbolo} ya registrada (venta ${data.venta.id})`
+        );
+        return resultadoDuplicada(data.venta, data.emparejamientos || []);
+      }
+
+      if (sinAsignar > TOLERANCIA_CANTIDAD) {
+        console.log(
+          `⚠️ ${sinAsignar} ${datos.simbolo} vendidos sin lote abierto que los cubra`
+        );
+      }
+
+      return {
+        venta: data.venta,
+        emparejamientos: (data.emparejamientos || []) as EmparejamientoVenta[],
+        cantidadAsignada,
+        sinAsignar: sinAsignar > TOLERANCIA_CANTIDAD ? sinAsignar : 0,
+        lotesCerrados: data.lotesCerrados || [],
+        duplicada: false,
+      };
+    }
+  },
+
+  /**
+   * Lotes que cubrió una venta
+   */
+  async obtenerEmparejamientos(
+    idUsuario: string,
+    idVenta: number
+  ): Promise<EmparejamientoVenta[]> {
+    const { data, error } = await getSupabaseClient()
+      .from("emparejamientosVenta")
+      .select("*")
+      .eq("idUsuario", idUsuario)
+      .eq("idVenta", idVenta)
+      .order("id", { ascending: true });
+
+    if (error) {
+      throw new Error(`Error al obtener los lotes de la venta: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Método de coste del usuario para las ventas que no eligen uno
+   */
+  async obtenerMetodo(idUsuario: string): Promise<MetodoCoste> {
+    const { data } = await getSupabaseClient()
+      .from("usuarios")
+      .select("metodoCoste")
+      .eq("id", idUsuario)
+      .maybeSingle();
+
+    return METODOS_COSTE.includes(data?.metodoCoste) &&
+      data?.metodoCoste !== "ESPECIFICO"
+      ? data!.metodoCoste
+      : METODO_COSTE_DEFECTO;
+  },
+
+  async establecerMetodo(idUsuario: string, metodo: MetodoCoste): Promise<void> {
+    const { error } = await getSupabaseClient()
+      .from("usuarios")
+      .update({ metodoCoste: metodo })
+      .eq("id", idUsuario);
+
+    if (error) {
+      throw new Error(`Error al guardar el método de coste: ${error.message}`);
+    }
+  },
+};
@@ -1,13 +1,26 @@
-import { binanceService } from "./servicioBinance.js";
+import { binanceService, obtenerBinanceService } from "./servicioBinance.js";
 import { servicioBot } from "./servicioBotS.js";
 import { getSupabaseClient } from "../lib/supabase.js";
 import { webSocketService } from "./servicioWebSocket.js";
-import { decrypt } from "../lib/encriptacion.js";
 import { servicioUsuario } from "./servicioUsuario.js";
-import { BinanceCredentials } from "../interfaces/binance.types.js";
+import { servicioExchanges } from "./servicioExchanges.js";
+import { servicioUserDataStream } from "./servicioUserDataStream.js";
+import { servicioProtecciones } from "./servicioProtecciones.js";
+import { servicioOrdenes } from "./servicioOrdenes.js";
+import { servicioSimbolos } from "./servicioSimbolos.js";
+import { servicioTrades } from "./servicioTrades.js";
+import {
+  ConexionExchange,
+  ExchangeAdapter,
+} from "../interfaces/exchange.types.js";
 import { SimboloConfig, BotConfig } from "../interfaces/bot.types.js";
+import { GrafoPrecios } from "../lib/grafoPrecios.js";
 import { randomUUID } from "crypto";
 
+// Consumidores de los streams de mercado
+const CONSUMIDOR_PRECIOS = "monitor-precios";
+const CONSUMIDOR_BOT = "bot";
+
 export interface DatosPrecio {
   simbolo: string;
   precio: number;
@@ -28,7 +41,12 @@ export class ServicioMonitoreo {
   private estaMonitoreando: boolean = false;
   private idIntervalo: NodeJS.Timeout | null = null;
   private monitoreosComprasActivos: Map<string, NodeJS.Timeout> = new Map();
-  private usuariosBotActivos: Map<string, BotConfig> = new Map();
+  private monitoreosPorStream: Set<string> = new Set();
+  // Hosts con streams de mercado suscritos para el bot
+  private hostsMercadoBot: Map<string, ExchangeAdapter> = new Map();
+  // Bots activos por cuenta: un usuario puede tener uno en cada cuenta
+  private usuariosBotActivos: Map<number, { userId: string; config: BotConfig }> =
+    new Map();
 
   // Obtener precio de un símbolo específico
   async obtenerPrecioSimbolo(simbolo: string): Promise<DatosPrecio> {
@@ -165,22 +183,33 @@ export class ServicioMonitoreo {
     this.estaMonitoreando = true;
     console.log(`🚀 Iniciando monitoreo de precios cada ${intervalMs}ms`);
 
+    // Símbolos con seguimiento de precios en el registro
+    let simbolosAMonitorear = servicioSimbolos.listar("precios");
+
+    // Los precios llegan por el stream de mercado; REST solo si no hay stream
+    binanceService.suscribirMercado(CONSUMIDOR_PRECIOS, simbolosAMonitorear);
+
     this.idIntervalo = setInterval(async () => {
       try {
         console.log("\n=== 🔄 CICLO DE MONITOREO ===");
         console.log("⏰", new Date().toISOString());
 
-        // Símbolos a monitorear (puedes hacer esto dinámico basado en las alertas de la BD)
-        const simbolosAMonitorear = [
-          "BTCUSDC",
-          "ETHUSDC",
-          "ADAUSDC",
-          "SOLUSDC",
-          "XRPUSDC",
-          "BNBUSDC",
-          "LINKUSDC",
-        ];
-        // console.log("📊 Símbolos a monitorear:", simbolosAMonitorear);
+        // El registro puede haber cambiado desde la administración o desde
+        // otra instancia; si falla se sigue con la última copia
+        try {
+          await servicioSimbolos.cargar(obtenerBinanceService("mainnet"));
+        } catch (error) {
+          console.error("❌ Error recargando el registro de símbolos:", error);
+        }
+        const simbolos = servicioSimbolos.listar("precios");
+        if (simbolos.join(",") !== simbolosAMonitorear.join(",")) {
+          console.log(`📋 Símbolos monitorizados: ${simbolos.join(", ")}`);
+          simbolosAMonitorear = simbolos;
+          binanceService.suscribirMercado(
+            CONSUMIDOR_PRECIOS,
+            simbolosAMonitorear
+          );
+        }
 
         const precios = await this.obtenerMultiplesPrecios(simbolosAMonitorear);
 
@@ -209,6 +238,7 @@ export class ServicioMonitoreo {
       clearInterval(this.idIntervalo);
       this.idIntervalo = null;
       this.estaMonitoreando = false;
+      binanceService.desuscribirMercado(CONSUMIDOR_PRECIOS);
       console.log("Monitoreo de precios detenido");
     }
   }
@@ -239,10 +269,34 @@ export class ServicioMonitoreo {
         return;
       }
 
+      // Las alertas en monedas que no sigue el monitor (EUR, BTC...) se
+      // valoran con el grafo de precios, que se pide una sola vez por ciclo
+      let grafo: GrafoPrecios | null = null;
+
       // Verificar cada alerta
       for (const alerta of alertas) {
-        const simbolo = `${alerta.criptomoneda}USDC`;
-        const precioActual = precios[simbolo]?.precio;
+        const moneda = alerta.moneda || "USDC";
+        const simbolo = `${alerta.criptomoneda}${moneda}`;
+
+        // Alertas de activos desactivados en el registro: quedan pendientes
+        if (!servicioSimbolos.esActivoValido(alerta.criptomoneda, "alertas")) {
+          console.log(
+            `   ⏸️ Alertas desactivadas para ${alerta.criptomoneda}, se omite la alerta ${alerta.id}`
+          );
+          continue;
+        }
+        let precioActual = precios[simbolo]?.precio;
+
+        if (!precioActual) {
+          grafo =
+            grafo ||
+            (await binanceService.getGrafoPrecios().catch((error) => {
+              console.error("❌ Error obteniendo el grafo de precios:", error);
+              return null;
+            }));
+          precioActual =
+            grafo?.precio(alerta.criptomoneda, moneda) ?? undefined;
+        }
 
         if (!precioActual) {
           console.log(`   ⚠️ Precio no disponible para ${simbolo}`);
@@ -285,7 +339,7 @@ export class ServicioMonitoreo {
           } else {
             console.log(`   ✅ Alerta ${alerta.id} activada correctamente!`);
             console.log(
-              `   🎯 ${alerta.criptomoneda} alcanzó $${precioActual} (objetivo: $${alerta.precio_objetivo})`
+              `   🎯 ${alerta.criptomoneda} alcanzó ${precioActual} ${moneda} (objetivo: ${alerta.precio_objetivo} ${moneda})`
             );
           }
 
@@ -296,6 +350,7 @@ export class ServicioMonitoreo {
             {
               id: alerta.id,
               criptomoneda: alerta.criptomoneda,
+              moneda,
               precio_objetivo: alerta.precio_objetivo,
               precio_actual: precioActual,
               condicion: alerta.condicion,
@@ -319,7 +374,7 @@ export class ServicioMonitoreo {
     }
   }
 
-  // Monitorear compras de un usuario específico
+  // Monitorear compras de un usuario específico (todas sus cuentas)
   private async monitorearComprasUsuario(
     userId: string,
     ultimoAcceso?: number | string
@@ -328,15 +383,10 @@ export class ServicioMonitoreo {
       console.log(`\n=== 🔄 MONITOREO DE COMPRAS PARA USUARIO ${userId} ===`);
       console.log("⏰", new Date().toISOString());
 
-      const supabase = getSupabaseClient();
-
-      // 1. Obtener exchanges del usuario usando el servicio de usuario
-      let exchanges;
+      // 1. Resolver las cuentas de exchange activas del usuario
+      let conexiones: ConexionExchange[];
       try {
-        exchanges = await servicioUsuario.obtenerExchangesUsuario(userId);
-        // console.log(
-        //   `📊 Encontrados ${exchanges.length} exchanges para el usuario`
-        // );
+        conexiones = await servicioExchanges.obtenerConexionesUsuario(userId);
       } catch (error) {
         console.error(
           `❌ Error obteniendo exchanges para usuario ${userId}:`,
@@ -345,180 +395,35 @@ export class ServicioMonitoreo {
         return;
       }
 
-      if (!exchanges || exchanges.length === 0) {
+      if (conexiones.length === 0) {
         console.log(`ℹ️ Usuario ${userId} no tiene exchanges configurados`);
         return;
       }
 
-      // console.log(
-      //   `📊 Encontrados ${exchanges.length} exchanges activos para el usuario`
-      // );
+      let nuevasCompras = 0;
+      let comprasActualizadas = 0;
+      let huboErrores = false;
+      let fallaronCuentas = false;
 
-      // 2. Buscar exchange de Binance
-      const binanceExchange = exchanges.find(
-        (exchange) => exchange.exchange?.toUpperCase() === "BINANCE"
-      );
-
-      if (!binanceExchange) {
-        console.log(
-          `ℹ️ Usuario ${userId} no tiene exchange de Binance configurado`
-        );
-        return;
-      }
-
-      // console.log(`✅ Exchange de Binance encontrado para usuario ${userId}`);
-
-      // 3. Desencriptar credenciales de Binance
-      let credentials;
-      try {
-        // Asumiendo que tienes una función decrypt disponible
-        const decryptedApiKey = decrypt(binanceExchange.api_key);
-        const decryptedApiSecret = decrypt(binanceExchange.api_secret);
-
-        credentials = {
-          apiKey: decryptedApiKey,
-          apiSecret: decryptedApiSecret,
-        };
-      } catch (decryptError) {
-        console.error(
-          `❌ Error desencriptando credenciales para usuario ${userId}:`,
-          decryptError
-        );
-        return;
-      }
-
-      // 4. Obtener todas las compras del usuario desde Binance usando ultimoAcceso como startTime
-      console.log(`🔄 Obteniendo trades de Binance para usuario ${userId}...`);
-
-      try {
-        // Convertir ultimoAcceso a timestamp si es string
-        const startTime =
-          typeof ultimoAcceso === "string"
-            ? new Date(ultimoAcceso).getTime()
-            : ultimoAcceso || Date.now() - 24 * 60 * 60 * 1000; // Si no hay ultimoAcceso, usar 24 horas atrás
-
-        const endTime = Date.now();
-
-        console.log(
-          `📅 Buscando compras desde: ${new Date(startTime).toISOString()}`
-        );
-        console.log(`📅 Hasta: ${new Date(endTime).toISOString()}`);
-
-        const allBuyTrades = await binanceService.getAllUserTrades(
-          credentials,
-          {
-            startTime,
-            endTime,
-            limit: 1000, // Puedes ajustar este límite
-          }
-        );
-
-        console.log(
-          `📊 Obtenidos ${allBuyTrades.length} trades de Binance para usuario ${userId}`
+      for (const conexion of conexiones) {
+        const resultado = await this.monitorearComprasCuenta(
+          userId,
+          conexion,
+          ultimoAcceso
         );
-
-        // 5. Procesar y guardar las compras en la base de datos
-        let nuevasCompras = 0;
-        let comprasActualizadas = 0;
-        let huboErrores = false;
-
-        for (const trade of allBuyTrades) {
-          try {
-            // Solo procesar trades de compra (isBuyer = true)
-            if (!trade.isBuyer) {
-              continue;
-            }
-
-            // Verificar si la compra ya existe en la base de datos
-            const { data: compraExistente, error: errorConsulta } =
-              await supabase
-                .from("compras")
-                .select("id")
-                .eq("idOrden", trade.orderId.toString())
-                .eq("simbolo", trade.symbol)
-                .eq("idUsuario", userId)
-                .maybeSingle();
-
-            if (errorConsulta) {
-              console.error(
-                `❌ Error verificando compra ${trade.orderId} - ${trade.symbol}:`,
-                errorConsulta
-              );
-              huboErrores = true;
-              continue;
-            }
-
-            // Preparar datos para insertar/actualizar
-            const datosCompra = {
-              exchange: "Binance",
-              idOrden: trade.orderId.toString(),
-              simbolo: trade.symbol,
-              precio: parseFloat(trade.price),
-              cantidad: parseFloat(trade.qty),
-              total: parseFloat(trade.quoteQty),
-              comision: parseFloat(trade.commission),
-              fechaCompra: new Date(trade.time).toISOString(),
-              vendida: false,
-              idUsuario: userId,
-            };
-
-            if (compraExistente) {
-              // Actualizar compra existente
-              const { error: errorActualizacion } = await supabase
-                .from("compras")
-                .update(datosCompra)
-                .eq("id", compraExistente.id);
-
-              if (errorActualizacion) {
-                console.error(
-                  `❌ Error actualizando compra ${trade.orderId} - ${trade.symbol}:`,
-                  errorActualizacion
-                );
-                huboErrores = true;
-              } else {
-                comprasActualizadas++;
-                console.log(
-                  `↻ Actualizada: ${trade.symbol} - ${trade.qty} @ $${trade.price}`
-                );
-              }
-            } else {
-              // Insertar nueva compra
-              const { error: errorInsercion } = await supabase
-                .from("compras")
-                .insert([datosCompra]);
-
-              if (errorInsercion) {
-                console.error(
-                  `❌ Error guardando compra ${trade.orderId} - ${trade.symbol}:`,
-                  errorInsercion
-                );
-                huboErrores = true;
-
-                // Si el error es por duplicado, continuar
-                if (errorInsercion.code === "23505") {
-                  continue;
-                }
-              } else {
-                nuevasCompras++;
-                console.log(
-                  `✅ Guardada: ${trade.symbol} - ${trade.qty} @ $${trade.price}`
-                );
-              }
-            }
-          } catch (error) {
-            console.error(`💥 Error procesando trade ${trade.orderId}:`, error);
-            huboErrores = true;
-          }
+        if (!resultado) {
+          fallaronCuentas = true;
+          continue;
         }
+        nuevasCompras += resultado.nuevasCompras;
+        comprasActualizadas += resultado.comprasActualizadas;
+        huboErrores = huboErrores || resultado.huboErrores;
+      }
 
-        // 6. Mostrar resumen
-        console.log(`\n📈 RESUMEN DE SINCRONIZACIÓN PARA ${userId}:`);
-        console.log(`   Total trades obtenidos: ${allBuyTrades.length}`);
-        console.log(`   Nuevas compras guardadas: ${nuevasCompras}`);
-        console.log(`   Compras actualizadas: ${comprasActualizadas}`);
-        console.log(`   Hubo errores: ${huboErrores ? "Sí" : "No"}`);
-
-        // 7. Actualizar último acceso si no hubo errores
+      // Si alguna cuenta no se pudo consultar se mantiene el último acceso,
+      // para repetir la ventana en la siguiente pasada
+      if (!fallaronCuentas) {
+        // 5. Actualizar último acceso si no hubo errores
         if (!huboErrores) {
           try {
             await servicioUsuario.actualizarUltimoAcceso(userId);
@@ -555,42 +460,6 @@ export class ServicioMonitoreo {
             timestamp: new Date().toISOString(),
           });
         }
-
-        // 8. Notificar al usuario vía WebSocket si hay nuevas compras
-        if (nuevasCompras > 0 && !huboErrores) {
-          const notificacionEnviada = webSocketService.enviarNotificacion(
-            userId,
-            {
-              tipo: "nuevas_compras",
-              mensaje: `Se han encontrado ${nuevasCompras} nuevas compras en tu cuenta de Binance`,
-              nuevasCompras,
-              totalCompras: allBuyTrades.length,
-              timestamp: new Date().toISOString(),
-            }
-          );
-
-          if (notificacionEnviada) {
-            console.log(
-              `📤 Notificación de nuevas compras enviada al usuario ${userId}`
-            );
-          }
-        }
-      } catch (binanceError) {
-        console.error(
-          `❌ Error obteniendo trades de Binance para usuario ${userId}:`,
-          binanceError
-        );
-
-        // Notificar error al usuario
-        webSocketService.enviarNotificacion(userId, {
-          tipo: "error_sincronizacion",
-          mensaje: "Error al sincronizar compras con Binance",
-          error:
-            binanceError instanceof Error
-              ? binanceError.message
-              : "Error desconocido",
-          timestamp: new Date().toISOString(),
-        });
       }
 
       console.log(`✅ Monitoreo de compras completado para ${userId}\n`);
@@ -606,33 +475,204 @@ export class ServicioMonitoreo {
     }
   }
 
-  // Iniciar monitoreo periódico de compras para un usuario
+  // Sincroniza las compras de una cuenta desde ultimoAcceso
+  // @returns null si no se pudo consultar el exchange
+  private async monitorearComprasCuenta(
+    userId: string,
+    conexion: ConexionExchange,
+    ultimoAcceso?: number | string
+  ): Promise<{
+    nuevasCompras: number;
+    comprasActualizadas: number;
+    huboErrores: boolean;
+  } | null> {
+    const { adapter, credentials } = conexion;
+
+    // 2. Obtener todas las compras del usuario desde el exchange usando ultimoAcceso como startTime
+    console.log(
+      `🔄 Obteniendo trades de ${adapter.nombre} (${conexion.nombreCuenta}) para usuario ${userId}...`
+    );
+
+    try {
+      // Convertir ultimoAcceso a timestamp si es string
+      const startTime =
+        typeof ultimoAcceso === "string"
+          ? new Date(ultimoAcceso).getTime()
+          : ultimoAcceso || Date.now() - 24 * 60 * 60 * 1000; // Si no hay ultimoAcceso, usar 24 horas atrás
+
+      const endTime = Date.now();
+
+      console.log(
+        `📅 Buscando compras desde: ${new Date(startTime).toISOString()}`
+      );
+      console.log(`📅 Hasta: ${new Date(endTime).toISOString()}`);
+
+      const trades = await adapter.getAllUserTrades(credentials, {
+        startTime,
+        endTime,
+        limit: 1000, // Puedes ajustar este límite
+      });
+
+      console.log(
+        `📊 Obtenidos ${trades.length} trades de ${adapter.nombre} para usuario ${userId}`
+      );
+
+      // 3. Guardar las compras (una por orden, sin tocar lo ya vendido)
+      let nuevasCompras = 0;
+      let comprasActualizadas = 0;
+      let ventasRegistradas = 0;
+      let huboErrores = false;
+
+      try {
+        const compras = await servicioTrades.guardarCompras(
+          userId,
+          conexion,
+          trades.filter((t) => t.isBuyer)
+        );
+        nuevasCompras = compras.nuevas;
+        comprasActualizadas = compras.actualizadas;
+      } catch (error) {
+        console.error(`❌ Error guardando las compras de ${userId}:`, error);
+        huboErrores = true;
+      }
+
+      // 4. Órdenes abiertas y protecciones (OCO, stop loss...) que se
+      // cerraron mientras no había stream; registran sus ventas contra su
+      // compra, así que van antes que el resto de ventas
+      await servicioOrdenes.sincronizarPendientes(userId, conexion);
+      await servicioProtecciones.sincronizarProtecciones(userId, conexion);
+
+      // 5. Ventas perdidas, repartidas entre los lotes como en el stream
+      try {
+        const ventas = await servicioTrades.guardarVentas(
+          userId,
+          conexion,
+          trades.filter((t) => !t.isBuyer)
+        );
+        ventasRegistradas = ventas.registradas;
+      } catch (error) {
+        console.error(`❌ Error guardando las ventas de ${userId}:`, error);
+        huboErrores = true;
+      }
+
+      // 6. Mostrar resumen
+      console.log(`\n📈 RESUMEN DE SINCRONIZACIÓN PARA ${userId}:`);
+      console.log(`   Total trades obtenidos: ${trades.length}`);
+      console.log(`   Nuevas compras guardadas: ${nuevasCompras}`);
+      console.log(`   Compras actualizadas: ${comprasActualizadas}`);
+      console.log(`   Ventas recuperadas: ${ventasRegistradas}`);
+      console.log(`   Hubo errores: ${huboErrores ? "Sí" : "No"}`);
+
+      // 7. Notificar al usuario vía WebSocket si hay nuevas compras
+      if (nuevasCompras > 0 && !huboErrores) {
+        const notificacionEnviada = webSocketService.enviarNotificacion(
+          userId,
+          {
+            tipo: "nuevas_compras",
+            mensaje: `Se han encontrado ${nuevasCompras} nuevas compras en tu cuenta ${conexion.nombreCuenta} de ${adapter.nombre}`,
+            nuevasCompras,
+            totalCompras: trades.length,
+            timestamp: new Date().toISOString(),
+          }
+        );
+
+        if (notificacionEnviada) {
+          console.log(
+            `📤 Notificación de nuevas compras enviada al usuario ${userId}`
+          );
+        }
+      }
+
+      return { nuevasCompras, comprasActualizadas, huboErrores };
+    } catch (exchangeError) {
+      console.error(
+        `❌ Error obteniendo trades de ${adapter.nombre} para usuario ${userId}:`,
+        exchangeError
+      );
+
+      // Notificar error al usuario
+      webSocketService.enviarNotificacion(userId, {
+        tipo: "error_sincronizacion",
+        mensaje: `Error al sincronizar compras con ${adapter.nombre}`,
+        error:
+          exchangeError instanceof Error
+            ? exchangeError.message
+            : "Error desconocido",
+        timestamp: new Date().toISOString(),
+      });
+      return null;
+    }
+  }
+
+  // Iniciar monitoreo de compras para un usuario: user data stream y, si el
+  // exchange no lo soporta, consulta periódica como hasta ahora
   iniciarMonitoreoCompras(
     userId: string,
     ultimoAcceso: number | string, // Nuevo parámetro: timestamp en ms o string ISO
     intervaloMs: number = 300000
   ): void {
     // Verificar si ya hay un monitoreo activo para este usuario
-    if (this.monitoreosComprasActivos.has(userId)) {
+    if (this.tieneMonitoreoComprasActivo(userId)) {
       console.log(
         `⚠️ Ya existe un monitoreo de compras activo para el usuario ${userId}`
       );
       return;
     }
 
-    console.log(
-      `🚀 Iniciando monitoreo de compras para usuario ${userId} cada ${
-        intervaloMs / 60000
-      } minutos`
-    );
+    console.log(`🚀 Iniciando monitoreo de compras para usuario ${userId}`);
     console.log(
       `📅 Último acceso del usuario: ${new Date(ultimoAcceso).toISOString()}`
     );
 
-    // Ejecutar inmediatamente, pasando el ultimoAcceso
+    // Se marca ya para que una segunda llamada no abra otro stream
+    this.monitoreosPorStream.add(userId);
+
+    // Sincronización inicial por REST de lo ocurrido desde el último acceso
     this.monitorearComprasUsuario(userId, ultimoAcceso);
 
-    // Configurar intervalo periódico
+    servicioUserDataStream
+      .iniciarUsuario(userId, {
+        // Tras una reconexión, recuperar los trades perdidos por REST
+        alReconectar: (desde) => this.monitorearComprasUsuario(userId, desde),
+      })
+      .catch((error) => {
+        console.error(
+          `❌ Error abriendo el user data stream de ${userId}:`,
+          error
+        );
+        return 0;
+      })
+      .then((iniciados) => {
+        // Detenido mientras se abría el stream
+        if (!this.monitoreosPorStream.has(userId)) {
+          servicioUserDataStream.detenerUsuario(userId);
+          return;
+        }
+
+        if (iniciados > 0) {
+          console.log(
+            `📡 Monitoreo de compras de ${userId} por user data stream (${iniciados} conexión/es)`
+          );
+          return;
+        }
+
+        this.monitoreosPorStream.delete(userId);
+        this.iniciarConsultaPeriodica(userId, ultimoAcceso, intervaloMs);
+      });
+  }
+
+  // Consulta periódica de trades por REST (exchanges sin user data stream)
+  private iniciarConsultaPeriodica(
+    userId: string,
+    ultimoAcceso: number | string,
+    intervaloMs: number
+  ): void {
+    console.log(
+      `⏱️ Monitoreo de compras de ${userId} por consulta cada ${
+        intervaloMs / 60000
+      } minutos`
+    );
+
     const intervalo = setInterval(() => {
       this.monitorearComprasUsuario(userId, ultimoAcceso);
     }, intervaloMs);
@@ -640,11 +680,16 @@ export class ServicioMonitoreo {
     // Guardar referencia al intervalo
     this.monitoreosComprasActivos.set(userId, intervalo);
   }
+
   // Detener monitoreo de compras para un usuario específico
   detenerMonitoreoCompras(userId: string): void {
     const intervalo = this.monitoreosComprasActivos.get(userId);
 
-    if (intervalo) {
+    if (this.monitoreosPorStream.has(userId)) {
+      servicioUserDataStream.detenerUsuario(userId);
+      this.monitoreosPorStream.delete(userId);
+      console.log(`🛑 Monitoreo de compras detenido para usuario ${userId}`);
+    } else if (intervalo) {
       clearInterval(intervalo);
       this.monitoreosComprasActivos.delete(userId);
       console.log(`🛑 Monitoreo de compras detenido para usuario ${userId}`);
@@ -662,24 +707,38 @@ export class ServicioMonitoreo {
       console.log(`🛑 Monitoreo detenido para usuario ${userId}`);
     }
 
+    servicioUserDataStream.detenerTodos();
     this.monitoreosComprasActivos.clear();
+    this.monitoreosPorStream.clear();
     console.log("✅ Todos los monitoreos de compras han sido detenidos");
   }
 
   // Verificar si un usuario tiene monitoreo activo
   tieneMonitoreoComprasActivo(userId: string): boolean {
-    return this.monitoreosComprasActivos.has(userId);
+    return (
+      this.monitoreosComprasActivos.has(userId) ||
+      this.monitoreosPorStream.has(userId)
+    );
   }
 
   // Obtener lista de usuarios con monitoreo activo
   obtenerUsuariosConMonitoreoActivo(): string[] {
-    return Array.from(this.monitoreosComprasActivos.keys());
+    return [
+      ...this.monitoreosComprasActivos.keys(),
+      ...this.monitoreosPorStream,
+    ];
   }
 
   //BOT trading
-  activarBot(userId: string, config: Partial<BotConfig> = {}): boolean {
-    if (this.usuariosBotActivos.has(userId)) {
-      console.log(`⚠️ El bot ya está activo para el usuario ${userId}`);
+  activarBot(
+    userId: string,
+    idCuenta: number,
+    config: Partial<BotConfig> = {}
+  ): boolean {
+    if (this.usuariosBotActivos.has(idCuenta)) {
+      console.log(
+        `⚠️ El bot ya está activo en la cuenta ${idCuenta} del usuario ${userId}`
+      );
       return false;
     }
 
@@ -710,33 +769,48 @@ export class ServicioMonitoreo {
       cooldownMinutes: config.cooldownMinutes ?? 5,
       fechaActivacion: new Date().toISOString(),
       maxInversion: config.maxInversion ?? 100, // Valor por defecto si no se envía
+      idCuenta,
+      earnAutomatico: config.earnAutomatico ?? false,
     };
 
-    this.usuariosBotActivos.set(userId, configCompleta);
+    this.usuariosBotActivos.set(idCuenta, { userId, config: configCompleta });
     console.log(
-      `✅ Bot activado para el usuario ${userId} con configuración:`,
+      `✅ Bot activado para el usuario ${userId} en la cuenta ${idCuenta} con configuración:`,
       configCompleta
     );
     return true;
   }
 
-  desactivarBot(userId: string): boolean {
-    return this.usuariosBotActivos.delete(userId);
+  // Sin cuenta se desactivan los bots de todas las cuentas del usuario
+  desactivarBot(userId: string, idCuenta?: number): boolean {
+    const cuentas = [...this.usuariosBotActivos.entries()]
+      .filter(
+        ([id, bot]) =>
+          bot.userId === userId && (idCuenta === undefined || id === idCuenta)
+      )
+      .map(([id]) => id);
+
+    cuentas.forEach((id) => this.usuariosBotActivos.delete(id));
+    return cuentas.length > 0;
   }
 
   obtenerUsuariosActivos(): { userId: string; config: BotConfig }[] {
-    return Array.from(this.usuariosBotActivos.entries()).map(
-      ([userId, config]) => ({
+    return Array.from(this.usuariosBotActivos.values()).map(
+      ({ userId, config }) => ({
         userId,
         config,
       })
     );
   }
 
-  // Obtener configuración del bot para un usuario específico
-  obtenerConfigUsuario(userId: string): BotConfig | null {
-    const config = this.usuariosBotActivos.get(userId);
-    return config ? { ...config } : null;
+  // Obtener configuración del bot de un usuario (de una cuenta o el primero)
+  obtenerConfigUsuario(userId: string, idCuenta?: number): BotConfig | null {
+    const bot = [...this.usuariosBotActivos.values()].find(
+      (b) =>
+        b.userId === userId &&
+        (idCuenta === undefined || b.config.idCuenta === idCuenta)
+    );
+    return bot ? { ...bot.config } : null;
   }
 
   private async ejecutarBotUsuariosActivos() {
@@ -746,51 +820,35 @@ export class ServicioMonitoreo {
     }
 
     console.log(
-      `🤖 Ejecutando bot para ${this.usuariosBotActivos.size} usuario(s) activo(s)...`
+      `🤖 Ejecutando bot en ${this.usuariosBotActivos.size} cuenta(s) activa(s)...`
     );
 
-    const supabase = getSupabaseClient();
-
-    for (const userId of this.usuariosBotActivos.keys()) {
+    for (const [idCuenta, { userId, config }] of this.usuariosBotActivos.entries()) {
       try {
-        const config = this.usuariosBotActivos.get(userId);
-        if (!config) continue;
-
-        // Obtener credenciales de Binance
-        const { data: exchanges, error } = await supabase
-          .from("exchanges")
-          .select("api_key, api_secret")
-          .eq("user_id", userId)
-          .eq("exchange", "BINANCE")
-          .eq("is_active", true)
-          .limit(1);
-
-        if (error || !exchanges || exchanges.length === 0) {
+        // Resolver la cuenta con la que opera el bot
+        const conexion = await servicioExchanges.obtenerConexionUsuario(
+          userId,
+          idCuenta
+        );
+
+        if (!conexion) {
           console.error(
-            `❌ No se encontró exchange Binance activo para usuario ${userId}`
+            `❌ No se encontró la cuenta ${idCuenta} activa para usuario ${userId}`
           );
           continue;
         }
 
-        const exchangeData = exchanges[0];
-        const decryptedApiKey = decrypt(exchangeData.api_key);
-        const decryptedApiSecret = decrypt(exchangeData.api_secret);
-
-        const credentials: BinanceCredentials = {
-          apiKey: decryptedApiKey,
-          apiSecret: decryptedApiSecret,
-        };
-
         // Ejecutar el bot con la configuración completa, incluyendo símbolos
         const result = await servicioBot.executeTrades(
-          credentials,
+          conexion,
           userId,
           config.tradeAmountUSD,
           config.intervals, // Ya es un array, no necesita conversión
           config.simbolos, // <-- Se pasa la lista de símbolos seleccionados
           config.limit,
           config.cooldownMinutes,
-          config.maxInversion
+          config.maxInversion,
+          config.earnAutomatico
         );
 
         console.log(
@@ -818,63 +876,104 @@ export class ServicioMonitoreo {
     }
   }
 
+  // Suscribe en cada host los símbolos/intervalos de los bots activos y
+  // libera los hosts que ya no usa ningún bot
+  private actualizarMercadoBot(
+    adaptersPorHost: Map<string, ExchangeAdapter>,
+    paresUnicos: Set<string>
+  ): void {
+    for (const [host, adapter] of adaptersPorHost.entries()) {
+      const simbolos = new Set<string>();
+      const intervalos = new Set<string>();
+      for (const par of paresUnicos) {
+        const [hostPar, symbol, interval] = par.split("|");
+        if (hostPar !== host) continue;
+        simbolos.add(symbol);
+        intervalos.add(interval);
+      }
+      adapter.suscribirMercado?.(CONSUMIDOR_BOT, [...simbolos], [...intervalos]);
+    }
+
+    for (const [host, adapter] of this.hostsMercadoBot.entries()) {
+      if (!adaptersPorHost.has(host)) {
+        adapter.desuscribirMercado?.(CONSUMIDOR_BOT);
+      }
+    }
+    this.hostsMercadoBot = new Map(adaptersPorHost);
+  }
+
   private async ejecutarBotUsuariosActivos1() {
-    if (this.usuariosBotActivos.size === 0) return;
+    if (this.usuariosBotActivos.size === 0) {
+      this.actualizarMercadoBot(new Map(), new Set());
+      return;
+    }
 
     console.log(
-      `🤖 (Optimizado) Ejecutando bot para ${this.usuariosBotActivos.size} usuario(s)...`
+      `🤖 (Optimizado) Ejecutando bot en ${this.usuariosBotActivos.size} cuenta(s)...`
     );
 
     const supabase = getSupabaseClient();
-    const userIds = Array.from(this.usuariosBotActivos.keys());
+    const idsCuenta = Array.from(this.usuariosBotActivos.keys());
 
-    // ----- 1. OBTENER CREDENCIALES DE TODOS LOS USUARIOS -----
+    // ----- 1. OBTENER CONEXIONES DE TODOS LOS USUARIOS -----
     const { data: exchanges, error } = await supabase
       .from("exchanges")
-      .select("user_id, api_key, api_secret")
-      .eq("exchange", "BINANCE")
+      .select(
+        "id, user_id, exchange, api_key, api_secret, entorno, base_url, nombre, permisos"
+      )
       .eq("is_active", true)
-      .in("user_id", userIds);
+      .in("id", idsCuenta)
+      .order("id", { ascending: true });
 
     if (error) {
       console.error("Error obteniendo credenciales:", error);
       return;
     }
 
-    const credencialesMap = new Map<string, BinanceCredentials>();
+    // Conexión de la cuenta de cada bot, si sigue siendo de su usuario
+    const conexionesMap = new Map<number, ConexionExchange>();
     for (const ex of exchanges) {
+      const bot = this.usuariosBotActivos.get(ex.id);
+      if (!bot || String(bot.userId) !== String(ex.user_id)) continue;
       try {
-        credencialesMap.set(ex.user_id, {
-          apiKey: decrypt(ex.api_key),
-          apiSecret: decrypt(ex.api_secret),
-        });
+        conexionesMap.set(ex.id, servicioExchanges.resolverConexion(ex));
       } catch (e) {
         console.error(
-          `Error descifrando credenciales para usuario ${ex.user_id}:`,
+          `Error resolviendo exchange ${ex.exchange} para usuario ${ex.user_id}:`,
           e
         );
       }
     }
 
-    // ----- 2. RECOPILAR PARES ÚNICOS (símbolo|intervalo) -----
+    // ----- 2. RECOPILAR PARES ÚNICOS (host|símbolo|intervalo) -----
+    // Cada host (mainnet, testnet...) tiene su propio mercado
     const paresUnicos = new Set<string>();
-    const usuariosValidos: string[] = [];
+    const adaptersPorHost = new Map<string, ExchangeAdapter>();
+    const cuentasValidas: number[] = [];
 
-    for (const [userId, config] of this.usuariosBotActivos.entries()) {
-      if (!credencialesMap.has(userId)) {
+    for (const [idCuenta, { userId, config }] of this.usuariosBotActivos.entries()) {
+      const conexion = conexionesMap.get(idCuenta);
+      if (!conexion) {
         console.warn(
-          `Usuario ${userId} no tiene credenciales válidas, se omite`
+          `La cuenta ${idCuenta} del usuario ${userId} no tiene credenciales válidas, se omite`
         );
         continue;
       }
-      usuariosValidos.push(userId);
+      cuentasValidas.push(idCuenta);
+      adaptersPorHost.set(conexion.adapter.baseUrl, conexion.adapter);
       for (const simbolo of config.simbolos) {
+        if (!servicioSimbolos.esValido(simbolo.symbol, "bot")) continue;
         for (const interval of config.intervals) {
-          paresUnicos.add(`${simbolo.symbol}|${interval}`);
+          paresUnicos.add(
+            `${conexion.adapter.baseUrl}|${simbolo.symbol}|${interval}`
+          );
         }
       }
     }
 
+    // Las velas de estos pares se mantienen en memoria con los streams
+    this.actualizarMercadoBot(adaptersPorHost, paresUnicos);
+
     if (paresUnicos.size === 0) {
       console.log("No hay pares válidos para analizar.");
       return;
@@ -882,7 +981,7 @@ export class ServicioMonitoreo {
 
     // ----- 3. OBTENER VELAS PARA CADA PAR ÚNICO (CON LÍMITES DE CONCURRENCIA) -----
     const limit = 100; // O el valor que uses por defecto; podrías cogerlo de la configuración del primer usuario si todos usan el mismo
-    const klinesMap = new Map<string, any[]>(); // clave: `${symbol}|${interval}`
+    const klinesMap = new Map<string, any[]>(); // clave: `${host}|${symbol}|${interval}`
     const paresArray = Array.from(paresUnicos);
     const CONCURRENCIA = 5; // Número de peticiones simultáneas (ajústalo según los límites de Binance)
 
@@ -894,9 +993,10 @@ export class ServicioMonitoreo {
       const lote = paresArray.slice(i, i + CONCURRENCIA);
       const resultados = await Promise.allSettled(
         lote.map(async (par) => {
-          const [symbol, interval] = par.split("|");
+          const [host, symbol, interval] = par.split("|");
+          const adapter = adaptersPorHost.get(host)!;
           // Usamos el mismo limit para todos; si cada usuario pudiera tener un limit diferente, habría que ajustarlo
-          const klines = await binanceService.getKlines(
+          const klines = await adapter.getKlines(
             symbol,
             interval,
             limit
@@ -956,11 +1056,11 @@ export class ServicioMonitoreo {
 
     console.log(`✅ indicadores obtenidos. procesando señales por usuario`);
 
-    // ----- 5. PROCESAR CADA USUARIO -----
-    for (const userId of usuariosValidos) {
-      console.log(`Procesando usuario ${userId}`);
-      const config = this.usuariosBotActivos.get(userId)!;
-      const creds = credencialesMap.get(userId)!;
+    // ----- 5. PROCESAR CADA CUENTA -----
+    for (const idCuenta of cuentasValidas) {
+      const { userId, config } = this.usuariosBotActivos.get(idCuenta)!;
+      console.log(`Procesando usuario ${userId} (cuenta ${idCuenta})`);
+      const conexion = conexionesMap.get(idCuenta)!;
       const cooldownMs = config.cooldownMinutes * 60 * 1000;
       const totalIntervalos = config.intervals.length; // Todos los símbolos usan los mismos intervalos
 
@@ -969,12 +1069,18 @@ export class ServicioMonitoreo {
       // Procesar cada símbolo del usuario
       for (const simboloConfig of config.simbolos) {
         const symbol = simboloConfig.symbol;
+
+        // Desactivado en el registro después de arrancar el bot
+        if (!servicioSimbolos.esValido(symbol, "bot")) {
+          console.log(`⏸️ ${symbol} sin bot activo en el registro, se omite`);
+          continue;
+        }
         let sumaConfianzaCompra = 0;
         let sumaConfianzaVenta = 0;
 
         // Evaluar cada intervalo para este símbolo
         for (const interval of config.intervals) {
-          const key = `${symbol}|${interval}`;
+          const key = `${conexion.adapter.baseUrl}|${symbol}|${interval}`;
           const indicadores = indicadoresGlobales.get(key);
           if (!indicadores) {
             console.warn(`No hay indicadores para ${key}, se omite`);
@@ -1028,15 +1134,16 @@ export class ServicioMonitoreo {
 
         // Ejecutar orden
         const resultado = await servicioBot.ejecutarOrdenSegunSenial(
-          creds,
+          conexion,
           userId,
           symbol,
           { action: accionFinal, confidence: confianzaFinal },
           config.tradeAmountUSD,
           config.maxInversion,
+          cooldownMs,
           simboloConfig.lowerLimit,
           simboloConfig.upperLimit,
-          cooldownMs
+          config.earnAutomatico
         );
 
         if (resultado?.success) {
@@ -1044,6 +1151,14 @@ export class ServicioMonitoreo {
         }
       }
 
+      // Lo que quede libre tras las operaciones vuelve a Earn
+      if (config.earnAutomatico) {
+        await servicioBot.aparcarSaldoLibre(
+          conexion,
+          config.simbolos.map((s) => s.symbol)
+        );
+      }
+
       // Notificar al usuario si hubo operaciones
       if (resultadosUsuario.length > 0) {
         webSocketService.enviarNotificacion(userId, {
@@ -0,0 +1,498 @@
+// servicios/servicioMovimientos.ts
+
+/**
+ * DEPÓSITOS Y RETIROS
+ *
+ * Importa el historial de depósitos y retiros del exchange a la tabla
+ * "movimientos" para poder separar lo que gana la cartera del dinero que
+ * mete o saca el usuario:
+ * 1. La sincronización recorre el historial en tramos de 90 días (el máximo
+ *    de Binance) y guarda un cursor por tipo tras cada tramo, así que si se
+ *    corta continúa donde lo dejó
+ * 2. Los movimientos aún pendientes se vuelven a consultar hasta cerrarse
+ * 3. Cada movimiento se valora en USD al precio de su fecha
+ *
+ * Con esos flujos, generarInforme calcula la aportación neta y las
+ * rentabilidades TWR y MWR de un periodo. El TWR se encadena en cada
+ * valoración guardada (snapshots de cartera) que se le pase.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { servicioCursores } from "./servicioCursores.js";
+import { ACTIVOS_ESTABLES_USD } from "./servicioBinance.js";
+import {
+  calcularMWRAnual,
+  calcularTWR,
+  FlujoCaja,
+  tasaDelPeriodo,
+  Valoracion,
+} from "../lib/rendimiento.js";
+import {
+  ConexionExchange,
+  ExchangeAdapter,
+} from "../interfaces/exchange.types.js";
+import {
+  DepositoBinance,
+  RetiroBinance,
+} from "../interfaces/binance.types.js";
+import {
+  InformeRendimiento,
+  Movimiento,
+  ResultadoSincronizacionMovimientos,
+} from "../interfaces/comun.types.js";
+
+type TipoMovimiento = Movimiento["tipo"];
+
+// Lo que llega del exchange, antes de guardarlo
+type MovimientoExchange = Pick<
+  Movimiento,
+  | "tipo"
+  | "idExterno"
+  | "activo"
+  | "cantidad"
+  | "comision"
+  | "red"
+  | "txId"
+  | "estado"
+> & { fechaMs: number };
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+// Un flujo con una valoración a menos de esto se da por valorado: los
+// snapshots son horarios
+const MARGEN_VALORACION_MS = 60 * 60 * 1000;
+
+// Binance no deja pedir más de 90 días por consulta
+const VENTANA_MS = 89 * DIA_MS;
+
+// Primera sincronización: desde la apertura de Binance (julio de 2017)
+const INICIO_HISTORIAL_MS = Date.UTC(2017, 6, 1);
+
+// Cada pasada repasa la última hora por si algún movimiento tardó en aparecer
+const SOLAPE_MS = 60 * 60 * 1000;
+
+const LIMITE_PAGINA = 1000;
+
+// Filas por petición a la base de datos: PostgREST no devuelve más de 1000
+const TAMANO_PAGINA = 1000;
+
+// Usuarios con una sincronización en marcha
+const sincronizando: Set<string> = new Set();
+
+function estadoDeposito(status: number): Movimiento["estado"] {
+  // 6: abonado aunque aún no se pueda retirar
+  if (status === 1 || status === 6) return "COMPLETADO";
+  if (status === 0 || status === 8) return "PENDIENTE";
+  return "FALLIDO";
+}
+
+function estadoRetiro(status: number): Movimiento["estado"] {
+  if (status === 6) return "COMPLETADO";
+  if (status === 0 || status === 2 || status === 4) return "PENDIENTE";
+  return "FALLIDO";
+}
+
+function normalizarDeposito(deposito: DepositoBinance): MovimientoExchange {
+  return {
+    tipo: "DEPOSITO",
+    idExterno: deposito.id.toString(),
+    activo: deposito.coin,
+    cantidad: parseFloat(deposito.amount),
+    comision: 0,
+    red: deposito.network || null,
+    txId: deposito.txId || null,
+    estado: estadoDeposito(deposito.status),
+    fechaMs: deposito.insertTime,
+  };
+}
+
+function normalizarRetiro(retiro: RetiroBinance): MovimientoExchange {
+  return {
+    tipo: "RETIRO",
+    idExterno: retiro.id.toString(),
+    activo: retiro.coin,
+    cantidad: parseFloat(retiro.amount),
+    comision: parseFloat(retiro.transactionFee) || 0,
+    red: retiro.network || null,
+    txId: retiro.txId || null,
+    estado: estadoRetiro(retiro.status),
+    // applyTime viene como "2024-01-31 10:00:00" en UTC
+    fechaMs: Date.parse(`${retiro.applyTime.replace(" ", "T")}Z`),
+  };
+}
+
+/**
+ * Valor en USD de una cantidad de un activo en una fecha
+ * @returns null si no hay pares con los que valorarlo
+ */
+async function valorarEnUSD(
+  adapter: ExchangeAdapter,
+  activo: string,
+  cantidad: number,
+  fechaMs: number
+): Promise<number | null> {
+  if (ACTIVOS_ESTABLES_USD.includes(activo)) return cantidad;
+
+  try {
+    const precio = await adapter.getPrecioEnFecha(activo, "USD", fechaMs);
+    if (precio === null) {
+      console.warn(`⚠️ Sin precio USD de ${activo} para valorar el movimiento`);
+      return null;
+    }
+    return cantidad * precio;
+  } catch (error) {
+    console.warn(`⚠️ Sin precio USD de ${activo} para valorar el movimiento`);
+    return null;
+  }
+}
+
+/**
+ * Inserta el movimiento o actualiza su estado si ya estaba guardado
+ */
+async function guardarMovimiento(
+  userId: string,
+  conexion: ConexionExchange,
+  movimiento: MovimientoExchange
+): Promise<"nuevo" | "actualizado" | null> {
+  const supabase = getSupabaseClient();
+  const { adapter } = conexion;
+  const { fechaMs, ...datos } = movimiento;
+  const fechaActualizacion = new Date().toISOString();
+
+  const { data: existente, error: errorConsulta } = await supabase
+    .from("movimientos")
+    .select("id, estado, valorUSD")
+    .eq("idUsuario", userId)
+    .eq("idCuenta", conexion.id)
+    .eq("tipo", movimiento.tipo)
+    .eq("idExterno", movimiento.idExterno)
+    .maybeSingle();
+
+  if (errorConsulta) {
+    throw new Error(
+      `Error buscando el movimiento ${movimiento.idExterno}: ${
+        errorConsulta.message
+      }`
+    );
+  }
+
+  // El retiro sale entero de la cartera, comisión de red incluida. Se valora
+  // con los mismos precios que los balances y snapshots de la cuenta
+  const valorar = () =>
+    valorarEnUSD(
+      adapter.mercadoValoracion(),
+      movimiento.activo,
+      movimiento.cantidad + movimiento.comision,
+      fechaMs
+    );
+
+  if (existente) {
+    if (existente.estado === movimiento.estado && existente.valorUSD !== null) {
+      return null;
+    }
+
+    const { error } = await supabase
+      .from("movimientos")
+      .update({
+        estado: movimiento.estado,
+        txId: movimiento.txId,
+        valorUSD: existente.valorUSD ?? (await valorar()),
+        fechaActualizacion,
+      })
+      .eq("id", existente.id);
+
+    if (error) {
+      throw new Error(
+        `Error actualizando el movimiento ${movimiento.idExterno}: ${error.message}`
+      );
+    }
+    return "actualizado";
+  }
+
+  const { error } = await supabase.from("movimientos").insert([
+    {
+      ...datos,
+      idUsuario: userId,
+      idCuenta: conexion.id,
+      exchange: adapter.nombre,
+      valorUSD: await valorar(),
+      fecha: new Date(fechaMs).toISOString(),
+      fechaActualizacion,
+    },
+  ]);
+
+  if (error) {
+    throw new Error(
+      `Error guardando el movimiento ${movimiento.idExterno}: ${error.message}`
+    );
+  }
+  return "nuevo";
+}
+
+export const servicioMovimientos = {
+  /**
+   * Importa los depósitos y retiros nuevos (o que han cambiado de estado)
+   * desde donde se quedó la última sincronización
+   */
+  async sincronizarMovimientos(
+    userId: string,
+    conexion: ConexionExchange
+  ): Promise<ResultadoSincronizacionMovimientos> {
+    const clave = `${userId}:${conexion.id}`;
+
+    if (sincronizando.has(clave)) {
+      throw new Error("Ya hay una sincronización de movimientos en curso");
+    }
+    sincronizando.add(clave);
+
+    const resultado: ResultadoSincronizacionMovimientos = {
+      nuevos: 0,
+      actualizados: 0,
+      completo: true,
+    };
+
+    try {
+      for (const tipo of ["DEPOSITO", "RETIRO"] as TipoMovimiento[]) {
+        await this.sincronizarTipo(userId, conexion, tipo, resultado);
+      }
+      console.log(
+        `✅ Movimientos de ${userId}: ${resultado.nuevos} nuevos, ${resultado.actualizados} actualizados`
+      );
+    } catch (error) {
+      resultado.completo = false;
+      resultado.error = error instanceof Error ? error.message : String(error);
+      console.error(
+        `❌ Sincronización de movimientos de ${userId} cortada:`,
+        error
+      );
+    } finally {
+      sincronizando.delete(clave);
+    }
+
+    return resultado;
+  },
+
+  async sincronizarTipo(
+    userId: string,
+    conexion: ConexionExchange,
+    tipo: TipoMovimiento,
+    resultado: ResultadoSincronizacionMovimientos
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+    const claveCursor = `movimientos:${tipo}`;
+
+    const cursor = await servicioCursores.leer(
+      userId,
+      conexion.id,
+      claveCursor
+    );
+    let inicio =
+      cursor !== null ? Math.max(cursor - SOLAPE_MS, 0) : INICIO_HISTORIAL_MS;
+
+    // Volver atrás hasta el pendiente más antiguo para ver si ya se cerró
+    const { data: pendiente } = await supabase
+      .from("movimientos")
+      .select("fecha")
+      .eq("idUsuario", userId)
+      .eq("idCuenta", conexion.id)
+      .eq("tipo", tipo)
+      .eq("estado", "PENDIENTE")
+      .order("fecha", { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (pendiente) {
+      inicio = Math.min(inicio, new Date(pendiente.fecha).getTime());
+    }
+
+    const ahora = Date.now();
+    while (inicio < ahora) {
+      const fin = Math.min(inicio + VENTANA_MS, ahora);
+
+      for (let offset = 0; ; offset += LIMITE_PAGINA) {
+        const params = {
+          startTime: inicio,
+          endTime: fin,
+          offset,
+          limit: LIMITE_PAGINA,
+        };
+        const pagina =
+          tipo === "DEPOSITO"
+            ? (await adapter.getDepositHistory(credentials, params)).map(
+                normalizarDeposito
+              )
+            : (await adapter.getWithdrawHistory(credentials, params)).map(
+                normalizarRetiro
+              );
+
+        for (const movimiento of pagina) {
+          const cambio = await guardarMovimiento(userId, conexion, movimiento);
+          if (cambio === "nuevo") resultado.nuevos++;
+          if (cambio === "actualizado") resultado.actualizados++;
+        }
+
+        if (pagina.length < LIMITE_PAGINA) break;
+      }
+
+      // Tramo terminado: si algo falla después, se retoma desde aquí
+      await servicioCursores.guardar(userId, conexion.id, claveCursor, fin);
+      inicio = fin + 1;
+    }
+  },
+
+  /**
+   * Movimientos en orden de fecha, leídos por páginas
+   */
+  async obtenerMovimientos(
+    userId: string,
+    filtros: {
+      exchange?: string;
+      idCuentas?: number[];
+      tipo?: TipoMovimiento;
+      desde?: string;
+      hasta?: string;
+    } = {}
+  ): Promise<Movimiento[]> {
+    const supabase = getSupabaseClient();
+    const movimientos: Movimiento[] = [];
+
+    for (let desde = 0; ; desde += TAMANO_PAGINA) {
+      let query = supabase
+        .from("movimientos")
+        .select("*")
+        .eq("idUsuario", userId);
+
+      if (filtros.exchange) query = query.eq("exchange", filtros.exchange);
+      if (filtros.idCuentas) query = query.in("idCuenta", filtros.idCuentas);
+      if (filtros.tipo) query = query.eq("tipo", filtros.tipo);
+      if (filtros.desde) query = query.gte("fecha", filtros.desde);
+      if (filtros.hasta) query = query.lte("fecha", filtros.hasta);
+
+      const { data, error } = await query
+        .order("fecha", { ascending: true })
+        .order("id", { ascending: true })
+        .range(desde, desde + TAMANO_PAGINA - 1);
+
+      if (error) {
+        throw new Error(`Error al obtener movimientos: ${error.message}`);
+      }
+
+      movimientos.push(...(data || []));
+      if (!data || data.length < TAMANO_PAGINA) return movimientos;
+    }
+  },
+
+  /**
+   * Aportación neta y rentabilidad de una o varias cuentas en un periodo
+   * @param conexiones Cuentas que forman la cartera
+   * @param opciones.valorInicial Valor de la cartera en "desde" (0 si se
+   *   mide desde el primer movimiento)
+   * @param opciones.valorFinal Valor en "hasta" (por defecto, el balance
+   *   actual sumando todas las cuentas)
+   * @param opciones.valoraciones Valor de la cartera en fechas intermedias
+   *   (snapshots): el TWR se encadena en cada una
+   */
+  async generarInforme(
+    userId: string,
+    conexiones: ConexionExchange[],
+    opciones: {
+      desde?: string;
+      hasta?: string;
+      valorInicial?: number;
+      valorFinal?: number;
+      valoraciones?: Valoracion[];
+    } = {}
+  ): Promise<InformeRendimiento> {
+    const movimientos = (
+      await this.obtenerMovimientos(userId, {
+        idCuentas: conexiones.map((c) => c.id),
+        desde: opciones.desde,
+        hasta: opciones.hasta,
+      })
+    ).filter((m) => m.estado === "COMPLETADO");
+
+    const valorados = movimientos.filter((m) => m.valorUSD !== null);
+    const flujos: FlujoCaja[] = valorados.map((m) => ({
+      fecha: new Date(m.fecha).getTime(),
+      importe: m.tipo === "DEPOSITO" ? Number(m.valorUSD) : -Number(m.valorUSD),
+    }));
+
+    const fin = opciones.hasta ? new Date(opciones.hasta).getTime() : Date.now();
+    // Sin "desde", justo antes del primer movimiento, con la cartera vacía
+    const inicio = opciones.desde
+      ? new Date(opciones.desde).getTime()
+      : flujos.length > 0
+      ? flujos[0].fecha - 1
+      : fin;
+
+    const valorInicial = opciones.valorInicial ?? 0;
+    let valorFinal = opciones.valorFinal;
+    if (valorFinal === undefined) {
+      const balances = await Promise.all(
+        conexiones.map((c) => c.adapter.getTotalUSDBalance(c.credentials))
+      );
+      valorFinal = balances.reduce((suma, b) => suma + b, 0);
+    }
+
+    const aportaciones = flujos
+      .filter((f) => f.importe > 0)
+      .reduce((suma, f) => suma + f.importe, 0);
+    const retiradas = -flujos
+      .filter((f) => f.importe < 0)
+      .reduce((suma, f) => suma + f.importe, 0);
+    const aportacionNeta = aportaciones - retiradas;
+
+    const valoracionInicial = { fecha: inicio, valor: valorInicial };
+    const valoracionFinal = { fecha: fin, valor: valorFinal };
+
+    const valoraciones = [
+      valoracionInicial,
+      ...(opciones.valoraciones || []).filter(
+        (v) => v.fecha > inicio && v.fecha < fin
+      ),
+      valoracionFinal,
+    ];
+
+    // Entre valoraciones se usa Modified Dietz: solo es exacto si cada flujo
+    // tiene una valoración justo después
+    const twr = calcularTWR(valoraciones, flujos);
+    const twrAproximado = flujos.some(
+      (f) =>
+        f.fecha > inicio &&
+        f.fecha < fin &&
+        !valoraciones.some(
+          (v) => v.fecha >= f.fecha && v.fecha - f.fecha <= MARGEN_VALORACION_MS
+        )
+    );
+    const mwrAnualizado = calcularMWRAnual(
+      valoracionInicial,
+      valoracionFinal,
+      flujos
+    );
+
+    const redondear = (valor: number) => parseFloat(valor.toFixed(2));
+    const redondearTasa = (valor: number | null) =>
+      valor === null ? null : parseFloat(valor.toFixed(6));
+
+    return {
+      desde: new Date(inicio).toISOString(),
+      hasta: new Date(fin).toISOString(),
+      valorInicial: redondear(valorInicial),
+      valorFinal: redondear(valorFinal),
+      aportaciones: redondear(aportaciones),
+      retiradas: redondear(retiradas),
+      aportacionNeta: redondear(aportacionNeta),
+      ganancia: redondear(valorFinal - valorInicial - aportacionNeta),
+      twr: redondearTasa(twr),
+      twrAproximado,
+      valoraciones: valoraciones.length,
+      mwr: redondearTasa(
+        mwrAnualizado === null ? null : tasaDelPeriodo(mwrAnualizado, fin - inicio)
+      ),
+      mwrAnualizado: redondearTasa(mwrAnualizado),
+      movimientos: movimientos.length,
+      sinValorar: movimientos.length - valorados.length,
+    };
+  },
+};
@@ -0,0 +1,309 @@
+// servicios/servicioOrdenes.ts
+
+/**
+ * GESTIÓN DE ÓRDENES ABIERTAS
+ *
+ * Las órdenes lanzadas desde la aplicación que no se ejecutan al momento
+ * (LIMIT, condicionales) se guardan en la tabla "ordenesPendientes"
+ * mientras sigan abiertas en el exchange. Con esa tabla:
+ * 1. La interfaz sabe qué órdenes siguen trabajando
+ * 2. La sincronización REST las da por terminadas si se cerraron sin stream
+ *
+ * Sus fills no se guardan aquí: las compras llevan PREFIJO_ORDEN_PENDIENTE y
+ * las registra el user data stream; las ventas, su protección.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { webSocketService } from "./servicioWebSocket.js";
+import { servicioProtecciones } from "./servicioProtecciones.js";
+import {
+  generarClientOrderId,
+  PREFIJO_ORDEN_PENDIENTE,
+} from "./servicioBinance.js";
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import {
+  BinanceOrder,
+  CancelReplaceParams,
+  CancelReplaceResponse,
+  ExecutionReportEvent,
+  OrderResponse,
+  ReferenciaOrden,
+} from "../interfaces/binance.types.js";
+import { OrdenPendiente } from "../interfaces/comun.types.js";
+
+const ESTADOS_ABIERTA = ["NEW", "PARTIALLY_FILLED", "PENDING_NEW"];
+
+async function eliminarPendiente(userId: string, orderId: number): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from("ordenesPendientes")
+    .delete()
+    .eq("idUsuario", userId)
+    .eq("idOrden", orderId);
+
+  if (error) {
+    console.error(`❌ Error eliminando la orden pendiente ${orderId}:`, error);
+  }
+}
+
+export const servicioOrdenes = {
+  /**
+   * Guarda una orden recién colocada si sigue abierta
+   * @param idCompra compra a la que pertenece (solo ventas)
+   */
+  async registrarPendiente(
+    userId: string,
+    conexion: ConexionExchange,
+    orden: BinanceOrder,
+    idCompra: number | null = null
+  ): Promise<OrdenPendiente | null> {
+    if (!ESTADOS_ABIERTA.includes(orden.status)) return null;
+
+    const supabase = getSupabaseClient();
+    const ahora = new Date().toISOString();
+
+    const { data, error } = await supabase
+      .from("ordenesPendientes")
+      .insert([
+        {
+          idUsuario: userId,
+          exchange: conexion.adapter.nombre,
+          idCuenta: conexion.id,
+          simbolo: orden.symbol,
+          idOrden: orden.orderId,
+          idOrdenCliente: orden.clientOrderId,
+          idCompra,
+          lado: orden.side,
+          tipo: orden.type,
+          precio: parseFloat(orden.price) || null,
+          precioStop: orden.stopPrice ? parseFloat(orden.stopPrice) : null,
+          cantidad: parseFloat(orden.origQty),
+          cantidadEjecutada: parseFloat(orden.executedQty) || 0,
+          estado: orden.status,
+          fechaCreacion: new Date(orden.transactTime || Date.now()).toISOString(),
+          fechaActualizacion: ahora,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error(`❌ Error guardando la orden pendiente ${orden.orderId}:`, error);
+      return null;
+    }
+
+    console.log(`📌 Orden ${orden.orderId} (${orden.type} ${orden.side}) pendiente`);
+    return data;
+  },
+
+  async obtenerPendientes(
+    userId: string,
+    simbolo?: string,
+    idCuenta?: number
+  ): Promise<OrdenPendiente[]> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from("ordenesPendientes")
+      .select("*")
+      .eq("idUsuario", userId);
+
+    if (simbolo) {
+      query = query.eq("simbolo", simbolo.toUpperCase());
+    }
+    if (idCuenta !== undefined) {
+      query = query.eq("idCuenta", idCuenta);
+    }
+
+    const { data, error } = await query.order("fechaCreacion", {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new Error(`Error al obtener órdenes pendientes: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  /**
+   * executionReport de una orden: actualiza o elimina su fila pendiente
+   */
+  async procesarEjecucion(
+    userId: string,
+    evento: ExecutionReportEvent
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const { data: pendiente, error } = await supabase
+      .from("ordenesPendientes")
+      .select("id")
+      .eq("idUsuario", userId)
+      .eq("idOrden", evento.i)
+      .maybeSingle();
+
+    if (error) {
+      console.error(`❌ Error buscando la orden pendiente ${evento.i}:`, error);
+      return;
+    }
+    if (!pendiente) return;
+
+    if (ESTADOS_ABIERTA.includes(evento.X)) {
+      await supabase
+        .from("ordenesPendientes")
+        .update({
+          estado: evento.X,
+          cantidadEjecutada: parseFloat(evento.z),
+          fechaActualizacion: new Date(evento.E).toISOString(),
+        })
+        .eq("id", pendiente.id);
+    } else {
+      await eliminarPendiente(userId, evento.i);
+    }
+  },
+
+  /**
+   * Revisa por REST las órdenes pendientes (sin stream o tras reconectar).
+   * Los fills de las compras los recoge la sincronización de trades
+   */
+  async sincronizarPendientes(
+    userId: string,
+    conexion: ConexionExchange
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+
+    const { data: pendientes, error } = await supabase
+      .from("ordenesPendientes")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("idCuenta", conexion.id);
+
+    if (error) {
+      console.error(`❌ Error obteniendo órdenes pendientes de ${userId}:`, error);
+      return;
+    }
+
+    for (const pendiente of (pendientes || []) as OrdenPendiente[]) {
+      try {
+        const orden = await adapter.getOrder(
+          credentials,
+          pendiente.simbolo,
+          pendiente.idOrden
+        );
+
+        if (!ESTADOS_ABIERTA.includes(orden.status)) {
+          await eliminarPendiente(userId, pendiente.idOrden);
+          console.log(`📌 Orden ${pendiente.idOrden} terminada (${orden.status})`);
+        } else if (parseFloat(orden.executedQty) !== pendiente.cantidadEjecutada) {
+          await supabase
+            .from("ordenesPendientes")
+            .update({
+              estado: orden.status,
+              cantidadEjecutada: parseFloat(orden.executedQty),
+              fechaActualizacion: new Date().toISOString(),
+            })
+            .eq("id", pendiente.id);
+        }
+      } catch (error) {
+        console.error(
+          `❌ Error sincronizando la orden pendiente ${pendiente.idOrden}:`,
+          error
+        );
+      }
+    }
+  },
+
+  async cancelarOrden(
+    userId: string,
+    conexion: ConexionExchange,
+    simbolo: string,
+    referencia: ReferenciaOrden
+  ): Promise<OrderResponse> {
+    const { adapter, credentials } = conexion;
+    const result = await adapter.cancelOrder(credentials, simbolo, referencia);
+
+    if (result.success && result.order) {
+      await eliminarPendiente(userId, result.order.orderId);
+    }
+    return result;
+  },
+
+  /**
+   * Cancela todas las órdenes abiertas de un símbolo
+   */
+  async cancelarTodas(
+    userId: string,
+    conexion: ConexionExchange,
+    simbolo: string
+  ): Promise<BinanceOrder[]> {
+    const { adapter, credentials } = conexion;
+    const canceladas = await adapter.cancelAllOrders(credentials, simbolo);
+
+    for (const orden of canceladas) {
+      await eliminarPendiente(userId, orden.orderId);
+    }
+
+    webSocketService.enviarNotificacion(userId, {
+      tipo: "ordenes_canceladas",
+      mensaje: `Se han cancelado ${canceladas.length} órdenes de ${simbolo}`,
+      simbolo,
+      ordenes: canceladas.map((o) => o.orderId),
+      timestamp: new Date().toISOString(),
+    });
+
+    return canceladas;
+  },
+
+  /**
+   * Sustituye una orden abierta por otra (precio o cantidad nuevos) sin
+   * perder la compra ni la protección a la que pertenece
+   */
+  async reemplazarOrden(
+    userId: string,
+    conexion: ConexionExchange,
+    params: CancelReplaceParams
+  ): Promise<CancelReplaceResponse> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+
+    const actual = await adapter.getOrder(credentials, params.symbol, params.cancelar);
+    const { data: pendiente } = await supabase
+      .from("ordenesPendientes")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("idOrden", actual.orderId)
+      .maybeSingle();
+
+    servicioProtecciones.iniciarReemplazo(actual.orderId);
+    const result = await adapter.cancelReplaceOrder(credentials, {
+      ...params,
+      cancelar: { orderId: actual.orderId },
+      // Como en /buy, la compra nueva la registra el user data stream
+      newClientOrderId:
+        params.side === "BUY"
+          ? generarClientOrderId(PREFIJO_ORDEN_PENDIENTE)
+          : undefined,
+    });
+    await servicioProtecciones.terminarReemplazo(
+      userId,
+      adapter,
+      actual.orderId,
+      result.newOrder || null,
+      result.cancelResult === "SUCCESS"
+    );
+
+    if (result.cancelResult === "SUCCESS") {
+      await eliminarPendiente(userId, actual.orderId);
+    }
+    if (result.newOrder) {
+      await this.registrarPendiente(
+        userId,
+        conexion,
+        result.newOrder,
+        pendiente?.idCompra ?? null
+      );
+    }
+
+    return result;
+  },
+};
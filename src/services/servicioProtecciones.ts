@@ -0,0 +1,780 @@
+// servicios/servicioProtecciones.ts
+
+/**
+ * PROTECCIONES DE COMPRAS (OCO Y ÓRDENES CONDICIONALES)
+ *
+ * Una protección es una OCO (take profit + stop loss), una orden
+ * condicional o una venta límite ligada a una fila de "compras". Se guardan en la
+ * tabla "protecciones" y, cuando una de sus órdenes se ejecuta, se registra
+ * la venta y la compra se marca como vendida:
+ * 1. En tiempo real con los eventos del user data stream
+ * 2. Por REST (sincronizarProtecciones) si no hay stream o tras reconectar
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { webSocketService } from "./servicioWebSocket.js";
+import {
+  ConexionExchange,
+  ExchangeAdapter,
+} from "../interfaces/exchange.types.js";
+import {
+  BinanceOrder,
+  ExecutionReportEvent,
+  ListStatusEvent,
+} from "../interfaces/binance.types.js";
+import {
+  ComisionNormalizada,
+  Proteccion,
+  ResultadoProteccion,
+} from "../interfaces/comun.types.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import { servicioLotes } from "./servicioLotes.js";
+
+// Tolerancia al comparar cantidades
+const TOLERANCIA_CANTIDAD = 1e-8;
+
+const ESTADOS_FINALES = ["CANCELED", "EXPIRED", "REJECTED", "EXPIRED_IN_MATCH"];
+
+// Órdenes en pleno cancel-replace: su cancelación no cierra la protección
+const ordenesEnReemplazo: Set<number> = new Set();
+
+/**
+ * Parte de la comisión de una orden o fill que corresponde a lo registrado
+ */
+function parteComision(comision: ComisionNormalizada, parte: number) {
+  return {
+    comision: comision.comision * parte,
+    comisionMoneda: comision.comisionMoneda,
+    comisionCotizacion:
+      comision.comisionCotizacion === null
+        ? null
+        : comision.comisionCotizacion * parte,
+  };
+}
+
+/**
+ * Registra contra la compra protegida la venta de una parte; el emparejador
+ * de lotes la marca como vendida si ya no queda nada
+ */
+async function registrarVenta(
+  proteccion: Proteccion,
+  venta: {
+    cantidad: number;
+    precio: number;
+    comision: number;
+    comisionMoneda: string;
+    comisionCotizacion: number | null;
+    fecha: number;
+    idOrden?: string | number;
+    idFill?: string; // cantidad ejecutada de la orden hasta esta parte
+  }
+): Promise<void> {
+  try {
+    const resultado = await servicioLotes.registrarVenta({
+      idUsuario: proteccion.idUsuario,
+      exchange: proteccion.exchange,
+      idCuenta: proteccion.idCuenta,
+      simbolo: proteccion.simbolo,
+      cantidad: venta.cantidad,
+      precioVenta: venta.precio,
+      comision: venta,
+      fecha: venta.fecha,
+      metodo: "ESPECIFICO",
+      idsCompra: [proteccion.idCompra],
+      idOrden: venta.idOrden?.toString(),
+      idFill: venta.idFill,
+    });
+
+    if (resultado.sinAsignar > 0) {
+      console.error(
+        `❌ Compra ${proteccion.idCompra} de la protección ${proteccion.id} sin cantidad por vender: ${resultado.sinAsignar} guardados sin lote`
+      );
+    }
+  } catch (error) {
+    console.error(
+      `❌ Error guardando venta de la protección ${proteccion.id}:`,
+      error
+    );
+  }
+}
+
+async function cerrarProteccion(
+  proteccion: Proteccion,
+  datos: Partial<Proteccion>
+): Promise<void> {
+  const supabase = getSupabaseClient();
+  const { error } = await supabase
+    .from("protecciones")
+    .update({ ...datos, fechaCierre: new Date().toISOString() })
+    .eq("id", proteccion.id);
+
+  if (error) {
+    console.error(`❌ Error cerrando la protección ${proteccion.id}:`, error);
+    return;
+  }
+
+  webSocketService.enviarNotificacion(proteccion.idUsuario, {
+    tipo:
+      datos.estado === "ejecutada"
+        ? "proteccion_ejecutada"
+        : "proteccion_cancelada",
+    mensaje:
+      datos.estado === "ejecutada"
+        ? `Se ha ejecutado el ${
+            datos.ladoEjecutado === "stop" ? "stop loss" : "take profit"
+          } de ${proteccion.simbolo}`
+        : `La protección de ${proteccion.simbolo} ya no está activa`,
+    idCompra: proteccion.idCompra,
+    idProteccion: proteccion.id,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function ladoDeOrden(
+  proteccion: Proteccion,
+  orderId: number,
+  tipoOrden?: string
+): "objetivo" | "stop" {
+  if (proteccion.idOrdenObjetivo === orderId) return "objetivo";
+  if (proteccion.idOrdenStop === orderId) return "stop";
+  return tipoOrden?.startsWith("STOP_LOSS") ? "stop" : "objetivo";
+}
+
+/**
+ * Columnas de una protección que salen de una orden de venta suelta
+ */
+function datosOrdenVenta(orden: BinanceOrder) {
+  const esStop = orden.type.startsWith("STOP_LOSS");
+  const esLimite = orden.type === "LIMIT" || orden.type === "LIMIT_MAKER";
+  const stopPrice = orden.stopPrice ? parseFloat(orden.stopPrice) : null;
+
+  return {
+    tipo: orden.type,
+    idOrdenObjetivo: esStop ? null : orden.orderId,
+    idOrdenStop: esStop ? orden.orderId : null,
+    precioObjetivo: esStop
+      ? null
+      : esLimite
+      ? parseFloat(orden.price)
+      : stopPrice,
+    precioStop: esStop ? stopPrice : null,
+    precioStopLimite: orden.type.endsWith("_LIMIT")
+      ? parseFloat(orden.price)
+      : null,
+    cantidad: parseFloat(orden.origQty),
+    cantidadEjecutada: 0,
+  };
+}
+
+/**
+ * Registra la parte de una orden que ya se ejecutó al colocarla
+ */
+async function registrarEjecutadoAlColocar(
+  proteccion: Proteccion,
+  orden: BinanceOrder,
+  adapter: ExchangeAdapter
+): Promise<void> {
+  const ejecutada = parseFloat(orden.executedQty);
+  if (!(ejecutada > 0)) return;
+
+  const fecha = orden.transactTime || Date.now();
+  const comision = await servicioComisiones.normalizar(
+    adapter,
+    orden.symbol,
+    orden.fills || [],
+    fecha
+  );
+
+  await registrarVenta(proteccion, {
+    cantidad: ejecutada,
+    precio: parseFloat(orden.cummulativeQuoteQty) / ejecutada,
+    comision: comision.comision,
+    comisionMoneda: comision.comisionMoneda,
+    comisionCotizacion: comision.comisionCotizacion,
+    fecha,
+    idOrden: orden.orderId,
+    idFill: `hasta-${ejecutada}`,
+  });
+
+  const datos: Partial<Proteccion> = {
+    cantidadEjecutada: ejecutada,
+    ladoEjecutado: ladoDeOrden(proteccion, orden.orderId, orden.type),
+  };
+  Object.assign(proteccion, datos);
+
+  if (orden.status === "FILLED") {
+    await cerrarProteccion(proteccion, { ...datos, estado: "ejecutada" });
+    proteccion.estado = "ejecutada";
+    return;
+  }
+
+  const supabase = getSupabaseClient();
+  await supabase.from("protecciones").update(datos).eq("id", proteccion.id);
+}
+
+export const servicioProtecciones = {
+  /**
+   * Coloca una OCO de venta sobre lo que queda de una compra
+   * @param datos precioObjetivo (take profit), precioStop y, opcionalmente,
+   *              precioStopLimite y la cantidad a proteger
+   */
+  async crearOco(
+    userId: string,
+    compraId: number,
+    conexion: ConexionExchange,
+    datos: {
+      precioObjetivo: number | string;
+      precioStop: number | string;
+      precioStopLimite?: number | string;
+      cantidad?: number | string;
+    }
+  ): Promise<ResultadoProteccion> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+
+    const { data: compra, error: errorCompra } = await supabase
+      .from("compras")
+      .select("*")
+      .eq("id", compraId)
+      .eq("idUsuario", userId)
+      .single();
+
+    if (errorCompra || !compra) {
+      return {
+        success: false,
+        error: "Compra no encontrada o no pertenece al usuario",
+      };
+    }
+
+    if (compra.idCuenta !== conexion.id) {
+      return {
+        success: false,
+        error: "La compra pertenece a otra cuenta del usuario",
+      };
+    }
+
+    if (compra.vendida) {
+      return {
+        success: false,
+        error: "Esta compra ya ha sido vendida completamente",
+      };
+    }
+
+    const activas = await this.obtenerProteccionesCompra(userId, compraId, "activa");
+    if (activas.length > 0) {
+      return {
+        success: false,
+        error: "La compra ya tiene una protección activa; cancélala antes",
+        proteccion: activas[0],
+      };
+    }
+
+    const pendiente = await servicioLotes.cantidadRestante(compra);
+    const cantidad =
+      datos.cantidad !== undefined && datos.cantidad !== ""
+        ? parseFloat(datos.cantidad.toString())
+        : pendiente;
+
+    if (!cantidad || cantidad <= 0) {
+      return { success: false, error: "No queda cantidad que proteger" };
+    }
+    if (cantidad > pendiente + TOLERANCIA_CANTIDAD) {
+      return {
+        success: false,
+        error: `Cantidad insuficiente. Pendiente de vender: ${pendiente}, Intenta proteger: ${cantidad}`,
+      };
+    }
+
+    const availability = await adapter.checkSellAvailability(
+      credentials,
+      compra.simbolo,
+      cantidad
+    );
+    if (!availability.canSell) {
+      return {
+        success: false,
+        error: `Saldo insuficiente en ${adapter.nombre}. Disponible: ${availability.availableBalance} ${availability.baseAsset} Razones: ${availability.reasons}`,
+      };
+    }
+
+    const result = await adapter.placeOcoOrder(credentials, {
+      symbol: compra.simbolo,
+      side: "SELL",
+      quantity: cantidad,
+      price: datos.precioObjetivo,
+      stopPrice: datos.precioStop,
+      stopLimitPrice: datos.precioStopLimite,
+    });
+
+    if (!result.success || !result.orderList) {
+      return {
+        success: false,
+        error: result.error,
+        code: result.code,
+        rechazo: result.rechazo,
+      };
+    }
+
+    // Identificar cada pata por su tipo
+    const informes = result.orderList.orderReports || [];
+    const ordenObjetivo = informes.find((o) => o.type === "LIMIT_MAKER");
+    const ordenStop = informes.find((o) => o.type.startsWith("STOP_LOSS"));
+
+    const { data: proteccion, error: errorInsercion } = await supabase
+      .from("protecciones")
+      .insert([
+        {
+          idCompra: compraId,
+          idUsuario: userId,
+          exchange: adapter.nombre,
+          idCuenta: conexion.id,
+          simbolo: compra.simbolo,
+          tipo: "OCO",
+          idListaOrdenes: result.orderList.orderListId,
+          idOrdenObjetivo: ordenObjetivo?.orderId ?? null,
+          idOrdenStop: ordenStop?.orderId ?? null,
+          precioObjetivo: ordenObjetivo ? parseFloat(ordenObjetivo.price) : null,
+          precioStop: ordenStop?.stopPrice ? parseFloat(ordenStop.stopPrice) : null,
+          precioStopLimite:
+            ordenStop && ordenStop.type === "STOP_LOSS_LIMIT"
+              ? parseFloat(ordenStop.price)
+              : null,
+          cantidad: parseFloat(ordenObjetivo?.origQty || cantidad.toString()),
+          cantidadEjecutada: 0,
+          estado: "activa",
+          ladoEjecutado: null,
+          fechaCreacion: new Date().toISOString(),
+          fechaCierre: null,
+        },
+      ])
+      .select()
+      .single();
+
+    if (errorInsercion) {
+      // La OCO ya está en el exchange: mejor cancelarla que dejarla sin seguimiento
+      console.error("❌ Error guardando la protección, cancelando OCO:", errorInsercion);
+      await adapter.cancelOrderList(
+        credentials,
+        compra.simbolo,
+        result.orderList.orderListId
+      );
+      return {
+        success: false,
+        error: `Error guardando la protección: ${errorInsercion.message}`,
+      };
+    }
+
+    console.log(
+      `🛡️ OCO ${result.orderList.orderListId} creada para la compra ${compraId}`
+    );
+    return { success: true, proteccion };
+  },
+
+  /**
+   * Guarda una orden de venta que sigue abierta (STOP_LOSS*, TAKE_PROFIT*,
+   * LIMIT) recién colocada para una compra. Lo que ya se haya ejecutado al
+   * colocarla se registra como venta en el momento
+   */
+  async registrarOrdenVenta(
+    userId: string,
+    compraId: number,
+    conexion: ConexionExchange,
+    orden: BinanceOrder
+  ): Promise<Proteccion | null> {
+    const supabase = getSupabaseClient();
+
+    const { data: proteccion, error } = await supabase
+      .from("protecciones")
+      .insert([
+        {
+          idCompra: compraId,
+          idUsuario: userId,
+          exchange: conexion.adapter.nombre,
+          idCuenta: conexion.id,
+          simbolo: orden.symbol,
+          idListaOrdenes: null,
+          ...datosOrdenVenta(orden),
+          estado: "activa",
+          ladoEjecutado: null,
+          fechaCreacion: new Date().toISOString(),
+          fechaCierre: null,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      console.error(
+        `❌ Error guardando la orden de venta ${orden.orderId}:`,
+        error
+      );
+      return null;
+    }
+
+    await registrarEjecutadoAlColocar(proteccion, orden, conexion.adapter);
+    return proteccion;
+  },
+
+  /**
+   * Avisa de que una orden va a sustituirse con cancel-replace, para que su
+   * cancelación no cierre la protección
+   */
+  iniciarReemplazo(orderId: number): void {
+    ordenesEnReemplazo.add(orderId);
+  },
+
+  /**
+   * Pasa la protección de la orden sustituida a la nueva; si no hay orden
+   * nueva pero la anterior se canceló, la protección se da por cancelada
+   */
+  async terminarReemplazo(
+    userId: string,
+    adapter: ExchangeAdapter,
+    orderIdAnterior: number,
+    nueva: BinanceOrder | null,
+    cancelada: boolean
+  ): Promise<void> {
+    ordenesEnReemplazo.delete(orderIdAnterior);
+
+    const supabase = getSupabaseClient();
+    const { data: proteccion } = await supabase
+      .from("protecciones")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("estado", "activa")
+      .or(`idOrdenObjetivo.eq.${orderIdAnterior},idOrdenStop.eq.${orderIdAnterior}`)
+      .maybeSingle();
+
+    if (!proteccion) return;
+
+    if (!nueva) {
+      if (cancelada) {
+        await cerrarProteccion(proteccion, { estado: "cancelada" });
+      }
+      return;
+    }
+
+    // Lo ejecutado por la orden anterior ya está registrado como venta
+    const datos = datosOrdenVenta(nueva);
+    const { error } = await supabase
+      .from("protecciones")
+      .update(datos)
+      .eq("id", proteccion.id);
+
+    if (error) {
+      console.error(
+        `❌ Error pasando la protección ${proteccion.id} a la orden ${nueva.orderId}:`,
+        error
+      );
+      return;
+    }
+
+    await registrarEjecutadoAlColocar(
+      { ...proteccion, ...datos },
+      nueva,
+      adapter
+    );
+  },
+
+  async obtenerProteccionesCompra(
+    userId: string,
+    compraId: number,
+    estado?: Proteccion["estado"]
+  ): Promise<Proteccion[]> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from("protecciones")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("idCompra", compraId);
+
+    if (estado) {
+      query = query.eq("estado", estado);
+    }
+
+    const { data, error } = await query.order("fechaCreacion", {
+      ascending: false,
+    });
+
+    if (error) {
+      throw new Error(`Error al obtener protecciones: ${error.message}`);
+    }
+
+    return data || [];
+  },
+
+  /**
+   * Cancela en el exchange la protección activa de una compra
+   */
+  async cancelarProteccion(
+    userId: string,
+    compraId: number,
+    conexion: ConexionExchange
+  ): Promise<ResultadoProteccion> {
+    const { adapter, credentials } = conexion;
+    const [proteccion] = await this.obtenerProteccionesCompra(
+      userId,
+      compraId,
+      "activa"
+    );
+
+    if (!proteccion) {
+      return {
+        success: false,
+        error: "La compra no tiene ninguna protección activa",
+      };
+    }
+
+    if (proteccion.idCuenta !== conexion.id) {
+      return {
+        success: false,
+        error: "La protección pertenece a otra cuenta del usuario",
+      };
+    }
+
+    const result = proteccion.idListaOrdenes
+      ? await adapter.cancelOrderList(
+          credentials,
+          proteccion.simbolo,
+          proteccion.idListaOrdenes
+        )
+      : await adapter
+          .cancelOrder(
+            credentials,
+            proteccion.simbolo,
+            (proteccion.idOrdenObjetivo ?? proteccion.idOrdenStop)!
+          );
+
+    if (!result.success) {
+      return { success: false, error: result.error, code: result.code };
+    }
+
+    await cerrarProteccion(proteccion, { estado: "cancelada" });
+    return {
+      success: true,
+      proteccion: { ...proteccion, estado: "cancelada" },
+    };
+  },
+
+  /**
+   * executionReport de una orden que puede pertenecer a una protección
+   * @returns true si la orden era de una protección (ya está procesada)
+   */
+  async procesarEjecucion(
+    userId: string,
+    evento: ExecutionReportEvent,
+    adapter: ExchangeAdapter
+  ): Promise<boolean> {
+    const supabase = getSupabaseClient();
+
+    let query = supabase
+      .from("protecciones")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("estado", "activa");
+
+    query =
+      evento.g !== undefined && evento.g !== -1
+        ? query.eq("idListaOrdenes", evento.g)
+        : query.or(`idOrdenObjetivo.eq.${evento.i},idOrdenStop.eq.${evento.i}`);
+
+    const { data: proteccion, error } = await query.maybeSingle();
+
+    if (error) {
+      console.error(`❌ Error buscando protección de la orden ${evento.i}:`, error);
+      return false;
+    }
+    if (!proteccion) return false;
+
+    if (evento.x === "TRADE") {
+      // Un fill anterior al alta de la protección ya se registró con ella
+      const cantidadEjecutada = parseFloat(evento.z);
+      const nueva = Math.min(
+        parseFloat(evento.l),
+        cantidadEjecutada - (proteccion.cantidadEjecutada || 0)
+      );
+      if (nueva > TOLERANCIA_CANTIDAD) {
+        // La comisión del evento es la de todo el fill
+        const comision = await servicioComisiones.normalizar(
+          adapter,
+          evento.s,
+          [{ commission: evento.n, commissionAsset: evento.N, price: evento.L }],
+          evento.T
+        );
+        await registrarVenta(proteccion, {
+          cantidad: nueva,
+          precio: parseFloat(evento.L),
+          ...parteComision(comision, nueva / parseFloat(evento.l)),
+          fecha: evento.T,
+          idOrden: evento.i,
+          idFill: `hasta-${cantidadEjecutada}`,
+        });
+      }
+
+      const ladoEjecutado = ladoDeOrden(proteccion, evento.i, evento.o);
+
+      if (evento.X === "FILLED") {
+        await cerrarProteccion(proteccion, {
+          estado: "ejecutada",
+          ladoEjecutado,
+          cantidadEjecutada,
+        });
+      } else {
+        await supabase
+          .from("protecciones")
+          .update({ ladoEjecutado, cantidadEjecutada })
+          .eq("id", proteccion.id);
+      }
+      return true;
+    }
+
+    // Las patas de una OCO se cierran con el evento listStatus
+    if (
+      ESTADOS_FINALES.includes(evento.X) &&
+      proteccion.idListaOrdenes === null &&
+      !ordenesEnReemplazo.has(evento.i)
+    ) {
+      await cerrarProteccion(proteccion, {
+        estado: proteccion.cantidadEjecutada > 0 ? "ejecutada" : "cancelada",
+      });
+    }
+    return true;
+  },
+
+  /**
+   * listStatus de una OCO: si termina sin ejecutarse, la protección se cancela
+   */
+  async procesarEstadoLista(
+    userId: string,
+    evento: ListStatusEvent
+  ): Promise<void> {
+    if (evento.L !== "ALL_DONE" && evento.l !== "ALL_DONE") return;
+
+    const supabase = getSupabaseClient();
+    const { data: proteccion } = await supabase
+      .from("protecciones")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("idListaOrdenes", evento.g)
+      .eq("estado", "activa")
+      .maybeSingle();
+
+    if (!proteccion) return;
+
+    await cerrarProteccion(proteccion, {
+      estado: proteccion.cantidadEjecutada > 0 ? "ejecutada" : "cancelada",
+    });
+  },
+
+  /**
+   * Revisa por REST las protecciones activas (sin stream o tras reconectar)
+   */
+  async sincronizarProtecciones(
+    userId: string,
+    conexion: ConexionExchange
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+
+    const { data: activas, error } = await supabase
+      .from("protecciones")
+      .select("*")
+      .eq("idUsuario", userId)
+      .eq("idCuenta", conexion.id)
+      .eq("estado", "activa");
+
+    if (error) {
+      console.error(`❌ Error obteniendo protecciones de ${userId}:`, error);
+      return;
+    }
+
+    for (const proteccion of (activas || []) as Proteccion[]) {
+      try {
+        let ordenes: number[];
+        let terminada: boolean;
+
+        if (proteccion.idListaOrdenes) {
+          const lista = await adapter.getOrderList(
+            credentials,
+            proteccion.idListaOrdenes
+          );
+          ordenes = lista.orders.map((o) => o.orderId);
+          terminada = lista.listOrderStatus === "ALL_DONE";
+        } else {
+          ordenes = [(proteccion.idOrdenObjetivo ?? proteccion.idOrdenStop)!];
+          terminada = false;
+        }
+
+        for (const orderId of ordenes) {
+          const orden = await adapter.getOrder(
+            credentials,
+            proteccion.simbolo,
+            orderId
+          );
+          const ejecutada = parseFloat(orden.executedQty);
+          const nueva = ejecutada - (proteccion.cantidadEjecutada || 0);
+
+          // Solo lo ejecutado que aún no se ha registrado
+          if (nueva > TOLERANCIA_CANTIDAD) {
+            // getOrder no trae la comisión: se toma de los trades de la
+            // orden, en proporción a lo que falta por registrar
+            const trades = await adapter
+              .getMyTrades(credentials, { symbol: proteccion.simbolo, orderId })
+              .catch((error) => {
+                console.warn(
+                  `⚠️ Sin trades de la orden ${orderId}, venta sin comisión:`,
+                  error
+                );
+                return [];
+              });
+            const fecha = trades.length
+              ? trades[trades.length - 1].time
+              : Date.now();
+            const comision = await servicioComisiones.normalizar(
+              adapter,
+              proteccion.simbolo,
+              trades,
+              fecha
+            );
+            await registrarVenta(proteccion, {
+              cantidad: nueva,
+              precio: parseFloat(orden.cummulativeQuoteQty) / ejecutada,
+              ...parteComision(comision, nueva / ejecutada),
+              fecha,
+              idOrden: orderId,
+              idFill: `hasta-${ejecutada}`,
+            });
+            proteccion.cantidadEjecutada = ejecutada;
+            proteccion.ladoEjecutado = ladoDeOrden(proteccion, orderId, orden.type);
+          }
+
+          if (orden.status === "FILLED" || ESTADOS_FINALES.includes(orden.status)) {
+            terminada = terminada || !proteccion.idListaOrdenes;
+          }
+        }
+
+        if (terminada) {
+          await cerrarProteccion(proteccion, {
+            estado: proteccion.cantidadEjecutada > 0 ? "ejecutada" : "cancelada",
+            ladoEjecutado: proteccion.ladoEjecutado,
+            cantidadEjecutada: proteccion.cantidadEjecutada,
+          });
+        } else if (proteccion.cantidadEjecutada > 0) {
+          await supabase
+            .from("protecciones")
+            .update({
+              ladoEjecutado: proteccion.ladoEjecutado,
+              cantidadEjecutada: proteccion.cantidadEjecutada,
+            })
+            .eq("id", proteccion.id);
+        }
+      } catch (error) {
+        console.error(
+          `❌ Error sincronizando la protección ${proteccion.id}:`,
+          error
+        );
+      }
+    }
+  },
+};
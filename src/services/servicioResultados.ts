@@ -0,0 +1,271 @@
+// servicios/servicioResultados.ts
+
+/**
+ * PÉRDIDAS Y GANANCIAS (REALIZADAS Y NO REALIZADAS)
+ *
+ * Combina compras, ventas y precios actuales para cada par y para toda la
+ * cartera, tanto de operaciones manuales como del bot:
+ * - Realizado: beneficio de las ventas del periodo (ya descuenta comisiones)
+ * - No realizado: lo que queda abierto de las compras del periodo, valorado
+ *   al precio actual menos su coste (precio y parte de la comisión)
+ * - Comisiones: las de compras y ventas del periodo en moneda de cotización
+ *
+ * Los precios salen de "precioCriptomoneda" si el monitor los ha
+ * actualizado hace poco; los que falten se piden al exchange.
+ *
+ * Cada par va en su moneda de cotización. Los totales se pasan a una sola
+ * moneda con el precio actual de cada cotización; los pares cuya cotización
+ * no se puede convertir quedan fuera del total.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { servicioLotes } from "./servicioLotes.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import { ExchangeAdapter } from "../interfaces/exchange.types.js";
+import {
+  InformeResultados,
+  ResultadoSimbolo,
+} from "../interfaces/comun.types.js";
+
+// Antigüedad máxima de un precio de "precioCriptomoneda" para usarlo
+const VIGENCIA_PRECIO_MS = 5 * 60 * 1000;
+
+const TAMANO_PAGINA = 1000;
+
+export interface FiltrosResultados {
+  desde?: string;
+  hasta?: string;
+  simbolo?: string;
+  botS?: boolean; // true: solo el bot; false: solo manuales
+  idCuentas?: number[];
+}
+
+/**
+ * Filas del usuario que cumplen los filtros, por páginas (PostgREST no
+ * devuelve más de 1000 de una vez)
+ */
+async function leerFilas(
+  tabla: "compras" | "ventas",
+  userId: string,
+  filtros: FiltrosResultados
+): Promise<any[]> {
+  const campoFecha = tabla === "compras" ? "fechaCompra" : "fechaVenta";
+  const filas: any[] = [];
+
+  for (let desde = 0; ; desde += TAMANO_PAGINA) {
+    let query = getSupabaseClient()
+      .from(tabla)
+      .select("*")
+      .eq("idUsuario", userId);
+
+    if (filtros.simbolo) query = query.eq("simbolo", filtros.simbolo);
+    if (filtros.botS !== undefined) query = query.eq("botS", filtros.botS);
+    if (filtros.idCuentas) query = query.in("idCuenta", filtros.idCuentas);
+    if (filtros.desde) query = query.gte(campoFecha, filtros.desde);
+    if (filtros.hasta) query = query.lte(campoFecha, filtros.hasta);
+
+    const { data, error } = await query
+      .order(campoFecha, { ascending: true })
+      .order("id", { ascending: true })
+      .range(desde, desde + TAMANO_PAGINA - 1);
+    if (error) {
+      throw new Error(`Error al obtener ${tabla}: ${error.message}`);
+    }
+
+    filas.push(...(data || []));
+    if (!data || data.length < TAMANO_PAGINA) return filas;
+  }
+}
+
+export const servicioResultados = {
+  /**
+   * Precio actual de cada símbolo: el guardado por el monitor si es
+   * reciente y, si no, el del exchange
+   */
+  async obtenerPrecios(
+    adapter: ExchangeAdapter,
+    simbolos: string[]
+  ): Promise<{ [simbolo: string]: number }> {
+    const precios: { [simbolo: string]: number } = {};
+    if (simbolos.length === 0) return precios;
+
+    const { data, error } = await getSupabaseClient()
+      .from("precioCriptomoneda")
+      .select("simbolo, precio, fechaActualizacion")
+      .in("simbolo", simbolos);
+
+    if (error) {
+      console.warn("⚠️ No se pudieron leer los precios guardados:", error);
+    }
+
+    const limite = Date.now() - VIGENCIA_PRECIO_MS;
+    (data || []).forEach((fila) => {
+      if (fila.precio > 0 && Date.parse(fila.fechaActualizacion) >= limite) {
+        precios[fila.simbolo] = fila.precio;
+      }
+    });
+
+    const faltan = simbolos.filter((s) => precios[s] === undefined);
+    if (faltan.length > 0) {
+      const delExchange = await adapter.getMultiplePrices(faltan);
+      Object.entries(delExchange).forEach(([simbolo, precio]) => {
+        if (precio > 0) precios[simbolo] = precio;
+      });
+    }
+
+    return precios;
+  },
+
+  /**
+   * Resultados por par y totales del usuario
+   * @param adapter Exchange al que pedir los pares y los precios que no estén
+   *   guardados
+   * @param moneda Moneda de los totales; "USD" = cualquier estable en USD
+   */
+  async calcular(
+    userId: string,
+    adapter: ExchangeAdapter,
+    filtros: FiltrosResultados = {},
+    moneda: string = "USD"
+  ): Promise<InformeResultados> {
+    const [compras, ventas] = await Promise.all([
+      leerFilas("compras", userId, filtros),
+      leerFilas("ventas", userId, filtros),
+    ]);
+
+    const abiertas = (
+      await servicioLotes.restantes(compras.filter((c) => !c.vendida))
+    ).filter((lote) => lote.restante > 0);
+
+    const simbolos = [
+      ...new Set([...compras, ...ventas].map((fila) => fila.simbolo)),
+    ].sort();
+    const precios = await this.obtenerPrecios(adapter, [
+      ...new Set(abiertas.map((lote) => lote.simbolo)),
+    ]);
+
+    // Precio de cada moneda de cotización en la moneda de los totales
+    const cotizaciones = new Map(
+      (await adapter.getAllSymbols()).map((s) => [s.symbol, s.quoteAsset])
+    );
+    const tipos: Map<string, number | null> = new Map();
+    for (const simbolo of simbolos) {
+      const cotizacion = cotizaciones.get(simbolo);
+      if (cotizacion && !tipos.has(cotizacion)) {
+        tipos.set(
+          cotizacion,
+          cotizacion === moneda
+            ? 1
+            : await adapter.getPrecioEn(cotizacion, moneda)
+        );
+      }
+    }
+    const tipoDe = (simbolo: string) =>
+      tipos.get(cotizaciones.get(simbolo) ?? "") ?? null;
+
+    const resultados: ResultadoSimbolo[] = simbolos.map((simbolo) => {
+      const comprasSimbolo = compras.filter((c) => c.simbolo === simbolo);
+      const ventasSimbolo = ventas.filter((v) => v.simbolo === simbolo);
+      const lotes = abiertas.filter((lote) => lote.simbolo === simbolo);
+
+      const cantidadAbierta = lotes.reduce((acc, l) => acc + l.restante, 0);
+      const importeEntrada = lotes.reduce(
+        (acc, l) => acc + l.precio * l.restante,
+        0
+      );
+      const costeAbierto = lotes.reduce(
+        (acc, l) =>
+          acc +
+          l.precio * l.restante +
+          (l.cantidad > 0
+            ? ((l.comisionCotizacion || 0) * l.restante) / l.cantidad
+            : 0),
+        0
+      );
+
+      const precioActual = precios[simbolo] ?? null;
+      const valorActual =
+        cantidadAbierta === 0
+          ? 0
+          : precioActual === null
+          ? null
+          : precioActual * cantidadAbierta;
+
+      const comisiones =
+        comprasSimbolo.reduce(
+          (acc, c) =>
+            acc +
+            servicioComisiones.deFila(
+              simbolo,
+              c.comisionCotizacion,
+              c.comision,
+              c.comisionMoneda
+            ),
+          0
+        ) +
+        ventasSimbolo.reduce(
+          (acc, v) =>
+            acc +
+            servicioComisiones.deFila(
+              simbolo,
+              v.comisionVentaCotizacion,
+              v.comisionVenta,
+              v.comisionMoneda
+            ),
+          0
+        );
+
+      return {
+        simbolo,
+        monedaCotizacion: cotizaciones.get(simbolo) ?? null,
+        beneficioRealizado: ventasSimbolo.reduce(
+          (acc, v) => acc + (v.beneficio || 0),
+          0
+        ),
+        beneficioNoRealizado:
+          valorActual === null ? null : valorActual - costeAbierto,
+        cantidadAbierta,
+        precioMedioEntrada:
+          cantidadAbierta > 0 ? importeEntrada / cantidadAbierta : null,
+        costeAbierto,
+        precioActual,
+        valorActual,
+        comisiones,
+        compras: comprasSimbolo.length,
+        ventas: ventasSimbolo.length,
+      };
+    });
+
+    const sumar = (campo: keyof ResultadoSimbolo) =>
+      resultados.reduce((acc, r) => {
+        const tipo = tipoDe(r.simbolo);
+        return tipo === null
+          ? acc
+          : acc + ((r[campo] as number | null) || 0) * tipo;
+      }, 0);
+
+    const beneficioRealizado = sumar("beneficioRealizado");
+    const beneficioNoRealizado = sumar("beneficioNoRealizado");
+
+    return {
+      desde: filtros.desde || null,
+      hasta: filtros.hasta || null,
+      simbolos: resultados,
+      moneda,
+      total: {
+        beneficioRealizado,
+        beneficioNoRealizado,
+        beneficioTotal: beneficioRealizado + beneficioNoRealizado,
+        costeAbierto: sumar("costeAbierto"),
+        valorActual: sumar("valorActual"),
+        comisiones: sumar("comisiones"),
+      },
+      simbolosSinPrecio: resultados
+        .filter((r) => r.beneficioNoRealizado === null)
+        .map((r) => r.simbolo),
+      simbolosSinConversion: resultados
+        .filter((r) => tipoDe(r.simbolo) === null)
+        .map((r) => r.simbolo),
+    };
+  },
+};
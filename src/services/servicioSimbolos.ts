@@ -0,0 +1,307 @@
+// servicios/servicioSimbolos.ts
+
+/**
+ * REGISTRO DE SÍMBOLOS
+ *
+ * La tabla "simbolos" guarda los pares con los que trabaja la aplicación y,
+ * para cada uno, qué funciones tiene activas: seguimiento de precios,
+ * alertas y bot. El estado del par se toma del exchangeInfo de mainnet, el
+ * mismo para todas las cuentas (la testnet solo lista unos pocos pares):
+ * - La primera carga siembra la tabla con SIMBOLOS_INICIALES
+ * - Cada TTL_REFRESCO_MS se vuelve a leer exchangeInfo; los pares que el
+ *   exchange ya no lista quedan como NO_LISTADO
+ * - Solo los pares en TRADING se consideran válidos
+ *
+ * El registro se guarda también en memoria para que las comprobaciones
+ * síncronas (isValidSymbol, getSupportedSymbols) no consulten la base de
+ * datos. Hasta la primera carga se usa SIMBOLOS_INICIALES.
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { ExchangeAdapter } from "../interfaces/exchange.types.js";
+import {
+  FuncionSimbolo,
+  SimboloRegistrado,
+} from "../interfaces/comun.types.js";
+
+// Pares con los que se siembra el registro vacío
+export const SIMBOLOS_INICIALES = [
+  "BTCUSDC",
+  "ETHUSDC",
+  "SOLUSDC",
+  "ADAUSDC",
+  "XRPUSDC",
+  "BNBUSDC",
+  "AVAXUSDC",
+  "LINKUSDC",
+  "DOGEUSDC",
+  "PEPEUSDC",
+];
+
+export const FUNCIONES_SIMBOLO: FuncionSimbolo[] = ["precios", "alertas", "bot"];
+
+// Estado de los pares que exchangeInfo ya no devuelve
+export const ESTADO_NO_LISTADO = "NO_LISTADO";
+
+// Cada cuánto se vuelve a comprobar el estado de los pares en el exchange
+const TTL_REFRESCO_MS = 6 * 60 * 60 * 1000;
+
+export type FlagsSimbolo = Partial<Pick<SimboloRegistrado, FuncionSimbolo>>;
+
+// Copia en memoria de la tabla (null hasta la primera carga)
+let registro: SimboloRegistrado[] | null = null;
+let ultimoRefresco = 0;
+
+function operativo(fila: SimboloRegistrado, funcion?: FuncionSimbolo): boolean {
+  return fila.estado === "TRADING" && (!funcion || fila[funcion]);
+}
+
+// Solo los flags conocidos y con valor booleano
+function limpiarFlags(flags: FlagsSimbolo): FlagsSimbolo {
+  const limpios: FlagsSimbolo = {};
+  for (const funcion of FUNCIONES_SIMBOLO) {
+    if (typeof flags[funcion] === "boolean") limpios[funcion] = flags[funcion];
+  }
+  return limpios;
+}
+
+async function leerTabla(): Promise<SimboloRegistrado[]> {
+  const supabase = getSupabaseClient();
+  const { data, error } = await supabase
+    .from("simbolos")
+    .select("*")
+    .order("id", { ascending: true });
+
+  if (error) {
+    throw new Error(`Error al leer el registro de símbolos: ${error.message}`);
+  }
+
+  return data || [];
+}
+
+export const servicioSimbolos = {
+  /**
+   * Lee la tabla (sembrándola si está vacía) y, con adapter, refresca el
+   * estado de los pares si hace más de TTL_REFRESCO_MS de la última vez
+   */
+  async cargar(adapter?: ExchangeAdapter): Promise<SimboloRegistrado[]> {
+    let filas = await leerTabla();
+
+    if (filas.length === 0) {
+      console.log(
+        `🌱 Sembrando el registro de símbolos con ${SIMBOLOS_INICIALES.length} pares`
+      );
+      const fechaActualizacion = new Date().toISOString();
+      const { error } = await getSupabaseClient()
+        .from("simbolos")
+        .insert(
+          SIMBOLOS_INICIALES.map((simbolo) => ({
+            simbolo,
+            activoBase: simbolo.slice(0, -"USDC".length),
+            activoCotizacion: "USDC",
+            estado: "TRADING",
+            precios: true,
+            alertas: true,
+            bot: true,
+            fechaActualizacion,
+          }))
+        );
+
+      if (error) {
+        throw new Error(`Error al sembrar los símbolos: ${error.message}`);
+      }
+
+      filas = await leerTabla();
+      ultimoRefresco = 0; // la semilla no trae el estado real
+    }
+
+    registro = filas;
+
+    if (adapter && Date.now() - ultimoRefresco > TTL_REFRESCO_MS) {
+      return this.refrescar(adapter);
+    }
+
+    return filas;
+  },
+
+  /**
+   * Pares válidos (en TRADING), opcionalmente solo los que tienen activa
+   * una función
+   */
+  listar(funcion?: FuncionSimbolo): string[] {
+    if (!registro) return [...SIMBOLOS_INICIALES];
+
+    return registro
+      .filter((fila) => operativo(fila, funcion))
+      .map((fila) => fila.simbolo);
+  },
+
+  /**
+   * Todas las filas del registro, incluidas las desactivadas
+   */
+  obtenerTodos(): SimboloRegistrado[] {
+    return (registro || []).map((fila) => ({ ...fila }));
+  },
+
+  esValido(simbolo: string, funcion?: FuncionSimbolo): boolean {
+    return this.listar(funcion).includes(simbolo.toUpperCase());
+  },
+
+  /**
+   * Si algún par válido tiene el activo como base (p. ej. las alertas,
+   * que se crean sobre el activo y no sobre el par)
+   */
+  esActivoValido(activo: string, funcion?: FuncionSimbolo): boolean {
+    const base = activo.toUpperCase();
+    if (!registro) {
+      return SIMBOLOS_INICIALES.some((s) => s === `${base}USDC`);
+    }
+    return registro.some(
+      (fila) => fila.activoBase === base && operativo(fila, funcion)
+    );
+  },
+
+  /**
+   * Actualiza activos y estado de todos los pares con exchangeInfo
+   */
+  async refrescar(adapter: ExchangeAdapter): Promise<SimboloRegistrado[]> {
+    const filas = registro || (await leerTabla());
+    const pares = new Map(
+      (await adapter.getAllSymbols()).map((par) => [par.symbol, par])
+    );
+    const supabase = getSupabaseClient();
+    const fechaActualizacion = new Date().toISOString();
+    let cambiados = 0;
+
+    for (const fila of filas) {
+      const par = pares.get(fila.simbolo);
+      const datos = par
+        ? {
+            activoBase: par.baseAsset,
+            activoCotizacion: par.quoteAsset,
+            estado: par.status,
+          }
+        : { estado: ESTADO_NO_LISTADO };
+
+      if (
+        Object.entries(datos).every(
+          ([campo, valor]) => fila[campo as keyof SimboloRegistrado] === valor
+        )
+      ) {
+        continue;
+      }
+
+      if (datos.estado !== fila.estado) {
+        console.log(
+          `🔄 ${fila.simbolo}: estado ${fila.estado} → ${datos.estado}`
+        );
+      }
+
+      const { error } = await supabase
+        .from("simbolos")
+        .update({ ...datos, fechaActualizacion })
+        .eq("id", fila.id);
+
+      if (error) {
+        console.error(`❌ Error actualizando ${fila.simbolo}:`, error);
+        continue;
+      }
+      cambiados++;
+    }
+
+    ultimoRefresco = Date.now();
+    registro = await leerTabla();
+    console.log(
+      `✅ Registro de símbolos refrescado (${cambiados} cambios, ${
+        this.listar().length
+      }/${registro.length} operativos)`
+    );
+
+    return registro;
+  },
+
+  /**
+   * Añade un par al registro comprobando que el exchange lo lista
+   * @returns null si el par no existe en el exchange
+   */
+  async registrar(
+    adapter: ExchangeAdapter,
+    simbolo: string,
+    flags: FlagsSimbolo = {}
+  ): Promise<SimboloRegistrado | null> {
+    const symbol = simbolo.toUpperCase();
+    const par = (await adapter.getAllSymbols()).find(
+      (s) => s.symbol === symbol
+    );
+    if (!par) return null;
+
+    const { data, error } = await getSupabaseClient()
+      .from("simbolos")
+      .insert([
+        {
+          simbolo: symbol,
+          activoBase: par.baseAsset,
+          activoCotizacion: par.quoteAsset,
+          estado: par.status,
+          precios: true,
+          alertas: true,
+          bot: false, // el bot se activa a propósito
+          ...limpiarFlags(flags),
+          fechaActualizacion: new Date().toISOString(),
+        },
+      ])
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Error al registrar ${symbol}: ${error.message}`);
+    }
+
+    registro = await leerTabla();
+    return data;
+  },
+
+  /**
+   * Activa o desactiva funciones de un par
+   * @returns null si el par no está registrado
+   */
+  async actualizar(
+    simbolo: string,
+    flags: FlagsSimbolo
+  ): Promise<SimboloRegistrado | null> {
+    const { data, error } = await getSupabaseClient()
+      .from("simbolos")
+      .update({
+        ...limpiarFlags(flags),
+        fechaActualizacion: new Date().toISOString(),
+      })
+      .eq("simbolo", simbolo.toUpperCase())
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Error al actualizar ${simbolo}: ${error.message}`);
+    }
+
+    registro = await leerTabla();
+    return data;
+  },
+
+  /**
+   * @returns false si el par no estaba registrado
+   */
+  async eliminar(simbolo: string): Promise<boolean> {
+    const { data, error } = await getSupabaseClient()
+      .from("simbolos")
+      .delete()
+      .eq("simbolo", simbolo.toUpperCase())
+      .select();
+
+    if (error) {
+      throw new Error(`Error al eliminar ${simbolo}: ${error.message}`);
+    }
+
+    registro = await leerTabla();
+    return (data || []).length > 0;
+  },
+};
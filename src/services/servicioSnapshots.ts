@@ -0,0 +1,350 @@
+// servicios/servicioSnapshots.ts
+
+/**
+ * HISTÓRICO DEL VALOR DE LA CARTERA
+ *
+ * Cada hora se guarda en "snapshotsCartera" el valor de cada cuenta activa,
+ * total y por activo, con getHoldings: los mismos precios de mercado que
+ * getTotalUSDBalance y los resultados (mainnet también para las cuentas de
+ * testnet, ver mercadoValoracion). Con esos snapshots se construye la curva
+ * de valor:
+ * 1. Se agrupan por hora, día o semana y de cada cuenta vale el último del
+ *    periodo; una cuenta sin snapshot en un periodo mantiene el anterior
+ * 2. La rentabilidad de cada periodo descuenta los depósitos y retiros de
+ *    "movimientos" (TWR), así que meter o sacar dinero no cuenta como ganancia
+ * 3. El drawdown se mide sobre esa rentabilidad acumulada
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import {
+  calcularDrawdown,
+  calcularTWR,
+  FlujoCaja,
+} from "../lib/rendimiento.js";
+import { servicioExchanges } from "./servicioExchanges.js";
+import { servicioMovimientos } from "./servicioMovimientos.js";
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import {
+  CurvaValor,
+  PuntoCurvaValor,
+  ResolucionCurva,
+  SnapshotCartera,
+} from "../interfaces/comun.types.js";
+
+export const RESOLUCIONES_CURVA: ResolucionCurva[] = ["hora", "dia", "semana"];
+
+const HORA_MS = 60 * 60 * 1000;
+const DIA_MS = 24 * HORA_MS;
+
+export const INTERVALO_SNAPSHOTS_MS = HORA_MS;
+
+// Filas por petición: PostgREST no devuelve más de 1000 de una vez
+const TAMANO_PAGINA = 1000;
+
+let idIntervalo: NodeJS.Timeout | null = null;
+let registrando = false;
+
+/**
+ * Inicio (UTC) del periodo al que pertenece una fecha. Las semanas empiezan
+ * en lunes
+ */
+function inicioPeriodo(fecha: number, resolucion: ResolucionCurva): number {
+  if (resolucion === "hora") return Math.floor(fecha / HORA_MS) * HORA_MS;
+
+  const dia = Math.floor(fecha / DIA_MS);
+  if (resolucion === "dia") return dia * DIA_MS;
+
+  // El 1/1/1970 fue jueves: 3 días después del lunes
+  return (dia - ((dia + 3) % 7)) * DIA_MS;
+}
+
+const redondear = (valor: number) => parseFloat(valor.toFixed(2));
+const redondearTasa = (valor: number) => parseFloat(valor.toFixed(6));
+
+export const servicioSnapshots = {
+  /**
+   * Guarda el valor actual de una cuenta
+   */
+  async registrar(
+    userId: string,
+    conexion: ConexionExchange
+  ): Promise<SnapshotCartera> {
+    const desglose = await conexion.adapter.getHoldings(conexion.credentials);
+
+    const { data, error } = await getSupabaseClient()
+      .from("snapshotsCartera")
+      .insert([
+        {
+          idUsuario: userId,
+          idCuenta: conexion.id,
+          exchange: conexion.exchange,
+          fecha: new Date().toISOString(),
+          valorUSD: desglose.totalUSD,
+          spotUSD: desglose.spotUSD,
+          earnUSD: desglose.earnUSD,
+          activos: desglose.assets
+            .filter((a) => a.priceUSD !== null)
+            .map((a) => ({
+              asset: a.asset,
+              cantidad: a.total,
+              valorUSD: a.valueUSD,
+            })),
+          sinPrecio: desglose.unpriced,
+        },
+      ])
+      .select()
+      .single();
+
+    if (error || !data) {
+      throw new Error(
+        `Error al guardar el snapshot de la cuenta ${conexion.id}: ${error?.message}`
+      );
+    }
+
+    return data;
+  },
+
+  /**
+   * Guarda el valor de todas las cuentas activas de todos los usuarios. Los
+   * fallos de una cuenta no paran al resto
+   */
+  async registrarTodos(): Promise<void> {
+    if (registrando) {
+      console.log("⚠️ Los snapshots anteriores siguen en curso, se omite este ciclo");
+      return;
+    }
+
+    registrando = true;
+    let guardados = 0;
+    try {
+      const usuarios = await servicioExchanges.obtenerUsuariosConCuentas();
+      for (const userId of usuarios) {
+        const conexiones = await servicioExchanges.obtenerConexionesUsuario(userId);
+        for (const conexion of conexiones) {
+          try {
+            await this.registrar(userId, conexion);
+            guardados++;
+          } catch (error) {
+            console.error(
+              `❌ Error guardando el snapshot de la cuenta ${conexion.id} (${userId}):`,
+              error
+            );
+          }
+        }
+      }
+      console.log(`📸 ${guardados} snapshots de cartera guardados`);
+    } catch (error) {
+      console.error("💥 Error guardando los snapshots de cartera:", error);
+    } finally {
+      registrando = false;
+    }
+  },
+
+  /**
+   * Guarda un snapshot ahora y después cada intervalMs
+   */
+  iniciar(intervalMs: number = INTERVALO_SNAPSHOTS_MS): void {
+    if (idIntervalo) {
+      console.log("⚠️ Los snapshots de cartera ya están programados");
+      return;
+    }
+
+    console.log(`📸 Snapshots de cartera cada ${intervalMs}ms`);
+    this.registrarTodos();
+    idIntervalo = setInterval(() => this.registrarTodos(), intervalMs);
+  },
+
+  detener(): void {
+    if (idIntervalo) {
+      clearInterval(idIntervalo);
+      idIntervalo = null;
+      console.log("⏹️ Snapshots de cartera detenidos");
+    }
+  },
+
+  /**
+   * Snapshots en orden de fecha. Se leen por páginas: una cuenta guarda uno
+   * por hora, así que un año pasa de largo el límite de filas por petición
+   */
+  async obtenerSnapshots(
+    userId: string,
+    filtros: { idCuentas?: number[]; desde?: string; hasta?: string } = {}
+  ): Promise<SnapshotCartera[]> {
+    const snapshots: SnapshotCartera[] = [];
+
+    for (let desde = 0; ; desde += TAMANO_PAGINA) {
+      let query = getSupabaseClient()
+        .from("snapshotsCartera")
+        .select("*")
+        .eq("idUsuario", userId);
+
+      if (filtros.idCuentas) query = query.in("idCuenta", filtros.idCuentas);
+      if (filtros.desde) query = query.gte("fecha", filtros.desde);
+      if (filtros.hasta) query = query.lte("fecha", filtros.hasta);
+
+      const { data, error } = await query
+        .order("fecha", { ascending: true })
+        .order("id", { ascending: true })
+        .range(desde, desde + TAMANO_PAGINA - 1);
+
+      if (error) {
+        throw new Error(`Error al obtener los snapshots: ${error.message}`);
+      }
+
+      snapshots.push(...(data || []));
+      if (!data || data.length < TAMANO_PAGINA) return snapshots;
+    }
+  },
+
+  /**
+   * Valor de las cuentas en una fecha: la suma del último snapshot de cada
+   * una hasta esa fecha. Las cuentas sin ninguno anterior no suman
+   * @returns null si ninguna cuenta tiene un snapshot anterior
+   */
+  async valorEnFecha(
+    userId: string,
+    idCuentas: number[],
+    fecha: string
+  ): Promise<{ valor: number; fecha: string } | null> {
+    const ultimos: SnapshotCartera[] = [];
+
+    for (const idCuenta of idCuentas) {
+      const { data, error } = await getSupabaseClient()
+        .from("snapshotsCartera")
+        .select("*")
+        .eq("idUsuario", userId)
+        .eq("idCuenta", idCuenta)
+        .lte("fecha", fecha)
+        .order("fecha", { ascending: false })
+        .order("id", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        throw new Error(
+          `Error al obtener el snapshot de la cuenta ${idCuenta}: ${error.message}`
+        );
+      }
+      if (data) ultimos.push(data);
+    }
+
+    if (ultimos.length === 0) return null;
+
+    return {
+      valor: ultimos.reduce((suma, s) => suma + Number(s.valorUSD), 0),
+      fecha: new Date(
+        Math.max(...ultimos.map((s) => Date.parse(s.fecha)))
+      ).toISOString(),
+    };
+  },
+
+  /**
+   * Curva de valor de las cuentas indicadas, con la rentabilidad de cada
+   * periodo y el drawdown
+   */
+  async generarCurva(
+    userId: string,
+    idCuentas: number[],
+    opciones: {
+      resolucion?: ResolucionCurva;
+      desde?: string;
+      hasta?: string;
+    } = {}
+  ): Promise<CurvaValor> {
+    const resolucion = opciones.resolucion || "dia";
+    const snapshots = await this.obtenerSnapshots(userId, {
+      idCuentas,
+      desde: opciones.desde,
+      hasta: opciones.hasta,
+    });
+
+    // Último snapshot de cada cuenta en cada periodo
+    const periodos: Map<number, Map<number, SnapshotCartera>> = new Map();
+    for (const snapshot of snapshots) {
+      const periodo = inicioPeriodo(Date.parse(snapshot.fecha), resolucion);
+      if (!periodos.has(periodo)) periodos.set(periodo, new Map());
+      periodos.get(periodo)!.set(snapshot.idCuenta, snapshot);
+    }
+
+    const flujos: FlujoCaja[] =
+      snapshots.length === 0
+        ? []
+        : (
+            await servicioMovimientos.obtenerMovimientos(userId, {
+              idCuentas,
+              desde: snapshots[0].fecha,
+              hasta: opciones.hasta,
+            })
+          )
+            .filter((m) => m.estado === "COMPLETADO" && m.valorUSD !== null)
+            .map((m) => ({
+              fecha: new Date(m.fecha).getTime(),
+              importe:
+                m.tipo === "DEPOSITO" ? Number(m.valorUSD) : -Number(m.valorUSD),
+            }));
+
+    const ultimos: Map<number, SnapshotCartera> = new Map();
+    const puntos: PuntoCurvaValor[] = [];
+    const indices: { fecha: number; valor: number }[] = [];
+    let anterior: { fecha: number; valor: number } | null = null;
+    let indice = 1;
+    let maximo = 1;
+
+    for (const [periodo, cuentas] of [...periodos.entries()].sort(
+      (a, b) => a[0] - b[0]
+    )) {
+      cuentas.forEach((snapshot, idCuenta) => ultimos.set(idCuenta, snapshot));
+
+      const fecha = Math.max(
+        ...[...cuentas.values()].map((s) => Date.parse(s.fecha))
+      );
+      const valor = [...ultimos.values()].reduce(
+        (suma, s) => suma + Number(s.valorUSD),
+        0
+      );
+      const actual = { fecha, valor };
+
+      let rentabilidad: number | null = null;
+      let flujoNeto = 0;
+      if (anterior) {
+        flujoNeto = flujos
+          .filter((f) => f.fecha > anterior!.fecha && f.fecha <= fecha)
+          .reduce((suma, f) => suma + f.importe, 0);
+        rentabilidad = calcularTWR([anterior, actual], flujos);
+        if (rentabilidad !== null) indice *= 1 + rentabilidad;
+      }
+      maximo = Math.max(maximo, indice);
+      indices.push({ fecha, valor: indice });
+
+      puntos.push({
+        periodo: new Date(periodo).toISOString(),
+        fecha: new Date(fecha).toISOString(),
+        valorUSD: redondear(valor),
+        flujoNeto: redondear(flujoNeto),
+        rentabilidad: rentabilidad === null ? null : redondearTasa(rentabilidad),
+        rentabilidadAcumulada: redondearTasa(indice - 1),
+        drawdown: redondearTasa(maximo > 0 ? indice / maximo - 1 : 0),
+      });
+      anterior = actual;
+    }
+
+    const drawdown = calcularDrawdown(indices);
+    const fechaISO = (fecha: number | undefined | null) =>
+      fecha === undefined || fecha === null ? null : new Date(fecha).toISOString();
+
+    return {
+      resolucion,
+      desde: opciones.desde || null,
+      hasta: opciones.hasta || null,
+      puntos,
+      rentabilidadTotal: puntos.length >= 2 ? redondearTasa(indice - 1) : null,
+      drawdownMaximo: {
+        porcentaje: redondearTasa(drawdown.maximo),
+        pico: fechaISO(drawdown.pico?.fecha),
+        valle: fechaISO(drawdown.valle?.fecha),
+        recuperacion: fechaISO(drawdown.recuperacion),
+      },
+      drawdownActual: redondearTasa(drawdown.actual),
+    };
+  },
+};
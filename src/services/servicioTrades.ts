@@ -0,0 +1,212 @@
+// servicios/servicioTrades.ts
+
+/**
+ * TRADES DEL EXCHANGE A COMPRAS Y VENTAS
+ *
+ * Guarda en "compras" y "ventas" los trades leídos por REST (myTrades), con
+ * las mismas reglas que el user data stream para que ninguna vía duplique a
+ * otra:
+ * - Compras: una fila por orden. Si la orden ya estaba guardada se recalcula
+ *   con todos sus fills; lo que haya crecido se suma a lo que le queda por
+ *   vender (servicioLotes.actualizarCompra)
+ * - Ventas: cada fill se reparte entre los lotes con servicioLotes, con el
+ *   trade id como fill de la orden (como el stream) y solo contra compras
+ *   anteriores. Las órdenes que ya registró quien las lanzó (bot, ruta de
+ *   venta, protecciones) se saltan
+ */
+
+import { getSupabaseClient } from "../lib/supabase.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import { servicioLotes } from "./servicioLotes.js";
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import { BinanceTrade } from "../interfaces/binance.types.js";
+
+/**
+ * Órdenes de venta que ya registró quien las lanzó: tienen una venta sin
+ * fill (la orden entera) o con un fill que no es un trade id
+ */
+async function ordenesRegistradasEnteras(
+  userId: string,
+  symbol: string,
+  idsOrden: string[]
+): Promise<Set<string>> {
+  const { data, error } = await getSupabaseClient()
+    .from("ventas")
+    .select("idOrden, idFill")
+    .eq("idUsuario", userId)
+    .eq("simbolo", symbol)
+    .in("idOrden", idsOrden);
+
+  if (error) {
+    throw new Error(`Error al consultar las ventas de ${symbol}: ${error.message}`);
+  }
+
+  return new Set(
+    (data || [])
+      .filter((v) => !v.idFill || !/^\d+$/.test(v.idFill))
+      .map((v) => v.idOrden as string)
+  );
+}
+
+export const servicioTrades = {
+  /**
+   * Guarda las compras de una lista de trades (una fila por orden)
+   * @throws Error al primer fallo de la base de datos
+   */
+  async guardarCompras(
+    userId: string,
+    conexion: ConexionExchange,
+    trades: BinanceTrade[]
+  ): Promise<{ nuevas: number; actualizadas: number }> {
+    const supabase = getSupabaseClient();
+    const { adapter, credentials } = conexion;
+    let nuevas = 0;
+    let actualizadas = 0;
+
+    const porOrden: Map<string, BinanceTrade[]> = new Map();
+    trades
+      .filter((t) => t.isBuyer)
+      .forEach((t) => {
+        const clave = `${t.symbol}:${t.orderId}`;
+        porOrden.set(clave, [...(porOrden.get(clave) || []), t]);
+      });
+
+    for (const fillsLista of porOrden.values()) {
+      const { symbol, orderId } = fillsLista[0];
+
+      const { data: compraExistente, error: errorConsulta } = await supabase
+        .from("compras")
+        .select("id")
+        .eq("idOrden", orderId.toString())
+        .eq("simbolo", symbol)
+        .eq("idUsuario", userId)
+        .maybeSingle();
+
+      if (errorConsulta) {
+        throw new Error(
+          `Error verificando compra ${orderId} - ${symbol}: ${
+            errorConsulta.message
+          }`
+        );
+      }
+
+      // Ya guardada (por el stream, el monitor o una pasada anterior): se
+      // recalcula con todos los fills de la orden, que pueden no estar todos
+      // en la lista
+      const fills = (
+        compraExistente
+          ? await adapter.getMyTrades(credentials, { symbol, orderId })
+          : fillsLista
+      ).sort((a, b) => a.time - b.time || a.id - b.id);
+
+      const cantidad = fills.reduce((suma, f) => suma + parseFloat(f.qty), 0);
+      const total = fills.reduce((suma, f) => suma + parseFloat(f.quoteQty), 0);
+      const comision = await servicioComisiones.normalizar(
+        adapter,
+        symbol,
+        fills,
+        fills[0].time
+      );
+      const datosCompra = {
+        precio: cantidad > 0 ? total / cantidad : parseFloat(fills[0].price),
+        cantidad,
+        total,
+        comision: comision.comision,
+        comisionMoneda: comision.comisionMoneda,
+        comisionCotizacion: comision.comisionCotizacion,
+        idsFills: fills.map((f) => f.id),
+      };
+
+      if (compraExistente) {
+        await servicioLotes.actualizarCompra(compraExistente.id, datosCompra);
+        actualizadas++;
+      } else {
+        const { error } = await supabase.from("compras").insert([
+          {
+            ...datosCompra,
+            exchange: adapter.nombre,
+            idCuenta: conexion.id,
+            idOrden: orderId.toString(),
+            simbolo: symbol,
+            fechaCompra: new Date(fills[0].time).toISOString(),
+            vendida: false,
+            idUsuario: userId,
+          },
+        ]);
+
+        if (error) {
+          throw new Error(`Error guardando compra ${orderId}: ${error.message}`);
+        }
+        nuevas++;
+      }
+    }
+
+    return { nuevas, actualizadas };
+  },
+
+  /**
+   * Reparte los fills de venta de una lista de trades entre los lotes, del
+   * más antiguo al más reciente. Los ya registrados se saltan y los que no
+   * cubre ningún lote se guardan igual (sinLote los cuenta)
+   * @throws Error al primer fallo de la base de datos
+   */
+  async guardarVentas(
+    userId: string,
+    conexion: ConexionExchange,
+    trades: BinanceTrade[]
+  ): Promise<{ registradas: number; sinLote: number }> {
+    const { adapter } = conexion;
+    let registradas = 0;
+    let sinLote = 0;
+
+    const ventas = trades
+      .filter((t) => !t.isBuyer)
+      .sort((a, b) => a.time - b.time || a.id - b.id);
+    if (ventas.length === 0) return { registradas, sinLote };
+
+    const metodo = await servicioLotes.obtenerMetodo(userId);
+
+    for (const symbol of [...new Set(ventas.map((t) => t.symbol))]) {
+      const delSimbolo = ventas.filter((t) => t.symbol === symbol);
+      const enteras = await ordenesRegistradasEnteras(userId, symbol, [
+        ...new Set(delSimbolo.map((t) => t.orderId.toString())),
+      ]);
+
+      for (const trade of delSimbolo) {
+        if (enteras.has(trade.orderId.toString())) continue;
+
+        const comision = await servicioComisiones.normalizar(
+          adapter,
+          symbol,
+          [trade],
+          trade.time
+        );
+        const resultado = await servicioLotes.registrarVenta({
+          idUsuario: userId,
+          exchange: adapter.nombre,
+          idCuenta: conexion.id,
+          simbolo: symbol,
+          cantidad: parseFloat(trade.qty),
+          precioVenta: parseFloat(trade.price),
+          comision,
+          fecha: trade.time,
+          metodo,
+          idOrden: trade.orderId.toString(),
+          idFill: trade.id.toString(),
+          soloAnteriores: true,
+        });
+
+        if (resultado.duplicada) continue;
+        registradas++;
+        if (resultado.cantidadAsignada === 0) {
+          sinLote++;
+          console.log(
+            `⚠️ Venta de ${symbol} (orden ${trade.orderId}) sin compras anteriores a las que asignarla`
+          );
+        }
+      }
+    }
+
+    return { registradas, sinLote };
+  },
+};
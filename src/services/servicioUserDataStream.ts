@@ -0,0 +1,508 @@
+// servicios/servicioUserDataStream.ts
+
+/**
+ * USER DATA STREAM DE BINANCE
+ *
+ * Mantiene un listenKey y un WebSocket por cada conexión de Binance del
+ * usuario y procesa los eventos en cuanto llegan:
+ * 1. executionReport: los fills se guardan en compras/ventas
+ *    (o, si la orden es de una protección, contra su compra)
+ * 2. listStatus: cierre de las OCO de protección
+ * 3. outboundAccountPosition: se notifican los nuevos balances
+ *
+ * Las órdenes lanzadas desde la propia aplicación (clientOrderId con
+ * PREFIJO_ORDEN_APP) ya las guardan la ruta o el bot que las crea; aquí
+ * solo se notifican para no duplicarlas.
+ */
+
+import { WebSocket } from "ws";
+import { getSupabaseClient } from "../lib/supabase.js";
+import { webSocketService } from "./servicioWebSocket.js";
+import { servicioExchanges } from "./servicioExchanges.js";
+import { servicioProtecciones } from "./servicioProtecciones.js";
+import { servicioOrdenes } from "./servicioOrdenes.js";
+import { servicioComisiones } from "./servicioComisiones.js";
+import { servicioLotes } from "./servicioLotes.js";
+import { BinanceService, PREFIJO_ORDEN_APP } from "./servicioBinance.js";
+import { ConexionExchange } from "../interfaces/exchange.types.js";
+import {
+  ExecutionReportEvent,
+  ListStatusEvent,
+  OutboundAccountPositionEvent,
+} from "../interfaces/binance.types.js";
+
+interface StreamUserData {
+  userId: string;
+  conexion: ConexionExchange;
+  adapter: BinanceService;
+  listenKey: string | null;
+  socket: WebSocket | null;
+  keepalive: NodeJS.Timeout | null;
+  reconexion: NodeJS.Timeout | null;
+  intentos: number;
+  detenido: boolean;
+  desconectadoDesde: number | null;
+  tradesProcesados: Set<number>;
+  cola: Promise<void>; // los eventos se procesan de uno en uno y en orden
+  alReconectar?: (desde: number) => Promise<void> | void;
+}
+
+export interface OpcionesUserDataStream {
+  // Se llama tras una reconexión para recuperar lo ocurrido mientras tanto
+  alReconectar?: (desde: number) => Promise<void> | void;
+}
+
+// Binance caduca el listenKey a los 60 minutos sin keepalive
+const KEEPALIVE_MS = 30 * 60 * 1000;
+const RECONEXION_MAX_MS = 60 * 1000;
+
+export class ServicioUserDataStream {
+  private streams: Map<string, StreamUserData> = new Map();
+
+  /**
+   * Abre el user data stream de todas las conexiones de Binance del usuario
+   * @returns Número de streams abiertos (0 si no se pudo abrir ninguno)
+   */
+  async iniciarUsuario(
+    userId: string,
+    opciones: OpcionesUserDataStream = {}
+  ): Promise<number> {
+    const conexiones = await servicioExchanges.obtenerConexionesUsuario(userId);
+    let iniciados = 0;
+
+    for (const conexion of conexiones) {
+      const clave = `${userId}|${conexion.id}`;
+      if (this.streams.has(clave)) {
+        iniciados++;
+        continue;
+      }
+
+      if (!(conexion.adapter instanceof BinanceService)) {
+        console.log(
+          `ℹ️ ${conexion.exchange} no tiene user data stream, se omite la conexión ${conexion.id}`
+        );
+        continue;
+      }
+
+      const stream: StreamUserData = {
+        userId,
+        conexion,
+        adapter: conexion.adapter,
+        listenKey: null,
+        socket: null,
+        keepalive: null,
+        reconexion: null,
+        intentos: 0,
+        detenido: false,
+        desconectadoDesde: null,
+        tradesProcesados: new Set(),
+        cola: Promise.resolve(),
+        alReconectar: opciones.alReconectar,
+      };
+
+      try {
+        await this.conectar(stream);
+        this.streams.set(clave, stream);
+        iniciados++;
+      } catch (error) {
+        console.error(
+          `❌ No se pudo abrir el user data stream de la conexión ${conexion.id} (usuario ${userId}):`,
+          error
+        );
+      }
+    }
+
+    return iniciados;
+  }
+
+  /**
+   * Cierra todos los streams de un usuario
+   */
+  detenerUsuario(userId: string): void {
+    for (const [clave, stream] of this.streams.entries()) {
+      if (stream.userId !== userId) continue;
+      this.cerrar(stream);
+      this.streams.delete(clave);
+    }
+  }
+
+  detenerTodos(): void {
+    for (const stream of this.streams.values()) {
+      this.cerrar(stream);
+    }
+    this.streams.clear();
+    console.log("✅ Todos los user data streams han sido cerrados");
+  }
+
+  tieneStreamActivo(userId: string): boolean {
+    return Array.from(this.streams.values()).some((s) => s.userId === userId);
+  }
+
+  // ===========================================================================
+  // CONEXIÓN
+  // ===========================================================================
+
+  private async conectar(stream: StreamUserData): Promise<void> {
+    const { adapter, conexion, userId } = stream;
+
+    stream.listenKey = await adapter.crearListenKey(conexion.credentials);
+    const socket = new WebSocket(
+      adapter.obtenerUrlUserDataStream(stream.listenKey)
+    );
+    stream.socket = socket;
+
+    socket.on("open", () => {
+      console.log(
+        `🔗 User data stream conectado (usuario ${userId}, conexión ${conexion.id})`
+      );
+      stream.intentos = 0;
+
+      // Recuperar lo que haya pasado mientras estuvimos desconectados
+      if (stream.desconectadoDesde && stream.alReconectar) {
+        const desde = stream.desconectadoDesde;
+        stream.desconectadoDesde = null;
+        Promise.resolve(stream.alReconectar(desde)).catch((error) =>
+          console.error(`❌ Error recuperando eventos de ${userId}:`, error)
+        );
+      }
+    });
+
+    socket.on("message", (data) => {
+      // Los fills de una misma orden actualizan la misma compra: en serie
+      stream.cola = stream.cola
+        .then(() => this.procesarMensaje(stream, data.toString()))
+        .catch((error) =>
+          console.error(`💥 Error procesando evento de ${userId}:`, error)
+        );
+    });
+
+    socket.on("close", () => {
+      if (stream.detenido || stream.socket !== socket) return;
+      console.log(`🔌 User data stream cerrado para ${userId}, reconectando...`);
+      stream.desconectadoDesde ??= Date.now();
+      this.programarReconexion(stream);
+    });
+
+    socket.on("error", (error) => {
+      // Tras un error siempre llega un close, que es el que reconecta
+      console.error(`❌ Error en user data stream de ${userId}:`, error.message);
+    });
+
+    if (!stream.keepalive) {
+      stream.keepalive = setInterval(() => this.renovar(stream), KEEPALIVE_MS);
+    }
+  }
+
+  private programarReconexion(stream: StreamUserData): void {
+    if (stream.detenido || stream.reconexion) return;
+
+    const espera = Math.min(1000 * 2 ** stream.intentos, RECONEXION_MAX_MS);
+    stream.intentos++;
+
+    stream.reconexion = setTimeout(async () => {
+      stream.reconexion = null;
+      if (stream.detenido) return;
+      try {
+        await this.conectar(stream);
+      } catch (error) {
+        console.error(`❌ Reconexión fallida para ${stream.userId}:`, error);
+        this.programarReconexion(stream);
+      }
+    }, espera);
+  }
+
+  private async renovar(stream: StreamUserData): Promise<void> {
+    if (stream.detenido || !stream.listenKey) return;
+
+    const renovado = await stream.adapter
+      .renovarListenKey(stream.conexion.credentials, stream.listenKey)
+      .catch(() => false);
+
+    // listenKey caducado: forzar reconexión con uno nuevo
+    if (!renovado) {
+      stream.socket?.terminate();
+    }
+  }
+
+  private cerrar(stream: StreamUserData): void {
+    stream.detenido = true;
+    if (stream.keepalive) clearInterval(stream.keepalive);
+    if (stream.reconexion) clearTimeout(stream.reconexion);
+    stream.socket?.close();
+
+    if (stream.listenKey) {
+      stream.adapter
+        .cerrarListenKey(stream.conexion.credentials, stream.listenKey)
+        .catch(() => undefined);
+    }
+    console.log(`🛑 User data stream detenido para ${stream.userId}`);
+  }
+
+  // ===========================================================================
+  // EVENTOS
+  // ===========================================================================
+
+  private async procesarMensaje(
+    stream: StreamUserData,
+    mensaje: string
+  ): Promise<void> {
+    const evento = JSON.parse(mensaje);
+
+    switch (evento.e) {
+      case "executionReport":
+        await this.procesarEjecucion(stream, evento as ExecutionReportEvent);
+        break;
+      case "listStatus":
+        await servicioProtecciones.procesarEstadoLista(
+          stream.userId,
+          evento as ListStatusEvent
+        );
+        break;
+      case "outboundAccountPosition":
+        this.procesarPosicion(stream, evento as OutboundAccountPositionEvent);
+        break;
+      case "listenKeyExpired":
+        console.log(`⌛ listenKey caducado para ${stream.userId}`);
+        stream.socket?.terminate();
+        break;
+    }
+  }
+
+  private async procesarEjecucion(
+    stream: StreamUserData,
+    evento: ExecutionReportEvent
+  ): Promise<void> {
+    const { userId } = stream;
+
+    webSocketService.enviarNotificacion(userId, {
+      tipo: "orden_actualizada",
+      simbolo: evento.s,
+      lado: evento.S,
+      estado: evento.X,
+      orderId: evento.i,
+      cantidad: parseFloat(evento.q),
+      cantidadEjecutada: parseFloat(evento.z),
+      precio: parseFloat(evento.L) || parseFloat(evento.p),
+      timestamp: new Date(evento.E).toISOString(),
+    });
+
+    if (evento.x === "TRADE") {
+      if (stream.tradesProcesados.has(evento.t)) return;
+      stream.tradesProcesados.add(evento.t);
+      if (stream.tradesProcesados.size > 5000) {
+        stream.tradesProcesados.clear();
+        stream.tradesProcesados.add(evento.t);
+      }
+    }
+
+    // Órdenes de la aplicación que seguían abiertas (LIMIT, condicionales)
+    await servicioOrdenes.procesarEjecucion(userId, evento);
+
+    // Las ventas de una protección (OCO, stop loss...) se registran contra
+    // su compra, también si se cancelan o caducan
+    if (
+      evento.S === "SELL" &&
+      (await servicioProtecciones.procesarEjecucion(
+        userId,
+        evento,
+        stream.adapter
+      ))
+    ) {
+      return;
+    }
+
+    // Solo los fills generan compras/ventas
+    if (evento.x !== "TRADE") return;
+
+    // Las órdenes de la aplicación las guarda quien las lanza
+    if (evento.c?.startsWith(PREFIJO_ORDEN_APP)) {
+      return;
+    }
+
+    if (evento.S === "BUY") {
+      await this.guardarFillCompra(stream, evento);
+    } else {
+      await this.guardarFillVenta(stream, evento);
+    }
+  }
+
+  /**
+   * Una compra por orden: cada fill actualiza los acumulados de la orden. Los
+   * fills ya sumados (idsFills) se saltan, también tras un reinicio
+   */
+  private async guardarFillCompra(
+    stream: StreamUserData,
+    evento: ExecutionReportEvent
+  ): Promise<void> {
+    const supabase = getSupabaseClient();
+    const { userId, adapter } = stream;
+
+    const cantidad = parseFloat(evento.z);
+    const total = parseFloat(evento.Z);
+    const comisionFill = await servicioComisiones.normalizar(
+      adapter,
+      evento.s,
+      [{ commission: evento.n, commissionAsset: evento.N, price: evento.L }],
+      evento.T
+    );
+
+    const { data: compraExistente, error: errorConsulta } = await supabase
+      .from("compras")
+      .select("id, comision, comisionMoneda, comisionCotizacion, idsFills")
+      .eq("idOrden", evento.i.toString())
+      .eq("simbolo", evento.s)
+      .eq("idUsuario", userId)
+      .maybeSingle();
+
+    if (errorConsulta) {
+      console.error(
+        `❌ Error verificando compra ${evento.i} - ${evento.s}:`,
+        errorConsulta
+      );
+      return;
+    }
+
+    const idsFills: number[] = (compraExistente?.idsFills || []).map(Number);
+    if (idsFills.includes(evento.t)) {
+      console.log(
+        `⏭️ Fill ${evento.t} de la orden ${evento.i} ya guardado en su compra`
+      );
+      return;
+    }
+
+    const comision = servicioComisiones.acumular(compraExistente, comisionFill);
+    const datosCompra = {
+      precio: cantidad > 0 ? total / cantidad : parseFloat(evento.L),
+      cantidad,
+      total,
+      comision: comision.comision,
+      comisionMoneda: comision.comisionMoneda,
+      comisionCotizacion: comision.comisionCotizacion,
+      idsFills: [...idsFills, evento.t],
+    };
+
+    if (compraExistente) {
+      try {
+        await servicioLotes.actualizarCompra(compraExistente.id, datosCompra);
+      } catch (error) {
+        console.error(`❌ Error actualizando compra ${evento.i}:`, error);
+        return;
+      }
+    } else {
+      const { error } = await supabase.from("compras").insert([
+        {
+          ...datosCompra,
+          exchange: adapter.nombre,
+          idCuenta: stream.conexion.id,
+          idOrden: evento.i.toString(),
+          simbolo: evento.s,
+          fechaCompra: new Date(evento.T).toISOString(),
+          vendida: false,
+          idUsuario: userId,
+        },
+      ]);
+
+      if (error) {
+        console.error(`❌ Error guardando compra ${evento.i}:`, error);
+        return;
+      }
+    }
+
+    console.log(
+      `✅ Fill de compra guardado: ${evento.s} ${evento.l} @ ${evento.L} (orden ${evento.i})`
+    );
+
+    webSocketService.enviarNotificacion(userId, {
+      tipo: compraExistente ? "compra_actualizada" : "nueva_compra",
+      mensaje: `Compra de ${evento.l} ${evento.s} a ${evento.L} en ${adapter.nombre}`,
+      simbolo: evento.s,
+      orderId: evento.i,
+      cantidad,
+      total,
+      timestamp: new Date(evento.T).toISOString(),
+    });
+  }
+
+  /**
+   * Reparte el fill de venta entre las compras abiertas del símbolo con el
+   * método de coste del usuario
+   */
+  private async guardarFillVenta(
+    stream: StreamUserData,
+    evento: ExecutionReportEvent
+  ): Promise<void> {
+    const { userId, adapter } = stream;
+
+    const cantidadFill = parseFloat(evento.l);
+    const precioVenta = parseFloat(evento.L);
+    const comisionFill = await servicioComisiones.normalizar(
+      adapter,
+      evento.s,
+      [{ commission: evento.n, commissionAsset: evento.N, price: evento.L }],
+      evento.T
+    );
+
+    let resultado;
+    try {
+      resultado = await servicioLotes.registrarVenta({
+        idUsuario: userId,
+        exchange: adapter.nombre,
+        idCuenta: stream.conexion.id,
+        simbolo: evento.s,
+        cantidad: cantidadFill,
+        precioVenta,
+        comision: comisionFill,
+        fecha: evento.T,
+        metodo: await servicioLotes.obtenerMetodo(userId),
+        idOrden: evento.i.toString(),
+        idFill: evento.t.toString(),
+      });
+    } catch (error) {
+      console.error(`❌ Error guardando el fill de venta ${evento.i}:`, error);
+      return;
+    }
+
+    if (resultado.duplicada) return;
+    if (resultado.cantidadAsignada === 0) {
+      console.log(
+        `⚠️ Venta de ${evento.s} (orden ${evento.i}) sin compras abiertas a las que asignarla`
+      );
+      return;
+    }
+    const lotes = resultado.emparejamientos.length;
+
+    console.log(
+      `✅ Fill de venta guardado: ${evento.s} ${evento.l} @ ${evento.L} (${lotes} lote/s)`
+    );
+
+    webSocketService.enviarNotificacion(userId, {
+      tipo: "nueva_venta",
+      mensaje: `Venta de ${evento.l} ${evento.s} a ${evento.L} en ${adapter.nombre}`,
+      simbolo: evento.s,
+      orderId: evento.i,
+      cantidad: cantidadFill,
+      precio: precioVenta,
+      lotes,
+      beneficio: resultado.venta.beneficio,
+      timestamp: new Date(evento.T).toISOString(),
+    });
+  }
+
+  private procesarPosicion(
+    stream: StreamUserData,
+    evento: OutboundAccountPositionEvent
+  ): void {
+    webSocketService.enviarNotificacion(stream.userId, {
+      tipo: "balance_actualizado",
+      exchange: stream.adapter.nombre,
+      balances: evento.B.map((b) => ({
+        asset: b.a,
+        free: parseFloat(b.f),
+        locked: parseFloat(b.l),
+      })),
+      timestamp: new Date(evento.E).toISOString(),
+    });
+  }
+}
+
+export const servicioUserDataStream = new ServicioUserDataStream();
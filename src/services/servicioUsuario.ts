@@ -1,5 +1,6 @@
 // servicios/servicioUsuario.ts
 import { getSupabaseClient } from "../lib/supabase";
+import { RegistroExchange } from "../interfaces/exchange.types";
 
 interface Usuario {
   id: number;
@@ -9,12 +10,6 @@ interface Usuario {
   ultimoAcceso: string | null;
   // Agrega otros campos si es necesario, pero para la respuesta del login no queremos la contraseña
 }
-interface Exchange {
-  id: number;
-  exchange: string;
-  api_key: string;
-  api_secret: string;
-}
 
 export const servicioUsuario = {
   /**
@@ -47,13 +42,14 @@ export const servicioUsuario = {
       exchange?: string;
       is_active?: boolean;
     }
-  ): Promise<Exchange[]> {
+  ): Promise<RegistroExchange[]> {
     const supabase = getSupabaseClient();
 
     let consulta = supabase
       .from("exchanges")
-      .select("id,exchange, api_key, api_secret") // Añadimos api_key, api_secret y id
-      .eq("user_id", userId);
+      .select("id,exchange, api_key, api_secret, entorno, base_url, nombre, permisos") // Añadimos api_key, api_secret, id y entorno
+      .eq("user_id", userId)
+      .order("id", { ascending: true }); // la primera cuenta es la más antigua
     // Aplicar filtros opcionales si existen
     if (options?.exchange) {
       consulta = consulta.eq("exchange", options.exchange.toUpperCase());
@@ -181,7 +177,8 @@ export const servicioUsuario = {
   obtenerVentasUsuario: async (
     userId: string,
     bots: boolean = false,
-    fechaDesde?: string // Nuevo parámetro opcional
+    fechaDesde?: string, // Nuevo parámetro opcional
+    idCuenta?: number // solo las de una cuenta (por defecto todas)
   ): Promise<any[]> => {
     try {
       console.log(`📊 Obteniendo ventas para usuario ID: ${userId}`);
@@ -209,6 +206,10 @@ export const servicioUsuario = {
         query = query.gte("fechaVenta", fechaDesde);
       }
 
+      if (idCuenta !== undefined) {
+        query = query.eq("idCuenta", idCuenta);
+      }
+
       // Ejecutar consulta con orden
       const { data: ventas, error } = await query.order("fechaVenta", {
         ascending: false,
@@ -238,7 +239,8 @@ export const servicioUsuario = {
     userId: string,
     bots: boolean = false,
     fechaDesde?: string,
-    noVendida: boolean= false
+    noVendida: boolean= false,
+    idCuenta?: number // solo las de una cuenta (por defecto todas)
   ): Promise<any[]> => {
     try {
       console.log(`📊 Obteniendo compras para usuario ID: ${userId}`);
@@ -260,6 +262,10 @@ export const servicioUsuario = {
         query = query.gte("fechaCompra", fechaDesde);
       }
 
+      if (idCuenta !== undefined) {
+        query = query.eq("idCuenta", idCuenta);
+      }
+
       const { data: compras, error } = await query.order("fechaCompra", {
         ascending: false,
       });
@@ -283,7 +289,8 @@ export const servicioUsuario = {
     userId: string,
     symbol: string,
     bots: boolean = false,
-    fechaDesde?: string
+    fechaDesde?: string,
+    idCuenta?: number
   ): Promise<any[]> => {
     try {
       console.log(
@@ -306,6 +313,10 @@ export const servicioUsuario = {
         query = query.gte("fechaCompra", fechaDesde);
       }
 
+      if (idCuenta !== undefined) {
+        query = query.eq("idCuenta", idCuenta);
+      }
+
       const { data: compras, error } = await query.order("fechaCompra", {
         ascending: false,
       });
@@ -332,7 +343,8 @@ export const servicioUsuario = {
     userId: string,
     symbol: string,
     bots: boolean = false,
-    fechaDesde?: string
+    fechaDesde?: string,
+    idCuenta?: number
   ): Promise<any[]> => {
     try {
       console.log(
@@ -360,6 +372,10 @@ export const servicioUsuario = {
         query = query.gte("fechaVenta", fechaDesde);
       }
 
+      if (idCuenta !== undefined) {
+        query = query.eq("idCuenta", idCuenta);
+      }
+
       const { data: ventas, error } = await query.order("fechaVenta", {
         ascending: false,
       });
@@ -382,17 +398,24 @@ export const servicioUsuario = {
   },
 
   desactivarBotEnCompras: async (
-    userId: string
+    userId: string,
+    idCuenta?: number
   ): Promise<{ success: boolean; count: number; error?: string }> => {
     try {
       const supabase = getSupabaseClient();
 
-      const { data, error } = await supabase
+      let query = supabase
         .from("compras")
         .update({ botS: false })
         .eq("idUsuario", userId)
-        .eq("botS", true)
-        .select(); // opcional: para obtener las filas actualizadas
+        .eq("botS", true);
+
+      // Solo las compras de la cuenta cuyo bot se desactiva
+      if (idCuenta !== undefined) {
+        query = query.eq("idCuenta", idCuenta);
+      }
+
+      const { data, error } = await query.select(); // opcional: para obtener las filas actualizadas
 
       if (error) {
         console.error("Error al desactivar botS en compras:", error);
@@ -0,0 +1,12 @@
+-- Entorno de Binance de cada conexión.
+--
+-- "entorno" es mainnet, testnet o custom; las filas sin entorno (las
+-- anteriores a esta migración) se tratan como ENTORNO_BINANCE_POR_DEFECTO.
+-- "base_url" solo se usa con custom (simulador u otro host compatible).
+
+alter table exchanges add column if not exists entorno text;
+alter table exchanges add column if not exists base_url text;
+
+alter table exchanges drop constraint if exists exchanges_entorno_check;
+alter table exchanges add constraint exchanges_entorno_check
+  check (entorno is null or entorno in ('mainnet', 'testnet', 'custom'));
@@ -0,0 +1,6 @@
+-- Activo en el que se cobra la comisión de cada compra.
+--
+-- El user data stream la guarda con cada fill ("N" del executionReport);
+-- las compras anteriores la dejan a null.
+
+alter table compras add column if not exists "comisionMoneda" text;
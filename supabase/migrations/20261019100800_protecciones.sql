@@ -0,0 +1,33 @@
+-- Órdenes de protección (OCO, stop loss, take profit) de cada compra.
+--
+-- Una fila por orden u OCO lanzada; "estado" pasa de activa a ejecutada o
+-- cancelada y "ladoEjecutado" dice qué pata de la OCO se llenó.
+
+create table if not exists protecciones (
+  id bigint generated by default as identity primary key,
+  "idCompra" bigint not null references compras (id),
+  "idUsuario" bigint not null references usuarios (id),
+  exchange text not null,
+  simbolo text not null,
+  tipo text not null,
+  "idListaOrdenes" bigint,
+  "idOrdenObjetivo" bigint,
+  "idOrdenStop" bigint,
+  "precioObjetivo" double precision,
+  "precioStop" double precision,
+  "precioStopLimite" double precision,
+  cantidad double precision not null,
+  "cantidadEjecutada" double precision not null default 0,
+  estado text not null default 'activa'
+    check (estado in ('activa', 'ejecutada', 'cancelada')),
+  "ladoEjecutado" text check ("ladoEjecutado" in ('objetivo', 'stop')),
+  "fechaCreacion" timestamptz not null default now(),
+  "fechaCierre" timestamptz
+);
+
+create index if not exists protecciones_compra_idx
+  on protecciones ("idUsuario", "idCompra");
+
+create index if not exists protecciones_activas_idx
+  on protecciones ("idUsuario", estado)
+  where estado = 'activa';
@@ -0,0 +1,26 @@
+-- Órdenes lanzadas desde la aplicación que siguen abiertas en el exchange.
+--
+-- Se borran al llenarse del todo o cancelarse; "idCompra" enlaza las ventas
+-- con la compra que cierran.
+
+create table if not exists "ordenesPendientes" (
+  id bigint generated by default as identity primary key,
+  "idUsuario" bigint not null references usuarios (id),
+  exchange text not null,
+  simbolo text not null,
+  "idOrden" bigint not null,
+  "idOrdenCliente" text not null,
+  "idCompra" bigint references compras (id),
+  lado text not null check (lado in ('BUY', 'SELL')),
+  tipo text not null,
+  precio double precision,
+  "precioStop" double precision,
+  cantidad double precision not null,
+  "cantidadEjecutada" double precision not null default 0,
+  estado text not null,
+  "fechaCreacion" timestamptz not null default now(),
+  "fechaActualizacion" timestamptz not null default now()
+);
+
+create index if not exists ordenes_pendientes_orden_idx
+  on "ordenesPendientes" ("idUsuario", "idOrden");
@@ -0,0 +1,37 @@
+-- Depósitos y retiros importados del exchange, y los cursores con los que
+-- la importación continúa donde se quedó.
+
+create table if not exists movimientos (
+  id bigint generated by default as identity primary key,
+  "idUsuario" bigint not null references usuarios (id),
+  exchange text not null,
+  tipo text not null check (tipo in ('DEPOSITO', 'RETIRO')),
+  "idExterno" text not null,
+  activo text not null,
+  cantidad double precision not null,
+  comision double precision not null default 0,
+  red text,
+  "txId" text,
+  estado text not null check (estado in ('COMPLETADO', 'PENDIENTE', 'FALLIDO')),
+  "valorUSD" double precision,
+  fecha timestamptz not null,
+  "fechaActualizacion" timestamptz not null default now()
+);
+
+create unique index if not exists movimientos_externo_idx
+  on movimientos ("idUsuario", exchange, tipo, "idExterno");
+
+create index if not exists movimientos_fecha_idx
+  on movimientos ("idUsuario", fecha);
+
+create table if not exists "cursoresSincronizacion" (
+  id bigint generated by default as identity primary key,
+  "idUsuario" bigint not null references usuarios (id),
+  exchange text not null,
+  clave text not null,
+  cursor bigint not null,
+  "fechaActualizacion" timestamptz not null default now()
+);
+
+create unique index if not exists cursores_sincronizacion_clave_idx
+  on "cursoresSincronizacion" ("idUsuario", exchange, clave);
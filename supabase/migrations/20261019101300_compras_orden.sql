@@ -0,0 +1,8 @@
+-- Búsqueda de compras por orden del exchange.
+--
+-- El backfill del historial (y el stream y la resincronización) buscan la
+-- compra de cada orden antes de insertarla o sumarle fills; sin índice cada
+-- búsqueda recorre todas las compras del usuario.
+
+create index if not exists compras_orden_idx
+  on compras ("idUsuario", simbolo, "idOrden");
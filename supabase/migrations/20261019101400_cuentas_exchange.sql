@@ -0,0 +1,30 @@
+-- Varias cuentas con nombre por usuario y exchange.
+--
+-- Cada operación, protección, orden pendiente, movimiento y cursor guarda la
+-- cuenta ("exchanges".id) a la que pertenece. Las filas anteriores quedan con
+-- "idCuenta" a null; 20261019130000_asignar_cuenta_operaciones las asigna.
+
+alter table exchanges add column if not exists nombre text;
+
+alter table compras add column if not exists "idCuenta" bigint references exchanges (id);
+alter table ventas add column if not exists "idCuenta" bigint references exchanges (id);
+alter table protecciones add column if not exists "idCuenta" bigint references exchanges (id);
+alter table "ordenesPendientes" add column if not exists "idCuenta" bigint references exchanges (id);
+alter table movimientos add column if not exists "idCuenta" bigint references exchanges (id);
+alter table "cursoresSincronizacion" add column if not exists "idCuenta" bigint references exchanges (id);
+
+create index if not exists compras_cuenta_idx on compras ("idUsuario", "idCuenta");
+create index if not exists ventas_cuenta_idx on ventas ("idUsuario", "idCuenta");
+
+-- Los movimientos y cursores pasan a identificarse por cuenta: dos cuentas
+-- del mismo exchange tienen sus propios ids externos y su propio progreso.
+-- Los cursores sin cuenta ya no se leen y la sincronización empieza de cero
+-- (los movimientos y trades no se duplican).
+drop index if exists movimientos_externo_idx;
+create unique index if not exists movimientos_externo_idx
+  on movimientos ("idUsuario", "idCuenta", tipo, "idExterno");
+
+alter table "cursoresSincronizacion" alter column exchange drop not null;
+drop index if exists cursores_sincronizacion_clave_idx;
+create unique index if not exists cursores_sincronizacion_clave_idx
+  on "cursoresSincronizacion" ("idUsuario", "idCuenta", clave);
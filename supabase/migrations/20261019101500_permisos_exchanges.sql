@@ -0,0 +1,5 @@
+-- Permisos de la API key leídos del exchange al conectar la cuenta.
+--
+-- Null si nunca se han comprobado (conexiones anteriores a esta migración).
+
+alter table exchanges add column if not exists permisos jsonb;
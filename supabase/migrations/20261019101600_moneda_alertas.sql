@@ -0,0 +1,5 @@
+-- Moneda en la que se expresa el precio objetivo de una alerta.
+--
+-- Las alertas anteriores eran en USDC.
+
+alter table alertas add column if not exists moneda text not null default 'USDC';
@@ -0,0 +1,17 @@
+-- Registro de pares con los que trabaja la aplicación.
+--
+-- servicioSimbolos lo siembra con los pares que antes estaban en el código y
+-- lo actualiza con exchangeInfo; "precios", "alertas" y "bot" activan cada
+-- función para el par.
+
+create table if not exists simbolos (
+  id bigint generated by default as identity primary key,
+  simbolo text not null unique,
+  "activoBase" text not null,
+  "activoCotizacion" text not null,
+  estado text not null,
+  precios boolean not null default true,
+  alertas boolean not null default true,
+  bot boolean not null default false,
+  "fechaActualizacion" timestamptz not null default now()
+);
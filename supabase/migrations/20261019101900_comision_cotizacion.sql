@@ -0,0 +1,6 @@
+-- Comisiones valoradas en la moneda de cotización del par.
+--
+-- Null si no se pudo valorar la comisión (sin precio del activo cobrado).
+
+alter table compras add column if not exists "comisionCotizacion" double precision;
+alter table ventas add column if not exists "comisionVentaCotizacion" double precision;
@@ -0,0 +1,41 @@
+-- Reparto de las ventas entre lotes de compra.
+--
+-- "cantidadRestante" es lo que queda sin vender de cada compra (null en las
+-- anteriores: registrar_venta lo calcula con sus ventas). Cada venta guarda
+-- el método con el que se eligieron los lotes y cada parte cubierta por una
+-- compra va a "emparejamientosVenta". El método por defecto del usuario está
+-- en usuarios."metodoCoste" (ESPECIFICO se elige venta a venta).
+
+alter table compras add column if not exists "cantidadRestante" double precision;
+
+alter table ventas add column if not exists "metodoCoste" text
+  check ("metodoCoste" in ('FIFO', 'LIFO', 'HIFO', 'ESPECIFICO'));
+
+alter table usuarios add column if not exists "metodoCoste" text not null default 'FIFO'
+  check ("metodoCoste" in ('FIFO', 'LIFO', 'HIFO'));
+
+create index if not exists compras_abiertas_idx
+  on compras ("idUsuario", "idCuenta", simbolo)
+  where vendida = false;
+
+create table if not exists "emparejamientosVenta" (
+  id bigint generated by default as identity primary key,
+  "idVenta" bigint not null references ventas (id) on delete cascade,
+  "idCompra" bigint not null references compras (id),
+  "idUsuario" bigint not null references usuarios (id),
+  simbolo text not null,
+  cantidad double precision not null,
+  "precioCompra" double precision not null,
+  "precioVenta" double precision not null,
+  coste double precision not null,
+  "comisionVenta" double precision,
+  beneficio double precision not null,
+  "fechaCompra" timestamptz not null,
+  "fechaVenta" timestamptz not null
+);
+
+create index if not exists emparejamientos_venta_idx
+  on "emparejamientosVenta" ("idVenta");
+
+create index if not exists emparejamientos_compra_idx
+  on "emparejamientosVenta" ("idCompra");
@@ -0,0 +1,20 @@
+-- Valor de cada cuenta a lo largo del tiempo (una fila por cuenta y hora).
+--
+-- "activos" guarda el desglose por activo y "sinPrecio" los que no se
+-- pudieron valorar y no suman en valorUSD.
+
+create table if not exists "snapshotsCartera" (
+  id bigint generated by default as identity primary key,
+  "idUsuario" bigint not null references usuarios (id),
+  "idCuenta" bigint not null references exchanges (id),
+  exchange text not null,
+  fecha timestamptz not null,
+  "valorUSD" double precision not null,
+  "spotUSD" double precision not null,
+  "earnUSD" double precision not null default 0,
+  activos jsonb not null default '[]'::jsonb,
+  "sinPrecio" text[] not null default '{}'
+);
+
+create index if not exists snapshots_cartera_fecha_idx
+  on "snapshotsCartera" ("idUsuario", "idCuenta", fecha);
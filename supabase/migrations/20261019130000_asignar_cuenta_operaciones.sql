@@ -0,0 +1,63 @@
+-- Cuenta de las operaciones guardadas antes de que hubiera varias cuentas.
+--
+-- Esas filas no tienen "idCuenta". Antes se rellenaba al leer las cuentas de
+-- un usuario, con la de id más bajo; ahora se hace una sola vez aquí y solo
+-- cuando no hay duda: el usuario tiene una única cuenta del exchange de la
+-- fila (o una única cuenta, en las tablas sin columna exchange).
+--
+-- Lo que quede sin asignar (usuarios con varias cuentas) se avisa con un
+-- NOTICE por tabla y hay que asignarlo a mano, por ejemplo:
+--   update compras set "idCuenta" = <id> where "idUsuario" = '<usuario>'
+--     and "idCuenta" is null;
+
+do $$
+declare
+  v_tabla text;
+  v_con_exchange boolean;
+  v_pendientes bigint;
+begin
+  foreach v_tabla in array array[
+    'compras', 'ventas', 'protecciones', 'ordenesPendientes', 'movimientos'
+  ] loop
+    select exists (
+      select 1 from information_schema.columns
+        where table_schema = 'public'
+          and table_name = v_tabla
+          and column_name = 'exchange'
+    ) into v_con_exchange;
+
+    if v_con_exchange then
+      execute format(
+        'update %I t set "idCuenta" = unica.id
+           from (select user_id, upper(exchange) as exchange, min(id) as id
+                   from exchanges
+                   group by user_id, upper(exchange)
+                   having count(*) = 1) unica
+           where t."idCuenta" is null
+             and unica.user_id::text = t."idUsuario"::text
+             and unica.exchange = upper(coalesce(t.exchange, %L))',
+        v_tabla, 'BINANCE'
+      );
+    else
+      execute format(
+        'update %I t set "idCuenta" = unica.id
+           from (select user_id, min(id) as id
+                   from exchanges
+                   group by user_id
+                   having count(*) = 1) unica
+           where t."idCuenta" is null
+             and unica.user_id::text = t."idUsuario"::text',
+        v_tabla
+      );
+    end if;
+
+    execute format('select count(*) from %I where "idCuenta" is null', v_tabla)
+      into v_pendientes;
+
+    if v_pendientes > 0 then
+      raise notice '% filas de % siguen sin cuenta: asígnalas a mano',
+        v_pendientes, v_tabla;
+    end if;
+  end loop;
+end;
+$$;
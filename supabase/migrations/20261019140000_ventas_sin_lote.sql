@@ -0,0 +1,136 @@
+-- Ventas con una parte sin lote de compra que la cubra.
+--
+-- La fila de "ventas" guarda todo lo vendido: "cantidadVendida" incluye lo
+-- que no cubre ningún lote abierto y "cantidadSinLote" dice cuánto es, para
+-- que el informe fiscal y las exportaciones vean la venta entera. Una venta
+-- sin ningún lote se guarda con "idCompra" a null y sin emparejamientos.
+--
+-- registrar_venta se vuelve a crear para guardar la columna nueva.
+
+alter table ventas add column if not exists "cantidadSinLote" double precision not null default 0;
+alter table ventas alter column "idCompra" drop not null;
+
+create or replace function registrar_venta(
+  p_venta jsonb,
+  p_partes jsonb,
+  p_tolerancia double precision
+) returns jsonb
+language plpgsql
+as $$
+declare
+  v_venta ventas%rowtype;
+  v_lote compras%rowtype;
+  v_parte jsonb;
+  v_emparejamiento jsonb;
+  v_restante double precision;
+  v_nuevo double precision;
+  v_vendida boolean;
+  v_emparejamientos jsonb := '[]'::jsonb;
+  v_cerrados bigint[] := '{}';
+begin
+  perform pg_advisory_xact_lock(
+    hashtext(concat_ws(':', p_venta->>'idUsuario', p_venta->>'idCuenta', p_venta->>'simbolo'))
+  );
+
+  if p_venta->>'idOrden' is not null then
+    select * into v_venta
+      from ventas
+      where "idUsuario"::text = p_venta->>'idUsuario'
+        and simbolo = p_venta->>'simbolo'
+        and "idOrden" = p_venta->>'idOrden'
+        and "idFill" is not distinct from p_venta->>'idFill'
+      order by id
+      limit 1;
+
+    if found then
+      return jsonb_build_object(
+        'duplicada', true,
+        'venta', to_jsonb(v_venta),
+        'emparejamientos', coalesce(
+          (select jsonb_agg(to_jsonb(e) order by e.id)
+             from "emparejamientosVenta" e
+             where e."idVenta" = v_venta.id),
+          '[]'::jsonb
+        ),
+        'lotesCerrados', '[]'::jsonb
+      );
+    end if;
+  end if;
+
+  insert into ventas (
+    "idCompra", exchange, "idCuenta", simbolo, "precioVenta", "cantidadVendida",
+    "comisionVenta", "comisionMoneda", "comisionVentaCotizacion", beneficio,
+    "porcentajeBeneficio", "metodoCoste", "cantidadSinLote", "idOrden", "idFill",
+    "idUsuario", "fechaVenta", "botS"
+  )
+  select
+    "idCompra", exchange, "idCuenta", simbolo, "precioVenta", "cantidadVendida",
+    "comisionVenta", "comisionMoneda", "comisionVentaCotizacion", beneficio,
+    "porcentajeBeneficio", "metodoCoste", coalesce("cantidadSinLote", 0), "idOrden",
+    "idFill", "idUsuario", "fechaVenta", "botS"
+  from jsonb_populate_record(null::ventas, p_venta)
+  returning * into v_venta;
+
+  for v_parte in select * from jsonb_array_elements(p_partes) loop
+    select * into v_lote
+      from compras
+      where id = (v_parte->>'idCompra')::bigint
+      for update;
+
+    if not found or v_lote.vendida then
+      raise exception 'El lote % ya no está abierto', v_parte->>'idCompra'
+        using errcode = '40001';
+    end if;
+
+    -- Compras anteriores a cantidadRestante: lo que no apuntan sus ventas
+    v_restante := coalesce(
+      v_lote."cantidadRestante",
+      greatest(
+        v_lote.cantidad - coalesce(
+          (select sum("cantidadVendida") from ventas
+             where "idCompra" = v_lote.id and id <> v_venta.id),
+          0
+        ),
+        0
+      )
+    );
+
+    if abs(v_restante - (v_parte->>'restante')::double precision) > 1e-9 then
+      raise exception 'El lote % ha cambiado (quedan %, se esperaban %)',
+        v_lote.id, v_restante, v_parte->>'restante'
+        using errcode = '40001';
+    end if;
+
+    v_nuevo := v_restante - (v_parte->>'cantidad')::double precision;
+    v_vendida := v_nuevo <= p_tolerancia;
+
+    update compras
+      set "cantidadRestante" = case when v_vendida then 0 else v_nuevo end,
+          vendida = v_vendida
+      where id = v_lote.id;
+
+    if v_vendida then
+      v_cerrados := v_cerrados || v_lote.id;
+    end if;
+
+    insert into "emparejamientosVenta" (
+      "idVenta", "idCompra", "idUsuario", simbolo, cantidad, "precioCompra",
+      "precioVenta", coste, "comisionVenta", beneficio, "fechaCompra", "fechaVenta"
+    )
+    select
+      v_venta.id, "idCompra", "idUsuario", simbolo, cantidad, "precioCompra",
+      "precioVenta", coste, "comisionVenta", beneficio, "fechaCompra", "fechaVenta"
+    from jsonb_populate_record(null::"emparejamientosVenta", v_parte->'emparejamiento')
+    returning to_jsonb("emparejamientosVenta") into v_emparejamiento;
+
+    v_emparejamientos := v_emparejamientos || jsonb_build_array(v_emparejamiento);
+  end loop;
+
+  return jsonb_build_object(
+    'duplicada', false,
+    'venta', to_jsonb(v_venta),
+    'emparejamientos', v_emparejamientos,
+    'lotesCerrados', to_jsonb(v_cerrados)
+  );
+end;
+$$;
@@ -0,0 +1,8 @@
+-- Trade ids de los fills ya sumados a cada compra.
+--
+-- El user data stream acumula la comisión fill a fill; con los ids guardados
+-- un fill repetido (reconexión, reinicio del servidor) no se suma dos veces.
+-- La resincronización por REST los reescribe con todos los fills de la orden.
+-- Las compras anteriores los dejan a null.
+
+alter table compras add column if not exists "idsFills" bigint[];
@@ -0,0 +1,9 @@
+-- Una fila por API key y usuario.
+--
+-- /connect guarda con upsert sobre (user_id, api_key): volver a conectar una
+-- key ya guardada actualiza su cuenta (y la reactiva) en lugar de crear otra.
+-- La key se guarda cifrada con sal aleatoria, así que la ruta reutiliza el
+-- texto cifrado que ya estaba guardado para esa key.
+
+create unique index if not exists exchanges_usuario_api_key_idx
+  on exchanges (user_id, api_key);
@@ -0,0 +1,51 @@
+// test/csv.test.ts
+
+/**
+ * Escritura y lectura de CSV: comillas, separadores y saltos de línea dentro
+ * de los valores, BOM y líneas vacías
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { filaCSV, leerCSV } from "../src/lib/csv";
+
+describe("filaCSV", () => {
+  it("entrecomilla solo los valores con separador, comillas o saltos de línea", () => {
+    assert.equal(
+      filaCSV(["BTCUSDC", "Binance, cuenta 1", 'dice "hola"', "a\nb", "c\rd"]),
+      'BTCUSDC,"Binance, cuenta 1","dice ""hola""","a\nb","c\rd"\r\n'
+    );
+  });
+
+  it("deja vacíos null y undefined y escribe números y booleanos tal cual", () => {
+    assert.equal(filaCSV([null, 0.5, undefined, false, ""]), ",0.5,,false,\r\n");
+  });
+
+  it("entrecomilla según el separador elegido", () => {
+    assert.equal(filaCSV(["1,5", "a;b"], ";"), '1,5;"a;b"\r\n');
+  });
+});
+
+describe("leerCSV", () => {
+  it("lee lo que escribe filaCSV", () => {
+    const valores = ["Binance, cuenta 1", 'dice "hola"', "a\r\nb", "", "fin"];
+
+    assert.deepEqual(leerCSV(filaCSV(valores) + filaCSV(valores)), [
+      valores,
+      valores,
+    ]);
+    assert.deepEqual(leerCSV(filaCSV(valores, ";"), ";"), [valores]);
+  });
+
+  it("quita el BOM y salta las líneas vacías con saltos CRLF o LF", () => {
+    assert.deepEqual(leerCSV("\uFEFFa,b\r\n\r\n1,2\n , \n3,4"), [
+      ["a", "b"],
+      ["1", "2"],
+      ["3", "4"],
+    ]);
+  });
+
+  it("mantiene los valores vacíos de una línea", () => {
+    assert.deepEqual(leerCSV('a,,"",d'), [["a", "", "", "d"]]);
+  });
+});
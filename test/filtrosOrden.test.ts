@@ -0,0 +1,235 @@
+// test/filtrosOrden.test.ts
+
+/**
+ * Filtros de exchangeInfo en los límites: LOT_SIZE, PRICE_FILTER, NOTIONAL y
+ * MIN_NOTIONAL con valores justo en el mínimo o el máximo, a un paso de ellos
+ * y con los redondeos que los cruzan
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { redondearAlPaso, validarOrden } from "../src/lib/filtrosOrden";
+import { OrdenAValidar } from "../src/interfaces/binance.types";
+
+const LOT_SIZE = {
+  minQty: "0.00100000",
+  maxQty: "100.00000000",
+  stepSize: "0.00100000",
+};
+const PRICE_FILTER = {
+  minPrice: "0.01000000",
+  maxPrice: "1000000.00000000",
+  tickSize: "0.01000000",
+};
+
+const limite = (datos: Partial<OrdenAValidar>): OrdenAValidar => ({
+  side: "BUY",
+  type: "LIMIT",
+  precioReferencia: 100,
+  ...datos,
+});
+
+const mercado = (datos: Partial<OrdenAValidar>): OrdenAValidar => ({
+  side: "BUY",
+  type: "MARKET",
+  precioReferencia: 100,
+  ...datos,
+});
+
+const filtrosRechazados = (resultado: ReturnType<typeof validarOrden>) =>
+  resultado.rechazos.map((r) => r.filtro);
+
+describe("redondearAlPaso", () => {
+  it("no pierde un paso por la coma flotante", () => {
+    assert.equal(redondearAlPaso(0.3, "0.1"), 0.3);
+    assert.equal(redondearAlPaso(0.7, "0.1", "arriba"), 0.7);
+  });
+});
+
+describe("LOT_SIZE", () => {
+  const filtros = { LOT_SIZE };
+
+  it("acepta justo el mínimo y el máximo", () => {
+    assert.equal(validarOrden(filtros, mercado({ quantity: 0.001 })).quantity, "0.001");
+    assert.equal(validarOrden(filtros, mercado({ quantity: 100 })).quantity, "100.000");
+  });
+
+  it("redondea hacia abajo al paso antes de comprobar el mínimo", () => {
+    assert.equal(validarOrden(filtros, mercado({ quantity: "0.0019" })).quantity, "0.001");
+
+    const resultado = validarOrden(filtros, mercado({ quantity: "0.0009" }));
+    assert.equal(resultado.valida, false);
+    assert.deepEqual(resultado.rechazo, {
+      filtro: "LOT_SIZE",
+      mensaje: "Cantidad (0) menor al mínimo permitido (0.001)",
+      valor: 0,
+      limite: 0.001,
+    });
+  });
+
+  it("rechaza un paso por encima del máximo", () => {
+    const resultado = validarOrden(filtros, mercado({ quantity: 100.001 }));
+    assert.deepEqual(filtrosRechazados(resultado), ["LOT_SIZE"]);
+    assert.equal(resultado.rechazo?.limite, 100);
+  });
+
+  it("a mercado aplica también el paso de MARKET_LOT_SIZE", () => {
+    const conMercado = {
+      LOT_SIZE,
+      MARKET_LOT_SIZE: { minQty: "0.01", maxQty: "50", stepSize: "0.01" },
+    };
+
+    assert.equal(validarOrden(conMercado, mercado({ quantity: 0.019 })).quantity, "0.01");
+    assert.deepEqual(
+      filtrosRechazados(validarOrden(conMercado, mercado({ quantity: 0.009 }))),
+      ["LOT_SIZE", "MARKET_LOT_SIZE"]
+    );
+    // Las órdenes límite solo miran LOT_SIZE
+    assert.equal(
+      validarOrden(conMercado, limite({ quantity: 60, price: 100 })).valida,
+      true
+    );
+  });
+});
+
+describe("PRICE_FILTER", () => {
+  const filtros = { PRICE_FILTER };
+
+  it("acepta justo el precio mínimo y el máximo", () => {
+    assert.equal(validarOrden(filtros, limite({ quantity: 1, price: 0.01 })).price, "0.01");
+    assert.equal(
+      validarOrden(filtros, limite({ quantity: 1, price: 1000000 })).price,
+      "1000000.00"
+    );
+  });
+
+  it("redondea las compras hacia abajo y las ventas hacia arriba", () => {
+    assert.equal(validarOrden(filtros, limite({ quantity: 1, price: 100.019 })).price, "100.01");
+    assert.equal(
+      validarOrden(filtros, limite({ side: "SELL", quantity: 1, price: 100.011 })).price,
+      "100.02"
+    );
+  });
+
+  it("rechaza el precio que queda fuera tras redondear", () => {
+    // La compra baja a 0 y la venta sube al mínimo
+    const compra = validarOrden(filtros, limite({ quantity: 1, price: 0.009 }));
+    assert.deepEqual(filtrosRechazados(compra), ["PRICE_FILTER"]);
+    assert.equal(compra.rechazo?.limite, 0.01);
+    assert.equal(
+      validarOrden(filtros, limite({ side: "SELL", quantity: 1, price: 0.009 })).price,
+      "0.01"
+    );
+
+    const venta = validarOrden(
+      filtros,
+      limite({ side: "SELL", quantity: 1, price: 1000000.001 })
+    );
+    assert.deepEqual(filtrosRechazados(venta), ["PRICE_FILTER"]);
+    assert.equal(venta.rechazo?.limite, 1000000);
+  });
+
+  it("no se aplica a las órdenes a mercado", () => {
+    assert.equal(validarOrden(filtros, mercado({ quantity: 1, price: 0.001 })).valida, true);
+  });
+});
+
+describe("NOTIONAL", () => {
+  const NOTIONAL = {
+    minNotional: "5.00000000",
+    applyMinToMarket: true,
+    maxNotional: "1000.00000000",
+    applyMaxToMarket: false,
+    avgPriceMins: 5,
+  };
+  const filtros = { NOTIONAL };
+
+  it("acepta justo el mínimo y el máximo", () => {
+    assert.equal(validarOrden(filtros, limite({ quantity: 0.05, price: 100 })).valida, true);
+    assert.equal(validarOrden(filtros, limite({ quantity: 10, price: 100 })).valida, true);
+  });
+
+  it("calcula el valor con la cantidad y el precio ya redondeados", () => {
+    // 0.0509 -> 0.050 y 100.009 -> 100.00: 5 justo
+    const enElLimite = validarOrden(
+      { NOTIONAL, LOT_SIZE, PRICE_FILTER },
+      limite({ quantity: 0.0509, price: 100.009 })
+    );
+    assert.equal(enElLimite.valida, true);
+    assert.equal(enElLimite.notionalEstimado, 5);
+
+    // 0.0499 -> 0.049: 4.9
+    const porDebajo = validarOrden(
+      { NOTIONAL, LOT_SIZE, PRICE_FILTER },
+      limite({ quantity: 0.0499, price: 100 })
+    );
+    assert.deepEqual(filtrosRechazados(porDebajo), ["NOTIONAL"]);
+    assert.equal(porDebajo.rechazo?.valor, 4.9);
+  });
+
+  it("rechaza por encima del máximo solo las órdenes límite con applyMaxToMarket false", () => {
+    assert.deepEqual(
+      filtrosRechazados(validarOrden(filtros, limite({ quantity: 10.01, price: 100 }))),
+      ["NOTIONAL"]
+    );
+    assert.equal(validarOrden(filtros, mercado({ quantity: 10.01 })).valida, true);
+  });
+
+  it("a mercado usa quoteOrderQty o la cantidad por el precio de referencia", () => {
+    assert.equal(validarOrden(filtros, mercado({ quoteOrderQty: 5 })).valida, true);
+    assert.deepEqual(
+      filtrosRechazados(validarOrden(filtros, mercado({ quoteOrderQty: 4.99 }))),
+      ["NOTIONAL"]
+    );
+    assert.deepEqual(
+      filtrosRechazados(validarOrden(filtros, mercado({ quantity: 0.0499 }))),
+      ["NOTIONAL"]
+    );
+
+    const sinMinimo = { NOTIONAL: { ...NOTIONAL, applyMinToMarket: false } };
+    assert.equal(validarOrden(sinMinimo, mercado({ quoteOrderQty: 1 })).valida, true);
+  });
+
+  it("las órdenes stop a mercado se valoran al precio stop", () => {
+    // 0.05 a 90 = 4.5 aunque al precio actual serían 5
+    const resultado = validarOrden(
+      filtros,
+      mercado({ side: "SELL", type: "STOP_LOSS", quantity: 0.05, stopPrice: 90 })
+    );
+    assert.deepEqual(filtrosRechazados(resultado), ["NOTIONAL"]);
+    assert.equal(resultado.rechazo?.valor, 4.5);
+  });
+});
+
+describe("MIN_NOTIONAL", () => {
+  const MIN_NOTIONAL = { minNotional: "10.00000000", applyToMarket: true, avgPriceMins: 5 };
+
+  it("acepta justo el mínimo y rechaza por debajo", () => {
+    const filtros = { MIN_NOTIONAL };
+
+    assert.equal(validarOrden(filtros, limite({ quantity: 0.1, price: 100 })).valida, true);
+    const resultado = validarOrden(filtros, limite({ quantity: 0.1, price: 99.99 }));
+    assert.deepEqual(resultado.rechazo, {
+      filtro: "MIN_NOTIONAL",
+      mensaje: `Valor de orden (${0.1 * 99.99}) menor al mínimo requerido (10)`,
+      valor: 0.1 * 99.99,
+      limite: 10,
+    });
+  });
+
+  it("con applyToMarket false no limita las órdenes a mercado", () => {
+    const filtros = { MIN_NOTIONAL: { ...MIN_NOTIONAL, applyToMarket: false } };
+
+    assert.equal(validarOrden(filtros, mercado({ quoteOrderQty: 1 })).valida, true);
+    assert.equal(validarOrden(filtros, limite({ quantity: 0.01, price: 100 })).valida, false);
+  });
+
+  it("sin precio de referencia no se puede comprobar a mercado", () => {
+    const filtros = { MIN_NOTIONAL };
+
+    assert.equal(
+      validarOrden(filtros, mercado({ quantity: 0.001, precioReferencia: 0 })).valida,
+      true
+    );
+  });
+});
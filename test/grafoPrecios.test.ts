@@ -0,0 +1,115 @@
+// test/grafoPrecios.test.ts
+
+/**
+ * Búsqueda del camino de precios entre activos: varios saltos, pares
+ * recorridos al revés, preferencia por las monedas puente y activos sin
+ * camino
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { GrafoPrecios, ParCotizado } from "../src/lib/grafoPrecios";
+
+const par = (
+  baseAsset: string,
+  quoteAsset: string,
+  price: number
+): ParCotizado => ({
+  symbol: `${baseAsset}${quoteAsset}`,
+  baseAsset,
+  quoteAsset,
+  price,
+});
+
+const cerca = (real: number | null | undefined, esperado: number) =>
+  assert.ok(
+    real !== null && real !== undefined && Math.abs(real - esperado) < 1e-9,
+    `${real} != ${esperado}`
+  );
+
+describe("GrafoPrecios", () => {
+  const grafo = new GrafoPrecios([
+    par("BTC", "USDT", 50000),
+    par("ETH", "BTC", 0.05),
+    par("ADA", "ETH", 0.0002),
+    par("BTC", "EUR", 45000),
+    par("EUR", "USDT", 1.1),
+    par("XYZ", "ABC", 2),
+    par("SINPRECIO", "USDT", 0),
+  ]);
+
+  it("un activo en la moneda pedida vale 1 sin pasos", () => {
+    assert.deepEqual(grafo.ruta("usdt", "USDT"), {
+      destino: "USDT",
+      precio: 1,
+      pasos: [],
+    });
+  });
+
+  it("encadena los precios por varios pares", () => {
+    const ruta = grafo.ruta("ADA", "USDT");
+
+    cerca(ruta?.precio, 0.0002 * 0.05 * 50000);
+    assert.deepEqual(ruta?.pasos, [
+      { symbol: "ADAETH", invertido: false },
+      { symbol: "ETHBTC", invertido: false },
+      { symbol: "BTCUSDT", invertido: false },
+    ]);
+  });
+
+  it("recorre los pares al revés con el inverso del precio", () => {
+    const ruta = grafo.ruta("USDT", "ETH");
+
+    cerca(ruta?.precio, 1 / 50000 / 0.05);
+    assert.deepEqual(ruta?.pasos, [
+      { symbol: "BTCUSDT", invertido: true },
+      { symbol: "ETHBTC", invertido: true },
+    ]);
+    cerca(grafo.precio("EUR", "BTC"), 1 / 45000);
+  });
+
+  it("elige el camino más corto y, si empatan, el de monedas más líquidas", () => {
+    // ETH → BTC → EUR y no ETH → BTC → USDT → EUR
+    assert.deepEqual(
+      grafo.ruta("ETH", "EUR")?.pasos.map((p) => p.symbol),
+      ["ETHBTC", "BTCEUR"]
+    );
+
+    // Dos caminos de dos saltos: por USDT antes que por BTC
+    const conDosCaminos = new GrafoPrecios([
+      par("SOL", "BTC", 0.003),
+      par("SOL", "USDT", 150),
+      par("BTC", "DAI", 50000),
+      par("USDT", "DAI", 1),
+    ]);
+    assert.deepEqual(
+      conDosCaminos.ruta("SOL", "DAI")?.pasos.map((p) => p.symbol),
+      ["SOLUSDT", "USDTDAI"]
+    );
+  });
+
+  it("con varios destinos devuelve el más cercano", () => {
+    const ruta = grafo.ruta("ETH", ["EUR", "BTC"]);
+
+    assert.equal(ruta?.destino, "BTC");
+    cerca(ruta?.precio, 0.05);
+  });
+
+  it("sin camino o con más de cuatro saltos no hay precio", () => {
+    assert.equal(grafo.ruta("XYZ", "USDT"), null);
+    assert.equal(grafo.precio("DESCONOCIDO", "USDT"), null);
+    // Los pares sin precio no unen nada
+    assert.equal(grafo.precio("SINPRECIO", "USDT"), null);
+    assert.equal(grafo.par("SINPRECIO"), undefined);
+
+    const cadena = new GrafoPrecios([
+      par("A", "B", 2),
+      par("B", "C", 2),
+      par("C", "D", 2),
+      par("D", "E", 2),
+      par("E", "F", 2),
+    ]);
+    cerca(cadena.precio("A", "E"), 16);
+    assert.equal(cadena.precio("A", "F"), null);
+  });
+});
@@ -0,0 +1,195 @@
+// test/limitadorBinance.test.ts
+
+/**
+ * Limitador de peticiones con un reloj falso: ventana de peso del host,
+ * ventana de órdenes de cada API key y bloqueos por 429, -1015 y 418
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  CODIGO_DEMASIADAS_ORDENES,
+  ErrorBaneoBinance,
+  ErrorLimiteBinance,
+  LimitadorBinance,
+} from "../src/services/limitadorBinance";
+
+// Inicio de un minuto, y de sus ventanas de 10 segundos
+const INICIO = Date.UTC(2026, 0, 5, 10);
+
+describe("LimitadorBinance", () => {
+  let ahora: number;
+  let esperas: number[];
+  let limitador: LimitadorBinance;
+
+  const respuesta = (
+    status: number,
+    cabeceras: Record<string, string> = {},
+    cuerpo: object = {}
+  ) => new Response(JSON.stringify(cuerpo), { status, headers: cabeceras });
+
+  const orden = (cuenta: string) =>
+    limitador.esperarTurno("/api/v3/order", "POST", {}, cuenta);
+
+  before(() => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "warn", () => {});
+    mock.method(console, "error", () => {});
+  });
+
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    ahora = INICIO;
+    esperas = [];
+    limitador = new LimitadorBinance(
+      () => ahora,
+      async (ms) => {
+        esperas.push(ms);
+        ahora += ms;
+      }
+    );
+    limitador.configurarLimites([
+      {
+        rateLimitType: "REQUEST_WEIGHT",
+        interval: "MINUTE",
+        intervalNum: 1,
+        limit: 100,
+      },
+      {
+        rateLimitType: "ORDERS",
+        interval: "SECOND",
+        intervalNum: 10,
+        limit: 10,
+      },
+    ]);
+  });
+
+  describe("ventana de peso", () => {
+    it("espera al siguiente minuto si la petición pasaría del 90% del límite", async () => {
+      ahora += 10_000;
+      // /api/v3/account pesa 20: caben 4 (80 de 90)
+      for (let i = 0; i < 4; i++) await limitador.esperarTurno("/api/v3/account");
+      assert.deepEqual(esperas, []);
+
+      await limitador.esperarTurno("/api/v3/account");
+      assert.deepEqual(esperas, [50_000]);
+      assert.equal(ahora, INICIO + 60_000);
+    });
+
+    it("toma el uso de la cabecera si es mayor que el reservado", async () => {
+      await limitador.esperarTurno("/api/v3/time");
+      await limitador.registrarRespuesta(
+        respuesta(200, { "X-MBX-USED-WEIGHT-1M": "85" })
+      );
+
+      await limitador.esperarTurno("/api/v3/klines"); // 85 + 2 caben
+      assert.deepEqual(esperas, []);
+      await limitador.esperarTurno("/api/v3/myTrades", "GET", { orderId: "1" }); // 87 + 5 no
+      assert.deepEqual(esperas, [60_000]);
+    });
+
+    it("falla en vez de esperar más de un minuto", async () => {
+      limitador.configurarLimites([
+        {
+          rateLimitType: "REQUEST_WEIGHT",
+          interval: "HOUR",
+          intervalNum: 1,
+          limit: 100,
+        },
+      ]);
+      for (let i = 0; i < 4; i++) await limitador.esperarTurno("/api/v3/account");
+
+      await assert.rejects(limitador.esperarTurno("/api/v3/account"), (error) => {
+        assert.ok(error instanceof ErrorLimiteBinance);
+        assert.equal(error.status, 429);
+        assert.equal(error.reintentarEn, INICIO + 3_600_000);
+        return true;
+      });
+      assert.deepEqual(esperas, []);
+    });
+  });
+
+  describe("ventana de órdenes", () => {
+    it("cuenta las órdenes de cada API key por separado", async () => {
+      ahora += 4_000;
+      for (let i = 0; i < 9; i++) await orden("cuenta-a");
+      assert.deepEqual(esperas, []);
+
+      // La otra cuenta y las consultas no esperan
+      await orden("cuenta-b");
+      await limitador.esperarTurno("/api/v3/order", "GET", {}, "cuenta-a");
+      assert.deepEqual(esperas, []);
+
+      await orden("cuenta-a");
+      assert.deepEqual(esperas, [6_000]);
+    });
+
+    it("una OCO cuenta como dos órdenes", async () => {
+      for (let i = 0; i < 8; i++) await orden("cuenta-a");
+
+      await limitador.esperarTurno("/api/v3/orderList/oco", "POST", {}, "cuenta-a");
+      assert.deepEqual(esperas, [10_000]);
+    });
+
+    it("toma el número de órdenes de la cabecera de su cuenta", async () => {
+      await orden("cuenta-a");
+      await limitador.registrarRespuesta(
+        respuesta(200, { "X-MBX-ORDER-COUNT-10S": "9" }),
+        "cuenta-a"
+      );
+
+      await orden("cuenta-b");
+      assert.deepEqual(esperas, []);
+      await orden("cuenta-a");
+      assert.deepEqual(esperas, [10_000]);
+    });
+  });
+
+  describe("bloqueos", () => {
+    it("tras un -1015 solo bloquea las órdenes de esa cuenta", async () => {
+      const error = await limitador.registrarRespuesta(
+        respuesta(
+          429,
+          { "Retry-After": "30" },
+          { code: CODIGO_DEMASIADAS_ORDENES, msg: "Too many new orders" }
+        ),
+        "cuenta-a"
+      );
+
+      assert.ok(error instanceof ErrorLimiteBinance);
+      assert.equal(error.code, CODIGO_DEMASIADAS_ORDENES);
+      assert.equal(error.reintentarEn, INICIO + 30_000);
+
+      await orden("cuenta-b");
+      await limitador.esperarTurno("/api/v3/account", "GET", {}, "cuenta-a");
+      assert.deepEqual(esperas, []);
+
+      await orden("cuenta-a");
+      assert.deepEqual(esperas, [30_000]);
+    });
+
+    it("un 429 por peso bloquea todas las peticiones al host", async () => {
+      await limitador.registrarRespuesta(
+        respuesta(429, { "Retry-After": "5" }),
+        "cuenta-a"
+      );
+
+      await limitador.esperarTurno("/api/v3/time", "GET", {}, "cuenta-b");
+      assert.deepEqual(esperas, [5_000]);
+    });
+
+    it("durante un baneo (418) rechaza las peticiones sin esperar", async () => {
+      const error = await limitador.registrarRespuesta(
+        respuesta(418, { "Retry-After": "120" })
+      );
+      assert.ok(error instanceof ErrorBaneoBinance);
+
+      await assert.rejects(limitador.esperarTurno("/api/v3/time"), ErrorBaneoBinance);
+      assert.deepEqual(esperas, []);
+
+      ahora += 120_000;
+      await limitador.esperarTurno("/api/v3/time");
+    });
+  });
+});
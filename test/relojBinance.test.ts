@@ -0,0 +1,157 @@
+// test/relojBinance.test.ts
+
+/**
+ * Reloj sincronizado con Binance: desfase descontando la mitad del viaje,
+ * cuándo se vuelve a medir y el reintento de las peticiones firmadas tras un
+ * -1021 contra el simulador con el reloj adelantado
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { RelojBinance } from "../src/services/relojBinance";
+import { SimuladorBinance } from "./simuladorBinance";
+import { BinanceService } from "../src/services/servicioBinance";
+
+const MINUTO = 60_000;
+
+describe("RelojBinance", () => {
+  let ahora: number;
+  let consultas: number;
+  let horaServidor: () => Promise<number>;
+  let reloj: RelojBinance;
+
+  before(() => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "error", () => {});
+  });
+
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    ahora = Date.UTC(2026, 0, 5, 10);
+    consultas = 0;
+    // El servidor va 5 s por delante y tarda 200 ms en responder
+    horaServidor = async () => {
+      ahora += 100;
+      const hora = ahora + 5000;
+      ahora += 100;
+      return hora;
+    };
+    reloj = new RelojBinance(
+      () => {
+        consultas++;
+        return horaServidor();
+      },
+      () => ahora
+    );
+  });
+
+  it("mide el desfase a mitad del viaje de ida y vuelta", async () => {
+    const inicio = ahora;
+
+    assert.equal(await reloj.marcaTiempo(), inicio + 200 + 5000);
+    assert.equal(consultas, 1);
+  });
+
+  it("reutiliza el desfase durante media hora", async () => {
+    await reloj.marcaTiempo();
+
+    ahora += 29 * MINUTO;
+    assert.equal(await reloj.marcaTiempo(), ahora + 5000);
+    assert.equal(consultas, 1);
+
+    // Pasada la media hora se mide de nuevo con el desfase actual
+    ahora += 2 * MINUTO;
+    horaServidor = async () => ahora - 3000;
+    assert.equal(await reloj.marcaTiempo(), ahora - 3000);
+    assert.equal(consultas, 2);
+  });
+
+  it("si falla la medida mantiene el último desfase y espera 30 s", async () => {
+    await reloj.marcaTiempo();
+    ahora += 31 * MINUTO;
+    horaServidor = async () => {
+      throw new Error("Failed to get server time");
+    };
+
+    assert.equal(await reloj.marcaTiempo(), ahora + 5000);
+    ahora += 10_000;
+    await reloj.marcaTiempo();
+    assert.equal(consultas, 2);
+
+    ahora += 25_000;
+    await reloj.marcaTiempo();
+    assert.equal(consultas, 3);
+  });
+
+  it("las sincronizaciones simultáneas comparten la medida", async () => {
+    await Promise.all([
+      reloj.sincronizar(),
+      reloj.sincronizar(),
+      reloj.marcaTiempo(),
+    ]);
+    assert.equal(consultas, 1);
+  });
+
+  it("solo acepta un recvWindow entre 1 y 60000 ms", () => {
+    reloj.configurarRecvWindow(10_000.7);
+    assert.equal(reloj.recvWindow, 10_000);
+
+    assert.throws(() => reloj.configurarRecvWindow(0), /recvWindow/);
+    assert.throws(() => reloj.configurarRecvWindow(60_001), /recvWindow/);
+  });
+});
+
+describe("BinanceService: timestamp fuera de recvWindow (-1021)", () => {
+  let simulador: SimuladorBinance;
+  let servicio: BinanceService;
+  let adelanto = 10_000;
+
+  const desfaseMedido = (): number => servicio["reloj"]["desfase"];
+
+  before(async () => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "warn", () => {});
+
+    simulador = new SimuladorBinance({ reloj: () => Date.now() + adelanto });
+    await simulador.iniciar();
+    servicio = simulador.obtenerServicio();
+  });
+
+  after(async () => {
+    await simulador.detener();
+    mock.restoreAll();
+  });
+
+  it("firma con el desfase medido en la primera petición", async () => {
+    assert.equal(await servicio.testConnection(simulador.credenciales), true);
+    assert.ok(Math.abs(desfaseMedido() - 10_000) < 1000, `${desfaseMedido()}`);
+  });
+
+  it("resincroniza el reloj y reintenta la petición", async () => {
+    // El servidor se adelanta 30 s más: el desfase guardado ya no vale
+    adelanto = 40_000;
+    const sincronizar = mock.method(servicio["reloj"], "sincronizar");
+
+    assert.equal(await servicio.testConnection(simulador.credenciales), true);
+    assert.equal(sincronizar.mock.callCount(), 1);
+    assert.ok(Math.abs(desfaseMedido() - 40_000) < 1000, `${desfaseMedido()}`);
+  });
+
+  it("reintenta una sola vez", async () => {
+    const sincronizar = mock.method(servicio["reloj"], "sincronizar");
+    simulador.programarError(
+      "GET /api/v3/account",
+      {
+        status: 400,
+        code: -1021,
+        msg: "Timestamp for this request is outside of the recvWindow.",
+      },
+      2
+    );
+
+    assert.equal(await servicio.testConnection(simulador.credenciales), false);
+    assert.equal(sincronizar.mock.callCount(), 1);
+    assert.equal(await servicio.testConnection(simulador.credenciales), true);
+  });
+});
@@ -0,0 +1,132 @@
+// test/rendimiento.test.ts
+
+/**
+ * Rentabilidad de la cartera: TWR encadenado en cada valoración, MWR como
+ * TIR de los flujos y drawdown de pico a valle
+ */
+
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  calcularDrawdown,
+  calcularMWRAnual,
+  calcularTWR,
+  tasaDelPeriodo,
+} from "../src/lib/rendimiento";
+
+const DIA = 24 * 60 * 60 * 1000;
+const ANIO = 365 * DIA;
+
+const cerca = (real: number | null, esperado: number, margen = 1e-9) =>
+  assert.ok(
+    real !== null && Math.abs(real - esperado) < margen,
+    `${real} != ${esperado}`
+  );
+
+describe("calcularTWR", () => {
+  it("encadena los subperiodos sin contar la aportación como ganancia", () => {
+    // +10% hasta el día 10, se meten 500 (ya en esa valoración) y otro +10%
+    const twr = calcularTWR(
+      [
+        { fecha: 0, valor: 1000 },
+        { fecha: 10 * DIA, valor: 1600 },
+        { fecha: 20 * DIA, valor: 1760 },
+      ],
+      [{ fecha: 10 * DIA, importe: 500 }]
+    );
+
+    cerca(twr, 1.1 * 1.1 - 1);
+  });
+
+  it("pondera con Modified Dietz los flujos entre dos valoraciones", () => {
+    // 1000 a mitad de periodo: capital medio 1500, ganancia 100
+    const twr = calcularTWR(
+      [
+        { fecha: 0, valor: 1000 },
+        { fecha: 10 * DIA, valor: 2100 },
+      ],
+      [{ fecha: 5 * DIA, importe: 1000 }]
+    );
+
+    cerca(twr, 100 / 1500);
+  });
+
+  it("ordena las valoraciones y necesita al menos dos", () => {
+    cerca(
+      calcularTWR(
+        [
+          { fecha: 10 * DIA, valor: 900 },
+          { fecha: 0, valor: 1000 },
+        ],
+        []
+      ),
+      -0.1
+    );
+    assert.equal(calcularTWR([{ fecha: 0, valor: 1000 }], []), null);
+  });
+});
+
+describe("calcularMWRAnual", () => {
+  it("sin flujos es la rentabilidad anualizada", () => {
+    cerca(
+      calcularMWRAnual({ fecha: 0, valor: 1000 }, { fecha: ANIO, valor: 1100 }, []),
+      0.1,
+      1e-8
+    );
+  });
+
+  it("pondera cuánto dinero había invertido en cada momento", () => {
+    // 1000 durante dos años y 1000 más solo el segundo, todo al 10% anual
+    const mwr = calcularMWRAnual(
+      { fecha: 0, valor: 1000 },
+      { fecha: 2 * ANIO, valor: 1000 * 1.21 + 1000 * 1.1 },
+      [{ fecha: ANIO, importe: 1000 }]
+    );
+
+    cerca(mwr, 0.1, 1e-8);
+  });
+
+  it("sin dinero invertido no hay solución", () => {
+    assert.equal(
+      calcularMWRAnual({ fecha: 0, valor: 0 }, { fecha: ANIO, valor: 0 }, []),
+      null
+    );
+  });
+
+  it("tasaDelPeriodo pasa la tasa anual a la duración dada", () => {
+    cerca(tasaDelPeriodo(0.1, 2 * ANIO), 0.21);
+    cerca(tasaDelPeriodo(0.21, ANIO / 2), Math.sqrt(1.21) - 1);
+  });
+});
+
+describe("calcularDrawdown", () => {
+  const serie = [100, 120, 90, 110, 130, 117].map((valor, i) => ({
+    fecha: i * DIA,
+    valor,
+  }));
+
+  it("mide la mayor caída de pico a valle y cuándo se recupera", () => {
+    const drawdown = calcularDrawdown(serie);
+
+    cerca(drawdown.maximo, 90 / 120 - 1);
+    assert.equal(drawdown.pico?.valor, 120);
+    assert.equal(drawdown.valle?.valor, 90);
+    assert.equal(drawdown.recuperacion, 4 * DIA);
+    cerca(drawdown.actual, 117 / 130 - 1);
+  });
+
+  it("sin recuperar el pico no hay fecha de recuperación", () => {
+    const drawdown = calcularDrawdown(serie.slice(0, 4));
+
+    assert.equal(drawdown.recuperacion, null);
+    cerca(drawdown.actual, 110 / 120 - 1);
+  });
+
+  it("una serie que solo sube no tiene caída", () => {
+    const drawdown = calcularDrawdown(serie.slice(0, 2));
+
+    assert.equal(drawdown.maximo, 0);
+    assert.equal(drawdown.pico, null);
+    assert.equal(drawdown.actual, 0);
+  });
+});
@@ -0,0 +1,177 @@
+// test/servicioExportacion.test.ts
+
+/**
+ * Exportación en CSV y NDJSON: formato de números y fechas, filtros de
+ * /compras-activas, operaciones del bot por fecha y escritura por páginas
+ */
+
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import {
+  FiltrosOperaciones,
+  FormatoExportacion,
+  servicioExportacion,
+  TipoExportacion,
+} from "../src/services/servicioExportacion";
+import { leerCSV } from "../src/lib/csv";
+
+const USUARIO = "usuario-test";
+
+describe("servicioExportacion", () => {
+  let db: SupabaseFalso;
+
+  const fecha = (dia: number) => new Date(Date.UTC(2026, 0, dia, 12)).toISOString();
+
+  const compra = (datos: Record<string, any>) =>
+    db.filas("compras").push({
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      idCuenta: 1,
+      simbolo: "BTCUSDC",
+      idOrden: "1",
+      precio: 50000,
+      cantidad: 0.01,
+      total: 500,
+      comisionCotizacion: 0.5,
+      vendida: false,
+      botS: false,
+      ...datos,
+    });
+
+  const venta = (datos: Record<string, any>) =>
+    db.filas("ventas").push({
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      idCuenta: 1,
+      simbolo: "BTCUSDC",
+      idOrden: "2",
+      precioVenta: 60000,
+      cantidadVendida: 0.01,
+      comisionVentaCotizacion: 0.6,
+      beneficio: 98.9,
+      botS: false,
+      ...datos,
+    });
+
+  const exportar = async (
+    tipo: TipoExportacion,
+    columnas: string[],
+    formato: FormatoExportacion = "csv",
+    filtros: FiltrosOperaciones = {}
+  ) => {
+    const trozos: string[] = [];
+    const filas = await servicioExportacion.exportar(
+      USUARIO,
+      tipo,
+      filtros,
+      columnas,
+      formato,
+      async (trozo) => {
+        trozos.push(trozo);
+      }
+    );
+    return { filas, trozos, texto: trozos.join("") };
+  };
+
+  beforeEach(() => {
+    db = instalarSupabaseFalso();
+  });
+
+  it("escribe números sin notación exponencial, con hasta 8 decimales, y fechas ISO", async () => {
+    compra({
+      fechaCompra: "2026-01-05 12:00:00+00",
+      precio: 0.123456789,
+      cantidad: 1e-7,
+      total: 1234567.5,
+      comisionMoneda: null,
+      idOrden: "orden, con coma",
+    });
+
+    const columnas = [
+      "fechaCompra",
+      "idOrden",
+      "precio",
+      "cantidad",
+      "total",
+      "comisionMoneda",
+      "vendida",
+    ];
+    const csv = await exportar("compras", columnas);
+    assert.equal(csv.filas, 1);
+    assert.deepEqual(leerCSV(csv.texto), [
+      columnas,
+      [fecha(5), "orden, con coma", "0.12345679", "0.0000001", "1234567.5", "", "false"],
+    ]);
+
+    const ndjson = await exportar("compras", columnas, "ndjson");
+    assert.deepEqual(JSON.parse(ndjson.texto), {
+      fechaCompra: fecha(5),
+      idOrden: "orden, con coma",
+      precio: 0.12345679,
+      cantidad: 1e-7,
+      total: 1234567.5,
+      comisionMoneda: null,
+      vendida: false,
+    });
+  });
+
+  it("aplica los filtros de símbolo, cuenta y fechas y ordena por fecha", async () => {
+    compra({ id: 10, fechaCompra: fecha(10) });
+    compra({ id: 11, fechaCompra: fecha(5), simbolo: "ETHUSDC" });
+    compra({ id: 12, fechaCompra: fecha(4) });
+    compra({ id: 13, fechaCompra: fecha(6), idCuenta: 2 });
+    compra({ id: 14, fechaCompra: fecha(1) });
+
+    const todas = await exportar("compras", ["id"], "csv");
+    assert.equal(todas.texto, "id\r\n14\r\n12\r\n11\r\n13\r\n10\r\n");
+
+    const filtradas = await exportar("compras", ["id"], "csv", {
+      simbolo: "btc",
+      idCuenta: 1,
+      fechaDesde: "2026-01-03",
+      fechaHasta: "2026-01-08",
+    });
+    assert.equal(filtradas.texto, "id\r\n12\r\n");
+  });
+
+  it("junta por fecha las compras y ventas del bot", async () => {
+    compra({ id: 1, fechaCompra: fecha(1), botS: true });
+    compra({ id: 2, fechaCompra: fecha(2) }); // manual
+    venta({ id: 3, fechaVenta: fecha(3), botS: true });
+    compra({ id: 4, fechaCompra: fecha(4), botS: true });
+
+    const { texto } = await exportar("bot", ["tipo", "id", "fecha", "precio", "total", "beneficio"]);
+
+    assert.deepEqual(leerCSV(texto).slice(1), [
+      ["COMPRA", "1", fecha(1), "50000", "500", ""],
+      ["VENTA", "3", fecha(3), "60000", "600", "98.9"],
+      ["COMPRA", "4", fecha(4), "50000", "500", ""],
+    ]);
+  });
+
+  it("lee y escribe por páginas de 1000 filas", async () => {
+    for (let i = 0; i < 2500; i++) {
+      compra({ fechaCompra: fecha(1) });
+    }
+
+    const { filas, trozos } = await exportar("compras", ["id"], "ndjson");
+
+    assert.equal(filas, 2500);
+    assert.deepEqual(
+      trozos.map((t) => t.split("\n").length - 1),
+      [1000, 1000, 500]
+    );
+    assert.equal(new Set(trozos.join("").split("\n")).size, 2501);
+  });
+
+  it("elegirColumnas rechaza las columnas que no tiene el tipo", () => {
+    assert.deepEqual(servicioExportacion.elegirColumnas("ventas", " id, beneficio "), {
+      columnas: ["id", "beneficio"],
+    });
+    assert.match(
+      (servicioExportacion.elegirColumnas("alertas", "id,beneficio") as { error: string }).error,
+      /no disponibles para alertas: beneficio/
+    );
+  });
+});
@@ -0,0 +1,175 @@
+// test/servicioFiscal.test.ts
+
+/**
+ * Informe fiscal: FIFO por activo entre cuentas y años, permutas entre
+ * criptos y operaciones sin precio en EUR fuera de los totales
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import { servicioFiscal } from "../src/services/servicioFiscal";
+
+const USUARIO = "usuario-test";
+
+const PARES = [
+  { symbol: "BTCEUR", baseAsset: "BTC", quoteAsset: "EUR", status: "TRADING" },
+  { symbol: "ETHBTC", baseAsset: "ETH", quoteAsset: "BTC", status: "TRADING" },
+  { symbol: "BTCUSDC", baseAsset: "BTC", quoteAsset: "USDC", status: "TRADING" },
+];
+
+describe("servicioFiscal.generarInforme", () => {
+  let db: SupabaseFalso;
+  let preciosEUR: Record<string, (time: number) => number | null>;
+  let peticiones: { activo: string; times: number[] }[];
+
+  // Solo lo que usa el informe: los pares y los precios en EUR por fecha
+  const adapter: any = {
+    getAllSymbols: async () => PARES,
+    getPreciosEnFechas: async (activo: string, _moneda: string, times: number[]) => {
+      peticiones.push({ activo, times });
+      return new Map(times.map((t) => [t, preciosEUR[activo]?.(t) ?? null]));
+    },
+  };
+
+  const compra = (simbolo: string, fecha: string, cantidad: number, precio: number, comision = 0) =>
+    db.filas("compras").push({
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      simbolo,
+      fechaCompra: fecha,
+      cantidad,
+      precio,
+      comisionCotizacion: comision,
+    });
+
+  const venta = (simbolo: string, fecha: string, cantidad: number, precio: number, comision = 0) =>
+    db.filas("ventas").push({
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      simbolo,
+      fechaVenta: fecha,
+      cantidadVendida: cantidad,
+      precioVenta: precio,
+      comisionVentaCotizacion: comision,
+    });
+
+  before(() => mock.method(console, "log", () => {}));
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    db = instalarSupabaseFalso();
+    preciosEUR = {};
+    peticiones = [];
+  });
+
+  it("empareja por FIFO con las compras de ejercicios anteriores", async () => {
+    compra("BTCEUR", "2025-03-01T10:00:00Z", 1, 10000, 10);
+    compra("BTCEUR", "2026-01-10T10:00:00Z", 1, 20000, 20);
+    venta("BTCEUR", "2026-05-01T10:00:00Z", 1.5, 30000, 45);
+
+    const informe = await servicioFiscal.generarInforme(USUARIO, adapter, 2026);
+
+    assert.deepEqual(
+      informe.transmisiones.map((t) => [t.fechaAdquisicion?.slice(0, 10), t.cantidad]),
+      [
+        ["2025-03-01", 1],
+        ["2026-01-10", 0.5],
+      ]
+    );
+    const [primera, segunda] = informe.transmisiones;
+    assert.equal(primera.tipo, "VENTA");
+    assert.equal(primera.valorAdquisicion, 10000);
+    assert.equal(primera.gastosAdquisicion, 10);
+    assert.equal(primera.valorTransmision, 30000);
+    assert.equal(primera.gastosTransmision, 30);
+    assert.equal(primera.resultado, 30000 - 30 - 10000 - 10);
+    assert.equal(segunda.valorAdquisicion, 10000);
+    assert.equal(segunda.resultado, 15000 - 15 - 10000 - 10);
+
+    assert.equal(informe.totales.resultado, primera.resultado + segunda.resultado);
+    assert.deepEqual(informe.preciosNoEncontrados, []);
+    // En EUR no hace falta pedir precios
+    assert.equal(peticiones.length, 0);
+  });
+
+  it("no informa las transmisiones de otros ejercicios pero consumen sus lotes", async () => {
+    compra("BTCEUR", "2025-03-01T10:00:00Z", 1, 10000);
+    compra("BTCEUR", "2025-06-01T10:00:00Z", 1, 20000);
+    venta("BTCEUR", "2025-12-01T10:00:00Z", 1, 25000);
+    venta("BTCEUR", "2026-02-01T10:00:00Z", 1, 30000);
+
+    const informe = await servicioFiscal.generarInforme(USUARIO, adapter, 2026);
+
+    assert.equal(informe.transmisiones.length, 1);
+    assert.equal(informe.transmisiones[0].valorAdquisicion, 20000);
+    assert.equal(informe.totales.resultado, 10000);
+  });
+
+  it("una compra entre criptos es una permuta de lo que se entrega", async () => {
+    const fechaPermuta = Date.parse("2026-04-01T10:00:00Z");
+    preciosEUR.BTC = () => 40000;
+
+    compra("BTCEUR", "2026-01-01T10:00:00Z", 1, 30000);
+    // 10 ETH pagados con 0,5 BTC
+    compra("ETHBTC", "2026-04-01T10:00:00Z", 10, 0.05);
+
+    const informe = await servicioFiscal.generarInforme(USUARIO, adapter, 2026);
+
+    assert.equal(informe.transmisiones.length, 1);
+    const [permuta] = informe.transmisiones;
+    assert.equal(permuta.tipo, "PERMUTA");
+    assert.equal(permuta.activo, "BTC");
+    assert.equal(permuta.cantidad, 0.5);
+    assert.equal(permuta.valorAdquisicion, 15000);
+    assert.equal(permuta.valorTransmision, 20000);
+    assert.equal(permuta.resultado, 5000);
+
+    assert.deepEqual(peticiones, [{ activo: "BTC", times: [fechaPermuta] }]);
+  });
+
+  it("lo recibido en una permuta se adquiere al valor de mercado", async () => {
+    preciosEUR.BTC = (t) => (t < Date.parse("2026-06-01T00:00:00Z") ? 40000 : 50000);
+
+    compra("ETHBTC", "2026-02-01T10:00:00Z", 10, 0.05); // sin compra de BTC: no registrada
+    // Se venden los 10 ETH por 0,6 BTC
+    venta("ETHBTC", "2026-07-01T10:00:00Z", 10, 0.06);
+
+    const informe = await servicioFiscal.generarInforme(USUARIO, adapter, 2026);
+    const eth = informe.transmisiones.find((t) => t.activo === "ETH")!;
+
+    assert.equal(eth.tipo, "PERMUTA");
+    assert.equal(eth.valorAdquisicion, 10 * 0.05 * 40000);
+    assert.equal(eth.valorTransmision, 10 * 0.06 * 50000);
+    assert.ok(informe.avisos.some((a) => a.startsWith("BTC:")));
+  });
+
+  it("deja fuera de los totales lo que no tiene precio en EUR y lo nombra", async () => {
+    const sinPrecio = Date.parse("2026-03-01T10:00:00Z");
+    preciosEUR.USDC = (t) => (t === sinPrecio ? null : 0.9);
+
+    compra("BTCUSDC", "2026-01-01T10:00:00Z", 1, 10000);
+    compra("BTCUSDC", "2026-03-01T10:00:00Z", 1, 20000);
+    venta("BTCUSDC", "2026-05-01T10:00:00Z", 2, 30000);
+
+    const informe = await servicioFiscal.generarInforme(USUARIO, adapter, 2026);
+
+    assert.deepEqual(
+      informe.transmisiones.map((t) => t.sinPrecio),
+      [false, true]
+    );
+    // Solo cuenta la parte adquirida con precio: 27000 - 9000
+    assert.equal(informe.totales.resultado, 18000);
+    assert.equal(informe.porActivo[0].resultado, 18000);
+    assert.deepEqual(informe.preciosNoEncontrados, [
+      { activo: "USDC", fecha: new Date(sinPrecio).toISOString(), simbolo: "BTCUSDC" },
+    ]);
+    assert.ok(informe.avisos.some((a) => a.includes("fuera de los totales")));
+
+    // Todos los precios de USDC en una sola petición
+    assert.equal(peticiones.length, 1);
+    assert.equal(peticiones[0].times.length, 3);
+
+    assert.match(servicioFiscal.aCSV(informe), /SIN PRECIO EN EUR/);
+  });
+});
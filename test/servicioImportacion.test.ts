@@ -0,0 +1,166 @@
+// test/servicioImportacion.test.ts
+
+/**
+ * Vista previa de la importación de CSV de Binance: columnas de cada versión
+ * del fichero, importes con separadores y activo pegado, fills agrupados por
+ * segundo, duplicadas y ventas sin compras que las cubran
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import { servicioImportacion } from "../src/services/servicioImportacion";
+import { ConexionExchange } from "../src/interfaces/exchange.types";
+
+const USUARIO = "usuario-test";
+
+const PARES = [
+  { symbol: "BTCUSDC", baseAsset: "BTC", quoteAsset: "USDC", status: "TRADING" },
+  { symbol: "1INCHUSDC", baseAsset: "1INCH", quoteAsset: "USDC", status: "TRADING" },
+  { symbol: "BNBUSDC", baseAsset: "BNB", quoteAsset: "USDC", status: "TRADING" },
+];
+
+const cerca = (real: number, esperado: number) =>
+  assert.ok(Math.abs(real - esperado) < 1e-9, `${real} != ${esperado}`);
+
+describe("servicioImportacion.procesarCSV (vista previa)", () => {
+  let db: SupabaseFalso;
+
+  // Solo lo que usa la vista previa: los pares del exchange
+  const conexion = {
+    id: 1,
+    nombreCuenta: "Binance",
+    exchange: "BINANCE",
+    entorno: "testnet",
+    adapter: { nombre: "Binance", getAllSymbols: async () => PARES },
+    credentials: { apiKey: "", apiSecret: "" },
+    permisos: null,
+  } as unknown as ConexionExchange;
+
+  const previa = (...lineas: string[]) =>
+    servicioImportacion.procesarCSV(USUARIO, conexion, lineas.join("\r\n"));
+
+  before(() => mock.method(console, "log", () => {}));
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    db = instalarSupabaseFalso();
+    db.filas("usuarios").push({ id: USUARIO, metodoCoste: "FIFO" });
+  });
+
+  it("lee importes con separador de miles, coma decimal y el activo pegado", async () => {
+    const { formato, operaciones } = await previa(
+      "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+      '2026-01-05 10:00:00,BTCUSDC,BUY,"50,000.00",0.5BTC,"25,000.00USDC",0.0005BTC',
+      '2026-01-06 10:00:00,1INCHUSDC,BUY,"0,40","1.250,5 1INCH","500,20USDC",1.25051INCH'
+    );
+
+    assert.equal(formato, "HISTORIAL_TRADES");
+    const [btc, inch] = operaciones;
+    assert.equal(btc.cantidad, 0.5);
+    assert.equal(btc.total, 25000);
+    assert.equal(btc.precio, 50000);
+    assert.equal(btc.comision, 0.0005);
+    assert.equal(btc.comisionMoneda, "BTC");
+
+    cerca(inch.cantidad, 1250.5);
+    cerca(inch.total, 500.2);
+    assert.equal(inch.comision, 1.2505);
+    assert.equal(inch.comisionMoneda, "1INCH");
+  });
+
+  it("agrupa en una orden los fills del mismo par, lado y segundo", async () => {
+    const { operaciones, resumen } = await previa(
+      "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+      "2026-01-05 10:00:00,BTCUSDC,BUY,50000,0.1BTC,5000USDC,0.0001BTC",
+      "2026-01-05 10:00:00,BTCUSDC,BUY,52000,0.1BTC,5200USDC,0.0001BTC",
+      "2026-01-05 10:00:01,BTCUSDC,BUY,52000,0.1BTC,5200USDC,0.0001BTC"
+    );
+
+    assert.equal(resumen.compras, 2);
+    const [orden] = operaciones;
+    assert.equal(orden.idOrden, `csv-${Date.UTC(2026, 0, 5, 10)}-B`);
+    cerca(orden.cantidad, 0.2);
+    cerca(orden.precio, 51000);
+    cerca(orden.comision, 0.0002);
+  });
+
+  it("reconoce el historial antiguo (Type, Fee Coin) y el de órdenes", async () => {
+    // "Type" es el lado, "Amount" la cantidad y la comisión va en otra columna
+    const antiguo = await previa(
+      "Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin",
+      "26-01-05 10:00:00,BTCUSDC,SELL,50000,0.01,500,0.05,BNB"
+    );
+    const [venta] = antiguo.operaciones;
+    assert.equal(venta.lado, "VENTA");
+    assert.equal(venta.fecha, new Date(Date.UTC(2026, 0, 5, 10)).toISOString());
+    assert.equal(venta.cantidad, 0.01);
+    assert.equal(venta.comisionMoneda, "BNB");
+
+    const ordenes = await previa(
+      "Date(UTC),OrderNo,Pair,Type,Side,Order Price,Order Amount,AvgTrading Price,Filled,Total,status",
+      "2026-01-05 10:00:00,123,BTCUSDC,LIMIT,BUY,50000,0.2,49000,0.2,9800,FILLED",
+      "2026-01-05 11:00:00,124,BTCUSDC,LIMIT,BUY,40000,0.2,0,0,0,CANCELED"
+    );
+    assert.equal(ordenes.formato, "HISTORIAL_ORDENES");
+    assert.equal(ordenes.operaciones.length, 1);
+    assert.equal(ordenes.operaciones[0].idOrden, "123");
+    assert.equal(ordenes.operaciones[0].precio, 49000);
+  });
+
+  it("señala las líneas que no se pueden leer y rechaza otros ficheros", async () => {
+    const { operaciones, resumen } = await previa(
+      "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+      "2026-01-05 10:00:00,XYZUSDC,BUY,1,1,1,0",
+      "2026-01-05 10:00:00,BTCUSDC,BUY,,0.1BTC,,0"
+    );
+
+    assert.equal(resumen.errores, 2);
+    assert.match(operaciones[0].motivo!, /Par desconocido/);
+    assert.match(operaciones[1].motivo!, /Sin precio ni total/);
+
+    await assert.rejects(previa("a,b,c", "1,2,3"), /formato/);
+  });
+
+  it("marca como duplicadas las órdenes ya guardadas o del mismo segundo sin número", async () => {
+    const fecha = new Date(Date.UTC(2026, 0, 5, 10)).toISOString();
+    db.filas("compras").push(
+      { id: db.siguienteId(), idUsuario: USUARIO, simbolo: "BTCUSDC", idOrden: "123", fechaCompra: "2026-01-01T00:00:00.000Z" },
+      // Guardada por la API con su número: el CSV sin número se cruza por fecha
+      { id: db.siguienteId(), idUsuario: USUARIO, simbolo: "BTCUSDC", idOrden: "999", fechaCompra: fecha }
+    );
+
+    const porOrden = await previa(
+      "Date(UTC),OrderNo,Pair,Side,AvgTrading Price,Filled,Total,status",
+      "2026-01-01 00:00:00,123,BTCUSDC,BUY,50000,0.1,5000,FILLED"
+    );
+    const porFecha = await previa(
+      "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+      "2026-01-05 10:00:00,BTCUSDC,BUY,50000,0.1BTC,5000USDC,0",
+      "2026-01-05 10:00:01,BTCUSDC,BUY,50000,0.1BTC,5000USDC,0"
+    );
+
+    assert.equal(porOrden.operaciones[0].estado, "DUPLICADA");
+    assert.deepEqual(
+      porFecha.operaciones.map((o) => o.estado),
+      ["DUPLICADA", "NUEVA"]
+    );
+  });
+
+  it("marca las ventas que no cubren las compras anteriores", async () => {
+    const { operaciones, resumen } = await previa(
+      "Date(UTC),Pair,Side,Price,Executed,Amount,Fee",
+      "2026-01-05 10:00:00,BTCUSDC,SELL,50000,0.1BTC,5000USDC,0",
+      "2026-01-06 10:00:00,BTCUSDC,BUY,50000,0.2BTC,10000USDC,0",
+      "2026-01-07 10:00:00,BTCUSDC,SELL,50000,0.3BTC,15000USDC,0"
+    );
+
+    // La primera es anterior a cualquier compra; la última solo tiene 0,2
+    assert.deepEqual(
+      operaciones.map((o) => o.estado),
+      ["SIN_LOTE", "NUEVA", "NUEVA"]
+    );
+    assert.match(operaciones[2].motivo!, /sin compras anteriores/);
+    assert.equal(resumen.sinLote, 1);
+  });
+});
@@ -0,0 +1,267 @@
+// test/servicioLotes.test.ts
+
+/**
+ * Reparto de ventas entre lotes: orden de cada método de coste, lotes
+ * parciales y registro con registrar_venta (duplicadas, sin lote y lotes
+ * cambiados por otra venta)
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import {
+  LoteAbierto,
+  servicioLotes,
+  VentaAAsignar,
+} from "../src/services/servicioLotes";
+
+const USUARIO = "usuario-test";
+const CUENTA = 1;
+
+const cerca = (real: number, esperado: number) =>
+  assert.ok(Math.abs(real - esperado) < 1e-9, `${real} != ${esperado}`);
+
+function lote(
+  id: number,
+  fechaCompra: string,
+  precio: number,
+  restante: number = 1
+): LoteAbierto {
+  return {
+    id,
+    simbolo: "BTCUSDC",
+    precio,
+    cantidad: 1,
+    comisionCotizacion: 0,
+    fechaCompra,
+    restante,
+  };
+}
+
+describe("servicioLotes.ordenarLotes", () => {
+  const lotes = [
+    lote(2, "2026-02-01T00:00:00Z", 300),
+    lote(1, "2026-01-01T00:00:00Z", 100),
+    lote(3, "2026-03-01T00:00:00Z", 200),
+  ];
+  const ids = (metodo: any, idsCompra?: number[]) =>
+    servicioLotes.ordenarLotes(lotes, metodo, idsCompra).map((l) => l.id);
+
+  it("FIFO consume primero las compras más antiguas", () => {
+    assert.deepEqual(ids("FIFO"), [1, 2, 3]);
+  });
+
+  it("LIFO consume primero las más recientes", () => {
+    assert.deepEqual(ids("LIFO"), [3, 2, 1]);
+  });
+
+  it("HIFO consume primero las de mayor coste unitario, comisión incluida", () => {
+    assert.deepEqual(ids("HIFO"), [2, 3, 1]);
+
+    const conComision = [
+      ...lotes.slice(0, 2),
+      { ...lotes[2], comisionCotizacion: 150 }, // 200 + 150 por unidad
+    ];
+    assert.deepEqual(
+      servicioLotes.ordenarLotes(conComision, "HIFO").map((l) => l.id),
+      [3, 2, 1]
+    );
+  });
+
+  it("ESPECIFICO usa solo los indicados, en su orden y una vez cada uno", () => {
+    assert.deepEqual(ids("ESPECIFICO", [3, 1]), [3, 1]);
+    assert.deepEqual(ids("ESPECIFICO", [3, 3, 1]), [3, 1]);
+    assert.deepEqual(ids("ESPECIFICO", [9]), []);
+  });
+
+  it("idsNoDisponibles señala los ids que no son lotes abiertos, inválidos o repetidos", () => {
+    assert.deepEqual(servicioLotes.idsNoDisponibles(lotes, [1, 3]), []);
+    assert.deepEqual(servicioLotes.idsNoDisponibles(lotes, [1, 9]), ["9"]);
+    assert.deepEqual(servicioLotes.idsNoDisponibles(lotes, [2, 2]), ["2"]);
+    assert.deepEqual(servicioLotes.idsNoDisponibles(lotes, [NaN]), ["NaN"]);
+  });
+});
+
+describe("servicioLotes.registrarVenta", () => {
+  let db: SupabaseFalso;
+
+  const venta = (datos: Partial<VentaAAsignar> = {}): VentaAAsignar => ({
+    idUsuario: USUARIO,
+    exchange: "BINANCE",
+    idCuenta: CUENTA,
+    simbolo: "BTCUSDC",
+    cantidad: 1,
+    precioVenta: 150,
+    comision: { comision: 0.15, comisionMoneda: "USDC", comisionCotizacion: 0.15 },
+    fecha: Date.parse("2026-04-01T00:00:00Z"),
+    metodo: "FIFO",
+    ...datos,
+  });
+
+  const compra = (datos: Record<string, any>) => {
+    const fila: Record<string, any> = {
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      idCuenta: CUENTA,
+      simbolo: "BTCUSDC",
+      cantidad: 1,
+      precio: 100,
+      comisionCotizacion: 0,
+      vendida: false,
+      cantidadRestante: null,
+      ...datos,
+    };
+    db.filas("compras").push(fila);
+    return fila;
+  };
+
+  before(() => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "warn", () => {});
+  });
+
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    db = instalarSupabaseFalso();
+  });
+
+  it("reparte la venta entre lotes y deja el último a medias", async () => {
+    const antigua = compra({ fechaCompra: "2026-01-01T00:00:00Z", cantidad: 0.6 });
+    const reciente = compra({ fechaCompra: "2026-02-01T00:00:00Z", precio: 120 });
+
+    const resultado = await servicioLotes.registrarVenta(venta());
+
+    assert.equal(resultado.duplicada, false);
+    cerca(resultado.cantidadAsignada, 1);
+    assert.equal(resultado.sinAsignar, 0);
+    assert.deepEqual(resultado.lotesCerrados, [antigua.id]);
+    assert.deepEqual(
+      resultado.emparejamientos.map((e) => [e.idCompra, e.cantidad]),
+      [
+        [antigua.id, 0.6],
+        [reciente.id, 0.4],
+      ]
+    );
+
+    assert.equal(antigua.vendida, true);
+    assert.equal(antigua.cantidadRestante, 0);
+    assert.equal(reciente.vendida, false);
+    cerca(reciente.cantidadRestante, 0.6);
+
+    // 0,6 a 100 y 0,4 a 120 vendidos a 150, menos la comisión de venta
+    cerca(resultado.venta.beneficio, 150 - 60 - 48 - 0.15);
+    assert.equal(resultado.venta.idCompra, antigua.id);
+  });
+
+  it("las compras sin cantidadRestante descuentan sus ventas anteriores", async () => {
+    const antigua = compra({ fechaCompra: "2026-01-01T00:00:00Z" });
+    db.filas("ventas").push({ id: db.siguienteId(), idCompra: antigua.id, cantidadVendida: 0.7 });
+
+    const [abierto] = await servicioLotes.lotesAbiertos(USUARIO, CUENTA, "BTCUSDC");
+    cerca(abierto.restante, 0.3);
+
+    const resultado = await servicioLotes.registrarVenta(venta({ cantidad: 0.3 }));
+    assert.deepEqual(resultado.lotesCerrados, [antigua.id]);
+  });
+
+  it("guarda entera la venta que no cubren los lotes, con lo que falta sin lote", async () => {
+    const unica = compra({ fechaCompra: "2026-01-01T00:00:00Z", cantidad: 0.25 });
+
+    const resultado = await servicioLotes.registrarVenta(venta());
+
+    cerca(resultado.cantidadAsignada, 0.25);
+    cerca(resultado.sinAsignar, 0.75);
+    assert.equal(resultado.venta.cantidadVendida, 1);
+    cerca(resultado.venta.cantidadSinLote, 0.75);
+    assert.equal(resultado.venta.comisionVenta, 0.15);
+    assert.equal(unica.vendida, true);
+
+    // Sin ningún lote también queda registrada, sin idCompra
+    const sinLote = await servicioLotes.registrarVenta(
+      venta({ cantidad: 0.5, idOrden: "77" })
+    );
+    assert.equal(sinLote.cantidadAsignada, 0);
+    assert.equal(sinLote.sinAsignar, 0.5);
+    assert.equal(sinLote.venta.idCompra, null);
+    assert.equal(sinLote.emparejamientos.length, 0);
+    assert.equal(db.filas("ventas").length, 2);
+  });
+
+  it("no registra dos veces la misma orden y fill", async () => {
+    compra({ fechaCompra: "2026-01-01T00:00:00Z" });
+
+    const primera = await servicioLotes.registrarVenta(
+      venta({ cantidad: 0.4, idOrden: "10", idFill: "1" })
+    );
+    const repetida = await servicioLotes.registrarVenta(
+      venta({ cantidad: 0.4, idOrden: "10", idFill: "1" })
+    );
+    const otroFill = await servicioLotes.registrarVenta(
+      venta({ cantidad: 0.4, idOrden: "10", idFill: "2" })
+    );
+
+    assert.equal(repetida.duplicada, true);
+    assert.equal(repetida.venta.id, primera.venta.id);
+    assert.equal(repetida.emparejamientos.length, 1);
+    assert.equal(otroFill.duplicada, false);
+    assert.equal(db.filas("ventas").length, 2);
+    cerca(db.filas("compras")[0].cantidadRestante, 0.2);
+  });
+
+  it("vuelve a repartir si otra venta cambia los lotes entretanto", async () => {
+    const antigua = compra({ fechaCompra: "2026-01-01T00:00:00Z" });
+    const reciente = compra({ fechaCompra: "2026-02-01T00:00:00Z" });
+
+    // Otra venta se lleva el lote antiguo entre la lectura y el registro
+    const rpc = db.rpc.bind(db);
+    let llamadas = 0;
+    mock.method(db, "rpc", async (nombre: string, argumentos: any) => {
+      if (llamadas++ === 0) {
+        antigua.cantidadRestante = 0;
+        antigua.vendida = true;
+      }
+      return rpc(nombre, argumentos);
+    });
+
+    const resultado = await servicioLotes.registrarVenta(venta({ cantidad: 0.5 }));
+
+    assert.equal(llamadas, 2);
+    assert.deepEqual(
+      resultado.emparejamientos.map((e) => e.idCompra),
+      [reciente.id]
+    );
+    cerca(reciente.cantidadRestante, 0.5);
+    assert.equal(db.filas("ventas").length, 1);
+  });
+
+  it("actualizarCompra suma a lo que queda lo que crece la orden", async () => {
+    const antigua = compra({ fechaCompra: "2026-01-01T00:00:00Z" });
+    db.filas("ventas").push({ id: db.siguienteId(), idCompra: antigua.id, cantidadVendida: 0.7 });
+
+    // Solo cambia la comisión: lo vendido no se toca
+    await servicioLotes.actualizarCompra(antigua.id, { cantidad: 1, comision: 0.2 });
+    assert.equal(antigua.cantidadRestante, null);
+    assert.equal(antigua.comision, 0.2);
+
+    await servicioLotes.actualizarCompra(antigua.id, { cantidad: 1.5 });
+    cerca(antigua.cantidadRestante, 0.8);
+    assert.equal(antigua.vendida, false);
+  });
+
+  it("ESPECIFICO solo toca los lotes indicados", async () => {
+    const antigua = compra({ fechaCompra: "2026-01-01T00:00:00Z" });
+    const reciente = compra({ fechaCompra: "2026-02-01T00:00:00Z" });
+
+    const resultado = await servicioLotes.registrarVenta(
+      venta({ cantidad: 0.5, metodo: "ESPECIFICO", idsCompra: [reciente.id] })
+    );
+
+    assert.deepEqual(
+      resultado.emparejamientos.map((e) => e.idCompra),
+      [reciente.id]
+    );
+    assert.equal(antigua.cantidadRestante, null);
+    assert.equal(resultado.venta.metodoCoste, "ESPECIFICO");
+  });
+});
@@ -0,0 +1,129 @@
+// test/servicioSnapshots.test.ts
+
+/**
+ * Curva de valor a partir de los snapshots: último snapshot de cada cuenta
+ * por periodo, rentabilidad sin depósitos ni retiros (TWR) y drawdown
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import { servicioSnapshots } from "../src/services/servicioSnapshots";
+
+const USUARIO = "usuario-test";
+
+const cerca = (real: number | null, esperado: number) =>
+  assert.ok(
+    real !== null && Math.abs(real - esperado) < 1e-6,
+    `${real} != ${esperado}`
+  );
+
+describe("servicioSnapshots.generarCurva", () => {
+  let db: SupabaseFalso;
+
+  const fecha = (dia: number, hora: number = 10) =>
+    new Date(Date.UTC(2026, 0, 1 + dia, hora)).toISOString();
+
+  const snapshot = (idCuenta: number, dia: number, valorUSD: number, hora?: number) =>
+    db.filas("snapshotsCartera").push({
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      idCuenta,
+      fecha: fecha(dia, hora),
+      valorUSD,
+    });
+
+  const movimiento = (tipo: "DEPOSITO" | "RETIRO", dia: number, valorUSD: number) =>
+    db.filas("movimientos").push({
+      id: db.siguienteId(),
+      idUsuario: USUARIO,
+      idCuenta: 1,
+      tipo,
+      estado: "COMPLETADO",
+      fecha: fecha(dia),
+      valorUSD,
+    });
+
+  before(() => mock.method(console, "log", () => {}));
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    db = instalarSupabaseFalso();
+  });
+
+  it("descuenta los depósitos de la rentabilidad y la encadena", async () => {
+    snapshot(1, 0, 1000);
+    snapshot(1, 1, 1100); // +10%
+    movimiento("DEPOSITO", 2, 500);
+    snapshot(1, 2, 1600); // solo el depósito
+    snapshot(1, 3, 1200); // -25%
+
+    const curva = await servicioSnapshots.generarCurva(USUARIO, [1]);
+
+    assert.deepEqual(
+      curva.puntos.map((p) => [p.valorUSD, p.flujoNeto, p.rentabilidad]),
+      [
+        [1000, 0, null],
+        [1100, 0, 0.1],
+        [1600, 500, 0],
+        [1200, 0, -0.25],
+      ]
+    );
+    cerca(curva.puntos[3].rentabilidadAcumulada, 1.1 * 0.75 - 1);
+    cerca(curva.rentabilidadTotal, 1.1 * 0.75 - 1);
+  });
+
+  it("mide el drawdown sobre la rentabilidad, no sobre el valor", async () => {
+    snapshot(1, 0, 1000);
+    snapshot(1, 1, 1100);
+    movimiento("RETIRO", 2, 600);
+    snapshot(1, 2, 500); // el valor cae por el retiro, la rentabilidad no
+    snapshot(1, 3, 400); // -20%
+    snapshot(1, 4, 550); // vuelve por encima del pico
+
+    const curva = await servicioSnapshots.generarCurva(USUARIO, [1]);
+
+    assert.deepEqual(
+      curva.puntos.map((p) => p.drawdown),
+      [0, 0, 0, -0.2, 0]
+    );
+    cerca(curva.drawdownMaximo.porcentaje, -0.2);
+    assert.equal(curva.drawdownMaximo.pico, fecha(2));
+    assert.equal(curva.drawdownMaximo.valle, fecha(3));
+    assert.equal(curva.drawdownMaximo.recuperacion, fecha(4));
+    assert.equal(curva.drawdownActual, 0);
+  });
+
+  it("suma el último snapshot de cada cuenta y mantiene el anterior si falta", async () => {
+    snapshot(1, 0, 1000);
+    snapshot(2, 0, 400, 9);
+    snapshot(2, 0, 500, 11); // el último del día es el que vale
+    snapshot(1, 1, 1100); // la cuenta 2 no tiene snapshot este día
+
+    const curva = await servicioSnapshots.generarCurva(USUARIO, [1, 2]);
+
+    assert.deepEqual(
+      curva.puntos.map((p) => [p.periodo, p.fecha, p.valorUSD]),
+      [
+        [fecha(0, 0), fecha(0, 11), 1500],
+        [fecha(1, 0), fecha(1), 1600],
+      ]
+    );
+    cerca(curva.puntos[1].rentabilidad, 100 / 1500);
+  });
+
+  it("valorEnFecha suma el último snapshot de cada cuenta hasta la fecha", async () => {
+    snapshot(1, 0, 1000);
+    snapshot(1, 2, 1200);
+    snapshot(2, 1, 300);
+
+    assert.deepEqual(
+      await servicioSnapshots.valorEnFecha(USUARIO, [1, 2], fecha(1, 12)),
+      { valor: 1300, fecha: fecha(1) }
+    );
+    assert.equal(
+      await servicioSnapshots.valorEnFecha(USUARIO, [1, 2], fecha(-1)),
+      null
+    );
+  });
+});
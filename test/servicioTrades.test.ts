@@ -0,0 +1,95 @@
+// test/servicioTrades.test.ts
+
+/**
+ * Resincronización por REST del monitor contra el simulador: las compras se
+ * guardan una por orden y las ventas hechas sin stream se reparten entre
+ * los lotes
+ */
+
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { SimuladorBinance } from "./simuladorBinance";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import { monitorService } from "../src/services/servicioMonitoreo";
+import { ConexionExchange } from "../src/interfaces/exchange.types";
+
+const USUARIO = "usuario-test";
+
+describe("Resincronización de trades del monitor", () => {
+  let simulador: SimuladorBinance;
+  let db: SupabaseFalso;
+  let conexion: ConexionExchange;
+
+  const resincronizar = (desde: number) =>
+    monitorService["monitorearComprasCuenta"](USUARIO, conexion, desde);
+
+  before(async () => {
+    mock.method(console, "log", () => {});
+    db = instalarSupabaseFalso();
+    db.filas("usuarios").push({ id: USUARIO, metodoCoste: "FIFO" });
+
+    simulador = new SimuladorBinance({
+      precios: { BTCUSDC: 50000 },
+      balances: { USDC: 10000 },
+    });
+    await simulador.iniciar();
+    conexion = {
+      id: 1,
+      nombreCuenta: "Simulador",
+      exchange: "BINANCE",
+      entorno: "custom",
+      adapter: simulador.obtenerServicio(),
+      credentials: simulador.credenciales,
+      permisos: null,
+    };
+  });
+
+  after(async () => {
+    await simulador.detener();
+    mock.restoreAll();
+  });
+
+  it("asigna a sus lotes una venta hecha mientras no había stream", async () => {
+    const inicio = Date.now() - 1000;
+    const servicio = simulador.obtenerServicio();
+
+    await servicio.placeBuyOrder(simulador.credenciales, {
+      symbol: "BTCUSDC",
+      quantity: "0.02",
+    });
+    await resincronizar(inicio);
+
+    const compras = db.filas("compras");
+    assert.equal(compras.length, 1);
+    assert.equal(compras[0].cantidad, 0.02);
+
+    // Sin stream: la venta solo está en el exchange
+    simulador.establecerPrecio("BTCUSDC", 60000);
+    await servicio.placeSellOrder(simulador.credenciales, {
+      symbol: "BTCUSDC",
+      quantity: "0.015",
+    });
+    assert.equal(db.filas("ventas").length, 0);
+
+    const resultado = await resincronizar(inicio);
+    assert.equal(resultado?.huboErrores, false);
+
+    const ventas = db.filas("ventas");
+    assert.equal(ventas.length, 1);
+    assert.equal(ventas[0].idCompra, compras[0].id);
+    assert.equal(ventas[0].cantidadVendida, 0.015);
+    assert.equal(ventas[0].precioVenta, 60000);
+
+    const [emparejamiento] = db.filas("emparejamientosVenta");
+    assert.equal(emparejamiento.idCompra, compras[0].id);
+    assert.equal(emparejamiento.cantidad, 0.015);
+
+    assert.ok(Math.abs(compras[0].cantidadRestante - 0.005) < 1e-9);
+    assert.equal(compras[0].vendida, false);
+
+    // Repetir la ventana no vuelve a registrar nada
+    await resincronizar(inicio);
+    assert.equal(db.filas("ventas").length, 1);
+    assert.ok(Math.abs(compras[0].cantidadRestante - 0.005) < 1e-9);
+  });
+});
@@ -0,0 +1,106 @@
+// test/servicioUserDataStream.test.ts
+
+/**
+ * Fills de compra del user data stream: una compra por orden, sin sumar dos
+ * veces un fill repetido y sin perder lo vendido de una compra que crece
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { instalarSupabaseFalso, SupabaseFalso } from "./supabaseFalso";
+import { servicioUserDataStream } from "../src/services/servicioUserDataStream";
+import { webSocketService } from "../src/services/servicioWebSocket";
+import { ExecutionReportEvent } from "../src/interfaces/binance.types";
+
+const USUARIO = "usuario-test";
+const ORDEN = 42;
+
+const cerca = (real: number, esperado: number) =>
+  assert.ok(Math.abs(real - esperado) < 1e-9, `${real} != ${esperado}`);
+
+describe("servicioUserDataStream: fills de compra", () => {
+  let db: SupabaseFalso;
+
+  // Lo que usa guardarFillCompra del stream
+  const stream: any = {
+    userId: USUARIO,
+    conexion: { id: 1 },
+    adapter: {
+      nombre: "BINANCE",
+      getAllSymbols: async () => [
+        { symbol: "BTCUSDC", baseAsset: "BTC", quoteAsset: "USDC", status: "TRADING" },
+      ],
+    },
+  };
+
+  // Fill de 0,01 BTC a 50000 con 0,5 USDC de comisión; z y Z son los acumulados
+  const fill = (t: number, acumulado: number): ExecutionReportEvent =>
+    ({
+      e: "executionReport",
+      E: 1760000000000 + t,
+      s: "BTCUSDC",
+      c: "externa",
+      S: "BUY",
+      x: "TRADE",
+      X: "PARTIALLY_FILLED",
+      i: ORDEN,
+      l: "0.01",
+      z: String(acumulado),
+      L: "50000",
+      n: "0.5",
+      N: "USDC",
+      T: 1760000000000 + t,
+      t,
+      m: false,
+      Z: String(acumulado * 50000),
+      Y: "500",
+    }) as ExecutionReportEvent;
+
+  const guardar = (evento: ExecutionReportEvent) =>
+    servicioUserDataStream["guardarFillCompra"](stream, evento);
+
+  before(() => {
+    mock.method(console, "log", () => {});
+    mock.method(webSocketService, "enviarNotificacion", () => {});
+  });
+
+  after(() => mock.restoreAll());
+
+  beforeEach(() => {
+    db = instalarSupabaseFalso();
+  });
+
+  it("no suma dos veces la comisión de un fill repetido", async () => {
+    await guardar(fill(1, 0.01));
+    await guardar(fill(2, 0.02));
+    // Reconexión o reinicio: el primer fill vuelve a llegar
+    await guardar(fill(1, 0.01));
+
+    const [compra] = db.filas("compras");
+    assert.equal(db.filas("compras").length, 1);
+    cerca(compra.cantidad, 0.02);
+    cerca(compra.comision, 1);
+    cerca(compra.comisionCotizacion, 1);
+    assert.deepEqual(compra.idsFills, [1, 2]);
+  });
+
+  it("suma los fills nuevos a lo que queda de una compra a medio vender", async () => {
+    await guardar(fill(1, 0.01));
+    const [compra] = db.filas("compras");
+
+    // Se vende 0,006 antes del siguiente fill
+    compra.cantidadRestante = 0.004;
+    await guardar(fill(2, 0.02));
+
+    cerca(compra.cantidadRestante, 0.014);
+    assert.equal(compra.vendida, false);
+
+    // Vendida entera, un fill más la vuelve a abrir
+    compra.cantidadRestante = 0;
+    compra.vendida = true;
+    await guardar(fill(3, 0.03));
+
+    cerca(compra.cantidadRestante, 0.01);
+    assert.equal(compra.vendida, false);
+  });
+});
@@ -0,0 +1,174 @@
+// test/simuladorBinance.test.ts
+
+/**
+ * Compras, ventas y sincronización de BinanceService contra el simulador,
+ * por HTTP real y con las firmas comprobadas
+ */
+
+import { after, before, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { SimuladorBinance } from "./simuladorBinance";
+import {
+  BinanceService,
+  obtenerBinanceService,
+} from "../src/services/servicioBinance";
+
+const PRECIO_BTC = 50000;
+
+describe("BinanceService contra el simulador", () => {
+  let simulador: SimuladorBinance;
+  let servicio: BinanceService;
+
+  before(async () => {
+    // El servicio registra cada petición; el runner de node:test no soporta
+    // tanta salida del proceso de test
+    mock.method(console, "log", () => {});
+
+    simulador = new SimuladorBinance({
+      precios: { BTCUSDT: PRECIO_BTC, ETHUSDT: 3000 },
+    });
+    await simulador.iniciar();
+    servicio = simulador.obtenerServicio();
+  });
+
+  after(async () => {
+    await simulador.detener();
+    mock.restoreAll();
+  });
+
+  beforeEach(() => {
+    simulador.establecerBalance("USDT", 1000);
+    simulador.establecerBalance("BTC", 0);
+  });
+
+  it("compra a mercado y mueve los balances", async () => {
+    const { success, order } = await servicio.placeBuyOrder(
+      simulador.credenciales,
+      { symbol: "BTCUSDT", quantity: "0.01" }
+    );
+
+    assert.equal(success, true);
+    assert.equal(order?.status, "FILLED");
+    assert.equal(parseFloat(order!.executedQty), 0.01);
+
+    const btc = simulador.obtenerBalance("BTC").free;
+    const usdt = simulador.obtenerBalance("USDT").free;
+    // Comisión de taker (0,1%) descontada de lo recibido
+    assert.ok(Math.abs(btc - 0.01 * 0.999) < 1e-9, `BTC: ${btc}`);
+    assert.ok(Math.abs(usdt - (1000 - 0.01 * PRECIO_BTC)) < 1e-6, `USDT: ${usdt}`);
+  });
+
+  it("vende en varios fills al precio programado", async () => {
+    simulador.establecerBalance("BTC", 0.02);
+    simulador.programarLlenado("BTCUSDT", [
+      { precio: 51000, proporcion: 0.5 },
+      { precio: 52000 },
+    ]);
+
+    const { success, order } = await servicio.placeSellOrder(
+      simulador.credenciales,
+      { symbol: "BTCUSDT", quantity: "0.02" }
+    );
+
+    assert.equal(success, true);
+    assert.equal(order?.status, "FILLED");
+    assert.equal(order?.fills?.length, 2);
+    assert.ok(Math.abs(simulador.obtenerBalance("BTC").free) < 1e-9);
+
+    const ingreso = 0.01 * 51000 + 0.01 * 52000;
+    const usdt = simulador.obtenerBalance("USDT").free;
+    assert.ok(Math.abs(usdt - (1000 + ingreso * 0.999)) < 1e-6, `USDT: ${usdt}`);
+  });
+
+  it("rechaza la venta sin saldo y no cambia nada", async () => {
+    const ordenes = simulador.obtenerOrdenes().length;
+
+    const { success } = await servicio.placeSellOrder(simulador.credenciales, {
+      symbol: "BTCUSDT",
+      quantity: "1",
+    });
+
+    assert.equal(success, false);
+    assert.equal(simulador.obtenerOrdenes().length, ordenes);
+    assert.equal(simulador.obtenerBalance("USDT").free, 1000);
+  });
+
+  it("sincroniza por REST los trades y balances que dejan las órdenes", async () => {
+    await servicio.placeBuyOrder(simulador.credenciales, {
+      symbol: "BTCUSDT",
+      quantity: "0.01",
+    });
+    await servicio.placeSellOrder(simulador.credenciales, {
+      symbol: "BTCUSDT",
+      quantity: "0.005",
+    });
+
+    // Paginado con fromId, como el backfill
+    const trades = [];
+    let fromId = 0;
+    while (true) {
+      const pagina = await servicio.getMyTrades(simulador.credenciales, {
+        symbol: "BTCUSDT",
+        fromId,
+        limit: 2,
+      });
+      trades.push(...pagina);
+      if (pagina.length < 2) break;
+      fromId = pagina[pagina.length - 1].id + 1;
+    }
+
+    assert.deepEqual(
+      trades.map((t) => t.id),
+      simulador
+        .obtenerTrades()
+        .filter((t) => t.symbol === "BTCUSDT")
+        .map((t) => t.id)
+    );
+    const ultimos = trades.slice(-2);
+    assert.deepEqual(
+      ultimos.map((t) => t.isBuyer),
+      [true, false]
+    );
+    assert.equal(parseFloat(ultimos[1].qty), 0.005);
+
+    const holdings = await servicio.getHoldings(simulador.credenciales);
+    const btc = holdings.assets.find((a) => a.asset === "BTC");
+    assert.ok(btc, "BTC en los holdings");
+    assert.ok(
+      Math.abs(btc!.total - simulador.obtenerBalance("BTC").free) < 1e-9,
+      `BTC: ${btc!.total}`
+    );
+  });
+
+  it("valora varios instantes con las mismas velas que getPriceAt", async () => {
+    simulador.establecerPrecio("ETHUSDT", 3100);
+    const ahora = Date.now();
+    const instantes = [ahora, ahora - 60_000];
+
+    const precios = await servicio.getPreciosEnFechas("ETH", "USDT", instantes);
+
+    for (const instante of instantes) {
+      assert.equal(
+        precios.get(instante),
+        await servicio.getPriceAt("ETHUSDT", instante)
+      );
+    }
+    assert.equal(precios.get(ahora), 3100);
+    assert.equal(
+      (await servicio.getPreciosEnFechas("XYZ", "USDT", [ahora])).get(ahora),
+      null
+    );
+  });
+
+  it("valora testnet con los precios de mainnet y el simulador con los suyos", () => {
+    assert.equal(
+      obtenerBinanceService("testnet").mercadoValoracion(),
+      obtenerBinanceService("mainnet")
+    );
+    assert.equal(
+      obtenerBinanceService("mainnet").mercadoValoracion(),
+      obtenerBinanceService("mainnet")
+    );
+    assert.equal(servicio.mercadoValoracion(), servicio);
+  });
+});
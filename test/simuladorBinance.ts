@@ -0,0 +1,1943 @@
+// test/simuladorBinance.ts
+
+/**
+ * SIMULADOR LOCAL DE LA API REST DE BINANCE
+ *
+ * Servidor HTTP en proceso al que se puede apuntar un BinanceService
+ * (entorno "custom") para ejecutar compras, ventas y sincronizaciones
+ * sin una cuenta real. Todo el estado es programable:
+ * 1. Balances spot y posiciones de Simple Earn
+ * 2. Precios y rutas de precios (de las que salen las velas)
+ * 3. Llenados de las siguientes órdenes
+ * 4. Errores de Binance para cualquier endpoint
+ * 5. User data stream (listenKey + WebSocket) con los eventos de las órdenes
+ * 6. Streams de mercado (kline y miniTicker) que siguen a los precios fijados
+ * 7. Órdenes condicionales (stop loss, take profit) y OCO, que se disparan
+ *    al fijar precios
+ * 8. Historial de depósitos y retiros
+ * 9. Permisos de la API key (apiRestrictions)
+ * 10. Productos flexibles de Simple Earn: suscripciones y reembolsos, que
+ *     mueven el saldo entre spot y Earn al instante
+ *
+ * Solo lo usan los tests (npm test): vive fuera de src para no entrar en la
+ * build de producción.
+ */
+
+import express, { Request, Response, NextFunction } from "express";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { createHmac, randomBytes } from "crypto";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  BinanceBalance,
+  BinanceCredentials,
+  BinanceOrder,
+  BinanceOrderList,
+  BinanceTrade,
+  DepositoBinance,
+  ExchangeInfoResponse,
+  RestriccionesApiBinance,
+  RetiroBinance,
+} from "../src/interfaces/binance.types";
+import {
+  BinanceService,
+  obtenerBinanceService,
+  permitirBaseUrlCustom,
+} from "../src/services/servicioBinance";
+import { SIMBOLOS_INICIALES } from "../src/services/servicioSimbolos";
+
+// =============================================================================
+// TIPOS
+// =============================================================================
+
+export interface SimboloSimulado {
+  symbol: string;
+  baseAsset: string;
+  quoteAsset: string;
+  status?: string;
+  filters?: Array<{ filterType: string; [key: string]: any }>;
+}
+
+// Parte de un llenado programado: precio y proporción de la cantidad pedida
+export interface ParteLlenado {
+  precio: number;
+  proporcion?: number; // por defecto, el resto de la orden
+}
+
+// Error de Binance que devolverá el simulador
+export interface ErrorSimulado {
+  status: number;
+  code: number;
+  msg: string;
+  cabeceras?: Record<string, string>;
+}
+
+export interface PeticionRegistrada {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  time: number;
+}
+
+export interface OpcionesSimulador {
+  credenciales?: BinanceCredentials;
+  simbolos?: SimboloSimulado[];
+  precios?: Record<string, number>;
+  balances?: Record<string, number>;
+  comisionMaker?: number;
+  comisionTaker?: number;
+  // Activo en el que se cobran las comisiones (p. ej. BNB) cuando tiene
+  // precio contra el quote del par; por defecto, como Binance sin descuento
+  activoComision?: string;
+  // Reloj del servidor, para tests deterministas
+  reloj?: () => number;
+  // Si es false no se comprueban api key ni firma
+  verificarFirma?: boolean;
+}
+
+interface OrdenSimulada extends BinanceOrder {
+  updateTime: number;
+  bloqueado: number; // fondos bloqueados por la orden (en una OCO, por la lista)
+  disparada?: boolean; // las condicionales no trabajan hasta tocar el stop
+}
+
+interface ListaSimulada {
+  orderListId: number;
+  listClientOrderId: string;
+  symbol: string;
+  orderIds: number[];
+  listOrderStatus: "EXECUTING" | "ALL_DONE";
+  transactionTime: number;
+  bloqueado: number;
+}
+
+interface PosicionEarn {
+  asset: string;
+  totalAmount: number;
+  annualPercentageRate?: number;
+  projectId?: string;
+}
+
+export interface ProductoEarnSimulado {
+  asset: string;
+  productId: string;
+  minPurchaseAmount: number;
+  annualPercentageRate: number;
+  canPurchase: boolean;
+  canRedeem: boolean;
+  isSoldOut: boolean;
+}
+
+// Errores con los códigos que usa Binance
+const ERRORES = {
+  apiKey: { status: 401, code: -2015, msg: "Invalid API-key, IP, or permissions for action." },
+  firma: { status: 400, code: -1022, msg: "Signature for this request is not valid." },
+  recvWindow: { status: 400, code: -1021, msg: "Timestamp for this request is outside of the recvWindow." },
+  simbolo: { status: 400, code: -1121, msg: "Invalid symbol." },
+  parametro: { status: 400, code: -1102, msg: "Mandatory parameter was not sent, was empty/null, or malformed." },
+  balance: { status: 400, code: -2010, msg: "Account has insufficient balance for requested action." },
+  ordenNoExiste: { status: 400, code: -2013, msg: "Order does not exist." },
+  cancelarRechazado: { status: 400, code: -2011, msg: "Unknown order sent." },
+  dispararia: { status: 400, code: -2010, msg: "Order would trigger immediately." },
+  cruzaria: { status: 400, code: -2010, msg: "Order would immediately match and take." },
+  listenKey: { status: 400, code: -1125, msg: "This listenKey does not exist." },
+  productoEarn: { status: 400, code: -6001, msg: "Daily product not exists." },
+  minimoEarn: { status: 400, code: -6005, msg: "Your input amount is below the minimum purchase amount." },
+  posicionEarn: { status: 400, code: -6018, msg: "Asset not enough." },
+};
+
+// Duración de cada intervalo de velas en milisegundos
+const DURACION_INTERVALOS: Record<string, number> = {
+  "1m": 60_000,
+  "3m": 180_000,
+  "5m": 300_000,
+  "15m": 900_000,
+  "30m": 1_800_000,
+  "1h": 3_600_000,
+  "2h": 7_200_000,
+  "4h": 14_400_000,
+  "6h": 21_600_000,
+  "8h": 28_800_000,
+  "12h": 43_200_000,
+  "1d": 86_400_000,
+  "1w": 604_800_000,
+};
+
+const STABLECOINS = ["USDT", "USDC", "FDUSD", "BUSD"];
+
+const TIPOS_ORDEN = [
+  "MARKET",
+  "LIMIT",
+  "LIMIT_MAKER",
+  "STOP_LOSS",
+  "STOP_LOSS_LIMIT",
+  "TAKE_PROFIT",
+  "TAKE_PROFIT_LIMIT",
+];
+
+const esCondicional = (type: string) =>
+  type.startsWith("STOP_LOSS") || type.startsWith("TAKE_PROFIT");
+const conLimite = (type: string) =>
+  type === "LIMIT" || type === "LIMIT_MAKER" || type.endsWith("_LIMIT");
+
+// =============================================================================
+// CLASE PRINCIPAL DEL SIMULADOR
+// =============================================================================
+
+export class SimuladorBinance {
+  readonly credenciales: BinanceCredentials;
+  readonly peticiones: PeticionRegistrada[] = [];
+
+  private server: Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private baseUrl: string | null = null;
+  private reloj: () => number;
+  private verificarFirma: boolean;
+  private comisionMaker: number;
+  private comisionTaker: number;
+  private activoComision: string | null;
+
+  private simbolos: Map<string, SimboloSimulado> = new Map();
+  private balances: Map<string, { free: number; locked: number }> = new Map();
+  private historialPrecios: Map<string, number[]> = new Map();
+  private rutasPrecios: Map<string, number[]> = new Map();
+  private llenadosProgramados: Map<string, ParteLlenado[][]> = new Map();
+  private erroresProgramados: Map<string, { error: ErrorSimulado; veces: number }[]> = new Map();
+  private ordenes: Map<number, OrdenSimulada> = new Map();
+  private listas: Map<number, ListaSimulada> = new Map();
+  private trades: BinanceTrade[] = [];
+  private earnFlexible: Map<string, PosicionEarn> = new Map();
+  private earnBloqueado: Map<string, PosicionEarn> = new Map();
+  private productosEarn: Map<string, ProductoEarnSimulado> = new Map();
+  private depositos: DepositoBinance[] = [];
+  private retiros: RetiroBinance[] = [];
+  private restriccionesApi: RestriccionesApiBinance;
+  private listenKeys: Set<string> = new Set();
+  private socketsUsuario: Set<WebSocket> = new Set();
+  // Streams de mercado suscritos por cada socket de /stream
+  private socketsMercado: Map<WebSocket, Set<string>> = new Map();
+  // Apertura de la última vela emitida por cada stream kline
+  private ultimaVelaEmitida: Map<string, number> = new Map();
+
+  private siguienteOrderId = 1;
+  private siguienteTradeId = 1;
+  private siguienteListId = 1;
+  private siguienteMovimientoId = 1;
+
+  constructor(opciones: OpcionesSimulador = {}) {
+    this.credenciales = opciones.credenciales || {
+      apiKey: "simulador-api-key",
+      apiSecret: "simulador-api-secret",
+    };
+    this.reloj = opciones.reloj || (() => Date.now());
+    this.verificarFirma = opciones.verificarFirma ?? true;
+    this.comisionMaker = opciones.comisionMaker ?? 0.001;
+    this.comisionTaker = opciones.comisionTaker ?? 0.001;
+    this.activoComision = opciones.activoComision?.toUpperCase() || null;
+
+    // Por defecto, una key de lectura y trading spot, sin retiros
+    this.restriccionesApi = {
+      ipRestrict: false,
+      createTime: this.reloj(),
+      enableReading: true,
+      enableSpotAndMarginTrading: true,
+      enableWithdrawals: false,
+      enableInternalTransfer: false,
+      enableMargin: false,
+      enableFutures: false,
+      permitsUniversalTransfer: false,
+      enableVanillaOptions: false,
+    };
+
+    // Por defecto, los pares con los que se siembra el registro + BTCUSDT/ETHUSDT,
+    // que getTotalUSDBalance necesita para valorar spot y Earn
+    const simbolos =
+      opciones.simbolos ||
+      [...SIMBOLOS_INICIALES, "BTCUSDT", "ETHUSDT"].map((symbol) => {
+        const quoteAsset = symbol.endsWith("USDT") ? "USDT" : "USDC";
+        return {
+          symbol,
+          baseAsset: symbol.slice(0, -quoteAsset.length),
+          quoteAsset,
+        };
+      });
+    simbolos.forEach((simbolo) => this.establecerSimbolo(simbolo));
+
+    Object.entries(opciones.precios || {}).forEach(([symbol, precio]) =>
+      this.establecerPrecio(symbol, precio)
+    );
+    Object.entries(opciones.balances || {}).forEach(([asset, free]) =>
+      this.establecerBalance(asset, free)
+    );
+  }
+
+  // ===========================================================================
+  // CICLO DE VIDA
+  // ===========================================================================
+
+  /**
+   * Arranca el servidor en localhost
+   * @param puerto Puerto en el que escuchar (0 = uno libre)
+   * @returns URL base para usar como entorno custom
+   */
+  async iniciar(puerto: number = 0): Promise<string> {
+    if (this.server && this.baseUrl) {
+      return this.baseUrl;
+    }
+
+    const server = createServer(this.crearApp());
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(puerto, "127.0.0.1", () => resolve());
+    });
+
+    // User data stream (ws://host/ws/<listenKey>) y mercado (ws://host/stream)
+    this.wss = new WebSocketServer({
+      server,
+      verifyClient: (info: { req: { url?: string } }) => {
+        const url = info.req.url || "";
+        return url === "/stream" || this.listenKeys.has(url.replace(/^\/ws\//, ""));
+      },
+    });
+    this.wss.on("connection", (socket, req) => {
+      if (req.url === "/stream") {
+        this.atenderSocketMercado(socket);
+      } else {
+        this.socketsUsuario.add(socket);
+        socket.on("close", () => this.socketsUsuario.delete(socket));
+      }
+    });
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+    permitirBaseUrlCustom(this.baseUrl);
+    console.log(`🧪 Simulador de Binance escuchando en ${this.baseUrl}`);
+    return this.baseUrl;
+  }
+
+  async detener(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    this.baseUrl = null;
+
+    // Los sockets abiertos impedirían cerrar el servidor
+    this.wss?.clients.forEach((cliente) => cliente.terminate());
+    this.wss?.close();
+    this.wss = null;
+    this.listenKeys.clear();
+    this.socketsUsuario.clear();
+    this.socketsMercado.clear();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    console.log("🛑 Simulador de Binance detenido");
+  }
+
+  /**
+   * BinanceService apuntando a este simulador (requiere haber llamado a iniciar)
+   */
+  obtenerServicio(): BinanceService {
+    if (!this.baseUrl) {
+      throw new Error("El simulador de Binance no está iniciado");
+    }
+    return obtenerBinanceService("custom", this.baseUrl);
+  }
+
+  // ===========================================================================
+  // PROGRAMACIÓN DEL ESTADO
+  // ===========================================================================
+
+  establecerSimbolo(simbolo: SimboloSimulado): void {
+    this.simbolos.set(simbolo.symbol.toUpperCase(), {
+      ...simbolo,
+      symbol: simbolo.symbol.toUpperCase(),
+      status: simbolo.status || "TRADING",
+      filters: simbolo.filters || [
+        { filterType: "PRICE_FILTER", minPrice: "0.00000001", maxPrice: "1000000.00000000", tickSize: "0.00000001" },
+        { filterType: "LOT_SIZE", minQty: "0.00001000", maxQty: "9000000.00000000", stepSize: "0.00001000" },
+        { filterType: "MARKET_LOT_SIZE", minQty: "0.00000000", maxQty: "9000000.00000000", stepSize: "0.00000000" },
+        { filterType: "NOTIONAL", minNotional: "5.00000000", applyMinToMarket: true, maxNotional: "9000000.00000000", applyMaxToMarket: false, avgPriceMins: 5 },
+      ],
+    });
+  }
+
+  establecerBalance(asset: string, free: number, locked: number = 0): void {
+    this.balances.set(asset.toUpperCase(), { free, locked });
+  }
+
+  /**
+   * Cobra las comisiones en otro activo (como BNB con descuento), o en el
+   * base/quote del par con null
+   */
+  establecerActivoComision(asset: string | null): void {
+    this.activoComision = asset?.toUpperCase() || null;
+  }
+
+  obtenerBalance(asset: string): { free: number; locked: number } {
+    return this.balances.get(asset.toUpperCase()) || { free: 0, locked: 0 };
+  }
+
+  /**
+   * Fija el precio actual de un símbolo (se añade al historial de velas)
+   */
+  establecerPrecio(symbol: string, precio: number): void {
+    const clave = symbol.toUpperCase();
+    const historial = this.historialPrecios.get(clave) || [];
+    historial.push(precio);
+    this.historialPrecios.set(clave, historial);
+    this.emitirMercado(clave);
+    this.procesarOrdenesAbiertas(clave);
+  }
+
+  obtenerPrecio(symbol: string): number | undefined {
+    const historial = this.historialPrecios.get(symbol.toUpperCase());
+    return historial?.[historial.length - 1];
+  }
+
+  /**
+   * Sustituye el historial de precios de un símbolo (cada precio es el cierre de una vela)
+   */
+  establecerHistorialPrecios(symbol: string, precios: number[]): void {
+    this.historialPrecios.set(symbol.toUpperCase(), [...precios]);
+  }
+
+  /**
+   * Programa los próximos precios de un símbolo; se consumen con avanzarPrecios()
+   */
+  establecerRutaPrecios(symbol: string, precios: number[]): void {
+    this.rutasPrecios.set(symbol.toUpperCase(), [...precios]);
+  }
+
+  /**
+   * Avanza un paso la ruta de precios de cada símbolo
+   * @returns Símbolos cuyo precio ha cambiado
+   */
+  avanzarPrecios(): string[] {
+    const actualizados: string[] = [];
+    this.rutasPrecios.forEach((ruta, symbol) => {
+      const siguiente = ruta.shift();
+      if (siguiente !== undefined) {
+        this.establecerPrecio(symbol, siguiente);
+        actualizados.push(symbol);
+      }
+    });
+    return actualizados;
+  }
+
+  /**
+   * Programa cómo se llenará la próxima orden de un símbolo
+   * @param partes Precio y proporción de cada fill (la última completa la orden)
+   */
+  programarLlenado(symbol: string, partes: ParteLlenado[]): void {
+    const clave = symbol.toUpperCase();
+    const cola = this.llenadosProgramados.get(clave) || [];
+    cola.push(partes);
+    this.llenadosProgramados.set(clave, cola);
+  }
+
+  /**
+   * Hace que las próximas llamadas a un endpoint devuelvan un error
+   * @param ruta Ruta del endpoint, opcionalmente con método ("POST /api/v3/order")
+   * @param veces Número de respuestas afectadas
+   */
+  programarError(ruta: string, error: ErrorSimulado, veces: number = 1): void {
+    const cola = this.erroresProgramados.get(ruta) || [];
+    cola.push({ error, veces });
+    this.erroresProgramados.set(ruta, cola);
+  }
+
+  /**
+   * Fija una posición flexible (crea el producto del activo si no existe)
+   */
+  establecerEarnFlexible(asset: string, totalAmount: number, annualPercentageRate: number = 0.05): void {
+    this.earnFlexible.set(asset.toUpperCase(), {
+      asset: asset.toUpperCase(),
+      totalAmount,
+      annualPercentageRate,
+    });
+    if (!this.productosEarn.has(asset.toUpperCase())) {
+      this.establecerProductoEarn(asset, { annualPercentageRate });
+    }
+  }
+
+  /**
+   * Crea o modifica el producto flexible de un activo (productId: ASSET001)
+   */
+  establecerProductoEarn(asset: string, producto: Partial<Omit<ProductoEarnSimulado, "asset" | "productId">> = {}): ProductoEarnSimulado {
+    const clave = asset.toUpperCase();
+    const completo: ProductoEarnSimulado = {
+      minPurchaseAmount: 0.1,
+      annualPercentageRate: 0.05,
+      canPurchase: true,
+      canRedeem: true,
+      isSoldOut: false,
+      ...this.productosEarn.get(clave),
+      ...producto,
+      asset: clave,
+      productId: `${clave}001`,
+    };
+    this.productosEarn.set(clave, completo);
+    return completo;
+  }
+
+  obtenerEarnFlexible(asset: string): number {
+    return this.earnFlexible.get(asset.toUpperCase())?.totalAmount || 0;
+  }
+
+  establecerEarnBloqueado(asset: string, totalAmount: number): void {
+    this.earnBloqueado.set(asset.toUpperCase(), {
+      asset: asset.toUpperCase(),
+      totalAmount,
+      projectId: `${asset.toUpperCase()}*30`,
+    });
+  }
+
+  /**
+   * Añade un trade histórico (por ejemplo, una compra hecha antes de la prueba)
+   */
+  registrarTrade(trade: Partial<BinanceTrade> & { symbol: string; price: string; qty: string }): BinanceTrade {
+    const completo: BinanceTrade = {
+      id: this.siguienteTradeId++,
+      orderId: trade.orderId ?? this.siguienteOrderId++,
+      quoteQty: (parseFloat(trade.price) * parseFloat(trade.qty)).toString(),
+      commission: "0",
+      commissionAsset: this.simbolos.get(trade.symbol)?.quoteAsset || "USDC",
+      time: this.reloj(),
+      isBuyer: true,
+      isMaker: false,
+      isBestMatch: true,
+      ...trade,
+    };
+    this.trades.push(completo);
+    return completo;
+  }
+
+  /**
+   * Añade un depósito al historial (no toca los balances). El objeto devuelto
+   * se puede modificar para cambiar su estado
+   */
+  registrarDeposito(coin: string, amount: number, datos: Partial<DepositoBinance> = {}): DepositoBinance {
+    const deposito: DepositoBinance = {
+      id: `dep${this.siguienteMovimientoId++}`,
+      amount: amount.toString(),
+      coin: coin.toUpperCase(),
+      network: coin.toUpperCase(),
+      status: 1,
+      address: "direccion-simulada",
+      txId: `tx${randomBytes(8).toString("hex")}`,
+      insertTime: this.reloj(),
+      ...datos,
+    };
+    this.depositos.push(deposito);
+    return deposito;
+  }
+
+  /**
+   * Añade un retiro al historial (no toca los balances)
+   */
+  registrarRetiro(coin: string, amount: number, datos: Partial<RetiroBinance> = {}): RetiroBinance {
+    const retiro: RetiroBinance = {
+      id: `ret${this.siguienteMovimientoId++}`,
+      amount: amount.toString(),
+      transactionFee: "0",
+      coin: coin.toUpperCase(),
+      network: coin.toUpperCase(),
+      status: 6,
+      address: "direccion-simulada",
+      txId: `tx${randomBytes(8).toString("hex")}`,
+      applyTime: new Date(this.reloj()).toISOString().replace("T", " ").slice(0, 19),
+      ...datos,
+    };
+    this.retiros.push(retiro);
+    return retiro;
+  }
+
+  /**
+   * Cambia los permisos de la API key. Sin trading spot, las órdenes se
+   * rechazan con -2015 como en Binance
+   */
+  establecerRestriccionesApi(restricciones: Partial<RestriccionesApiBinance>): void {
+    this.restriccionesApi = { ...this.restriccionesApi, ...restricciones };
+  }
+
+  obtenerOrdenes(): BinanceOrder[] {
+    return Array.from(this.ordenes.values());
+  }
+
+  obtenerListas(): BinanceOrderList[] {
+    return Array.from(this.listas.values()).map((lista) => this.respuestaLista(lista));
+  }
+
+  obtenerTrades(): BinanceTrade[] {
+    return [...this.trades];
+  }
+
+  /**
+   * Envía un evento arbitrario a todos los user data streams abiertos
+   */
+  emitirEventoUsuario(evento: Record<string, any>): void {
+    const mensaje = JSON.stringify(evento);
+    this.socketsUsuario.forEach((cliente) => {
+      if (cliente.readyState === WebSocket.OPEN) cliente.send(mensaje);
+    });
+  }
+
+  /**
+   * Caduca todos los listenKey como lo haría Binance tras 60 min sin keepalive
+   */
+  expirarListenKeys(): void {
+    this.emitirEventoUsuario({ e: "listenKeyExpired", E: this.reloj() });
+    this.listenKeys.clear();
+    this.socketsUsuario.forEach((cliente) => cliente.close());
+  }
+
+  /**
+   * Corta los sockets sin caducar los listenKey (caída de red)
+   */
+  cortarUserDataStreams(): void {
+    this.socketsUsuario.forEach((cliente) => cliente.terminate());
+  }
+
+  /**
+   * Corta los sockets de los streams de mercado (caída de red)
+   */
+  cortarStreamsMercado(): void {
+    this.socketsMercado.forEach((_, cliente) => cliente.terminate());
+  }
+
+  // ===========================================================================
+  // STREAMS DE MERCADO
+  // ===========================================================================
+
+  private atenderSocketMercado(socket: WebSocket) {
+    const streams = new Set<string>();
+    this.socketsMercado.set(socket, streams);
+    socket.on("close", () => this.socketsMercado.delete(socket));
+
+    socket.on("message", (data) => {
+      let peticion: { method?: string; params?: string[]; id?: number };
+      try {
+        peticion = JSON.parse(data.toString());
+      } catch {
+        return socket.send(JSON.stringify({ error: { code: 3, msg: "Invalid JSON" } }));
+      }
+
+      const params = peticion.params || [];
+      if (peticion.method === "SUBSCRIBE") {
+        params.forEach((stream) => {
+          streams.add(stream);
+          if (!this.ultimaVelaEmitida.has(stream) && stream.includes("@kline_")) {
+            const duracion = DURACION_INTERVALOS[stream.split("@kline_")[1]] || 60_000;
+            this.ultimaVelaEmitida.set(stream, Math.floor(this.reloj() / duracion) * duracion);
+          }
+        });
+      } else if (peticion.method === "UNSUBSCRIBE") {
+        params.forEach((stream) => streams.delete(stream));
+      }
+      socket.send(JSON.stringify({ result: null, id: peticion.id }));
+    });
+  }
+
+  /**
+   * Emite miniTicker y una vela nueva por cada precio fijado (igual que en
+   * klines, cada precio del historial es el cierre de una vela)
+   */
+  private emitirMercado(symbol: string) {
+    if (this.socketsMercado.size === 0) return;
+
+    const historial = this.historialPrecios.get(symbol) || [];
+    const cierre = historial[historial.length - 1];
+    const apertura = historial.length > 1 ? historial[historial.length - 2] : cierre;
+    const ahora = this.reloj();
+    const prefijo = symbol.toLowerCase();
+
+    this.socketsMercado.forEach((streams, socket) => {
+      if (socket.readyState !== WebSocket.OPEN) return;
+
+      streams.forEach((stream) => {
+        if (stream === `${prefijo}@miniTicker`) {
+          socket.send(JSON.stringify({
+            stream,
+            data: {
+              e: "24hrMiniTicker", E: ahora, s: symbol,
+              c: cierre.toFixed(8), o: apertura.toFixed(8),
+              h: Math.max(apertura, cierre).toFixed(8), l: Math.min(apertura, cierre).toFixed(8),
+              v: "100.00000000", q: (cierre * 100).toFixed(8),
+            },
+          }));
+        } else if (stream.startsWith(`${prefijo}@kline_`)) {
+          const interval = stream.split("@kline_")[1];
+          const duracion = DURACION_INTERVALOS[interval] || 60_000;
+          const openTime = (this.ultimaVelaEmitida.get(stream) || 0) + duracion;
+          socket.send(JSON.stringify({
+            stream,
+            data: {
+              e: "kline", E: ahora, s: symbol,
+              k: {
+                t: openTime, T: openTime + duracion - 1, s: symbol, i: interval,
+                o: apertura.toFixed(8), c: cierre.toFixed(8),
+                h: Math.max(apertura, cierre).toFixed(8), l: Math.min(apertura, cierre).toFixed(8),
+                v: "100.00000000", x: false,
+              },
+            },
+          }));
+        }
+      });
+    });
+
+    // La vela avanza una vez por precio, no por socket
+    this.ultimaVelaEmitida.forEach((openTime, stream) => {
+      if (stream.startsWith(`${prefijo}@kline_`)) {
+        const duracion = DURACION_INTERVALOS[stream.split("@kline_")[1]] || 60_000;
+        this.ultimaVelaEmitida.set(stream, openTime + duracion);
+      }
+    });
+  }
+
+  // ===========================================================================
+  // SERVIDOR HTTP
+  // ===========================================================================
+
+  private crearApp(): express.Express {
+    const app = express();
+    app.use(express.json());
+    app.use(express.urlencoded({ extended: false }));
+
+    // Registrar la petición y devolver errores programados
+    app.use((req: Request, res: Response, next: NextFunction) => {
+      this.peticiones.push({
+        method: req.method,
+        path: req.path,
+        params: this.leerParams(req),
+        time: this.reloj(),
+      });
+
+      const error =
+        this.consumirError(`${req.method} ${req.path}`) ||
+        this.consumirError(req.path);
+      if (error) {
+        return this.responderError(res, error);
+      }
+      next();
+    });
+
+    // --- Endpoints públicos ---
+    app.get("/api/v3/ping", (req, res) => res.json({}));
+    app.get("/api/v3/time", (req, res) => res.json({ serverTime: this.reloj() }));
+    app.get("/api/v3/exchangeInfo", (req, res) => this.exchangeInfo(req, res));
+    app.get("/api/v3/ticker/price", (req, res) => this.tickerPrice(req, res));
+    app.get("/api/v3/klines", (req, res) => this.klines(req, res));
+
+    // --- User data stream (solo api key) ---
+    const conApiKey = (req: Request, res: Response, next: NextFunction) =>
+      this.autenticarApiKey(req, res, next);
+
+    app.post("/api/v3/userDataStream", conApiKey, (req, res) => {
+      const listenKey = randomBytes(30).toString("hex");
+      this.listenKeys.add(listenKey);
+      res.json({ listenKey });
+    });
+    app.put("/api/v3/userDataStream", conApiKey, (req, res) => {
+      if (!this.listenKeys.has(this.leerParams(req).listenKey)) {
+        return this.responderError(res, ERRORES.listenKey);
+      }
+      res.json({});
+    });
+    app.delete("/api/v3/userDataStream", conApiKey, (req, res) => {
+      this.listenKeys.delete(this.leerParams(req).listenKey);
+      res.json({});
+    });
+
+    // --- Endpoints firmados ---
+    const firmado = (req: Request, res: Response, next: NextFunction) =>
+      this.autenticar(req, res, next);
+
+    // Órdenes: además de la firma, la key necesita trading spot
+    const operar = (req: Request, res: Response, next: NextFunction) =>
+      this.restriccionesApi.enableSpotAndMarginTrading ? next() : this.responderError(res, ERRORES.apiKey);
+
+    app.get("/api/v3/account", firmado, (req, res) => this.cuenta(req, res));
+    app.get("/sapi/v1/account/apiRestrictions", firmado, (req, res) => res.json(this.restriccionesApi));
+    app.post("/api/v3/order", firmado, operar, (req, res) => this.nuevaOrden(req, res));
+    app.get("/api/v3/order", firmado, (req, res) => this.consultarOrden(req, res));
+    app.delete("/api/v3/order", firmado, (req, res) => this.cancelarOrden(req, res));
+    app.post("/api/v3/order/cancelReplace", firmado, operar, (req, res) => this.cancelarReemplazar(req, res));
+    app.get("/api/v3/openOrders", firmado, (req, res) => this.ordenesAbiertas(req, res));
+    app.delete("/api/v3/openOrders", firmado, (req, res) => this.cancelarAbiertas(req, res));
+    app.post("/api/v3/orderList/oco", firmado, operar, (req, res) => this.nuevaOco(req, res));
+    app.get("/api/v3/orderList", firmado, (req, res) => this.consultarLista(req, res));
+    app.delete("/api/v3/orderList", firmado, (req, res) => this.cancelarLista(req, res));
+    app.get("/api/v3/myTrades", firmado, (req, res) => this.misTrades(req, res));
+    app.get("/sapi/v1/asset/tradeFee", firmado, (req, res) => this.tradeFee(req, res));
+    app.get("/sapi/v1/capital/deposit/hisrec", firmado, (req, res) =>
+      this.historialCapital(req, res, this.depositos, (d) => d.insertTime)
+    );
+    app.get("/sapi/v1/capital/withdraw/history", firmado, (req, res) =>
+      this.historialCapital(req, res, this.retiros, (r) => Date.parse(`${r.applyTime.replace(" ", "T")}Z`))
+    );
+    app.get("/sapi/v1/simple-earn/account", firmado, (req, res) => this.earnCuenta(req, res));
+    app.get("/sapi/v1/simple-earn/flexible/position", firmado, (req, res) =>
+      res.json(this.earnPosicionesFlexibles(req))
+    );
+    app.get("/sapi/v1/simple-earn/flexible/list", firmado, (req, res) => this.earnProductos(req, res));
+    app.post("/sapi/v1/simple-earn/flexible/subscribe", firmado, (req, res) => this.earnSuscribir(req, res));
+    app.post("/sapi/v1/simple-earn/flexible/redeem", firmado, (req, res) => this.earnReembolsar(req, res));
+    app.get("/sapi/v1/simple-earn/locked/position", firmado, (req, res) =>
+      res.json(this.earnPosiciones(this.earnBloqueado))
+    );
+
+    app.use((req, res) =>
+      res.status(404).json({ code: -1000, msg: `Endpoint no simulado: ${req.method} ${req.path}` })
+    );
+
+    return app;
+  }
+
+  private leerParams(req: Request): Record<string, string> {
+    const params: Record<string, string> = {};
+    Object.entries({ ...req.query, ...(req.body || {}) }).forEach(([clave, valor]) => {
+      if (valor !== undefined) params[clave] = String(valor);
+    });
+    return params;
+  }
+
+  private consumirError(clave: string): ErrorSimulado | null {
+    const cola = this.erroresProgramados.get(clave);
+    if (!cola || cola.length === 0) return null;
+
+    const primero = cola[0];
+    primero.veces--;
+    if (primero.veces <= 0) cola.shift();
+    return primero.error;
+  }
+
+  private responderError(res: Response, error: ErrorSimulado): Response {
+    if (error.cabeceras) res.set(error.cabeceras);
+    return res.status(error.status).json({ code: error.code, msg: error.msg });
+  }
+
+  private autenticarApiKey(req: Request, res: Response, next: NextFunction) {
+    if (this.verificarFirma && req.header("X-MBX-APIKEY") !== this.credenciales.apiKey) {
+      return this.responderError(res, ERRORES.apiKey);
+    }
+    next();
+  }
+
+  /**
+   * Comprueba api key, timestamp/recvWindow y firma HMAC como lo hace Binance
+   */
+  private autenticar(req: Request, res: Response, next: NextFunction) {
+    if (!this.verificarFirma) return next();
+
+    if (req.header("X-MBX-APIKEY") !== this.credenciales.apiKey) {
+      return this.responderError(res, ERRORES.apiKey);
+    }
+
+    const queryString = req.originalUrl.split("?")[1] || "";
+    const match = queryString.match(/^(.*)&signature=([0-9a-f]+)$/i);
+    if (!match) {
+      return this.responderError(res, ERRORES.firma);
+    }
+
+    const esperada = createHmac("sha256", this.credenciales.apiSecret)
+      .update(match[1])
+      .digest("hex");
+    if (esperada !== match[2].toLowerCase()) {
+      return this.responderError(res, ERRORES.firma);
+    }
+
+    const params = this.leerParams(req);
+    const timestamp = parseInt(params.timestamp);
+    const recvWindow = parseInt(params.recvWindow || "5000");
+    const ahora = this.reloj();
+    if (isNaN(timestamp) || timestamp > ahora + 1000 || ahora - timestamp > recvWindow) {
+      return this.responderError(res, ERRORES.recvWindow);
+    }
+
+    next();
+  }
+
+  // ===========================================================================
+  // MERCADO
+  // ===========================================================================
+
+  private exchangeInfo(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    let pedidos: string[] | null = null;
+
+    if (params.symbol) {
+      pedidos = [params.symbol.toUpperCase()];
+    } else if (params.symbols) {
+      try {
+        pedidos = (JSON.parse(params.symbols) as string[]).map((s) => s.toUpperCase());
+      } catch {
+        return this.responderError(res, ERRORES.parametro);
+      }
+    }
+
+    if (pedidos && pedidos.some((s) => !this.simbolos.has(s))) {
+      return this.responderError(res, ERRORES.simbolo);
+    }
+
+    const simbolos = Array.from(this.simbolos.values()).filter(
+      (s) => !pedidos || pedidos.includes(s.symbol)
+    );
+
+    const respuesta: ExchangeInfoResponse = {
+      timezone: "UTC",
+      serverTime: this.reloj(),
+      rateLimits: [
+        { rateLimitType: "REQUEST_WEIGHT", interval: "MINUTE", intervalNum: 1, limit: 6000 },
+        { rateLimitType: "ORDERS", interval: "SECOND", intervalNum: 10, limit: 100 },
+        { rateLimitType: "ORDERS", interval: "DAY", intervalNum: 1, limit: 200000 },
+        { rateLimitType: "RAW_REQUESTS", interval: "MINUTE", intervalNum: 5, limit: 61000 },
+      ],
+      exchangeFilters: [],
+      symbols: simbolos.map((s) => ({
+        symbol: s.symbol,
+        status: s.status || "TRADING",
+        baseAsset: s.baseAsset,
+        baseAssetPrecision: 8,
+        quoteAsset: s.quoteAsset,
+        quotePrecision: 8,
+        quoteAssetPrecision: 8,
+        baseCommissionPrecision: 8,
+        quoteCommissionPrecision: 8,
+        orderTypes: TIPOS_ORDEN,
+        icebergAllowed: true,
+        ocoAllowed: true,
+        quoteOrderQtyMarketAllowed: true,
+        isSpotTradingAllowed: true,
+        isMarginTradingAllowed: false,
+        filters: s.filters || [],
+        permissions: ["SPOT"],
+      })),
+    };
+
+    res.json(respuesta);
+  }
+
+  private tickerPrice(req: Request, res: Response) {
+    const { symbol } = this.leerParams(req);
+
+    if (symbol) {
+      const precio = this.obtenerPrecio(symbol);
+      if (precio === undefined) {
+        return this.responderError(res, ERRORES.simbolo);
+      }
+      return res.json({ symbol: symbol.toUpperCase(), price: precio.toFixed(8) });
+    }
+
+    const precios = Array.from(this.historialPrecios.keys())
+      .filter((s) => this.obtenerPrecio(s) !== undefined)
+      .map((s) => ({ symbol: s, price: this.obtenerPrecio(s)!.toFixed(8) }));
+    res.json(precios);
+  }
+
+  /**
+   * Genera las velas a partir del historial de precios: cada precio es el
+   * cierre de una vela y la apertura es el cierre anterior.
+   */
+  private klines(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    const symbol = (params.symbol || "").toUpperCase();
+    const interval = params.interval || "1h";
+    const limit = Math.min(parseInt(params.limit || "500"), 1000);
+    const duracion = DURACION_INTERVALOS[interval];
+
+    if (!symbol || !duracion) {
+      return this.responderError(res, ERRORES.parametro);
+    }
+    if (!this.simbolos.has(symbol)) {
+      return this.responderError(res, ERRORES.simbolo);
+    }
+
+    const historial = this.historialPrecios.get(symbol) || [];
+    const aperturaUltima = Math.floor(this.reloj() / duracion) * duracion;
+
+    let velas = historial.map((cierre, i) => {
+      const apertura = i > 0 ? historial[i - 1] : cierre;
+      const openTime = aperturaUltima - (historial.length - 1 - i) * duracion;
+      return [
+        openTime,
+        apertura.toFixed(8),
+        Math.max(apertura, cierre).toFixed(8),
+        Math.min(apertura, cierre).toFixed(8),
+        cierre.toFixed(8),
+        "100.00000000",
+        openTime + duracion - 1,
+        (cierre * 100).toFixed(8),
+        10,
+        "50.00000000",
+        (cierre * 50).toFixed(8),
+        "0",
+      ];
+    });
+
+    if (params.startTime) velas = velas.filter((v) => (v[0] as number) >= parseInt(params.startTime));
+    if (params.endTime) velas = velas.filter((v) => (v[0] as number) <= parseInt(params.endTime));
+
+    res.json(velas.slice(-limit));
+  }
+
+  // ===========================================================================
+  // CUENTA
+  // ===========================================================================
+
+  private cuenta(req: Request, res: Response) {
+    const balances: BinanceBalance[] = Array.from(this.balances.entries()).map(
+      ([asset, { free, locked }]) => ({
+        asset,
+        free: free.toFixed(8),
+        locked: locked.toFixed(8),
+      })
+    );
+
+    res.json({
+      makerCommission: Math.round(this.comisionMaker * 10000),
+      takerCommission: Math.round(this.comisionTaker * 10000),
+      buyerCommission: 0,
+      sellerCommission: 0,
+      commissionRates: {
+        maker: this.comisionMaker.toFixed(8),
+        taker: this.comisionTaker.toFixed(8),
+        buyer: "0.00000000",
+        seller: "0.00000000",
+      },
+      canTrade: this.restriccionesApi.enableSpotAndMarginTrading,
+      canWithdraw: this.restriccionesApi.enableWithdrawals,
+      canDeposit: true,
+      updateTime: this.reloj(),
+      accountType: "SPOT",
+      balances,
+      permissions: ["SPOT"],
+    });
+  }
+
+  private tradeFee(req: Request, res: Response) {
+    const { symbol } = this.leerParams(req);
+    const simbolos = symbol ? [symbol.toUpperCase()] : Array.from(this.simbolos.keys());
+
+    res.json(
+      simbolos.map((s) => ({
+        symbol: s,
+        makerCommission: this.comisionMaker.toString(),
+        takerCommission: this.comisionTaker.toString(),
+      }))
+    );
+  }
+
+  private misTrades(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    if (!params.symbol) {
+      return this.responderError(res, ERRORES.parametro);
+    }
+
+    const symbol = params.symbol.toUpperCase();
+    const limit = Math.min(parseInt(params.limit || "500"), 1000);
+
+    let trades = this.trades.filter((t) => t.symbol === symbol);
+    if (params.orderId) trades = trades.filter((t) => t.orderId === parseInt(params.orderId));
+    if (params.startTime) trades = trades.filter((t) => t.time >= parseInt(params.startTime));
+    if (params.endTime) trades = trades.filter((t) => t.time <= parseInt(params.endTime));
+    if (params.fromId) {
+      trades = trades.filter((t) => t.id >= parseInt(params.fromId)).slice(0, limit);
+    } else {
+      trades = trades.slice(-limit);
+    }
+
+    res.json(trades);
+  }
+
+  // ===========================================================================
+  // ÓRDENES
+  // ===========================================================================
+
+  private nuevaOrden(req: Request, res: Response) {
+    const resultado = this.crearOrden(this.leerParams(req));
+    if ("code" in resultado) {
+      return this.responderError(res, resultado);
+    }
+    res.json(this.respuestaOrden(resultado));
+  }
+
+  /**
+   * Valida, bloquea fondos y da de alta una orden (MARKET y LIMIT que cruza
+   * se ejecutan en el acto)
+   */
+  private crearOrden(params: Record<string, string>): OrdenSimulada | ErrorSimulado {
+    const symbol = (params.symbol || "").toUpperCase();
+    const side = params.side as "BUY" | "SELL";
+    const type = params.type;
+    const simbolo = this.simbolos.get(symbol);
+
+    if (!symbol || !["BUY", "SELL"].includes(side) || !TIPOS_ORDEN.includes(type)) {
+      return ERRORES.parametro;
+    }
+    if (!simbolo) {
+      return ERRORES.simbolo;
+    }
+
+    const precioActual = this.obtenerPrecio(symbol);
+    if (precioActual === undefined) {
+      return { status: 400, code: -1013, msg: "Market is closed." };
+    }
+
+    const filtros = this.filtrosDe(simbolo);
+    const stepSize = parseFloat(filtros.LOT_SIZE?.stepSize || "0");
+    const precioLimite = conLimite(type) ? parseFloat(params.price) : undefined;
+    const stopPrice = esCondicional(type) ? parseFloat(params.stopPrice) : undefined;
+
+    // Cantidad pedida: quantity o quoteOrderQty (solo MARKET)
+    let cantidad: number;
+    if (params.quantity) {
+      cantidad = parseFloat(params.quantity);
+    } else if (params.quoteOrderQty && type === "MARKET") {
+      cantidad = this.redondearPaso(parseFloat(params.quoteOrderQty) / precioActual, stepSize);
+    } else {
+      return ERRORES.parametro;
+    }
+
+    if (precioLimite !== undefined && (!precioLimite || isNaN(precioLimite))) {
+      return ERRORES.parametro;
+    }
+    if (stopPrice !== undefined && (!stopPrice || isNaN(stopPrice))) {
+      return ERRORES.parametro;
+    }
+
+    const errorOrden = this.validarAlta(side, type, precioActual, precioLimite, stopPrice);
+    if (errorOrden) {
+      return errorOrden;
+    }
+
+    const precioOrden = precioLimite ?? stopPrice ?? precioActual;
+    const errorFiltro = this.validarFiltros(filtros, cantidad, precioOrden);
+    if (errorFiltro) {
+      return errorFiltro;
+    }
+
+    // Fondos necesarios (se bloquean mientras la orden esté abierta)
+    const importeBloqueo = side === "BUY" ? cantidad * precioOrden : cantidad;
+    if (!this.bloquearFondos(simbolo, side, importeBloqueo)) {
+      return ERRORES.balance;
+    }
+
+    const orden = this.altaOrden({
+      symbol,
+      side,
+      type,
+      cantidad,
+      precioLimite,
+      stopPrice,
+      clientOrderId: params.newClientOrderId,
+      timeInForce: params.timeInForce,
+      bloqueado: importeBloqueo,
+    });
+
+    // MARKET siempre se llena; LIMIT solo si cruza el precio actual
+    // (las condicionales esperan a que el precio toque el stop)
+    if (type === "MARKET") {
+      this.ejecutarOrden(orden, precioActual, false);
+    } else if (!esCondicional(type) && this.cruzaLimite(orden, precioActual)) {
+      this.ejecutarOrden(orden, precioLimite!, false);
+    }
+
+    return orden;
+  }
+
+  /**
+   * OCO: dos órdenes (above y below) con un único bloqueo de fondos
+   */
+  private nuevaOco(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    const symbol = (params.symbol || "").toUpperCase();
+    const side = params.side as "BUY" | "SELL";
+    const simbolo = this.simbolos.get(symbol);
+    const cantidad = parseFloat(params.quantity);
+
+    const patas = (["above", "below"] as const).map((lado) => ({
+      type: params[`${lado}Type`],
+      precioLimite: params[`${lado}Price`] ? parseFloat(params[`${lado}Price`]) : undefined,
+      stopPrice: params[`${lado}StopPrice`] ? parseFloat(params[`${lado}StopPrice`]) : undefined,
+      clientOrderId: params[`${lado}ClientOrderId`],
+      timeInForce: params[`${lado}TimeInForce`],
+    }));
+
+    if (
+      !symbol ||
+      !["BUY", "SELL"].includes(side) ||
+      !cantidad ||
+      patas.some(
+        (p) =>
+          !TIPOS_ORDEN.includes(p.type) ||
+          p.type === "MARKET" ||
+          p.type === "LIMIT" ||
+          (conLimite(p.type) && !p.precioLimite) ||
+          (esCondicional(p.type) && !p.stopPrice)
+      )
+    ) {
+      return this.responderError(res, ERRORES.parametro);
+    }
+    if (!simbolo) {
+      return this.responderError(res, ERRORES.simbolo);
+    }
+
+    const precioActual = this.obtenerPrecio(symbol);
+    if (precioActual === undefined) {
+      return this.responderError(res, { status: 400, code: -1013, msg: "Market is closed." });
+    }
+
+    const filtros = this.filtrosDe(simbolo);
+    for (const pata of patas) {
+      const error =
+        this.validarAlta(side, pata.type, precioActual, pata.precioLimite, pata.stopPrice) ||
+        this.validarFiltros(filtros, cantidad, pata.precioLimite ?? pata.stopPrice!);
+      if (error) {
+        return this.responderError(res, error);
+      }
+    }
+
+    // En una compra se bloquea lo que costaría la pata más cara
+    const importeBloqueo =
+      side === "BUY"
+        ? cantidad * Math.max(...patas.map((p) => p.precioLimite ?? p.stopPrice!))
+        : cantidad;
+    if (!this.bloquearFondos(simbolo, side, importeBloqueo)) {
+      return this.responderError(res, ERRORES.balance);
+    }
+
+    const lista: ListaSimulada = {
+      orderListId: this.siguienteListId++,
+      listClientOrderId: params.listClientOrderId || `simulador_lista_${this.siguienteListId}`,
+      symbol,
+      orderIds: [],
+      listOrderStatus: "EXECUTING",
+      transactionTime: this.reloj(),
+      bloqueado: importeBloqueo,
+    };
+    this.listas.set(lista.orderListId, lista);
+
+    patas.forEach((pata) => {
+      const orden = this.altaOrden({
+        symbol,
+        side,
+        cantidad,
+        ...pata,
+        bloqueado: 0,
+        orderListId: lista.orderListId,
+      });
+      lista.orderIds.push(orden.orderId);
+    });
+    this.emitirEstadoLista(lista, "EXEC_STARTED");
+
+    res.json(this.respuestaLista(lista));
+  }
+
+  private consultarLista(req: Request, res: Response) {
+    const lista = this.listas.get(parseInt(this.leerParams(req).orderListId));
+    if (!lista) {
+      return this.responderError(res, ERRORES.ordenNoExiste);
+    }
+
+    const { orderReports, ...respuesta } = this.respuestaLista(lista);
+    res.json(respuesta);
+  }
+
+  private cancelarLista(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    const lista = this.listas.get(parseInt(params.orderListId));
+
+    if (!lista || lista.symbol !== (params.symbol || "").toUpperCase()) {
+      return this.responderError(res, ERRORES.ordenNoExiste);
+    }
+    if (lista.listOrderStatus === "ALL_DONE") {
+      return this.responderError(res, ERRORES.cancelarRechazado);
+    }
+
+    this.cerrarLista(lista, "CANCELED");
+    res.json(this.respuestaLista(lista));
+  }
+
+  private cancelarOrden(req: Request, res: Response) {
+    const orden = this.buscarOrden(this.leerParams(req));
+
+    if (!orden) {
+      return this.responderError(res, ERRORES.ordenNoExiste);
+    }
+    if (orden.status !== "NEW") {
+      return this.responderError(res, ERRORES.cancelarRechazado);
+    }
+
+    this.cancelar(orden);
+    res.json(this.respuestaOrden(orden));
+  }
+
+  /**
+   * Cancela una orden abierta; cancelar una pata de una OCO cancela la lista entera
+   */
+  private cancelar(orden: OrdenSimulada) {
+    const lista = this.listas.get(orden.orderListId);
+    if (lista) {
+      this.cerrarLista(lista, "CANCELED");
+    } else {
+      this.liberarFondos(orden, orden.bloqueado);
+      this.finalizarOrden(orden, "CANCELED");
+    }
+  }
+
+  private ordenesAbiertas(req: Request, res: Response) {
+    const { symbol } = this.leerParams(req);
+    const abiertas = Array.from(this.ordenes.values()).filter(
+      (o) => o.status === "NEW" && (!symbol || o.symbol === symbol.toUpperCase())
+    );
+
+    res.json(
+      abiertas.map((orden) => {
+        const { fills, ...respuesta } = this.respuestaOrden(orden);
+        return { ...respuesta, isWorking: !esCondicional(orden.type) || !!orden.disparada };
+      })
+    );
+  }
+
+  private cancelarAbiertas(req: Request, res: Response) {
+    const { symbol } = this.leerParams(req);
+    if (!symbol) {
+      return this.responderError(res, ERRORES.parametro);
+    }
+
+    const abiertas = Array.from(this.ordenes.values()).filter(
+      (o) => o.status === "NEW" && o.symbol === symbol.toUpperCase()
+    );
+    if (abiertas.length === 0) {
+      return this.responderError(res, ERRORES.cancelarRechazado);
+    }
+
+    // Las OCO se devuelven como lista, una sola vez
+    const respuesta: Array<BinanceOrder | BinanceOrderList> = [];
+    abiertas.forEach((orden) => {
+      if (orden.status !== "NEW") return; // la otra pata de una OCO ya cancelada
+      this.cancelar(orden);
+      const lista = this.listas.get(orden.orderListId);
+      respuesta.push(lista ? this.respuestaLista(lista) : this.respuestaOrden(orden));
+    });
+
+    res.json(respuesta);
+  }
+
+  /**
+   * Cancel-replace en modo STOP_ON_FAILURE: si no se puede cancelar no se
+   * crea la nueva orden
+   */
+  private cancelarReemplazar(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    const orden = this.buscarOrden({
+      symbol: params.symbol,
+      orderId: params.cancelOrderId,
+      origClientOrderId: params.cancelOrigClientOrderId,
+    });
+
+    const fallo = (data: Record<string, any>) =>
+      res.status(data.cancelResult === "SUCCESS" ? 409 : 400).json({
+        code: -2021,
+        msg: "Order cancel-replace partially failed.",
+        data,
+      });
+
+    if (!orden || orden.status !== "NEW" || orden.orderListId !== -1) {
+      const error = orden ? ERRORES.cancelarRechazado : ERRORES.ordenNoExiste;
+      return fallo({
+        cancelResult: "FAILURE",
+        newOrderResult: "NOT_ATTEMPTED",
+        cancelResponse: { code: error.code, msg: error.msg },
+        newOrderResponse: null,
+      });
+    }
+
+    this.cancelar(orden);
+    const cancelResponse = (({ fills, workingTime, ...r }) => r)(this.respuestaOrden(orden));
+
+    const nueva = this.crearOrden(params);
+    if ("code" in nueva) {
+      return fallo({
+        cancelResult: "SUCCESS",
+        newOrderResult: "FAILURE",
+        cancelResponse,
+        newOrderResponse: { code: nueva.code, msg: nueva.msg },
+      });
+    }
+
+    res.json({
+      cancelResult: "SUCCESS",
+      newOrderResult: "SUCCESS",
+      cancelResponse,
+      newOrderResponse: this.respuestaOrden(nueva),
+    });
+  }
+
+  private consultarOrden(req: Request, res: Response) {
+    const orden = this.buscarOrden(this.leerParams(req));
+
+    if (!orden) {
+      return this.responderError(res, ERRORES.ordenNoExiste);
+    }
+
+    const { fills, ...respuesta } = this.respuestaOrden(orden);
+    res.json({
+      ...respuesta,
+      isWorking: orden.status === "NEW" && (!esCondicional(orden.type) || !!orden.disparada),
+      origQuoteOrderQty: "0.00000000",
+    });
+  }
+
+  private buscarOrden(params: Record<string, string>): OrdenSimulada | undefined {
+    return Array.from(this.ordenes.values()).find(
+      (o) =>
+        o.symbol === (params.symbol || "").toUpperCase() &&
+        (params.orderId
+          ? o.orderId === parseInt(params.orderId)
+          : o.clientOrderId === params.origClientOrderId)
+    );
+  }
+
+  /**
+   * Registra una orden nueva (sin ejecutarla) y emite su executionReport
+   */
+  private altaOrden(datos: {
+    symbol: string;
+    side: "BUY" | "SELL";
+    type: string;
+    cantidad: number;
+    precioLimite?: number;
+    stopPrice?: number;
+    clientOrderId?: string;
+    timeInForce?: string;
+    bloqueado: number;
+    orderListId?: number;
+  }): OrdenSimulada {
+    const ahora = this.reloj();
+    const orden: OrdenSimulada = {
+      symbol: datos.symbol,
+      orderId: this.siguienteOrderId++,
+      orderListId: datos.orderListId ?? -1,
+      clientOrderId: datos.clientOrderId || `simulador_${this.siguienteOrderId}`,
+      transactTime: ahora,
+      price: (datos.precioLimite ?? 0).toFixed(8),
+      origQty: datos.cantidad.toFixed(8),
+      executedQty: "0.00000000",
+      cummulativeQuoteQty: "0.00000000",
+      status: "NEW",
+      timeInForce: datos.type.endsWith("LIMIT") ? datos.timeInForce || "GTC" : "GTC",
+      type: datos.type,
+      side: datos.side,
+      ...(datos.stopPrice !== undefined && { stopPrice: datos.stopPrice.toFixed(8) }),
+      workingTime: esCondicional(datos.type) ? -1 : ahora,
+      selfTradePreventionMode: "EXPIRE_MAKER",
+      fills: [],
+      updateTime: ahora,
+      bloqueado: datos.bloqueado,
+    };
+    this.ordenes.set(orden.orderId, orden);
+    this.emitirEjecucion(orden, "NEW");
+    return orden;
+  }
+
+  /**
+   * Rechazos de Binance al crear la orden: condicionales que saltarían ya y
+   * LIMIT_MAKER que se ejecutaría como taker
+   */
+  private validarAlta(
+    side: "BUY" | "SELL",
+    type: string,
+    precioActual: number,
+    precioLimite?: number,
+    stopPrice?: number
+  ): ErrorSimulado | null {
+    if (esCondicional(type) && this.saltaStop(type, side, stopPrice!, precioActual)) {
+      return ERRORES.dispararia;
+    }
+    if (
+      type === "LIMIT_MAKER" &&
+      (side === "BUY" ? precioActual <= precioLimite! : precioActual >= precioLimite!)
+    ) {
+      return ERRORES.cruzaria;
+    }
+    return null;
+  }
+
+  /**
+   * El stop loss salta cuando el precio va en contra (baja en una venta) y
+   * el take profit cuando va a favor
+   */
+  private saltaStop(type: string, side: string, stopPrice: number, precio: number): boolean {
+    const alSubir = type.startsWith("STOP_LOSS") === (side === "BUY");
+    return alSubir ? precio >= stopPrice : precio <= stopPrice;
+  }
+
+  private cruzaLimite(orden: OrdenSimulada, precio: number): boolean {
+    const limite = parseFloat(orden.price);
+    return orden.side === "BUY" ? precio <= limite : precio >= limite;
+  }
+
+  private bloquearFondos(simbolo: SimboloSimulado, side: "BUY" | "SELL", importe: number): boolean {
+    const asset = side === "BUY" ? simbolo.quoteAsset : simbolo.baseAsset;
+    const balance = this.obtenerBalance(asset);
+    if (balance.free + 1e-12 < importe) return false;
+
+    this.establecerBalance(asset, balance.free - importe, balance.locked + importe);
+    return true;
+  }
+
+  private liberarFondos(orden: OrdenSimulada, importe: number) {
+    const simbolo = this.simbolos.get(orden.symbol)!;
+    const asset = orden.side === "BUY" ? simbolo.quoteAsset : simbolo.baseAsset;
+    const balance = this.obtenerBalance(asset);
+    this.establecerBalance(asset, balance.free + importe, balance.locked - importe);
+  }
+
+  /**
+   * Llena una orden y, si es de una OCO, caduca la otra pata
+   */
+  private ejecutarOrden(orden: OrdenSimulada, precio: number, esMaker: boolean) {
+    const lista = this.listas.get(orden.orderListId);
+    this.llenarOrden(orden, lista ? lista.bloqueado : orden.bloqueado, precio, esMaker);
+
+    if (lista) {
+      lista.bloqueado = 0;
+      this.cerrarLista(lista, "EXPIRED");
+    }
+  }
+
+  /**
+   * Termina las órdenes pendientes de una lista y libera lo que quede bloqueado
+   */
+  private cerrarLista(lista: ListaSimulada, estado: "CANCELED" | "EXPIRED") {
+    lista.orderIds.forEach((orderId) => {
+      const orden = this.ordenes.get(orderId)!;
+      if (orden.status === "NEW") this.finalizarOrden(orden, estado);
+    });
+
+    if (lista.bloqueado > 0) {
+      this.liberarFondos(this.ordenes.get(lista.orderIds[0])!, lista.bloqueado);
+      lista.bloqueado = 0;
+    }
+
+    lista.listOrderStatus = "ALL_DONE";
+    lista.transactionTime = this.reloj();
+    this.emitirEstadoLista(lista, "ALL_DONE");
+  }
+
+  private finalizarOrden(orden: OrdenSimulada, estado: "CANCELED" | "EXPIRED") {
+    orden.status = estado;
+    orden.updateTime = this.reloj();
+    this.emitirEjecucion(orden, estado);
+  }
+
+  private respuestaOrden(orden: OrdenSimulada): BinanceOrder {
+    const { updateTime, bloqueado, disparada, ...respuesta } = orden;
+    return respuesta;
+  }
+
+  private respuestaLista(lista: ListaSimulada): BinanceOrderList {
+    const ordenes = lista.orderIds.map((orderId) => this.ordenes.get(orderId)!);
+    return {
+      orderListId: lista.orderListId,
+      contingencyType: "OCO",
+      listStatusType: lista.listOrderStatus === "ALL_DONE" ? "ALL_DONE" : "EXEC_STARTED",
+      listOrderStatus: lista.listOrderStatus,
+      listClientOrderId: lista.listClientOrderId,
+      transactionTime: lista.transactionTime,
+      symbol: lista.symbol,
+      orders: ordenes.map((o) => ({
+        symbol: o.symbol,
+        orderId: o.orderId,
+        clientOrderId: o.clientOrderId,
+      })),
+      orderReports: ordenes.map((o) => {
+        const { fills, ...informe } = this.respuestaOrden(o);
+        return informe;
+      }),
+    };
+  }
+
+  /**
+   * Ejecuta una orden completa, usando el llenado programado si lo hay
+   */
+  private llenarOrden(orden: OrdenSimulada, importeBloqueado: number, precioBase: number, esMaker: boolean) {
+    const simbolo = this.simbolos.get(orden.symbol)!;
+    const cantidad = parseFloat(orden.origQty);
+    const comision = esMaker ? this.comisionMaker : this.comisionTaker;
+    const partes = this.llenadosProgramados.get(orden.symbol)?.shift() || [{ precio: precioBase }];
+    const precioActivoComision = this.activoComision
+      ? this.obtenerPrecio(`${this.activoComision}${simbolo.quoteAsset}`)
+      : undefined;
+
+    let restante = cantidad;
+    let totalQuote = 0;
+    let totalBase = 0;
+
+    partes.forEach((parte, i) => {
+      const esUltima = i === partes.length - 1;
+      const qty = esUltima ? restante : Math.min(restante, cantidad * (parte.proporcion ?? 1));
+      if (qty <= 0) return;
+      restante -= qty;
+
+      const quoteQty = qty * parte.precio;
+      // Binance cobra la comisión de compra en el activo base y la de venta en
+      // el quote, salvo que se pague con otro activo
+      let comisionImporte = orden.side === "BUY" ? qty * comision : quoteQty * comision;
+      let comisionAsset = orden.side === "BUY" ? simbolo.baseAsset : simbolo.quoteAsset;
+      if (this.activoComision && precioActivoComision) {
+        comisionImporte = (quoteQty * comision) / precioActivoComision;
+        comisionAsset = this.activoComision;
+      }
+
+      const trade = this.registrarTrade({
+        symbol: orden.symbol,
+        orderId: orden.orderId,
+        price: parte.precio.toFixed(8),
+        qty: qty.toFixed(8),
+        quoteQty: quoteQty.toFixed(8),
+        commission: comisionImporte.toFixed(8),
+        commissionAsset: comisionAsset,
+        isBuyer: orden.side === "BUY",
+        isMaker: esMaker,
+      });
+
+      orden.fills.push({
+        price: trade.price,
+        qty: trade.qty,
+        commission: trade.commission,
+        commissionAsset: trade.commissionAsset,
+        tradeId: trade.id,
+      });
+
+      totalQuote += quoteQty;
+      totalBase += qty;
+      this.emitirEjecucion(orden, "TRADE", trade, totalBase, totalQuote, restante <= 1e-12);
+    });
+
+    // Liquidar balances: liberar lo bloqueado y abonar lo recibido
+    const comisionEn = (asset: string) =>
+      orden.fills
+        .filter((f) => f.commissionAsset === asset)
+        .reduce((acc, f) => acc + parseFloat(f.commission), 0);
+    const activoRecibido = orden.side === "BUY" ? simbolo.baseAsset : simbolo.quoteAsset;
+    const totalComision = comisionEn(activoRecibido);
+    if (orden.side === "BUY") {
+      const quote = this.obtenerBalance(simbolo.quoteAsset);
+      this.establecerBalance(simbolo.quoteAsset, quote.free + importeBloqueado - totalQuote, quote.locked - importeBloqueado);
+      const base = this.obtenerBalance(simbolo.baseAsset);
+      this.establecerBalance(simbolo.baseAsset, base.free + totalBase - totalComision, base.locked);
+    } else {
+      const base = this.obtenerBalance(simbolo.baseAsset);
+      this.establecerBalance(simbolo.baseAsset, base.free + importeBloqueado - totalBase, base.locked - importeBloqueado);
+      const quote = this.obtenerBalance(simbolo.quoteAsset);
+      this.establecerBalance(simbolo.quoteAsset, quote.free + totalQuote - totalComision, quote.locked);
+    }
+    if (this.activoComision && this.activoComision !== activoRecibido && comisionEn(this.activoComision) > 0) {
+      const pago = this.obtenerBalance(this.activoComision);
+      this.establecerBalance(this.activoComision, pago.free - comisionEn(this.activoComision), pago.locked);
+    }
+
+    orden.executedQty = totalBase.toFixed(8);
+    orden.cummulativeQuoteQty = totalQuote.toFixed(8);
+    orden.status = "FILLED";
+    orden.updateTime = this.reloj();
+
+    this.emitirEventoUsuario({
+      e: "outboundAccountPosition",
+      E: this.reloj(),
+      u: this.reloj(),
+      B: [simbolo.baseAsset, simbolo.quoteAsset].map((asset) => {
+        const balance = this.obtenerBalance(asset);
+        return { a: asset, f: balance.free.toFixed(8), l: balance.locked.toFixed(8) };
+      }),
+    });
+  }
+
+  /**
+   * executionReport de una orden (alta o fill)
+   */
+  private emitirEjecucion(
+    orden: OrdenSimulada,
+    tipo: "NEW" | "TRADE" | "CANCELED" | "EXPIRED",
+    trade?: BinanceTrade,
+    acumulado: number = 0,
+    acumuladoQuote: number = 0,
+    completa: boolean = false
+  ) {
+    this.emitirEventoUsuario({
+      e: "executionReport",
+      E: this.reloj(),
+      s: orden.symbol,
+      c: orden.clientOrderId,
+      S: orden.side,
+      o: orden.type,
+      q: orden.origQty,
+      p: orden.price,
+      x: tipo,
+      X: tipo !== "TRADE" ? tipo : completa ? "FILLED" : "PARTIALLY_FILLED",
+      i: orden.orderId,
+      l: trade?.qty || "0.00000000",
+      z: acumulado.toFixed(8),
+      L: trade?.price || "0.00000000",
+      n: trade?.commission || "0",
+      N: trade?.commissionAsset || null,
+      T: trade?.time || orden.transactTime,
+      t: trade?.id ?? -1,
+      m: trade?.isMaker || false,
+      Z: acumuladoQuote.toFixed(8),
+      Y: trade?.quoteQty || "0.00000000",
+      g: orden.orderListId,
+      P: orden.stopPrice || "0.00000000",
+    });
+  }
+
+  private emitirEstadoLista(lista: ListaSimulada, estado: "EXEC_STARTED" | "ALL_DONE") {
+    this.emitirEventoUsuario({
+      e: "listStatus",
+      E: this.reloj(),
+      s: lista.symbol,
+      g: lista.orderListId,
+      c: "OCO",
+      l: estado,
+      L: lista.listOrderStatus,
+      r: "NONE",
+      C: lista.listClientOrderId,
+      T: lista.transactionTime,
+      O: lista.orderIds.map((orderId) => ({
+        s: lista.symbol,
+        i: orderId,
+        c: this.ordenes.get(orderId)!.clientOrderId,
+      })),
+    });
+  }
+
+  /**
+   * Con el nuevo precio: dispara las condicionales que tocan su stop y
+   * llena las órdenes con límite que cruzan
+   */
+  private procesarOrdenesAbiertas(symbol: string) {
+    const precio = this.obtenerPrecio(symbol);
+    if (precio === undefined) return;
+
+    this.ordenes.forEach((orden) => {
+      // La otra pata de una OCO puede haber caducado en esta misma pasada
+      if (orden.symbol !== symbol || orden.status !== "NEW") return;
+
+      if (esCondicional(orden.type) && !orden.disparada) {
+        if (!this.saltaStop(orden.type, orden.side, parseFloat(orden.stopPrice!), precio)) return;
+
+        orden.disparada = true;
+        orden.workingTime = this.reloj();
+        // Sin límite se ejecuta a mercado en cuanto salta
+        if (!conLimite(orden.type)) {
+          return this.ejecutarOrden(orden, precio, false);
+        }
+      }
+
+      if (this.cruzaLimite(orden, precio)) {
+        this.ejecutarOrden(orden, parseFloat(orden.price), true);
+      }
+    });
+  }
+
+  // ===========================================================================
+  // FILTROS
+  // ===========================================================================
+
+  private filtrosDe(simbolo: SimboloSimulado): Record<string, any> {
+    return (simbolo.filters || []).reduce((acc: Record<string, any>, filtro) => {
+      acc[filtro.filterType] = filtro;
+      return acc;
+    }, {});
+  }
+
+  private redondearPaso(valor: number, paso: number): number {
+    if (!paso) return valor;
+    return Math.floor(valor / paso + 1e-9) * paso;
+  }
+
+  private validarFiltros(filtros: Record<string, any>, cantidad: number, precio: number): ErrorSimulado | null {
+    const lot = filtros.LOT_SIZE;
+    if (lot) {
+      const minQty = parseFloat(lot.minQty);
+      const stepSize = parseFloat(lot.stepSize);
+      const pasos = stepSize ? (cantidad - minQty) / stepSize : 0;
+      if (
+        cantidad < minQty ||
+        cantidad > parseFloat(lot.maxQty) ||
+        (stepSize && Math.abs(pasos - Math.round(pasos)) > 1e-6)
+      ) {
+        return { status: 400, code: -1013, msg: "Filter failure: LOT_SIZE" };
+      }
+    }
+
+    const notional = filtros.NOTIONAL || filtros.MIN_NOTIONAL;
+    if (notional && cantidad * precio < parseFloat(notional.minNotional)) {
+      return {
+        status: 400,
+        code: -1013,
+        msg: `Filter failure: ${filtros.NOTIONAL ? "NOTIONAL" : "MIN_NOTIONAL"}`,
+      };
+    }
+
+    return null;
+  }
+
+  // ===========================================================================
+  // SIMPLE EARN
+  // ===========================================================================
+
+  private valorEnUSDT(asset: string, cantidad: number): number {
+    if (STABLECOINS.includes(asset)) return cantidad;
+    const precio = this.obtenerPrecio(`${asset}USDT`) ?? this.obtenerPrecio(`${asset}USDC`);
+    return precio ? cantidad * precio : 0;
+  }
+
+  private earnCuenta(req: Request, res: Response) {
+    const total = (posiciones: Map<string, PosicionEarn>) =>
+      Array.from(posiciones.values()).reduce(
+        (acc, p) => acc + this.valorEnUSDT(p.asset, p.totalAmount),
+        0
+      );
+
+    const flexible = total(this.earnFlexible);
+    const bloqueado = total(this.earnBloqueado);
+    const precioBTC = this.obtenerPrecio("BTCUSDT");
+
+    const respuesta: Record<string, string> = {
+      totalAmountInUSDT: (flexible + bloqueado).toFixed(8),
+      totalFlexibleAmountInUSDT: flexible.toFixed(8),
+      totalLockedInUSDT: bloqueado.toFixed(8),
+    };
+
+    // Sin precio de BTC no se puede expresar en BTC
+    if (precioBTC) {
+      respuesta.totalAmountInBTC = ((flexible + bloqueado) / precioBTC).toFixed(8);
+      respuesta.totalFlexibleAmountInBTC = (flexible / precioBTC).toFixed(8);
+      respuesta.totalLockedInBTC = (bloqueado / precioBTC).toFixed(8);
+    }
+
+    res.json(respuesta);
+  }
+
+  /**
+   * Depósitos o retiros de un rango de como mucho 90 días (por defecto, los
+   * últimos 90), paginados con offset/limit
+   */
+  private historialCapital<T>(req: Request, res: Response, movimientos: T[], fecha: (m: T) => number) {
+    const params = this.leerParams(req);
+    const noventaDias = 90 * 86_400_000;
+    const endTime = params.endTime ? parseInt(params.endTime) : this.reloj();
+    const startTime = params.startTime ? parseInt(params.startTime) : endTime - noventaDias;
+    const offset = parseInt(params.offset || "0");
+    const limit = Math.min(parseInt(params.limit || "1000"), 1000);
+
+    if (endTime < startTime || endTime - startTime > noventaDias) {
+      return this.responderError(res, ERRORES.parametro);
+    }
+
+    const enRango = movimientos
+      .filter((m) => fecha(m) >= startTime && fecha(m) <= endTime)
+      .sort((a, b) => fecha(b) - fecha(a));
+
+    res.json(enRango.slice(offset, offset + limit));
+  }
+
+  private earnPosiciones(posiciones: Map<string, PosicionEarn>) {
+    const rows = Array.from(posiciones.values()).map((p) => ({
+      asset: p.asset,
+      totalAmount: p.totalAmount.toFixed(8),
+      ...(p.annualPercentageRate !== undefined && {
+        annualPercentageRate: p.annualPercentageRate.toString(),
+      }),
+      ...(p.projectId && { positionId: p.projectId, projectId: p.projectId }),
+    }));
+
+    return { rows, total: rows.length };
+  }
+
+  private earnPosicionesFlexibles(req: Request) {
+    const asset = this.leerParams(req).asset?.toUpperCase();
+    const { rows } = this.earnPosiciones(this.earnFlexible);
+    const filas = rows
+      .filter((p) => !asset || p.asset === asset)
+      .map((p) => ({
+        ...p,
+        productId: this.productosEarn.get(p.asset)?.productId,
+        canRedeem: this.productosEarn.get(p.asset)?.canRedeem ?? true,
+      }));
+
+    return { rows: filas, total: filas.length };
+  }
+
+  private earnProductos(req: Request, res: Response) {
+    const asset = this.leerParams(req).asset?.toUpperCase();
+    const rows = Array.from(this.productosEarn.values())
+      .filter((p) => !asset || p.asset === asset)
+      .map((p) => ({
+        asset: p.asset,
+        productId: p.productId,
+        latestAnnualPercentageRate: p.annualPercentageRate.toString(),
+        canPurchase: p.canPurchase,
+        canRedeem: p.canRedeem,
+        isSoldOut: p.isSoldOut,
+        minPurchaseAmount: p.minPurchaseAmount.toString(),
+        status: "PURCHASING",
+      }));
+
+    res.json({ rows, total: rows.length });
+  }
+
+  private productoEarnDePeticion(params: Record<string, string>): ProductoEarnSimulado | undefined {
+    return Array.from(this.productosEarn.values()).find((p) => p.productId === params.productId);
+  }
+
+  private earnSuscribir(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    const producto = this.productoEarnDePeticion(params);
+    const cantidad = parseFloat(params.amount);
+
+    if (!producto || !producto.canPurchase || producto.isSoldOut) {
+      return this.responderError(res, ERRORES.productoEarn);
+    }
+    if (!(cantidad > 0)) return this.responderError(res, ERRORES.parametro);
+    if (cantidad < producto.minPurchaseAmount) return this.responderError(res, ERRORES.minimoEarn);
+
+    const balance = this.obtenerBalance(producto.asset);
+    if (balance.free < cantidad) return this.responderError(res, ERRORES.balance);
+
+    this.establecerBalance(producto.asset, balance.free - cantidad, balance.locked);
+    this.earnFlexible.set(producto.asset, {
+      asset: producto.asset,
+      totalAmount: this.obtenerEarnFlexible(producto.asset) + cantidad,
+      annualPercentageRate: producto.annualPercentageRate,
+    });
+
+    res.json({ purchaseId: this.siguienteMovimientoId++, success: true });
+  }
+
+  private earnReembolsar(req: Request, res: Response) {
+    const params = this.leerParams(req);
+    const producto = this.productoEarnDePeticion(params);
+    if (!producto || !producto.canRedeem) return this.responderError(res, ERRORES.productoEarn);
+
+    const enEarn = this.obtenerEarnFlexible(producto.asset);
+    const cantidad = params.redeemAll === "true" ? enEarn : parseFloat(params.amount);
+    if (!(cantidad > 0)) return this.responderError(res, ERRORES.parametro);
+    if (cantidad > enEarn) return this.responderError(res, ERRORES.posicionEarn);
+
+    const restante = enEarn - cantidad;
+    if (restante > 0) {
+      this.earnFlexible.set(producto.asset, { ...this.earnFlexible.get(producto.asset)!, totalAmount: restante });
+    } else {
+      this.earnFlexible.delete(producto.asset);
+    }
+    const balance = this.obtenerBalance(producto.asset);
+    this.establecerBalance(producto.asset, balance.free + cantidad, balance.locked);
+
+    res.json({ redeemId: this.siguienteMovimientoId++, success: true });
+  }
+}
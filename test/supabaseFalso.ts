@@ -0,0 +1,316 @@
+// test/supabaseFalso.ts
+
+/**
+ * SUPABASE EN MEMORIA PARA LOS TESTS
+ *
+ * Sustituye a getSupabaseClient con tablas en memoria. Implementa la parte
+ * del query builder que usan los servicios (filtros, orden, range, insert,
+ * update, upsert, delete, single) y la función registrar_venta con las
+ * mismas comprobaciones que la migración: duplicada por orden y fill, lotes
+ * cambiados (40001) y todo o nada.
+ */
+
+import { mock } from "node:test";
+import * as supabase from "../src/lib/supabase";
+
+type Fila = Record<string, any>;
+type Resultado = { data: any; error: { message: string; code?: string } | null; count?: number };
+
+const TOLERANCIA_LOTE = 1e-9;
+
+class ConsultaFalsa implements PromiseLike<Resultado> {
+  private filtros: ((fila: Fila) => boolean)[] = [];
+  private orden: { campo: string; ascendente: boolean }[] = [];
+  private desde = 0;
+  private hasta: number | null = null;
+  private operacion: "select" | "insert" | "update" | "delete" = "select";
+  private datos: Fila | Fila[] | null = null;
+  private conflicto: string[] | null = null;
+
+  constructor(private readonly db: SupabaseFalso, private readonly tabla: string) {}
+
+  select(_columnas?: string, _opciones?: unknown) {
+    return this;
+  }
+  eq(campo: string, valor: unknown) {
+    this.filtros.push((f) => igual(f[campo], valor));
+    return this;
+  }
+  neq(campo: string, valor: unknown) {
+    this.filtros.push((f) => !igual(f[campo], valor));
+    return this;
+  }
+  in(campo: string, valores: unknown[]) {
+    this.filtros.push((f) => valores.some((v) => igual(f[campo], v)));
+    return this;
+  }
+  is(campo: string, valor: unknown) {
+    this.filtros.push((f) => (f[campo] ?? null) === valor);
+    return this;
+  }
+  gt(campo: string, valor: any) {
+    this.filtros.push((f) => f[campo] !== null && f[campo] > valor);
+    return this;
+  }
+  gte(campo: string, valor: any) {
+    this.filtros.push((f) => f[campo] !== null && f[campo] >= valor);
+    return this;
+  }
+  lt(campo: string, valor: any) {
+    this.filtros.push((f) => f[campo] !== null && f[campo] < valor);
+    return this;
+  }
+  lte(campo: string, valor: any) {
+    this.filtros.push((f) => f[campo] !== null && f[campo] <= valor);
+    return this;
+  }
+  ilike(campo: string, patron: string) {
+    const texto = patron
+      .split("%")
+      .map((parte) => parte.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    const expresion = new RegExp(`^${texto}$`, "i");
+    this.filtros.push((f) => f[campo] !== null && expresion.test(String(f[campo])));
+    return this;
+  }
+  order(campo: string, opciones: { ascending?: boolean } = {}) {
+    this.orden.push({ campo, ascendente: opciones.ascending ?? true });
+    return this;
+  }
+  range(desde: number, hasta: number) {
+    this.desde = desde;
+    this.hasta = hasta;
+    return this;
+  }
+  limit(n: number) {
+    this.hasta = this.desde + n - 1;
+    return this;
+  }
+
+  insert(filas: Fila | Fila[]) {
+    this.operacion = "insert";
+    this.datos = filas;
+    return this;
+  }
+  upsert(filas: Fila | Fila[], opciones: { onConflict?: string } = {}) {
+    this.operacion = "insert";
+    this.datos = filas;
+    this.conflicto = (opciones.onConflict || "id").split(",").map((c) => c.trim());
+    return this;
+  }
+  update(datos: Fila) {
+    this.operacion = "update";
+    this.datos = datos;
+    return this;
+  }
+  delete() {
+    this.operacion = "delete";
+    return this;
+  }
+
+  async single(): Promise<Resultado> {
+    const { data, error } = this.ejecutar();
+    if (error) return { data: null, error };
+    return data.length === 1
+      ? { data: data[0], error: null }
+      : { data: null, error: { message: `${data.length} filas`, code: "PGRST116" } };
+  }
+  async maybeSingle(): Promise<Resultado> {
+    const { data, error } = this.ejecutar();
+    if (error) return { data: null, error };
+    return { data: data[0] ?? null, error: null };
+  }
+
+  then<A = Resultado, B = never>(
+    resolver?: ((valor: Resultado) => A | PromiseLike<A>) | null,
+    rechazar?: ((motivo: unknown) => B | PromiseLike<B>) | null
+  ): Promise<A | B> {
+    const { data, error } = this.ejecutar();
+    return Promise.resolve({ data, error, count: data?.length ?? 0 }).then(
+      resolver,
+      rechazar
+    );
+  }
+
+  private seleccionar(): Fila[] {
+    let filas = this.db.filas(this.tabla).filter((f) => this.filtros.every((c) => c(f)));
+    if (this.orden.length > 0) {
+      filas = [...filas].sort((a, b) => {
+        for (const { campo, ascendente } of this.orden) {
+          if (a[campo] === b[campo]) continue;
+          return (a[campo] > b[campo] ? 1 : -1) * (ascendente ? 1 : -1);
+        }
+        return 0;
+      });
+    }
+    return filas.slice(this.desde, this.hasta === null ? undefined : this.hasta + 1);
+  }
+
+  private ejecutar(): { data: any; error: Resultado["error"] } {
+    const error = this.db.errorProgramado(this.tabla, this.operacion);
+    if (error) return { data: null, error };
+
+    const tabla = this.db.filas(this.tabla);
+    switch (this.operacion) {
+      case "select":
+        return { data: this.seleccionar().map((f) => ({ ...f })), error: null };
+      case "update": {
+        const filas = this.seleccionar();
+        filas.forEach((f) => Object.assign(f, this.datos));
+        return { data: filas.map((f) => ({ ...f })), error: null };
+      }
+      case "delete": {
+        const filas = this.seleccionar();
+        this.db.tablas[this.tabla] = tabla.filter((f) => !filas.includes(f));
+        return { data: filas, error: null };
+      }
+      case "insert": {
+        const nuevas = (Array.isArray(this.datos) ? this.datos : [this.datos!]).map(
+          (fila) => {
+            const existente = this.conflicto
+              ? tabla.find((f) => this.conflicto!.every((c) => igual(f[c], fila[c])))
+              : undefined;
+            if (existente) return Object.assign(existente, fila);
+
+            const nueva = { id: this.db.siguienteId(), ...fila };
+            tabla.push(nueva);
+            return nueva;
+          }
+        );
+        return { data: nuevas.map((f) => ({ ...f })), error: null };
+      }
+    }
+  }
+}
+
+// Los ids llegan a veces como texto desde las rutas
+function igual(a: unknown, b: unknown): boolean {
+  if (a === null || a === undefined || b === null || b === undefined) return a === b;
+  return String(a) === String(b);
+}
+
+export class SupabaseFalso {
+  tablas: Record<string, Fila[]> = {};
+  private id = 1;
+  private errores: Map<string, Resultado["error"]> = new Map();
+
+  filas(tabla: string): Fila[] {
+    if (!this.tablas[tabla]) this.tablas[tabla] = [];
+    return this.tablas[tabla];
+  }
+
+  siguienteId(): number {
+    return this.id++;
+  }
+
+  /**
+   * La siguiente operación sobre la tabla ("ventas" o "ventas:insert")
+   * devolverá este error
+   */
+  programarError(clave: string, mensaje: string): void {
+    this.errores.set(clave, { message: mensaje });
+  }
+
+  errorProgramado(tabla: string, operacion: string): Resultado["error"] {
+    for (const clave of [`${tabla}:${operacion}`, tabla]) {
+      const error = this.errores.get(clave);
+      if (error) {
+        this.errores.delete(clave);
+        return error;
+      }
+    }
+    return null;
+  }
+
+  from(tabla: string) {
+    return new ConsultaFalsa(this, tabla);
+  }
+
+  async rpc(nombre: string, argumentos: Record<string, any>): Promise<Resultado> {
+    if (nombre !== "registrar_venta") {
+      return { data: null, error: { message: `Función ${nombre} no simulada` } };
+    }
+    return this.registrarVenta(argumentos.p_venta, argumentos.p_partes, argumentos.p_tolerancia);
+  }
+
+  // Misma lógica que supabase/migrations/..._registrar_venta.sql
+  private registrarVenta(venta: Fila, partes: Fila[], tolerancia: number): Resultado {
+    const ventas = this.filas("ventas");
+    const compras = this.filas("compras");
+    const emparejamientos = this.filas("emparejamientosVenta");
+
+    if (venta.idOrden) {
+      const duplicada = ventas.find(
+        (v) =>
+          igual(v.idUsuario, venta.idUsuario) &&
+          v.simbolo === venta.simbolo &&
+          igual(v.idOrden, venta.idOrden) &&
+          (v.idFill ?? null) === (venta.idFill ?? null)
+      );
+      if (duplicada) {
+        return {
+          data: {
+            duplicada: true,
+            venta: duplicada,
+            emparejamientos: emparejamientos.filter((e) => e.idVenta === duplicada.id),
+            lotesCerrados: [],
+          },
+          error: null,
+        };
+      }
+    }
+
+    // Se comprueba todo antes de escribir: o se guarda entera o nada
+    const cambios = [];
+    for (const parte of partes) {
+      const lote = compras.find((c) => c.id === parte.idCompra);
+      if (!lote || lote.vendida) {
+        return { data: null, error: { message: `El lote ${parte.idCompra} ya no está abierto`, code: "40001" } };
+      }
+      const restante =
+        lote.cantidadRestante ??
+        Math.max(
+          lote.cantidad -
+            ventas
+              .filter((v) => v.idCompra === lote.id)
+              .reduce((suma, v) => suma + v.cantidadVendida, 0),
+          0
+        );
+      if (Math.abs(restante - parte.restante) > TOLERANCIA_LOTE) {
+        return { data: null, error: { message: `El lote ${lote.id} ha cambiado`, code: "40001" } };
+      }
+      cambios.push({ lote, nuevo: restante - parte.cantidad, parte });
+    }
+
+    const guardada = { id: this.siguienteId(), ...venta };
+    ventas.push(guardada);
+
+    const nuevos: Fila[] = [];
+    const cerrados: number[] = [];
+    for (const { lote, nuevo, parte } of cambios) {
+      const vendida = nuevo <= tolerancia;
+      lote.cantidadRestante = vendida ? 0 : nuevo;
+      lote.vendida = vendida;
+      if (vendida) cerrados.push(lote.id);
+
+      const emparejamiento = { id: this.siguienteId(), idVenta: guardada.id, ...parte.emparejamiento };
+      emparejamientos.push(emparejamiento);
+      nuevos.push(emparejamiento);
+    }
+
+    return {
+      data: { duplicada: false, venta: guardada, emparejamientos: nuevos, lotesCerrados: cerrados },
+      error: null,
+    };
+  }
+}
+
+/**
+ * Hace que getSupabaseClient devuelva un SupabaseFalso nuevo hasta que se
+ * llame a mock.restoreAll()
+ */
+export function instalarSupabaseFalso(): SupabaseFalso {
+  const db = new SupabaseFalso();
+  mock.method(supabase, "getSupabaseClient", () => db as any);
+  return db;
+}